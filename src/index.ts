@@ -1,13 +1,13 @@
 #!/usr/bin/env node
 
 import "dotenv/config";
+import {z} from "zod";
 import {McpServer} from "@modelcontextprotocol/sdk/server/mcp.js";
 import {StdioServerTransport} from "@modelcontextprotocol/sdk/server/stdio.js";
-import {DatabaseService} from "./services/database.js";
-import {MigrationParser} from "./services/migration-parser.js";
 import {SchemaAnalyzer} from "./services/schema-analyzer.js";
+import {ProfileRegistry, ProfileServices} from "./services/profile-registry.js";
 import {GeminiService} from "./services/gemini-service.js";
-import {ConfigLoader} from "./utils/config-loader.js";
+import {ConfigLoader, DEFAULT_PROFILE} from "./utils/config-loader.js";
 import {log} from "./utils/logger.js";
 import {analyzeSchema, analyzeSchemaSchema} from "./tools/analyze-schema.js";
 import {
@@ -18,6 +18,27 @@ import {
   compareSchemaMigrations,
   compareSchemaMigrationsSchema,
 } from "./tools/compare-schema.js";
+import {
+  generateMigrationFromDrift,
+  generateMigrationFromDriftSchema,
+} from "./tools/generate-migration-from-drift.js";
+import {
+  compareDatabases,
+  compareDatabasesSchema,
+} from "./tools/compare-databases.js";
+import {snapshotSchema, snapshotSchemaSchema} from "./tools/snapshot-schema.js";
+import {
+  compareSchemaSnapshots,
+  compareSchemaSnapshotsSchema,
+} from "./tools/compare-schema-snapshots.js";
+import {
+  planSchemaChanges,
+  planSchemaChangesSchema,
+} from "./tools/plan-schema-changes.js";
+import {
+  verifyMigrationReversibility,
+  verifyMigrationReversibilitySchema,
+} from "./tools/verify-migration-reversibility.js";
 import {
   generateMigration,
   generateMigrationSchema,
@@ -26,10 +47,36 @@ import {
   previewMigration,
   previewMigrationSchema,
 } from "./tools/preview-migration.js";
+import {
+  lintMigration,
+  lintMigrationSchema,
+} from "./tools/lint-migration.js";
+import {
+  listMigrationTemplates,
+  listMigrationTemplatesSchema,
+} from "./tools/list-migration-templates.js";
+import {
+  renderMigrationTemplate,
+  renderMigrationTemplateSchema,
+} from "./tools/render-migration-template.js";
+import {migrateUp, migrateUpSchema} from "./tools/migrate-up.js";
+import {migrateDown, migrateDownSchema} from "./tools/migrate-down.js";
+import {
+  migrateToVersion,
+  migrateToVersionSchema,
+} from "./tools/migrate-to-version.js";
 import {
   getDatabaseObjectDefinition,
   getDatabaseObjectDefinitionSchema,
 } from "./tools/get-database-object-definition.js";
+import {dumpSchemaDdl, dumpSchemaDdlSchema} from "./tools/dump-schema-ddl.js";
+import {analyzeObjectImpact, analyzeObjectImpactSchema} from "./tools/analyze-object-impact.js";
+import {generateErDiagram, generateErDiagramSchema} from "./tools/generate-er-diagram.js";
+import {generateTypeScriptTypes, generateTypeScriptTypesSchema} from "./tools/generate-typescript-types.js";
+import {exportSchemaModels, exportSchemaModelsSchema} from "./tools/export-schema-models.js";
+import {generateMigrationFromModel, generateMigrationFromModelSchema} from "./tools/generate-migration-from-model.js";
+import {generateSchemaDocs, generateSchemaDocsSchema} from "./tools/generate-schema-docs.js";
+import {lintSchema, lintSchemaSchema} from "./tools/lint-schema.js";
 import {
   executeSqlQuery,
   executeSqlQuerySchema,
@@ -65,33 +112,36 @@ async function main() {
       log.info("Configuration validation passed");
     }
 
-    let databaseService: DatabaseService | null = null;
-    let migrationParser: MigrationParser | null = null;
-    let schemaAnalyzer: SchemaAnalyzer | null = null;
+    const schemaAnalyzer = new SchemaAnalyzer();
     let geminiService: GeminiService | null = null;
 
-    // Only initialize database-dependent services if configuration is valid
+    // Database-bound services are created per profile on first use; the
+    // default profile is only available if its configuration is valid
+    const profiles = new ProfileRegistry(configLoader, validation.valid);
+    const profileNames = validation.valid ? profiles.getProfileNames() : [DEFAULT_PROFILE];
+
     if (validation.valid) {
-      log.info("Initializing database services");
-      databaseService = new DatabaseService(configLoader.getDatabaseConfig());
+      log.info("Initializing database services", {profiles: profileNames});
 
       // Test database connection
       try {
         log.info("Testing database connection");
-        await databaseService.connect();
+        await profiles.get().databaseService.connect();
         log.info("Database connection test successful");
       } catch (error) {
         log.error("Database connection test failed", error instanceof Error ? error : new Error(String(error)));
         log.warn("Server will continue but database-dependent tools may fail");
       }
-
-      migrationParser = new MigrationParser(
-        configLoader.getMigrationsConfig().directory
-      );
-      schemaAnalyzer = new SchemaAnalyzer();
       log.info("Database services initialized successfully");
     }
 
+    // Every tool accepts the profile to run against
+    const profileArgument = {
+      profile: z.string().optional().describe(
+        `Database profile to run against: ${profileNames.join(", ")} (default: ${DEFAULT_PROFILE})`
+      ),
+    };
+
     // Initialize Gemini service if configured
     if (configLoader.isGeminiEnabled()) {
       log.info("Initializing Gemini service");
@@ -117,24 +167,35 @@ async function main() {
       log.info("Gemini service not configured - schema summarization features disabled");
     }
 
-    // Initialize PostgREST tools if configured
-    let postgrestTools: {
+    // PostgREST tools are registered if any profile has an endpoint and are
+    // created per profile on first use, like the database services
+    const postgrestTools = new Map<string, {
       generateQuery: PostgRESTGenerateQueryTool;
       executeQuery: PostgRESTExecuteQueryTool;
       schemaInfo: PostgRESTSchemaInfoTool;
       testConnection: PostgRESTTestConnectionTool;
-    } | null = null;
-
-    if (configLoader.isPostgRESTEnabled() && databaseService) {
-      log.info("Initializing PostgREST tools");
-      const postgrestConfig = configLoader.getPostgRESTConfig()!;
-      postgrestTools = {
-        generateQuery: new PostgRESTGenerateQueryTool(databaseService),
-        executeQuery: new PostgRESTExecuteQueryTool(postgrestConfig),
-        schemaInfo: new PostgRESTSchemaInfoTool(databaseService),
-        testConnection: new PostgRESTTestConnectionTool(postgrestConfig),
-      };
-      log.info("PostgREST tools initialized successfully");
+    }>();
+    const postgrestEnabled = validation.valid && profileNames.some(
+      name => configLoader.getProfileConfig(name).postgrest !== null
+    );
+
+    function getPostgrestTools(services: ProfileServices) {
+      const name = services.profile.name;
+      if (!services.profile.postgrest) {
+        throw new Error(`PostgREST is not configured for profile "${name}"`);
+      }
+      let tools = postgrestTools.get(name);
+      if (!tools) {
+        log.info("Initializing PostgREST tools", {profile: name});
+        tools = {
+          generateQuery: new PostgRESTGenerateQueryTool(services.databaseService),
+          executeQuery: new PostgRESTExecuteQueryTool(services.profile.postgrest),
+          schemaInfo: new PostgRESTSchemaInfoTool(services.databaseService),
+          testConnection: new PostgRESTTestConnectionTool(services.profile.postgrest),
+        };
+        postgrestTools.set(name, tools);
+      }
+      return tools;
     }
 
     log.info("Creating MCP server");
@@ -150,20 +211,18 @@ async function main() {
       {
         title: "Analyze PostgreSQL Schema",
         description:
-          "Extract and analyze the current PostgreSQL database schema including tables, columns, indexes, constraints, enums, and functions. Optionally use Gemini AI for intelligent schema summarization to handle large databases.",
-        inputSchema: analyzeSchemaSchema.shape,
+          "Extract and analyze the current PostgreSQL database schema including tables, columns, indexes, constraints, enums, and functions. Optionally use Gemini AI for intelligent schema summarization to handle large databases, or analyze a schema snapshot file instead of the live database.",
+        inputSchema: {...analyzeSchemaSchema.shape, ...profileArgument},
       },
       async (input) => {
         const toolLogger = log.mcp("analyze_schema", input);
         toolLogger.info("analyze_schema called");
-        if (!databaseService) {
-          log.error("Database service not available");
-          throw new Error(
-            "Database service not available. Please check your database configuration."
-          );
-        }
         try {
           const parsedInput = analyzeSchemaSchema.parse(input);
+          // A snapshot file needs no connection
+          const databaseService = parsedInput.snapshotPath
+            ? undefined
+            : profiles.get(input.profile).databaseService;
           toolLogger.info("Executing analyze_schema");
           const result = await analyzeSchema(parsedInput, databaseService, geminiService);
           toolLogger.info("analyze_schema completed successfully");
@@ -188,14 +247,10 @@ async function main() {
         title: "Analyze Migration Files",
         description:
           "Parse and analyze existing dbmate migration files, showing migration history and validation results",
-        inputSchema: analyzeMigrationsSchema.shape,
+        inputSchema: {...analyzeMigrationsSchema.shape, ...profileArgument},
       },
       async (input) => {
-        if (!migrationParser || !databaseService) {
-          throw new Error(
-            "Migration parser or database service not available. Please check your configuration."
-          );
-        }
+        const {migrationParser, databaseService} = profiles.get(input.profile);
         const parsedInput = analyzeMigrationsSchema.parse(input);
         const result = await analyzeMigrations(
           parsedInput,
@@ -218,22 +273,16 @@ async function main() {
       {
         title: "Compare Schema with Migrations",
         description:
-          "Compare current database schema with applied migrations to detect schema drift",
-        inputSchema: compareSchemaMigrationsSchema.shape,
+          "Compare current database schema with applied migrations to detect schema drift. Use mode 'shadow' to apply the migrations to a temporary database and diff against it instead of interpreting the SQL",
+        inputSchema: {...compareSchemaMigrationsSchema.shape, ...profileArgument},
       },
       async (input) => {
-        if (!databaseService || !migrationParser || !schemaAnalyzer) {
-          throw new Error(
-            "Database service, migration parser, or schema analyzer not available. Please check your configuration."
-          );
-        }
+        const services = profiles.get(input.profile);
         const parsedInput = compareSchemaMigrationsSchema.parse(input);
-        const result = await compareSchemaMigrations(
-          parsedInput,
-          databaseService,
-          migrationParser,
-          schemaAnalyzer
-        );
+        if (parsedInput.mode === "shadow") {
+          profiles.assertWritable(services, "create a shadow database");
+        }
+        const result = await compareSchemaMigrations(parsedInput, services, schemaAnalyzer);
         return {
           content: [
             {
@@ -245,20 +294,247 @@ async function main() {
       }
     );
 
+    server.registerTool(
+      "generate_migration_from_drift",
+      {
+        title: "Generate Migration from Drift",
+        description:
+          "Turn detected schema drift into an ordered dbmate migration with up and down SQL, either to make the migrations match the database or to make the database match the migrations",
+        inputSchema: {...generateMigrationFromDriftSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("generate_migration_from_drift", input);
+        toolLogger.info("generate_migration_from_drift called");
+        try {
+          const services = profiles.get(input.profile);
+          const parsedInput = generateMigrationFromDriftSchema.parse(input);
+          const result = await generateMigrationFromDrift(parsedInput, services, schemaAnalyzer);
+          toolLogger.info("generate_migration_from_drift completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("generate_migration_from_drift failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "compare_databases",
+      {
+        title: "Compare Two Databases",
+        description:
+          "Introspect the databases of two profiles (for example staging and prod) and report how the target's schema differs from the source's, optionally with a migration that brings the target in line with the source",
+        inputSchema: compareDatabasesSchema.shape,
+      },
+      async (input) => {
+        const toolLogger = log.mcp("compare_databases", input);
+        toolLogger.info("compare_databases called");
+        try {
+          const parsedInput = compareDatabasesSchema.parse(input);
+          const result = await compareDatabases(
+            parsedInput,
+            profiles.get(parsedInput.source),
+            profiles.get(parsedInput.target),
+            schemaAnalyzer
+          );
+          toolLogger.info("compare_databases completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("compare_databases failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "snapshot_schema",
+      {
+        title: "Snapshot Schema",
+        description:
+          "Write the live schema to a versioned JSON snapshot file with a content hash, in a stable order so it can be committed and diffed in reviews; an unchanged schema leaves the file untouched",
+        inputSchema: {...snapshotSchemaSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("snapshot_schema", input);
+        toolLogger.info("snapshot_schema called");
+        try {
+          const parsedInput = snapshotSchemaSchema.parse(input);
+          const result = await snapshotSchema(parsedInput, profiles.get(input.profile));
+          toolLogger.info("snapshot_schema completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("snapshot_schema failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "compare_schema_snapshots",
+      {
+        title: "Compare Schema Snapshots",
+        description:
+          "Diff two schema snapshot files offline, or a snapshot against the live database, and report the schema drift between them",
+        inputSchema: {...compareSchemaSnapshotsSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("compare_schema_snapshots", input);
+        toolLogger.info("compare_schema_snapshots called");
+        try {
+          const parsedInput = compareSchemaSnapshotsSchema.parse(input);
+          // Only a comparison against the live database needs a connection
+          const databaseService = parsedInput.to
+            ? undefined
+            : profiles.get(input.profile).databaseService;
+          const result = await compareSchemaSnapshots(parsedInput, schemaAnalyzer, databaseService);
+          toolLogger.info("compare_schema_snapshots completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("compare_schema_snapshots failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "lint_migration",
+      {
+        title: "Lint Migration",
+        description:
+          "Flag migration statements by the lock they take and whether they rewrite the table (CREATE INDEX without CONCURRENTLY, volatile column defaults, column type changes, foreign keys without NOT VALID, SET NOT NULL, ...), each with a rule id and a safer alternative",
+        inputSchema: {...lintMigrationSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("lint_migration", input);
+        toolLogger.info("lint_migration called");
+        try {
+          const {migrationParser} = profiles.get(input.profile);
+          const parsedInput = lintMigrationSchema.parse(input);
+          const result = await lintMigration(parsedInput, migrationParser);
+          toolLogger.info("lint_migration completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("lint_migration failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "verify_migration_reversibility",
+      {
+        title: "Verify Migration Reversibility",
+        description:
+          "Round-trip migrations in a temporary shadow database: apply up, apply down and check the schema is back to where it started, then re-apply up and check it produces the same schema again",
+        inputSchema: {...verifyMigrationReversibilitySchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("verify_migration_reversibility", input);
+        toolLogger.info("verify_migration_reversibility called");
+        try {
+          const services = profiles.get(input.profile);
+          profiles.assertWritable(services, "create a shadow database");
+          const {migrationParser, shadowDatabase} = services;
+          const parsedInput = verifyMigrationReversibilitySchema.parse(input);
+          const result = await verifyMigrationReversibility(
+            parsedInput,
+            migrationParser,
+            schemaAnalyzer,
+            shadowDatabase
+          );
+          toolLogger.info("verify_migration_reversibility completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("verify_migration_reversibility failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "plan_schema_changes",
+      {
+        title: "Plan Schema Changes",
+        description:
+          "Load a directory of desired-state SQL files into a temporary database, diff it against the live database and generate an ordered dbmate migration that brings the live database to the desired state",
+        inputSchema: {...planSchemaChangesSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("plan_schema_changes", input);
+        toolLogger.info("plan_schema_changes called");
+        try {
+          const services = profiles.get(input.profile);
+          profiles.assertWritable(services, "create a scratch database");
+          const parsedInput = planSchemaChangesSchema.parse(input);
+          const result = await planSchemaChanges(parsedInput, services, schemaAnalyzer);
+          toolLogger.info("plan_schema_changes completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("plan_schema_changes failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
     server.registerTool(
       "generate_migration",
       {
         title: "Generate Migration File",
         description:
           "Create a new dbmate-compatible migration file with proper timestamp and up/down sections",
-        inputSchema: generateMigrationSchema.shape,
+        inputSchema: {...generateMigrationSchema.shape, ...profileArgument},
       },
       async (input) => {
-        if (!migrationParser) {
-          throw new Error(
-            "Migration parser not available. Please check your configuration."
-          );
-        }
+        const {migrationParser} = profiles.get(input.profile);
         const parsedInput = generateMigrationSchema.parse(input);
         const result = await generateMigration(parsedInput, migrationParser);
         return {
@@ -276,17 +552,38 @@ async function main() {
       "preview_migration",
       {
         title: "Preview Migration Content",
-        description: "Show generated migration content without saving to file",
-        inputSchema: previewMigrationSchema.shape,
+        description: "Show generated migration content without saving to file. With dryRun, also execute it on the live database inside a transaction that is always rolled back, reporting errors with their position, affected rows, new objects and the locks taken",
+        inputSchema: {...previewMigrationSchema.shape, ...profileArgument},
       },
       async (input) => {
-        if (!migrationParser) {
-          throw new Error(
-            "Migration parser not available. Please check your configuration."
-          );
-        }
+        const services = profiles.get(input.profile);
         const parsedInput = previewMigrationSchema.parse(input);
-        const result = await previewMigration(parsedInput, migrationParser);
+        if (parsedInput.dryRun || parsedInput.dryRunDown) {
+          profiles.assertWritable(services, "dry-run a migration");
+        }
+        const result = await previewMigration(parsedInput, services.migrationParser, services.databaseService);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    server.registerTool(
+      "list_migration_templates",
+      {
+        title: "List Migration Templates",
+        description:
+          "List the built-in migration templates (create_table, add_foreign_key, create_rls_policy, ...) with their variables, types and defaults",
+        inputSchema: {...listMigrationTemplatesSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const parsedInput = listMigrationTemplatesSchema.parse(input);
+        const result = await listMigrationTemplates(parsedInput);
         return {
           content: [
             {
@@ -298,24 +595,138 @@ async function main() {
       }
     );
 
+    server.registerTool(
+      "render_migration_template",
+      {
+        title: "Render Migration Template",
+        description:
+          "Validate variables against a migration template, render its up/down SQL as a dbmate migration and optionally save it to the migrations directory",
+        inputSchema: {...renderMigrationTemplateSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const {migrationParser} = profiles.get(input.profile);
+        const parsedInput = renderMigrationTemplateSchema.parse(input);
+        const result = await renderMigrationTemplate(parsedInput, migrationParser);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    server.registerTool(
+      "migrate_up",
+      {
+        title: "Apply Pending Migrations",
+        description:
+          "Apply pending dbmate migrations in version order, each in its own transaction unless the section declares transaction:false, and record them in the migrations table",
+        inputSchema: {...migrateUpSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("migrate_up", input);
+        toolLogger.info("migrate_up called");
+        try {
+          const services = profiles.get(input.profile);
+          profiles.assertWritable(services, "apply migrations");
+          const parsedInput = migrateUpSchema.parse(input);
+          const result = await migrateUp(parsedInput, services.migrationRunner);
+          toolLogger.info("migrate_up completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("migrate_up failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "migrate_down",
+      {
+        title: "Roll Back Migrations",
+        description:
+          "Roll back the most recently applied migrations by running their migrate:down sections and removing them from the migrations table",
+        inputSchema: {...migrateDownSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("migrate_down", input);
+        toolLogger.info("migrate_down called");
+        try {
+          const services = profiles.get(input.profile);
+          profiles.assertWritable(services, "roll back migrations");
+          const parsedInput = migrateDownSchema.parse(input);
+          const result = await migrateDown(parsedInput, services.migrationRunner);
+          toolLogger.info("migrate_down completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("migrate_down failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "migrate_to_version",
+      {
+        title: "Migrate to Version",
+        description:
+          "Apply or roll back migrations until the database is at the given version (use \"0\" to roll back everything)",
+        inputSchema: {...migrateToVersionSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("migrate_to_version", input);
+        toolLogger.info("migrate_to_version called");
+        try {
+          const services = profiles.get(input.profile);
+          profiles.assertWritable(services, "change the migration version");
+          const parsedInput = migrateToVersionSchema.parse(input);
+          const result = await migrateToVersion(parsedInput, services.migrationRunner);
+          toolLogger.info("migrate_to_version completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("migrate_to_version failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
     server.registerTool(
       "get_database_object_definition",
       {
         title: "Get Database Object Definition",
         description:
           "Get the complete definition of any PostgreSQL database object (views, tables, functions, triggers, RLS policies, enums, indexes, etc.)",
-        inputSchema: getDatabaseObjectDefinitionSchema.shape,
+        inputSchema: {...getDatabaseObjectDefinitionSchema.shape, ...profileArgument},
       },
       async (input) => {
         const toolLogger = log.mcp("get_database_object_definition", input);
         toolLogger.info("get_database_object_definition called");
-        if (!databaseService) {
-          log.error("Database service not available");
-          throw new Error(
-            "Database service not available. Please check your database configuration."
-          );
-        }
         try {
+          const {databaseService} = profiles.get(input.profile);
           const parsedInput = getDatabaseObjectDefinitionSchema.parse(input);
           toolLogger.info("Executing get_database_object_definition");
           const result = await getDatabaseObjectDefinition(parsedInput, databaseService);
@@ -335,24 +746,280 @@ async function main() {
       }
     );
 
+    server.registerTool(
+      "dump_schema_ddl",
+      {
+        title: "Dump Schema DDL",
+        description:
+          "Dump the whole database, or selected schemas, as a dependency-ordered SQL script, optionally saved as a dbmate baseline migration",
+        inputSchema: {...dumpSchemaDdlSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("dump_schema_ddl", input);
+        toolLogger.info("dump_schema_ddl called");
+        try {
+          const services = profiles.get(input.profile);
+          const parsedInput = dumpSchemaDdlSchema.parse(input);
+          const result = await dumpSchemaDdl(parsedInput, services);
+          toolLogger.info("dump_schema_ddl completed successfully");
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("dump_schema_ddl failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "analyze_object_impact",
+      {
+        title: "Analyze Object Impact",
+        description:
+          "List everything that depends on a table, column, view, type or function (views, functions, triggers, policies, foreign keys, indexes, generated columns) and what DROP with or without CASCADE would do",
+        inputSchema: {...analyzeObjectImpactSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("analyze_object_impact", input);
+        toolLogger.info("analyze_object_impact called");
+        try {
+          const services = profiles.get(input.profile);
+          const parsedInput = analyzeObjectImpactSchema.parse(input);
+          const result = await analyzeObjectImpact(parsedInput, services.databaseService);
+          toolLogger.info("analyze_object_impact completed successfully");
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("analyze_object_impact failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "generate_er_diagram",
+      {
+        title: "Generate ER Diagram",
+        description:
+          "Render tables, key columns and foreign key cardinalities as a Mermaid erDiagram, Graphviz DOT or PlantUML diagram, optionally limited to the neighbourhood of one table",
+        inputSchema: {...generateErDiagramSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("generate_er_diagram", input);
+        toolLogger.info("generate_er_diagram called");
+        try {
+          const parsedInput = generateErDiagramSchema.parse(input);
+          // A snapshot file needs no connection
+          const databaseService = parsedInput.snapshotPath
+            ? undefined
+            : profiles.get(input.profile).databaseService;
+          const result = await generateErDiagram(parsedInput, databaseService);
+          toolLogger.info("generate_er_diagram completed successfully");
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("generate_er_diagram failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "generate_typescript_types",
+      {
+        title: "Generate TypeScript Types",
+        description:
+          "Generate TypeScript Row/Insert/Update types for tables and views, enum unions, domain and composite types, function argument and return types, and matching zod schemas",
+        inputSchema: {...generateTypeScriptTypesSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("generate_typescript_types", input);
+        toolLogger.info("generate_typescript_types called");
+        try {
+          const parsedInput = generateTypeScriptTypesSchema.parse(input);
+          // A snapshot file needs no connection
+          const databaseService = parsedInput.snapshotPath
+            ? undefined
+            : profiles.get(input.profile).databaseService;
+          const result = await generateTypeScriptTypes(parsedInput, databaseService);
+          toolLogger.info("generate_typescript_types completed successfully");
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("generate_typescript_types failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "export_schema_models",
+      {
+        title: "Export Schema Models",
+        description:
+          "Export tables, enums, keys, indexes and foreign keys as a Prisma schema, Drizzle ORM module or DBML document, with a report of what the format cannot represent",
+        inputSchema: {...exportSchemaModelsSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("export_schema_models", input);
+        toolLogger.info("export_schema_models called");
+        try {
+          const parsedInput = exportSchemaModelsSchema.parse(input);
+          // A snapshot file needs no connection
+          const databaseService = parsedInput.snapshotPath
+            ? undefined
+            : profiles.get(input.profile).databaseService;
+          const result = await exportSchemaModels(parsedInput, databaseService);
+          toolLogger.info("export_schema_models completed successfully");
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("export_schema_models failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "generate_migration_from_model",
+      {
+        title: "Generate Migration from Model",
+        description:
+          "Read a DBML (dbdiagram.io) or Prisma schema, diff it against the live database or a snapshot, and write a dbmate migration with up and down SQL that brings the database to the model",
+        inputSchema: {...generateMigrationFromModelSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("generate_migration_from_model", input);
+        toolLogger.info("generate_migration_from_model called");
+        try {
+          const services = profiles.get(input.profile);
+          const parsedInput = generateMigrationFromModelSchema.parse(input);
+          const result = await generateMigrationFromModel(parsedInput, services, schemaAnalyzer);
+          toolLogger.info("generate_migration_from_model completed", { success: result.success });
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("generate_migration_from_model failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "generate_schema_docs",
+      {
+        title: "Generate Schema Docs",
+        description:
+          "Generate a data dictionary as Markdown or standalone HTML: an index page, a page per schema and per table with columns, constraints, indexes, foreign keys, triggers, RLS policies and grants, embedded ER diagrams, and a report of objects without a COMMENT ON",
+        inputSchema: {...generateSchemaDocsSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("generate_schema_docs", input);
+        toolLogger.info("generate_schema_docs called");
+        try {
+          const parsedInput = generateSchemaDocsSchema.parse(input);
+          // A snapshot file needs no connection
+          const databaseService = parsedInput.snapshotPath
+            ? undefined
+            : profiles.get(input.profile).databaseService;
+          const result = await generateSchemaDocs(parsedInput, databaseService);
+          toolLogger.info("generate_schema_docs completed successfully");
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("generate_schema_docs failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
+    server.registerTool(
+      "lint_schema",
+      {
+        title: "Lint Schema",
+        description:
+          "Check the schema against configurable rules: missing primary keys, foreign keys without an index, timestamp without time zone, varchar(n), serial, missing created_at/updated_at, naming conventions, nullable booleans and oversized enums. Returns findings with severity, or a SARIF log for code scanning",
+        inputSchema: {...lintSchemaSchema.shape, ...profileArgument},
+      },
+      async (input) => {
+        const toolLogger = log.mcp("lint_schema", input);
+        toolLogger.info("lint_schema called");
+        try {
+          const parsedInput = lintSchemaSchema.parse(input);
+          // A snapshot file needs no connection
+          const services = parsedInput.snapshotPath ? undefined : profiles.get(input.profile);
+          const result = await lintSchema(parsedInput, services);
+          toolLogger.info("lint_schema completed successfully");
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          toolLogger.error("lint_schema failed", error instanceof Error ? error : new Error(String(error)));
+          throw error;
+        }
+      }
+    );
+
     server.registerTool(
       "execute_sql_query",
       {
         title: "Execute SQL Query",
         description:
           "Execute SELECT queries and other read-only SQL commands safely with built-in security restrictions",
-        inputSchema: executeSqlQuerySchema.shape,
+        inputSchema: {...executeSqlQuerySchema.shape, ...profileArgument},
       },
       async (input) => {
         const toolLogger = log.mcp("execute_sql_query", input);
         toolLogger.info("execute_sql_query called");
-        if (!databaseService) {
-          log.error("Database service not available");
-          throw new Error(
-            "Database service not available. Please check your database configuration."
-          );
-        }
         try {
+          const {databaseService} = profiles.get(input.profile);
           const parsedInput = executeSqlQuerySchema.parse(input);
           toolLogger.info("Executing SQL query");
           const result = await executeSqlQuery(parsedInput, databaseService);
@@ -373,18 +1040,19 @@ async function main() {
     );
 
     // Register PostgREST tools if enabled
-    if (postgrestTools) {
+    if (postgrestEnabled) {
       server.registerTool(
         "postgrest_generate_query",
         {
           title: "Generate PostgREST Query",
           description:
             "Generate PostgREST API queries from natural language descriptions",
-          inputSchema: PostgRESTGenerateQuerySchema.shape,
+          inputSchema: {...PostgRESTGenerateQuerySchema.shape, ...profileArgument},
         },
         async (input) => {
+          const tools = getPostgrestTools(profiles.get(input.profile));
           const parsedInput = PostgRESTGenerateQuerySchema.parse(input);
-          const result = await postgrestTools!.generateQuery.execute(
+          const result = await tools.generateQuery.execute(
             parsedInput
           );
           return {
@@ -403,11 +1071,15 @@ async function main() {
         {
           title: "Execute PostgREST Query",
           description: "Execute PostgREST queries with Keycloak authentication",
-          inputSchema: PostgRESTExecuteQuerySchema.shape,
+          inputSchema: {...PostgRESTExecuteQuerySchema.shape, ...profileArgument},
         },
         async (input) => {
+          const services = profiles.get(input.profile);
           const parsedInput = PostgRESTExecuteQuerySchema.parse(input);
-          const result = await postgrestTools!.executeQuery.execute(
+          if (parsedInput.query.operation !== "SELECT" && !parsedInput.dryRun) {
+            profiles.assertWritable(services, `run a PostgREST ${parsedInput.query.operation}`);
+          }
+          const result = await getPostgrestTools(services).executeQuery.execute(
             parsedInput
           );
           return {
@@ -426,11 +1098,12 @@ async function main() {
         {
           title: "Get PostgREST Schema Info",
           description: "Get PostgREST schema information and API documentation",
-          inputSchema: PostgRESTSchemaInfoSchema.shape,
+          inputSchema: {...PostgRESTSchemaInfoSchema.shape, ...profileArgument},
         },
         async (input) => {
+          const tools = getPostgrestTools(profiles.get(input.profile));
           const parsedInput = PostgRESTSchemaInfoSchema.parse(input);
-          const result = await postgrestTools!.schemaInfo.execute(parsedInput);
+          const result = await tools.schemaInfo.execute(parsedInput);
           return {
             content: [
               {
@@ -447,11 +1120,12 @@ async function main() {
         {
           title: "Test PostgREST Connection",
           description: "Test PostgREST connection and Keycloak authentication",
-          inputSchema: PostgRESTTestConnectionSchema.shape,
+          inputSchema: {...PostgRESTTestConnectionSchema.shape, ...profileArgument},
         },
         async (input) => {
+          const tools = getPostgrestTools(profiles.get(input.profile));
           const parsedInput = PostgRESTTestConnectionSchema.parse(input);
-          const result = await postgrestTools!.testConnection.execute(
+          const result = await tools.testConnection.execute(
             parsedInput
           );
           return {
@@ -475,17 +1149,13 @@ async function main() {
     // Handle cleanup on exit
     process.on("SIGINT", async () => {
       console.error("Received SIGINT, shutting down...");
-      if (databaseService) {
-        await databaseService.disconnect();
-      }
+      await profiles.disconnectAll();
       process.exit(0);
     });
 
     process.on("SIGTERM", async () => {
       console.error("Received SIGTERM, shutting down...");
-      if (databaseService) {
-        await databaseService.disconnect();
-      }
+      await profiles.disconnectAll();
       process.exit(0);
     });
 
@@ -1,4 +1,4 @@
-import {Client} from "pg";
+import {Pool, ClientBase, PoolClient, QueryResult} from "pg";
 import {DatabaseConfig} from "../types/config.js";
 import {log} from "../utils/logger.js";
 import {
@@ -25,28 +25,59 @@ import {
 } from "../types/schema.js";
 import {AppliedMigration} from "../types/migration.js";
 
+// Errors that mean the connection itself is gone rather than the query being wrong
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EPIPE",
+  "ETIMEDOUT",
+  "57P01", // admin_shutdown
+  "57P02", // crash_shutdown
+  "57P03", // cannot_connect_now
+  "08000", // connection_exception
+  "08003", // connection_does_not_exist
+  "08006", // connection_failure
+]);
+
+export function isConnectionError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as {code?: string}).code;
+  return (
+    (code !== undefined && CONNECTION_ERROR_CODES.has(code)) ||
+    /Connection terminated|connection is closed|Client has encountered a connection error/i.test(error.message)
+  );
+}
+
+export interface PoolStatus {
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+  healthy: boolean;
+  lastHealthCheck?: string;
+  lastError?: string;
+}
+
 export class DatabaseService {
-  private client: Client;
+  private pool: Pool | null = null;
   private connected = false;
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  private healthy = false;
+  private lastHealthCheck?: Date;
+  private lastError?: string;
 
-  constructor(private config: DatabaseConfig) {
-    this.client = new Client({
-      host: config.host,
-      port: config.port,
-      database: config.database,
-      user: config.user,
-      password: config.password,
-      ssl: config.ssl,
-    });
-  }
+  constructor(private config: DatabaseConfig) {}
 
   async connect(): Promise<void> {
     if (!this.connected) {
       try {
         const dbLogger = log.db("connect");
         dbLogger.info("Attempting to connect to database");
-        await this.client.connect();
+        await this.getPool().query("SELECT 1");
         this.connected = true;
+        this.healthy = true;
+        this.startHealthChecks();
         dbLogger.info("Database connected successfully");
       } catch (error) {
         const dbLogger = log.db("connect");
@@ -60,9 +91,102 @@ export class DatabaseService {
   }
 
   async disconnect(): Promise<void> {
-    if (this.connected) {
-      await this.client.end();
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+    if (this.pool) {
+      const pool = this.pool;
+      this.pool = null;
       this.connected = false;
+      await pool.end();
+    }
+  }
+
+  getPoolStatus(): PoolStatus {
+    return {
+      totalCount: this.pool?.totalCount ?? 0,
+      idleCount: this.pool?.idleCount ?? 0,
+      waitingCount: this.pool?.waitingCount ?? 0,
+      healthy: this.healthy,
+      lastHealthCheck: this.lastHealthCheck?.toISOString(),
+      lastError: this.lastError,
+    };
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      const poolConfig = this.config.pool;
+      this.pool = new Pool({
+        host: this.config.host,
+        port: this.config.port,
+        database: this.config.database,
+        user: this.config.user,
+        password: this.config.password,
+        ssl: this.config.ssl,
+        max: poolConfig?.max ?? 10,
+        idleTimeoutMillis: poolConfig?.idleTimeoutMillis ?? 30000,
+        connectionTimeoutMillis: poolConfig?.connectionTimeoutMillis ?? 10000,
+        keepAlive: true,
+        ...(this.config.readOnly ? {options: "-c default_transaction_read_only=on"} : {}),
+      });
+
+      // An idle client losing its connection is removed from the pool by pg;
+      // without a listener the error would crash the process
+      this.pool.on("error", (error) => {
+        this.healthy = false;
+        this.lastError = error.message;
+        log.db("pool").warn("Idle database connection failed and was discarded", {error: error.message});
+      });
+    }
+    return this.pool;
+  }
+
+  private startHealthChecks(): void {
+    const interval = this.config.pool?.healthCheckIntervalMillis ?? 30000;
+    if (this.healthCheckTimer || interval <= 0) {
+      return;
+    }
+
+    this.healthCheckTimer = setInterval(() => {
+      this.checkHealth().catch(() => undefined);
+    }, interval);
+    // The health check alone should not keep the MCP process running
+    this.healthCheckTimer.unref();
+  }
+
+  async checkHealth(): Promise<boolean> {
+    this.lastHealthCheck = new Date();
+    try {
+      await this.getPool().query("SELECT 1");
+      if (!this.healthy) {
+        log.db("health").info("Database connection restored");
+      }
+      this.healthy = true;
+      this.lastError = undefined;
+    } catch (error) {
+      this.healthy = false;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      log.db("health").warn("Database health check failed", {error: this.lastError});
+    }
+    return this.healthy;
+  }
+
+  /**
+   * Runs a catalog query on any pooled connection. These queries only read, so
+   * one that fails because its connection died is retried on a fresh one.
+   */
+  private async query(text: string, params?: any[]): Promise<QueryResult<any>> {
+    try {
+      return await this.getPool().query(text, params);
+    } catch (error) {
+      if (!isConnectionError(error)) {
+        throw error;
+      }
+      log.db("query").warn("Database connection lost, retrying on a new connection", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.getPool().query(text, params);
     }
   }
 
@@ -77,10 +201,16 @@ export class DatabaseService {
         SELECT 
           t.table_schema,
           t.table_name,
-          obj_description(c.oid) as table_comment
+          obj_description(c.oid) as table_comment,
+          (
+            SELECT pg_get_partkeydef(pc.oid)
+            FROM pg_class pc
+            JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+            WHERE pn.nspname = t.table_schema AND pc.relname = t.table_name AND pc.relkind = 'p'
+          ) as partition_key
         FROM information_schema.tables t
-        LEFT JOIN pg_class c ON c.relname = t.table_name
-        LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = t.table_schema
+        LEFT JOIN pg_namespace n ON n.nspname = t.table_schema
+        LEFT JOIN pg_class c ON c.relname = t.table_name AND c.relnamespace = n.oid
         WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
           AND t.table_type = 'BASE TABLE'
       ),
@@ -100,12 +230,16 @@ export class DatabaseService {
               'characterMaximumLength', c.character_maximum_length,
               'numericPrecision', c.numeric_precision,
               'numericScale', c.numeric_scale,
+              'udtName', c.udt_name,
+              'domainName', c.domain_name,
+              'isIdentity', c.is_identity = 'YES',
+              'identityGeneration', c.identity_generation,
               'comment', col_description(pgc.oid, c.ordinal_position)
             ) ORDER BY c.ordinal_position
           ) as columns
         FROM information_schema.columns c
-        LEFT JOIN pg_class pgc ON pgc.relname = c.table_name
-        LEFT JOIN pg_namespace pgn ON pgn.oid = pgc.relnamespace AND pgn.nspname = c.table_schema
+        LEFT JOIN pg_namespace pgn ON pgn.nspname = c.table_schema
+        LEFT JOIN pg_class pgc ON pgc.relname = c.table_name AND pgc.relnamespace = pgn.oid
         WHERE c.table_schema NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
         GROUP BY c.table_schema, c.table_name
       ),
@@ -128,6 +262,7 @@ export class DatabaseService {
         LEFT JOIN information_schema.key_column_usage kcu 
           ON tc.constraint_name = kcu.constraint_name 
           AND tc.table_schema = kcu.table_schema
+          AND tc.table_name = kcu.table_name
         LEFT JOIN information_schema.referential_constraints rc 
           ON tc.constraint_name = rc.constraint_name 
           AND tc.table_schema = rc.constraint_schema
@@ -138,10 +273,19 @@ export class DatabaseService {
           ON tc.constraint_name = cc.constraint_name 
           AND tc.table_schema = cc.constraint_schema
         WHERE tc.table_schema NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+          -- NOT NULL constraints (implicit, or named on PostgreSQL 18+) are already reported through isNullable
+          AND NOT (tc.constraint_type = 'CHECK' AND tc.constraint_name ~ '_not_null$' AND cc.check_clause ~ 'IS NOT NULL$')
         GROUP BY tc.table_schema, tc.table_name, tc.constraint_name, tc.constraint_type, 
                  rc.update_rule, rc.delete_rule, ccu.table_schema, ccu.table_name, 
                  cc.check_clause, tc.is_deferrable, tc.initially_deferred
       ),
+      -- Partitions copy their parent's foreign keys under the same name, and referential_constraints
+      -- has no table to tell the copies apart; keep one row per foreign key, preferring a resolved reference
+      unique_constraint_columns AS (
+        SELECT DISTINCT ON (table_schema, table_name, constraint_name) *
+        FROM constraint_columns
+        ORDER BY table_schema, table_name, constraint_name, referenced_table NULLS LAST
+      ),
       constraints_info AS (
         SELECT 
           table_schema,
@@ -158,10 +302,20 @@ export class DatabaseService {
               'onDelete', delete_rule,
               'checkClause', check_clause,
               'isDeferrable', is_deferrable = 'YES',
-              'isDeferred', initially_deferred = 'YES'
+              'isDeferred', initially_deferred = 'YES',
+              'definition', (
+                SELECT pg_get_constraintdef(pc.oid)
+                FROM pg_constraint pc
+                JOIN pg_class pcl ON pcl.oid = pc.conrelid
+                JOIN pg_namespace pn ON pn.oid = pcl.relnamespace
+                WHERE pc.conname = constraint_columns.constraint_name
+                  AND pn.nspname = constraint_columns.table_schema
+                  AND pcl.relname = constraint_columns.table_name
+                LIMIT 1
+              )
             )
           ) as constraints
-        FROM constraint_columns
+        FROM unique_constraint_columns constraint_columns
         GROUP BY table_schema, table_name
       ),
       index_columns AS (
@@ -173,16 +327,17 @@ export class DatabaseService {
           ix.indisprimary as is_primary,
           am.amname as method,
           pg_get_expr(ix.indpred, ix.indrelid) as condition,
-          array_agg(a.attname ORDER BY array_position(ix.indkey, a.attnum)) as columns
+          pg_get_indexdef(ix.indexrelid) as definition,
+          COALESCE(array_agg(a.attname ORDER BY array_position(ix.indkey, a.attnum)) FILTER (WHERE a.attname IS NOT NULL), '{}') as columns
         FROM pg_class t
         JOIN pg_index ix ON t.oid = ix.indrelid
         JOIN pg_class i ON i.oid = ix.indexrelid
         JOIN pg_am am ON i.relam = am.oid
-        JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+        LEFT JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
         JOIN pg_namespace n ON n.oid = t.relnamespace
         WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
         GROUP BY n.nspname, t.relname, i.relname, ix.indisunique, ix.indisprimary, 
-                 am.amname, ix.indpred, ix.indrelid
+                 am.amname, ix.indpred, ix.indrelid, ix.indexrelid
       ),
       indexes_info AS (
         SELECT 
@@ -201,6 +356,26 @@ export class DatabaseService {
         FROM index_columns
         GROUP BY table_schema, table_name
       ),
+      all_indexes_info AS (
+        SELECT json_agg(
+          json_build_object(
+            'name', index_name,
+            'tableName', table_name,
+            'schemaName', table_schema,
+            'isUnique', is_unique,
+            'isPrimary', is_primary,
+            'method', method,
+            'condition', condition,
+            'definition', definition,
+            'isConcurrent', false,
+            'columns', COALESCE((
+              SELECT json_agg(json_build_object('name', col, 'direction', 'ASC'))
+              FROM unnest(columns) AS col
+            ), '[]'::json)
+          ) ORDER BY table_schema, table_name, index_name
+        ) as indexes
+        FROM index_columns
+      ),
       enum_values AS (
         SELECT 
           n.nspname as schema_name,
@@ -232,13 +407,15 @@ export class DatabaseService {
             'comment', obj_description(c.oid),
             'isUpdatable', COALESCE(iv.is_updatable = 'YES', false),
             'checkOption', iv.check_option,
-            'isInsertableInto', COALESCE(iv.is_insertable_into = 'YES', false)
+            'isInsertableInto', COALESCE(iv.is_insertable_into = 'YES', false),
+            'columns', COALESCE(vc.columns, '[]'::json)
           )
         ) as views
         FROM pg_views v
-        LEFT JOIN pg_class c ON c.relname = v.viewname AND c.relkind = 'v'
-        LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = v.schemaname
+        LEFT JOIN pg_namespace n ON n.nspname = v.schemaname
+        LEFT JOIN pg_class c ON c.relname = v.viewname AND c.relkind = 'v' AND c.relnamespace = n.oid
         LEFT JOIN information_schema.views iv ON iv.table_schema = v.schemaname AND iv.table_name = v.viewname
+        LEFT JOIN columns_info vc ON vc.table_schema = v.schemaname AND vc.table_name = v.viewname
         WHERE v.schemaname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
       ),
       materialized_views_info AS (
@@ -249,12 +426,27 @@ export class DatabaseService {
             'definition', definition,
             'owner', matviewowner,
             'hasData', ispopulated,
-            'comment', obj_description(c.oid)
+            'comment', obj_description(c.oid),
+            -- information_schema leaves materialized views out
+            'columns', COALESCE((
+              SELECT json_agg(
+                json_build_object(
+                  'name', a.attname,
+                  'dataType', format_type(a.atttypid, a.atttypmod),
+                  'udtName', t.typname,
+                  'isNullable', NOT a.attnotnull,
+                  'ordinalPosition', a.attnum
+                ) ORDER BY a.attnum
+              )
+              FROM pg_attribute a
+              JOIN pg_type t ON t.oid = a.atttypid
+              WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+            ), '[]'::json)
           )
         ) as materialized_views
         FROM pg_matviews mv
-        LEFT JOIN pg_class c ON c.relname = mv.matviewname
-        LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = mv.schemaname
+        LEFT JOIN pg_namespace n ON n.nspname = mv.schemaname
+        LEFT JOIN pg_class c ON c.relname = mv.matviewname AND c.relnamespace = n.oid
         WHERE mv.schemaname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
       ),
       functions_info AS (
@@ -264,13 +456,21 @@ export class DatabaseService {
             'name', p.proname,
             'returnType', pg_get_function_result(p.oid),
             'arguments', pg_get_function_arguments(p.oid),
+            'identityArguments', pg_get_function_identity_arguments(p.oid),
             'language', l.lanname,
             'definition', CASE 
               WHEN l.lanname = 'sql' THEN p.prosrc
               WHEN l.lanname = 'plpgsql' THEN p.prosrc
               ELSE p.prosrc
             END,
-            'fullDefinition', pg_get_functiondef(p.oid),
+            -- pg_get_functiondef raises an error for aggregates
+            'fullDefinition', CASE WHEN p.prokind IN ('f', 'p') THEN pg_get_functiondef(p.oid) END,
+            'extension', (
+              SELECT e.extname
+              FROM pg_depend d
+              JOIN pg_extension e ON e.oid = d.refobjid
+              WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+            ),
             'volatility', CASE p.provolatile
               WHEN 'i' THEN 'IMMUTABLE'
               WHEN 's' THEN 'STABLE'
@@ -368,19 +568,191 @@ export class DatabaseService {
           json_build_object(
             'schema', schemaname,
             'name', sequencename,
-            'dataType', data_type,
-            'startValue', start_value,
-            'minValue', min_value,
-            'maxValue', max_value,
-            'increment', increment_by,
+            'dataType', data_type::text,
+            -- json numbers would lose precision above 2^53
+            'startValue', start_value::text,
+            'minValue', min_value::text,
+            'maxValue', max_value::text,
+            'increment', increment_by::text,
             'cycled', cycle,
-            'cacheSize', cache_size,
-            'owner', sequenceowner
-          )
+            'cacheSize', cache_size::text,
+            'owner', sequenceowner,
+            'ownedBy', (
+              SELECT tn.nspname || '.' || tc.relname || '.' || a.attname
+              FROM pg_depend d
+              JOIN pg_class tc ON tc.oid = d.refobjid
+              JOIN pg_namespace tn ON tn.oid = tc.relnamespace
+              JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+              WHERE d.classid = 'pg_class'::regclass
+                AND d.objid = format('%I.%I', schemaname, sequencename)::regclass
+                AND d.refclassid = 'pg_class'::regclass
+                AND d.deptype IN ('a', 'i')
+              LIMIT 1
+            )
+          ) ORDER BY schemaname, sequencename
         ) as sequences
         FROM pg_sequences
         WHERE schemaname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
       ),
+      partitions_info AS (
+        SELECT json_agg(
+          json_build_object(
+            'schema', n.nspname,
+            'name', c.relname,
+            'parentSchema', pn.nspname,
+            'parentName', pc.relname,
+            'bound', pg_get_expr(c.relpartbound, c.oid),
+            'isDefault', pg_get_expr(c.relpartbound, c.oid) = 'DEFAULT'
+          ) ORDER BY n.nspname, c.relname
+        ) as partitions
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        JOIN pg_inherits i ON i.inhrelid = c.oid
+        JOIN pg_class pc ON pc.oid = i.inhparent
+        JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+        WHERE c.relispartition
+          AND c.relkind IN ('r', 'p')
+          AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+      ),
+      domains_info AS (
+        SELECT json_agg(
+          json_build_object(
+            'schema', n.nspname,
+            'name', t.typname,
+            'baseType', format_type(t.typbasetype, t.typtypmod),
+            'notNull', t.typnotnull,
+            'defaultValue', t.typdefault,
+            'collation', (
+              SELECT co.collname FROM pg_collation co
+              WHERE co.oid = t.typcollation AND t.typcollation <> bt.typcollation
+            ),
+            'constraints', COALESCE((
+              SELECT json_agg(
+                json_build_object('name', con.conname, 'definition', pg_get_constraintdef(con.oid))
+                ORDER BY con.conname
+              )
+              FROM pg_constraint con
+              WHERE con.contypid = t.oid AND con.contype = 'c'
+            ), '[]'::json),
+            'comment', obj_description(t.oid, 'pg_type')
+          ) ORDER BY n.nspname, t.typname
+        ) as domains
+        FROM pg_type t
+        JOIN pg_namespace n ON n.oid = t.typnamespace
+        JOIN pg_type bt ON bt.oid = t.typbasetype
+        WHERE t.typtype = 'd'
+          AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+      ),
+      composite_types_info AS (
+        SELECT json_agg(
+          json_build_object(
+            'schema', n.nspname,
+            'name', t.typname,
+            'attributes', COALESCE((
+              SELECT json_agg(
+                json_build_object(
+                  'name', a.attname,
+                  'dataType', format_type(a.atttypid, a.atttypmod),
+                  'ordinalPosition', a.attnum
+                ) ORDER BY a.attnum
+              )
+              FROM pg_attribute a
+              WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+            ), '[]'::json),
+            'comment', obj_description(t.oid, 'pg_type')
+          ) ORDER BY n.nspname, t.typname
+        ) as composite_types
+        FROM pg_type t
+        JOIN pg_namespace n ON n.oid = t.typnamespace
+        -- Standalone composite types only; every table also has a row type
+        JOIN pg_class c ON c.oid = t.typrelid AND c.relkind = 'c'
+        WHERE t.typtype = 'c'
+          AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+      ),
+      grant_rows AS (
+        SELECT
+          CASE c.relkind
+            WHEN 'v' THEN 'view'
+            WHEN 'm' THEN 'materialized_view'
+            WHEN 'S' THEN 'sequence'
+            ELSE 'table'
+          END as object_type,
+          n.nspname as object_schema,
+          c.relname as object_name,
+          NULL::name as column_name,
+          acl.grantee,
+          acl.privilege_type,
+          acl.is_grantable
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        CROSS JOIN LATERAL aclexplode(c.relacl) acl
+        WHERE c.relkind IN ('r', 'p', 'v', 'm', 'S', 'f')
+          AND acl.grantee <> c.relowner
+          AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        UNION ALL
+        SELECT 'table', n.nspname, c.relname, a.attname, acl.grantee, acl.privilege_type, acl.is_grantable
+        FROM pg_attribute a
+        JOIN pg_class c ON c.oid = a.attrelid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        CROSS JOIN LATERAL aclexplode(a.attacl) acl
+        WHERE a.attacl IS NOT NULL
+          AND acl.grantee <> c.relowner
+          AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        UNION ALL
+        SELECT 'function', n.nspname, p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')',
+               NULL, acl.grantee, acl.privilege_type, acl.is_grantable
+        FROM pg_proc p
+        JOIN pg_namespace n ON n.oid = p.pronamespace
+        CROSS JOIN LATERAL aclexplode(p.proacl) acl
+        WHERE acl.grantee <> p.proowner
+          AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+        UNION ALL
+        SELECT 'schema', n.nspname, '', NULL, acl.grantee, acl.privilege_type, acl.is_grantable
+        FROM pg_namespace n
+        CROSS JOIN LATERAL aclexplode(n.nspacl) acl
+        WHERE acl.grantee <> n.nspowner
+          AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+          AND n.nspname NOT LIKE 'pg\\_%'
+      ),
+      grants_info AS (
+        SELECT json_agg(
+          json_build_object(
+            'objectType', object_type,
+            'schema', object_schema,
+            'name', object_name,
+            'column', column_name,
+            'grantee', CASE WHEN grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(grantee) END,
+            'privilege', privilege_type,
+            'isGrantable', is_grantable
+          ) ORDER BY object_schema, object_name, column_name NULLS FIRST, grantee, privilege_type
+        ) as grants
+        FROM grant_rows
+      ),
+      roles_info AS (
+        SELECT json_agg(
+          json_build_object(
+            'name', r.rolname,
+            'canLogin', r.rolcanlogin,
+            'isSuperuser', r.rolsuper,
+            'canCreateDb', r.rolcreatedb,
+            'canCreateRole', r.rolcreaterole,
+            'inherit', r.rolinherit,
+            'bypassRls', r.rolbypassrls,
+            'replication', r.rolreplication,
+            'connectionLimit', r.rolconnlimit,
+            'validUntil', r.rolvaliduntil,
+            'memberOf', ARRAY(
+              SELECT g.rolname FROM pg_auth_members m
+              JOIN pg_roles g ON g.oid = m.roleid
+              WHERE m.member = r.oid
+              ORDER BY g.rolname
+            )
+          ) ORDER BY r.rolname
+        ) as roles
+        FROM pg_roles r
+        -- Predefined roles such as pg_read_all_data exist in every cluster
+        WHERE r.rolname NOT LIKE 'pg\\_%'
+      ),
       temp_tables_info AS (
         SELECT json_agg(
           json_build_object(
@@ -400,21 +772,23 @@ export class DatabaseService {
       )
       SELECT json_build_object(
         'tables', (
-          SELECT json_agg(
+          SELECT COALESCE(json_agg(
             json_build_object(
               'schema', t.table_schema,
               'name', t.table_name,
               'comment', t.table_comment,
+              'partitionKey', t.partition_key,
               'columns', COALESCE(c.columns, '[]'::json),
               'constraints', COALESCE(ct.constraints, '[]'::json),
               'indexes', COALESCE(i.indexes, '[]'::json)
             )
-          )
+          ), '[]'::json)
           FROM tables_info t
           LEFT JOIN columns_info c ON t.table_schema = c.table_schema AND t.table_name = c.table_name
           LEFT JOIN constraints_info ct ON t.table_schema = ct.table_schema AND t.table_name = ct.table_name
           LEFT JOIN indexes_info i ON t.table_schema = i.table_schema AND t.table_name = i.table_name
         ),
+        'indexes', (SELECT COALESCE(indexes, '[]'::json) FROM all_indexes_info),
         'enums', (SELECT COALESCE(enums, '[]'::json) FROM enums_info),
         'views', (SELECT COALESCE(views, '[]'::json) FROM views_info),
         'materializedViews', (SELECT COALESCE(materialized_views, '[]'::json) FROM materialized_views_info),
@@ -423,11 +797,16 @@ export class DatabaseService {
         'triggers', (SELECT COALESCE(triggers, '[]'::json) FROM triggers_info),
         'rlsPolicies', (SELECT COALESCE(rls_policies, '[]'::json) FROM rls_policies_info),
         'sequences', (SELECT COALESCE(sequences, '[]'::json) FROM sequences_info),
+        'partitions', (SELECT COALESCE(partitions, '[]'::json) FROM partitions_info),
+        'domains', (SELECT COALESCE(domains, '[]'::json) FROM domains_info),
+        'compositeTypes', (SELECT COALESCE(composite_types, '[]'::json) FROM composite_types_info),
+        'grants', (SELECT COALESCE(grants, '[]'::json) FROM grants_info),
+        'roles', (SELECT COALESCE(roles, '[]'::json) FROM roles_info),
         'temporaryTables', (SELECT COALESCE(temp_tables, '[]'::json) FROM temp_tables_info)
       ) as complete_schema;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
     const schema = result.rows[0].complete_schema;
 
     schemaLogger.info("Complete schema fetched successfully", {
@@ -440,6 +819,11 @@ export class DatabaseService {
       totalTriggers: schema.triggers?.length || 0,
       totalRLSPolicies: schema.rlsPolicies?.length || 0,
       totalSequences: schema.sequences?.length || 0,
+      totalPartitions: schema.partitions?.length || 0,
+      totalDomains: schema.domains?.length || 0,
+      totalCompositeTypes: schema.compositeTypes?.length || 0,
+      totalGrants: schema.grants?.length || 0,
+      totalRoles: schema.roles?.length || 0,
       totalTempTables: schema.temporaryTables?.length || 0
     });
 
@@ -453,14 +837,14 @@ export class DatabaseService {
         t.table_name,
         obj_description(c.oid) as table_comment
       FROM information_schema.tables t
-      LEFT JOIN pg_class c ON c.relname = t.table_name
-      LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = t.table_schema
+      LEFT JOIN pg_namespace n ON n.nspname = t.table_schema
+      LEFT JOIN pg_class c ON c.relname = t.table_name AND c.relnamespace = n.oid
       WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
         AND t.table_type = 'BASE TABLE'
       ORDER BY t.table_schema, t.table_name;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
 
     // const tableLogger = log.schema("getTables", result.rows.length);
     // tableLogger.info("Tables fetched successfully");
@@ -504,15 +888,18 @@ export class DatabaseService {
         c.character_maximum_length,
         c.numeric_precision,
         c.numeric_scale,
+        c.udt_name,
+        c.is_identity,
+        c.identity_generation,
         col_description(pgc.oid, c.ordinal_position) as column_comment
       FROM information_schema.columns c
-      LEFT JOIN pg_class pgc ON pgc.relname = c.table_name
-      LEFT JOIN pg_namespace pgn ON pgn.oid = pgc.relnamespace AND pgn.nspname = c.table_schema
+      LEFT JOIN pg_namespace pgn ON pgn.nspname = c.table_schema
+      LEFT JOIN pg_class pgc ON pgc.relname = c.table_name AND pgc.relnamespace = pgn.oid
       WHERE c.table_schema = $1 AND c.table_name = $2
       ORDER BY c.ordinal_position;
     `;
 
-    const result = await this.client.query(query, [schema, tableName]);
+    const result = await this.query(query, [schema, tableName]);
 
     return result.rows.map((row) => ({
       name: row.column_name,
@@ -525,6 +912,9 @@ export class DatabaseService {
       characterMaximumLength: row.character_maximum_length,
       numericPrecision: row.numeric_precision,
       numericScale: row.numeric_scale,
+      udtName: row.udt_name,
+      isIdentity: row.is_identity === "YES",
+      identityGeneration: row.identity_generation ?? undefined,
       comment: row.column_comment,
     }));
   }
@@ -560,12 +950,13 @@ export class DatabaseService {
         ON tc.constraint_name = cc.constraint_name 
         AND tc.table_schema = cc.constraint_schema
       WHERE tc.table_schema = $1 AND tc.table_name = $2
+        AND NOT (tc.constraint_type = 'CHECK' AND tc.constraint_name ~ '_not_null$' AND cc.check_clause ~ 'IS NOT NULL$')
       GROUP BY tc.constraint_name, tc.constraint_type, rc.update_rule, rc.delete_rule, 
                ccu.table_schema, ccu.table_name, cc.check_clause, tc.is_deferrable, tc.initially_deferred
       ORDER BY tc.constraint_name;
     `;
 
-    const result = await this.client.query(query, [schema, tableName]);
+    const result = await this.query(query, [schema, tableName]);
 
     return result.rows.map((row) => ({
       name: row.constraint_name,
@@ -590,19 +981,19 @@ export class DatabaseService {
         ix.indisprimary as is_primary,
         am.amname as method,
         pg_get_expr(ix.indpred, ix.indrelid) as condition,
-        array_agg(a.attname ORDER BY array_position(ix.indkey, a.attnum)) as columns
+        COALESCE(array_agg(a.attname ORDER BY array_position(ix.indkey, a.attnum)) FILTER (WHERE a.attname IS NOT NULL), '{}') as columns
       FROM pg_class t
       JOIN pg_index ix ON t.oid = ix.indrelid
       JOIN pg_class i ON i.oid = ix.indexrelid
       JOIN pg_am am ON i.relam = am.oid
-      JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+      LEFT JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
       JOIN pg_namespace n ON n.oid = t.relnamespace
       WHERE n.nspname = $1 AND t.relname = $2
       GROUP BY i.relname, ix.indisunique, ix.indisprimary, am.amname, ix.indpred, ix.indrelid
       ORDER BY i.relname;
     `;
 
-    const result = await this.client.query(query, [schema, tableName]);
+    const result = await this.query(query, [schema, tableName]);
 
     return result.rows.map((row) => ({
       name: row.index_name,
@@ -632,19 +1023,20 @@ export class DatabaseService {
         ix.indisprimary as is_primary,
         am.amname as method,
         pg_get_expr(ix.indpred, ix.indrelid) as condition,
-        array_agg(a.attname ORDER BY array_position(ix.indkey, a.attnum)) as columns
+        pg_get_indexdef(ix.indexrelid) as definition,
+        COALESCE(array_agg(a.attname ORDER BY array_position(ix.indkey, a.attnum)) FILTER (WHERE a.attname IS NOT NULL), '{}') as columns
       FROM pg_class t
       JOIN pg_index ix ON t.oid = ix.indrelid
       JOIN pg_class i ON i.oid = ix.indexrelid
       JOIN pg_am am ON i.relam = am.oid
-      JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+      LEFT JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
       JOIN pg_namespace n ON n.oid = t.relnamespace
       WHERE n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
-      GROUP BY i.relname, t.relname, n.nspname, ix.indisunique, ix.indisprimary, am.amname, ix.indpred, ix.indrelid
+      GROUP BY i.relname, t.relname, n.nspname, ix.indisunique, ix.indisprimary, am.amname, ix.indpred, ix.indrelid, ix.indexrelid
       ORDER BY n.nspname, t.relname, i.relname;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
 
     return result.rows.map((row) => ({
       name: row.index_name,
@@ -661,6 +1053,7 @@ export class DatabaseService {
       method: row.method,
       condition: row.condition,
       isConcurrent: false,
+      definition: row.definition,
     }));
   }
 
@@ -678,7 +1071,7 @@ export class DatabaseService {
       ORDER BY n.nspname, t.typname;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
 
     return result.rows.map((row) => ({
       schema: row.schema_name,
@@ -694,6 +1087,7 @@ export class DatabaseService {
         p.proname as function_name,
         pg_get_function_result(p.oid) as return_type,
         pg_get_function_arguments(p.oid) as arguments,
+        pg_get_function_identity_arguments(p.oid) as identity_arguments,
         l.lanname as language,
         p.prosrc as definition
       FROM pg_proc p
@@ -704,7 +1098,7 @@ export class DatabaseService {
       ORDER BY n.nspname, p.proname;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
 
     return result.rows.map((row) => ({
       schema: row.schema_name,
@@ -713,6 +1107,7 @@ export class DatabaseService {
       parameters: this.parseFunctionParameters(row.arguments),
       language: row.language,
       definition: row.definition,
+      identityArguments: row.identity_arguments,
     }));
   }
 
@@ -727,7 +1122,7 @@ export class DatabaseService {
       ORDER BY e.extname;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
 
     return result.rows.map((row) => ({
       name: row.extension_name,
@@ -738,12 +1133,12 @@ export class DatabaseService {
 
   async getAppliedMigrations(tableName: string): Promise<AppliedMigration[]> {
     try {
-      const query = `SELECT version, applied_at FROM ${tableName} ORDER BY applied_at`;
-      const result = await this.client.query(query);
+      const query = `SELECT * FROM ${tableName} ORDER BY version`;
+      const result = await this.query(query);
 
       return result.rows.map((row) => ({
-        version: row.version,
-        appliedAt: row.applied_at,
+        version: String(row.version),
+        appliedAt: row.applied_at ?? undefined,
       }));
     } catch (error) {
       return [];
@@ -785,13 +1180,13 @@ export class DatabaseService {
         obj_description(c.oid) as view_comment,
         v.definition LIKE '%INSTEAD OF%' as has_instead_of_triggers
       FROM pg_views v
-      LEFT JOIN pg_class c ON c.relname = v.viewname
-      LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = v.schemaname
+      LEFT JOIN pg_namespace n ON n.nspname = v.schemaname
+      LEFT JOIN pg_class c ON c.relname = v.viewname AND c.relnamespace = n.oid
       WHERE v.schemaname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
       ORDER BY v.schemaname, v.viewname;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
     const views: View[] = [];
 
     for (const row of result.rows) {
@@ -839,7 +1234,7 @@ export class DatabaseService {
       ORDER BY c.ordinal_position;
     `;
 
-    const result = await this.client.query(query, [schema, viewName]);
+    const result = await this.query(query, [schema, viewName]);
 
     return result.rows.map((row) => ({
       name: row.column_name,
@@ -856,28 +1251,43 @@ export class DatabaseService {
     schema: string,
     viewName: string
   ): Promise<ViewDependency[]> {
+    // A view's dependencies are recorded against its _RETURN rewrite rule, not the view itself
     const query = `
       SELECT DISTINCT
         n.nspname as dep_schema,
         c.relname as dep_name,
         CASE c.relkind
-          WHEN 'r' THEN 'table'
           WHEN 'v' THEN 'view'
-          WHEN 'f' THEN 'function'
-          ELSE 'other'
+          WHEN 'm' THEN 'view'
+          ELSE 'table'
         END as dep_type
-      FROM pg_depend d
-      JOIN pg_class c ON c.oid = d.refobjid
+      FROM pg_class vc
+      JOIN pg_namespace vn ON vn.oid = vc.relnamespace
+      JOIN pg_rewrite r ON r.ev_class = vc.oid
+      JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid
+      JOIN pg_class c ON d.refclassid = 'pg_class'::regclass AND c.oid = d.refobjid
       JOIN pg_namespace n ON n.oid = c.relnamespace
-      JOIN pg_class vc ON vc.oid = d.objid
+      WHERE vn.nspname = $1 AND vc.relname = $2
+        AND c.oid <> vc.oid
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
+      UNION
+      SELECT DISTINCT
+        n.nspname,
+        p.proname,
+        'function'
+      FROM pg_class vc
       JOIN pg_namespace vn ON vn.oid = vc.relnamespace
+      JOIN pg_rewrite r ON r.ev_class = vc.oid
+      JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid
+      JOIN pg_proc p ON d.refclassid = 'pg_proc'::regclass AND p.oid = d.refobjid
+      JOIN pg_namespace n ON n.oid = p.pronamespace
       WHERE vn.nspname = $1 AND vc.relname = $2
-        AND c.relkind IN ('r', 'v', 'f')
         AND n.nspname NOT IN ('information_schema', 'pg_catalog', 'pg_toast')
-      ORDER BY n.nspname, c.relname;
+      ORDER BY 1, 2;
     `;
 
-    const result = await this.client.query(query, [schema, viewName]);
+    const result = await this.query(query, [schema, viewName]);
 
     return result.rows.map((row) => ({
       type: row.dep_type as "table" | "view" | "function",
@@ -893,7 +1303,7 @@ export class DatabaseService {
       WHERE table_schema = $1 AND table_name = $2;
     `;
 
-    const result = await this.client.query(query, [schema, viewName]);
+    const result = await this.query(query, [schema, viewName]);
     return result.rows.length > 0 && result.rows[0].is_updatable === "YES";
   }
 
@@ -923,7 +1333,7 @@ export class DatabaseService {
       ORDER BY t.trigger_schema, t.event_object_table, t.trigger_name;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
 
     return result.rows.map((row) => ({
       schema: row.trigger_schema,
@@ -957,7 +1367,7 @@ export class DatabaseService {
       ORDER BY schemaname, tablename, policyname;
     `;
 
-    const result = await this.client.query(query);
+    const result = await this.query(query);
 
     return result.rows.map((row) => ({
       schema: row.schemaname,
@@ -994,7 +1404,7 @@ export class DatabaseService {
       ORDER BY grantee, privilege_type;
     `;
 
-    const result = await this.client.query(query, [schemaName, tableName]);
+    const result = await this.query(query, [schemaName, tableName]);
     return result.rows;
   }
 
@@ -1009,12 +1419,12 @@ export class DatabaseService {
         v.viewowner,
         obj_description(c.oid) as view_comment
       FROM pg_views v
-      LEFT JOIN pg_class c ON c.relname = v.viewname AND c.relkind = 'v'
-      LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = v.schemaname
+      LEFT JOIN pg_namespace n ON n.nspname = v.schemaname
+      LEFT JOIN pg_class c ON c.relname = v.viewname AND c.relkind = 'v' AND c.relnamespace = n.oid
       WHERE v.viewname = $1 AND v.schemaname = $2;
     `;
 
-    const result = await this.client.query(query, [viewName, schemaName]);
+    const result = await this.query(query, [viewName, schemaName]);
     
     if (result.rows.length === 0) {
       throw new Error(`View '${schemaName}.${viewName}' not found`);
@@ -1040,8 +1450,8 @@ export class DatabaseService {
             v.viewowner as owner,
             obj_description(c.oid) as comment
           FROM pg_views v
-          LEFT JOIN pg_class c ON c.relname = v.viewname AND c.relkind = 'v'
-          LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = v.schemaname
+          LEFT JOIN pg_namespace n ON n.nspname = v.schemaname
+          LEFT JOIN pg_class c ON c.relname = v.viewname AND c.relkind = 'v' AND c.relnamespace = n.oid
           WHERE v.viewname = $1 AND v.schemaname = $2;
         `;
         params = [objectName, schemaName];
@@ -1059,8 +1469,8 @@ export class DatabaseService {
             mv.ispopulated as is_populated,
             obj_description(c.oid) as comment
           FROM pg_matviews mv
-          LEFT JOIN pg_class c ON c.relname = mv.matviewname AND c.relkind = 'm'
-          LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = mv.schemaname
+          LEFT JOIN pg_namespace n ON n.nspname = mv.schemaname
+          LEFT JOIN pg_class c ON c.relname = mv.matviewname AND c.relkind = 'm' AND c.relnamespace = n.oid
           WHERE mv.matviewname = $1 AND mv.schemaname = $2;
         `;
         params = [objectName, schemaName];
@@ -1117,8 +1527,8 @@ export class DatabaseService {
             ) FROM information_schema.table_constraints tc 
              WHERE tc.table_schema = t.table_schema AND tc.table_name = t.table_name) as constraints
           FROM information_schema.tables t
-          LEFT JOIN pg_class c ON c.relname = t.table_name
-          LEFT JOIN pg_namespace n ON n.oid = c.relnamespace AND n.nspname = t.table_schema
+          LEFT JOIN pg_namespace n ON n.nspname = t.table_schema
+          LEFT JOIN pg_class c ON c.relname = t.table_name AND c.relnamespace = n.oid
           WHERE t.table_name = $1 AND t.table_schema = $2 AND t.table_type = 'BASE TABLE';
         `;
         params = [objectName, schemaName];
@@ -1234,7 +1644,7 @@ export class DatabaseService {
         throw new Error(`Unsupported object type: ${objectType}. Supported types: view, materialized_view, function, procedure, table, trigger, policy/rls, table_policies/table_rls, enum, index`);
     }
 
-    const result = await this.client.query(query, params);
+    const result = await this.query(query, params);
     
     if (result.rows.length === 0) {
       throw new Error(`${objectType} '${schemaName}.${objectName}' not found`);
@@ -1245,7 +1655,49 @@ export class DatabaseService {
 
   async executeQuery(query: string, params?: any[]): Promise<any> {
     await this.connect();
-    const result = await this.client.query(query, params);
-    return result;
+    // Not retried: the statement may have been applied before the connection dropped
+    return this.getPool().query(query, params);
+  }
+
+  /**
+   * Checks out a dedicated client for work that needs one session (transactions,
+   * long-running migrations) so quick lookups keep using the rest of the pool.
+   */
+  async withClient<T>(callback: (client: ClientBase) => Promise<T>): Promise<T> {
+    await this.connect();
+    const client: PoolClient = await this.getPool().connect();
+    let releaseError: Error | undefined;
+    try {
+      return await callback(client);
+    } catch (error) {
+      // A client whose connection broke must not go back into the pool
+      if (isConnectionError(error)) {
+        releaseError = error as Error;
+      }
+      throw error;
+    } finally {
+      client.release(releaseError);
+    }
+  }
+
+  async withTransaction<T>(callback: (client: ClientBase) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const result = await callback(client);
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        try {
+          await client.query("ROLLBACK");
+        } catch (rollbackError) {
+          log.db("rollback").error(
+            "Transaction rollback failed",
+            rollbackError instanceof Error ? rollbackError : new Error(String(rollbackError))
+          );
+        }
+        throw error;
+      }
+    });
   }
 }
@@ -0,0 +1,972 @@
+import {ClientBase} from "pg";
+import {DatabaseService} from "./database.js";
+import {DdlStatement, DdlStatementKind, ObjectDdl, SchemaDdlDump} from "../types/schema.js";
+import {
+  formatCreateEnum,
+  formatCreateExtension,
+  formatCreateRLSPolicy,
+  formatEnableRLS,
+  qualifiedName,
+  quoteIdentifier,
+} from "../utils/sql-formatter.js";
+
+const SYSTEM_SCHEMAS = ["pg_catalog", "information_schema", "pg_toast"];
+
+// $1 is an optional text[] of schemas; without it every non-system schema is included
+const SCHEMA_FILTER = `(
+  ($1::text[] IS NULL AND n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg\\_%')
+  OR n.nspname = ANY($1::text[])
+)`;
+
+const notExtensionMember = (catalog: string, oid: string) => `NOT EXISTS (
+  SELECT 1 FROM pg_depend ext
+  WHERE ext.classid = '${catalog}'::regclass AND ext.objid = ${oid} AND ext.deptype = 'e'
+)`;
+
+type RowTypeUse = "table" | "view";
+
+// Each section only depends on the ones before it. Functions taking or returning
+// a table or view row type can only be created once that relation exists.
+const DUMP_SECTIONS: {title: string; kinds: DdlStatementKind[]; rowType?: RowTypeUse}[] = [
+  {title: "Schemas", kinds: ["schema"]},
+  {title: "Extensions", kinds: ["extension"]},
+  {title: "Types", kinds: ["type"]},
+  {title: "Sequences", kinds: ["sequence"]},
+  {title: "Functions", kinds: ["function"]},
+  {title: "Tables", kinds: ["table", "sequence_ownership"]},
+  {title: "Foreign keys", kinds: ["foreign_key"]},
+  {title: "Functions using table row types", kinds: ["function"], rowType: "table"},
+  {title: "Views", kinds: ["view", "materialized_view"]},
+  {title: "Functions using view row types", kinds: ["function"], rowType: "view"},
+  {title: "Indexes", kinds: ["index"]},
+  {title: "Triggers", kinds: ["trigger"]},
+  {title: "Row level security", kinds: ["rls", "policy"]},
+  {title: "Grants", kinds: ["grant"]},
+  {title: "Comments", kinds: ["comment"]},
+];
+
+interface AclEntry {
+  grantee: string;
+  privilege_type: string;
+  is_grantable: boolean;
+  column?: string;
+}
+
+/**
+ * Rebuilds executable CREATE DDL for a single database object from the system
+ * catalogs, using PostgreSQL's own pg_get_*def functions wherever one exists.
+ * Statements come back in the order they have to run: sequences, the object
+ * itself, ownership, foreign keys, indexes, triggers, row level security,
+ * policies, grants and finally comments.
+ */
+export class DdlGenerator {
+  private session?: ClientBase;
+
+  constructor(private databaseService: DatabaseService) {}
+
+  async generate(objectName: string, objectType: string, schemaName: string = "public"): Promise<ObjectDdl> {
+    return this.inCatalogSession(() => this.generateObject(objectName, objectType, schemaName));
+  }
+
+  /**
+   * Dumps every user-defined object in the given schemas as one script. As in
+   * pg_dump, functions come before tables because defaults, checks and views
+   * may call them; their bodies are not validated until first use, so they may
+   * reference tables created further down. Only functions whose signature uses
+   * a table or view row type wait for that relation. Objects owned by
+   * extensions are left to CREATE EXTENSION.
+   */
+  async dumpSchemas(options: {schemas?: string[]; excludeTables?: string[]} = {}): Promise<SchemaDdlDump> {
+    const schemaFilter = options.schemas && options.schemas.length > 0 ? options.schemas : null;
+    // Ordered before the catalog session starts, since getViewDependencies runs on its own connection
+    const views = await this.viewsInDependencyOrder(schemaFilter);
+
+    return this.inCatalogSession(async () => {
+      const requires = new Set<string>();
+      const dumped = new Set<string>();
+      const statements: DdlStatement[] = [];
+
+      const schemas = (await this.rows(
+        `SELECT n.nspname AS name FROM pg_namespace n
+         WHERE ${SCHEMA_FILTER} AND ${notExtensionMember("pg_namespace", "n.oid")}
+         ORDER BY n.nspname`,
+        [schemaFilter]
+      )).map(row => row.name as string);
+      for (const schema of schemas.filter(name => name !== "public")) {
+        statements.push({kind: "schema", object: quoteIdentifier(schema), sql: `CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema)};`});
+      }
+
+      const extensions = await this.rows(
+        `SELECT e.extname AS name, n.nspname AS schema
+         FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace
+         WHERE e.extname <> 'plpgsql'
+         ORDER BY e.extname`,
+        []
+      );
+      for (const extension of extensions) {
+        statements.push({
+          kind: "extension",
+          object: quoteIdentifier(extension.name),
+          sql: formatCreateExtension(quoteIdentifier(extension.name), quoteIdentifier(extension.schema)),
+        });
+      }
+
+      const enums = await this.rows(
+        `SELECT n.nspname AS schema, t.typname AS name
+         FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace
+         WHERE t.typtype = 'e' AND ${SCHEMA_FILTER} AND ${notExtensionMember("pg_type", "t.oid")}
+         ORDER BY n.nspname, t.typname`,
+        [schemaFilter]
+      );
+      for (const type of enums) {
+        statements.push(...(await this.enumDdl(type.schema, type.name)));
+        dumped.add(`type ${qualifiedName(type.schema, type.name)}`);
+      }
+
+      const sequences = await this.rows(
+        `SELECT s.oid,
+                quote_ident(n.nspname) || '.' || quote_ident(s.relname) AS name,
+                format_type(sq.seqtypid, NULL) AS data_type,
+                sq.seqstart AS start,
+                sq.seqincrement AS increment,
+                sq.seqmin AS min,
+                sq.seqmax AS max,
+                sq.seqcache AS cache,
+                sq.seqcycle AS cycle,
+                obj_description(s.oid, 'pg_class') AS comment
+         FROM pg_class s
+         JOIN pg_namespace n ON n.oid = s.relnamespace
+         JOIN pg_sequence sq ON sq.seqrelid = s.oid
+         WHERE s.relkind = 'S' AND ${SCHEMA_FILTER} AND ${notExtensionMember("pg_class", "s.oid")}
+           AND NOT EXISTS (
+             SELECT 1 FROM pg_depend dep
+             WHERE dep.classid = 'pg_class'::regclass AND dep.objid = s.oid AND dep.deptype IN ('a', 'i')
+           )
+         ORDER BY n.nspname, s.relname`,
+        [schemaFilter]
+      );
+      for (const sequence of sequences) {
+        statements.push({kind: "sequence", object: sequence.name, sql: this.createSequenceSql(sequence)});
+        statements.push(...this.grantStatements(await this.relationAcl(sequence.oid), `SEQUENCE ${sequence.name}`, sequence.name));
+        if (sequence.comment) {
+          statements.push({kind: "comment", object: sequence.name, sql: `COMMENT ON SEQUENCE ${sequence.name} IS ${this.literal(sequence.comment)};`});
+        }
+      }
+
+      const functions = await this.rows(
+        `SELECT DISTINCT n.nspname AS schema, p.proname AS name, p.prokind AS kind
+         FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+         WHERE p.prokind IN ('f', 'p') AND ${SCHEMA_FILTER} AND ${notExtensionMember("pg_proc", "p.oid")}
+         ORDER BY n.nspname, p.proname, p.prokind`,
+        [schemaFilter]
+      );
+      for (const fn of functions) {
+        statements.push(...(await this.functionDdl(fn.schema, fn.name, fn.kind)));
+        dumped.add(`function ${qualifiedName(fn.schema, fn.name)}`);
+      }
+      const rowTypeUses = await this.functionRowTypeUses(schemaFilter);
+
+      const excluded = new Set(options.excludeTables ?? []);
+      const tables = (await this.rows(
+        `SELECT n.nspname AS schema, c.relname AS name
+         FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE c.relkind IN ('r', 'p') AND ${SCHEMA_FILTER} AND ${notExtensionMember("pg_class", "c.oid")}
+         ORDER BY c.relispartition, n.nspname, c.relname`,
+        [schemaFilter]
+      )).filter(table => !excluded.has(table.name) && !excluded.has(`${table.schema}.${table.name}`));
+      for (const table of tables) {
+        statements.push(...(await this.tableDdl(table.schema, table.name, requires)));
+        dumped.add(`table ${qualifiedName(table.schema, table.name)}`);
+      }
+
+      for (const view of views) {
+        statements.push(...(await this.viewDdl(view.schema, view.name, view.kind, requires)));
+        dumped.add(`${view.kind === "v" ? "view" : "materialized_view"} ${qualifiedName(view.schema, view.name)}`);
+      }
+
+      const sections = DUMP_SECTIONS.map(section => ({
+        title: section.title,
+        statements: statements.filter(s =>
+          section.kinds.includes(s.kind) && (s.kind !== "function" || rowTypeUses.get(s.object) === section.rowType)
+        ),
+      }));
+      return {
+        schemas,
+        statements: sections.flatMap(section => section.statements),
+        requires: [...requires].filter(object => !dumped.has(object)).sort(),
+        ddl: this.formatDump(sections, schemas),
+      };
+    });
+  }
+
+  /**
+   * The pg_get_*def functions and format_type only schema-qualify names that
+   * are not on the search_path, so it is emptied (as pg_dump does) to make the
+   * output independent of the connection's settings.
+   */
+  private async inCatalogSession<T>(callback: () => Promise<T>): Promise<T> {
+    return this.databaseService.withClient(async (client) => {
+      await client.query("BEGIN READ ONLY");
+      try {
+        await client.query("SET LOCAL search_path = pg_catalog");
+        this.session = client;
+        return await callback();
+      } finally {
+        this.session = undefined;
+        await client.query("ROLLBACK");
+      }
+    });
+  }
+
+  private async generateObject(objectName: string, objectType: string, schemaName: string): Promise<ObjectDdl> {
+    const requires = new Set<string>();
+    let statements: DdlStatement[];
+
+    switch (objectType.toLowerCase()) {
+      case "table":
+        statements = await this.tableDdl(schemaName, objectName, requires);
+        break;
+      case "view":
+        statements = await this.viewDdl(schemaName, objectName, "v", requires);
+        break;
+      case "materialized_view":
+      case "matview":
+        statements = await this.viewDdl(schemaName, objectName, "m", requires);
+        break;
+      case "function":
+      case "procedure":
+        statements = await this.functionDdl(schemaName, objectName, objectType.toLowerCase() === "procedure" ? "p" : "f");
+        break;
+      case "trigger":
+        statements = await this.triggerDdl(schemaName, objectName, requires);
+        break;
+      case "policy":
+        statements = await this.policyDdl(schemaName, objectName, requires);
+        break;
+      case "rls":
+      case "table_policies":
+      case "table_rls":
+        statements = await this.tableRlsDdl(schemaName, objectName);
+        break;
+      case "enum":
+        statements = await this.enumDdl(schemaName, objectName);
+        break;
+      case "index":
+        statements = await this.indexDdl(schemaName, objectName, requires);
+        break;
+      default:
+        throw new Error(`Unsupported object type: ${objectType}`);
+    }
+
+    return {
+      objectType,
+      schema: schemaName,
+      name: objectName,
+      statements,
+      requires: [...requires].sort(),
+      ddl: statements.map(s => s.sql).join("\n\n"),
+    };
+  }
+
+  private async tableDdl(schema: string, name: string, requires: Set<string> = new Set()): Promise<DdlStatement[]> {
+    const relation = await this.findRelation(schema, name, ["r", "p"], "Table");
+    const table = qualifiedName(schema, name);
+    const statements: DdlStatement[] = [];
+    const add = (kind: DdlStatementKind, sql: string, object: string = table) => statements.push({kind, object, sql});
+
+    const sequences = await this.ownedSequences(relation.oid);
+    for (const sequence of sequences) {
+      add("sequence", this.createSequenceSql(sequence), sequence.name);
+    }
+
+    const columns = await this.rows(
+      `SELECT a.attname AS name,
+              format_type(a.atttypid, a.atttypmod) AS type,
+              a.attnotnull AS not_null,
+              pg_get_expr(d.adbin, d.adrelid) AS default_expr,
+              a.attidentity AS identity,
+              a.attgenerated AS generated,
+              CASE WHEN a.attcollation <> 0 AND a.attcollation <> t.typcollation THEN
+                (SELECT quote_ident(cn.nspname) || '.' || quote_ident(co.collname)
+                 FROM pg_collation co JOIN pg_namespace cn ON cn.oid = co.collnamespace
+                 WHERE co.oid = a.attcollation)
+              END AS collation,
+              col_description(a.attrelid, a.attnum) AS comment,
+              bn.nspname AS base_type_schema,
+              bt.typname AS base_type_name
+       FROM pg_attribute a
+       JOIN pg_type t ON t.oid = a.atttypid
+       JOIN pg_type bt ON bt.oid = CASE WHEN t.typcategory = 'A' THEN t.typelem ELSE t.oid END
+       JOIN pg_namespace bn ON bn.oid = bt.typnamespace
+       LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+       WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+       ORDER BY a.attnum`,
+      [relation.oid]
+    );
+
+    const constraints = await this.rows(
+      `SELECT con.conname AS name,
+              con.contype AS type,
+              pg_get_constraintdef(con.oid, true) AS definition,
+              obj_description(con.oid, 'pg_constraint') AS comment,
+              rn.nspname AS referenced_schema,
+              rc.relname AS referenced_table
+       FROM pg_constraint con
+       LEFT JOIN pg_class rc ON rc.oid = con.confrelid
+       LEFT JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+       WHERE con.conrelid = $1 AND con.contype IN ('p', 'u', 'c', 'x', 'f') AND con.conislocal AND con.conparentid = 0
+       ORDER BY CASE con.contype WHEN 'p' THEN 0 WHEN 'u' THEN 1 WHEN 'c' THEN 2 WHEN 'x' THEN 3 ELSE 4 END, con.conname`,
+      [relation.oid]
+    );
+
+    for (const column of columns) {
+      if (!SYSTEM_SCHEMAS.includes(column.base_type_schema)) {
+        requires.add(`type ${qualifiedName(column.base_type_schema, column.base_type_name)}`);
+      }
+    }
+
+    if (relation.partition_parent) {
+      // Columns and constraints come from the parent table
+      add(
+        "table",
+        `CREATE TABLE ${table} PARTITION OF ${relation.partition_parent}\n  ${relation.partition_bound};`
+      );
+      requires.add(`table ${relation.partition_parent}`);
+    } else {
+      const body = [
+        ...columns.map(column => `  ${this.columnDefinition(column)}`),
+        ...constraints
+          .filter(c => c.type !== "f")
+          .map(c => `  CONSTRAINT ${quoteIdentifier(c.name)} ${c.definition}`),
+      ];
+      const unlogged = relation.persistence === "u" ? "UNLOGGED " : "";
+      const partitionBy = relation.partition_key ? ` PARTITION BY ${relation.partition_key}` : "";
+      const options = relation.reloptions ? ` WITH (${relation.reloptions.join(", ")})` : "";
+      add("table", `CREATE ${unlogged}TABLE ${table} (\n${body.join(",\n")}\n)${partitionBy}${options};`);
+    }
+
+    for (const sequence of sequences) {
+      add(
+        "sequence_ownership",
+        `ALTER SEQUENCE ${sequence.name} OWNED BY ${table}.${quoteIdentifier(sequence.column)};`,
+        sequence.name
+      );
+    }
+
+    for (const constraint of constraints.filter(c => c.type === "f")) {
+      const referenced = qualifiedName(constraint.referenced_schema, constraint.referenced_table);
+      if (referenced !== table) {
+        requires.add(`table ${referenced}`);
+      }
+      add(
+        "foreign_key",
+        `ALTER TABLE ${table}\n  ADD CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition};`
+      );
+    }
+
+    const indexes = await this.relationIndexes(relation.oid);
+    indexes.forEach(index => add("index", `${index.definition};`, qualifiedName(schema, index.name)));
+
+    const triggers = await this.rows(
+      `SELECT t.tgname AS name,
+              pg_get_triggerdef(t.oid) AS definition,
+              t.tgenabled AS enabled,
+              obj_description(t.oid, 'pg_trigger') AS comment,
+              pn.nspname AS function_schema,
+              p.proname AS function_name
+       FROM pg_trigger t
+       JOIN pg_proc p ON p.oid = t.tgfoid
+       JOIN pg_namespace pn ON pn.oid = p.pronamespace
+       WHERE t.tgrelid = $1 AND NOT t.tgisinternal AND t.tgparentid = 0
+       ORDER BY t.tgname`,
+      [relation.oid]
+    );
+    for (const trigger of triggers) {
+      statements.push(...this.triggerStatements(trigger, table));
+      requires.add(`function ${qualifiedName(trigger.function_schema, trigger.function_name)}`);
+    }
+
+    statements.push(...this.rlsStatements(relation, table));
+    statements.push(...(await this.policyStatements(relation.oid, table)));
+
+    const grants = await this.rows(
+      `SELECT CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(acl.grantee)) END AS grantee,
+              acl.privilege_type, acl.is_grantable, NULL AS column
+       FROM pg_class c, aclexplode(c.relacl) acl
+       WHERE c.oid = $1 AND acl.grantee <> c.relowner
+       UNION ALL
+       SELECT CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(acl.grantee)) END,
+              acl.privilege_type, acl.is_grantable, a.attname
+       FROM pg_attribute a
+       JOIN pg_class c ON c.oid = a.attrelid,
+       aclexplode(a.attacl) acl
+       WHERE a.attrelid = $1 AND a.attacl IS NOT NULL AND acl.grantee <> c.relowner
+       ORDER BY 4 NULLS FIRST, 1, 2`,
+      [relation.oid]
+    );
+    statements.push(...this.grantStatements(grants, `TABLE ${table}`, table));
+    for (const sequence of sequences) {
+      statements.push(...this.grantStatements(await this.relationAcl(sequence.oid), `SEQUENCE ${sequence.name}`, sequence.name));
+    }
+
+    if (relation.comment) {
+      add("comment", `COMMENT ON TABLE ${table} IS ${this.literal(relation.comment)};`);
+    }
+    for (const column of columns.filter(c => c.comment)) {
+      add("comment", `COMMENT ON COLUMN ${table}.${quoteIdentifier(column.name)} IS ${this.literal(column.comment)};`);
+    }
+    for (const constraint of constraints.filter(c => c.comment)) {
+      add(
+        "comment",
+        `COMMENT ON CONSTRAINT ${quoteIdentifier(constraint.name)} ON ${table} IS ${this.literal(constraint.comment)};`
+      );
+    }
+    for (const index of indexes.filter(i => i.comment)) {
+      add("comment", `COMMENT ON INDEX ${qualifiedName(schema, index.name)} IS ${this.literal(index.comment)};`);
+    }
+    for (const trigger of triggers.filter(t => t.comment)) {
+      add(
+        "comment",
+        `COMMENT ON TRIGGER ${quoteIdentifier(trigger.name)} ON ${table} IS ${this.literal(trigger.comment)};`
+      );
+    }
+
+    return statements;
+  }
+
+  private async viewDdl(
+    schema: string,
+    name: string,
+    relkind: "v" | "m",
+    requires: Set<string> = new Set()
+  ): Promise<DdlStatement[]> {
+    const relation = await this.findRelation(schema, name, [relkind], relkind === "v" ? "View" : "Materialized view");
+    const view = qualifiedName(schema, name);
+    const statements: DdlStatement[] = [];
+    const kind: DdlStatementKind = relkind === "v" ? "view" : "materialized_view";
+    const definition = relation.view_definition.trim().replace(/;$/, "");
+    const options = relation.reloptions ? ` WITH (${relation.reloptions.join(", ")})` : "";
+
+    statements.push({
+      kind,
+      object: view,
+      sql: relkind === "v"
+        ? `CREATE OR REPLACE VIEW ${view}${options} AS\n${definition};`
+        : `CREATE MATERIALIZED VIEW ${view}${options} AS\n${definition}\nWITH ${relation.populated ? "" : "NO "}DATA;`,
+    });
+
+    const dependencies = await this.rows(
+      `SELECT DISTINCT
+              CASE c.relkind WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized_view' ELSE 'table' END AS type,
+              n.nspname AS schema,
+              c.relname AS name
+       FROM pg_rewrite r
+       JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid
+       JOIN pg_class c ON c.oid = d.refobjid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE r.ev_class = $1 AND c.oid <> r.ev_class AND c.relkind IN ('r', 'p', 'v', 'm', 'f')`,
+      [relation.oid]
+    );
+    for (const dependency of dependencies) {
+      requires.add(`${dependency.type} ${qualifiedName(dependency.schema, dependency.name)}`);
+    }
+
+    const indexes = relkind === "m" ? await this.relationIndexes(relation.oid) : [];
+    indexes.forEach(index => statements.push({kind: "index", object: qualifiedName(schema, index.name), sql: `${index.definition};`}));
+
+    statements.push(...this.grantStatements(await this.relationAcl(relation.oid), `TABLE ${view}`, view));
+
+    const objectKeyword = relkind === "v" ? "VIEW" : "MATERIALIZED VIEW";
+    if (relation.comment) {
+      statements.push({kind: "comment", object: view, sql: `COMMENT ON ${objectKeyword} ${view} IS ${this.literal(relation.comment)};`});
+    }
+    const columnComments = await this.rows(
+      `SELECT a.attname AS name, col_description(a.attrelid, a.attnum) AS comment
+       FROM pg_attribute a
+       WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped AND col_description(a.attrelid, a.attnum) IS NOT NULL
+       ORDER BY a.attnum`,
+      [relation.oid]
+    );
+    for (const column of columnComments) {
+      statements.push({
+        kind: "comment",
+        object: view,
+        sql: `COMMENT ON COLUMN ${view}.${quoteIdentifier(column.name)} IS ${this.literal(column.comment)};`,
+      });
+    }
+    for (const index of indexes.filter(i => i.comment)) {
+      statements.push({
+        kind: "comment",
+        object: qualifiedName(schema, index.name),
+        sql: `COMMENT ON INDEX ${qualifiedName(schema, index.name)} IS ${this.literal(index.comment)};`,
+      });
+    }
+
+    return statements;
+  }
+
+  // Every overload with the given name is included
+  /**
+   * Functions whose arguments or result use a table or view row type (or an
+   * array of one), keyed like the statements functionDdl returns. A function
+   * using both waits for the views.
+   */
+  private async functionRowTypeUses(schemaFilter: string[] | null): Promise<Map<string, RowTypeUse>> {
+    const rows = await this.rows(
+      `SELECT n.nspname AS schema,
+              p.proname AS name,
+              pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+              bool_or(r.relkind IN ('v', 'm')) AS uses_view
+       FROM pg_proc p
+       JOIN pg_namespace n ON n.oid = p.pronamespace
+       JOIN pg_depend d ON d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.refclassid = 'pg_type'::regclass
+       JOIN pg_type t ON t.oid = d.refobjid
+       LEFT JOIN pg_type et ON et.oid = t.typelem AND t.typcategory = 'A'
+       JOIN pg_class r ON r.oid = COALESCE(et.typrelid, t.typrelid)
+       WHERE p.prokind IN ('f', 'p') AND r.relkind IN ('r', 'p', 'v', 'm') AND ${SCHEMA_FILTER}
+       GROUP BY n.nspname, p.proname, p.oid`,
+      [schemaFilter]
+    );
+    return new Map(rows.map(row => [
+      `${qualifiedName(row.schema, row.name)}(${row.identity_arguments})`,
+      row.uses_view ? "view" : "table",
+    ]));
+  }
+
+  private async functionDdl(schema: string, name: string, prokind: "f" | "p" = "f"): Promise<DdlStatement[]> {
+    const functions = await this.rows(
+      `SELECT p.oid,
+              p.prokind AS kind,
+              pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+              CASE WHEN p.prokind IN ('f', 'p') THEN pg_get_functiondef(p.oid) END AS definition,
+              obj_description(p.oid, 'pg_proc') AS comment,
+              p.proacl IS NOT NULL AS has_acl,
+              p.proowner AS owner
+       FROM pg_proc p
+       JOIN pg_namespace n ON n.oid = p.pronamespace
+       WHERE n.nspname = $1 AND p.proname = $2 AND p.prokind = $3
+       ORDER BY pg_get_function_identity_arguments(p.oid)`,
+      [schema, name, prokind]
+    );
+    if (functions.length === 0) {
+      throw new Error(`${prokind === "p" ? "Procedure" : "Function"} '${schema}.${name}' not found`);
+    }
+
+    const statements: DdlStatement[] = [];
+    for (const fn of functions) {
+      const signature = `${qualifiedName(schema, name)}(${fn.identity_arguments})`;
+      const keyword = fn.kind === "p" ? "PROCEDURE" : "FUNCTION";
+      statements.push({kind: "function", object: signature, sql: `${fn.definition.trim()};`});
+
+      if (fn.has_acl) {
+        const grants = await this.rows(
+          `SELECT CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(acl.grantee)) END AS grantee,
+                  acl.privilege_type, acl.is_grantable
+           FROM pg_proc p, aclexplode(p.proacl) acl
+           WHERE p.oid = $1 AND acl.grantee <> p.proowner
+           ORDER BY 1, 2`,
+          [fn.oid]
+        );
+        // Functions are executable by PUBLIC unless that was revoked
+        if (!grants.some(g => g.grantee === "PUBLIC")) {
+          statements.push({kind: "grant", object: signature, sql: `REVOKE ALL ON ${keyword} ${signature} FROM PUBLIC;`});
+        }
+        statements.push(...this.grantStatements(grants, `${keyword} ${signature}`, signature));
+      }
+
+      if (fn.comment) {
+        statements.push({kind: "comment", object: signature, sql: `COMMENT ON ${keyword} ${signature} IS ${this.literal(fn.comment)};`});
+      }
+    }
+    return statements;
+  }
+
+  // Trigger names are unique per table, so a name may match triggers on several tables
+  private async triggerDdl(schema: string, name: string, requires: Set<string> = new Set()): Promise<DdlStatement[]> {
+    const triggers = await this.rows(
+      `SELECT t.tgname AS name,
+              pg_get_triggerdef(t.oid) AS definition,
+              t.tgenabled AS enabled,
+              obj_description(t.oid, 'pg_trigger') AS comment,
+              c.relname AS table_name,
+              pn.nspname AS function_schema,
+              p.proname AS function_name
+       FROM pg_trigger t
+       JOIN pg_class c ON c.oid = t.tgrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       JOIN pg_proc p ON p.oid = t.tgfoid
+       JOIN pg_namespace pn ON pn.oid = p.pronamespace
+       WHERE n.nspname = $1 AND t.tgname = $2 AND NOT t.tgisinternal
+       ORDER BY c.relname`,
+      [schema, name]
+    );
+    if (triggers.length === 0) {
+      throw new Error(`Trigger '${schema}.${name}' not found`);
+    }
+
+    const statements: DdlStatement[] = [];
+    for (const trigger of triggers) {
+      const table = qualifiedName(schema, trigger.table_name);
+      requires.add(`table ${table}`);
+      requires.add(`function ${qualifiedName(trigger.function_schema, trigger.function_name)}`);
+      statements.push(...this.triggerStatements(trigger, table));
+      if (trigger.comment) {
+        statements.push({
+          kind: "comment",
+          object: table,
+          sql: `COMMENT ON TRIGGER ${quoteIdentifier(trigger.name)} ON ${table} IS ${this.literal(trigger.comment)};`,
+        });
+      }
+    }
+    return statements;
+  }
+
+  private async policyDdl(schema: string, name: string, requires: Set<string> = new Set()): Promise<DdlStatement[]> {
+    const tables = await this.rows(
+      `SELECT DISTINCT pol.polrelid AS oid, c.relname AS name
+       FROM pg_policy pol
+       JOIN pg_class c ON c.oid = pol.polrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND pol.polname = $2
+       ORDER BY c.relname`,
+      [schema, name]
+    );
+    if (tables.length === 0) {
+      throw new Error(`Policy '${schema}.${name}' not found`);
+    }
+
+    const statements: DdlStatement[] = [];
+    for (const table of tables) {
+      const tableName = qualifiedName(schema, table.name);
+      requires.add(`table ${tableName}`);
+      statements.push(...(await this.policyStatements(table.oid, tableName, name)));
+    }
+    return statements;
+  }
+
+  private async tableRlsDdl(schema: string, name: string): Promise<DdlStatement[]> {
+    const relation = await this.findRelation(schema, name, ["r", "p"], "Table");
+    const table = qualifiedName(schema, name);
+    return [...this.rlsStatements(relation, table), ...(await this.policyStatements(relation.oid, table))];
+  }
+
+  private async enumDdl(schema: string, name: string): Promise<DdlStatement[]> {
+    const rows = await this.rows(
+      `SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS values,
+              obj_description(t.oid, 'pg_type') AS comment
+       FROM pg_type t
+       JOIN pg_namespace n ON n.oid = t.typnamespace
+       JOIN pg_enum e ON e.enumtypid = t.oid
+       WHERE n.nspname = $1 AND t.typname = $2
+       GROUP BY t.oid`,
+      [schema, name]
+    );
+    if (rows.length === 0) {
+      throw new Error(`Enum '${schema}.${name}' not found`);
+    }
+
+    const type = qualifiedName(schema, name);
+    const statements: DdlStatement[] = [
+      {kind: "type", object: type, sql: formatCreateEnum(type, rows[0].values.map((v: string) => v.replace(/'/g, "''")))},
+    ];
+    if (rows[0].comment) {
+      statements.push({kind: "comment", object: type, sql: `COMMENT ON TYPE ${type} IS ${this.literal(rows[0].comment)};`});
+    }
+    return statements;
+  }
+
+  private async indexDdl(schema: string, name: string, requires: Set<string> = new Set()): Promise<DdlStatement[]> {
+    const rows = await this.rows(
+      `SELECT pg_get_indexdef(i.oid) AS definition,
+              obj_description(i.oid, 'pg_class') AS comment,
+              tn.nspname AS table_schema,
+              t.relname AS table_name,
+              con.conname AS constraint_name,
+              pg_get_constraintdef(con.oid, true) AS constraint_definition
+       FROM pg_class i
+       JOIN pg_namespace n ON n.oid = i.relnamespace
+       JOIN pg_index ix ON ix.indexrelid = i.oid
+       JOIN pg_class t ON t.oid = ix.indrelid
+       JOIN pg_namespace tn ON tn.oid = t.relnamespace
+       LEFT JOIN pg_constraint con
+         ON con.conindid = i.oid AND con.conrelid = t.oid AND con.contype IN ('p', 'u', 'x')
+       WHERE n.nspname = $1 AND i.relname = $2`,
+      [schema, name]
+    );
+    if (rows.length === 0) {
+      throw new Error(`Index '${schema}.${name}' not found`);
+    }
+
+    const index = rows[0];
+    const indexName = qualifiedName(schema, name);
+    const table = qualifiedName(index.table_schema, index.table_name);
+    requires.add(`table ${table}`);
+
+    // An index backing a constraint is created by the constraint, not on its own
+    const statements: DdlStatement[] = [{
+      kind: "index",
+      object: indexName,
+      sql: index.constraint_name
+        ? `ALTER TABLE ${table}\n  ADD CONSTRAINT ${quoteIdentifier(index.constraint_name)} ${index.constraint_definition};`
+        : `${index.definition};`,
+    }];
+    if (index.comment) {
+      statements.push({kind: "comment", object: indexName, sql: `COMMENT ON INDEX ${indexName} IS ${this.literal(index.comment)};`});
+    }
+    return statements;
+  }
+
+  private async viewsInDependencyOrder(schemaFilter: string[] | null): Promise<{schema: string; name: string; kind: "v" | "m"}[]> {
+    const result = await this.databaseService.executeQuery(
+      `SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind
+       FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('v', 'm') AND ${SCHEMA_FILTER} AND ${notExtensionMember("pg_class", "c.oid")}
+       ORDER BY n.nspname, c.relname`,
+      [schemaFilter]
+    );
+    const views: {schema: string; name: string; kind: "v" | "m"}[] = result.rows;
+    const byKey = new Map(views.map(view => [`${view.schema}.${view.name}`, view]));
+    const dependencies = new Map<string, string[]>();
+    for (const view of views) {
+      const viewDependencies = await this.databaseService.getViewDependencies(view.schema, view.name);
+      dependencies.set(
+        `${view.schema}.${view.name}`,
+        viewDependencies.filter(d => d.type === "view").map(d => `${d.schema}.${d.name}`)
+      );
+    }
+
+    // Dependencies first; PostgreSQL does not allow cycles between views
+    const sorted: typeof views = [];
+    const visited = new Set<string>();
+    const visit = (key: string) => {
+      if (visited.has(key) || !byKey.has(key)) return;
+      visited.add(key);
+      (dependencies.get(key) ?? []).forEach(visit);
+      sorted.push(byKey.get(key)!);
+    };
+    byKey.forEach((_, key) => visit(key));
+    return sorted;
+  }
+
+  private formatDump(sections: {title: string; statements: DdlStatement[]}[], schemas: string[]): string {
+    const lines = [`-- Schema DDL for ${schemas.join(", ")}`, ""];
+    if (sections.some(section => section.statements.some(s => s.kind === "function"))) {
+      lines.push("SET check_function_bodies = false;", "");
+    }
+    for (const section of sections) {
+      if (section.statements.length === 0) continue;
+      lines.push(`-- ${section.title}`, "");
+      section.statements.forEach(s => lines.push(s.sql, ""));
+    }
+    return lines.join("\n").trimEnd() + "\n";
+  }
+
+  private async rows(query: string, params: any[]): Promise<any[]> {
+    const result = await this.session!.query(query, params);
+    return result.rows;
+  }
+
+  private async findRelation(schema: string, name: string, relkinds: string[], label: string): Promise<any> {
+    const rows = await this.rows(
+      `SELECT c.oid,
+              c.relkind AS kind,
+              c.relpersistence AS persistence,
+              c.relrowsecurity AS row_security,
+              c.relforcerowsecurity AS force_row_security,
+              c.reloptions,
+              c.relispopulated AS populated,
+              CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key,
+              CASE WHEN c.relispartition THEN pg_get_expr(c.relpartbound, c.oid) END AS partition_bound,
+              CASE WHEN c.relispartition THEN
+                (SELECT quote_ident(pn.nspname) || '.' || quote_ident(pc.relname)
+                 FROM pg_inherits inh
+                 JOIN pg_class pc ON pc.oid = inh.inhparent
+                 JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+                 WHERE inh.inhrelid = c.oid)
+              END AS partition_parent,
+              CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END AS view_definition,
+              obj_description(c.oid, 'pg_class') AS comment
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind = ANY($3)`,
+      [schema, name, relkinds]
+    );
+    if (rows.length === 0) {
+      throw new Error(`${label} '${schema}.${name}' not found`);
+    }
+    return rows[0];
+  }
+
+  // Serial columns own their sequence; identity columns manage theirs implicitly
+  private async ownedSequences(relationOid: number): Promise<any[]> {
+    return this.rows(
+      `SELECT s.oid,
+              quote_ident(sn.nspname) || '.' || quote_ident(s.relname) AS name,
+              a.attname AS column,
+              format_type(sq.seqtypid, NULL) AS data_type,
+              sq.seqstart AS start,
+              sq.seqincrement AS increment,
+              sq.seqmin AS min,
+              sq.seqmax AS max,
+              sq.seqcache AS cache,
+              sq.seqcycle AS cycle
+       FROM pg_depend dep
+       JOIN pg_class s ON s.oid = dep.objid AND s.relkind = 'S'
+       JOIN pg_namespace sn ON sn.oid = s.relnamespace
+       JOIN pg_sequence sq ON sq.seqrelid = s.oid
+       JOIN pg_attribute a ON a.attrelid = dep.refobjid AND a.attnum = dep.refobjsubid
+       WHERE dep.classid = 'pg_class'::regclass AND dep.refobjid = $1 AND dep.deptype = 'a'
+       ORDER BY a.attnum`,
+      [relationOid]
+    );
+  }
+
+  // Indexes created by primary key, unique and exclusion constraints are left to the constraint.
+  // An index on a partitioned table is emitted without ONLY so it cascades to the partitions.
+  private async relationIndexes(relationOid: number): Promise<any[]> {
+    return this.rows(
+      `SELECT i.relname AS name,
+              CASE WHEN i.relkind = 'I' THEN regexp_replace(pg_get_indexdef(i.oid), ' ON ONLY ', ' ON ')
+                   ELSE pg_get_indexdef(i.oid)
+              END AS definition,
+              obj_description(i.oid, 'pg_class') AS comment
+       FROM pg_index ix
+       JOIN pg_class i ON i.oid = ix.indexrelid
+       WHERE ix.indrelid = $1 AND NOT i.relispartition
+         AND NOT EXISTS (
+           SELECT 1 FROM pg_constraint con
+           WHERE con.conindid = ix.indexrelid AND con.conrelid = ix.indrelid AND con.contype IN ('p', 'u', 'x')
+         )
+       ORDER BY i.relname`,
+      [relationOid]
+    );
+  }
+
+  private async relationAcl(relationOid: number): Promise<AclEntry[]> {
+    return this.rows(
+      `SELECT CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(acl.grantee)) END AS grantee,
+              acl.privilege_type, acl.is_grantable
+       FROM pg_class c, aclexplode(c.relacl) acl
+       WHERE c.oid = $1 AND acl.grantee <> c.relowner
+       ORDER BY 1, 2`,
+      [relationOid]
+    );
+  }
+
+  private async policyStatements(relationOid: number, table: string, policyName?: string): Promise<DdlStatement[]> {
+    const policies = await this.rows(
+      `SELECT pol.polname AS name,
+              pol.polpermissive AS permissive,
+              CASE pol.polcmd WHEN 'r' THEN 'SELECT' WHEN 'a' THEN 'INSERT' WHEN 'w' THEN 'UPDATE'
+                              WHEN 'd' THEN 'DELETE' ELSE 'ALL' END AS command,
+              CASE WHEN pol.polroles = '{0}' THEN ARRAY['PUBLIC']
+                   ELSE ARRAY(SELECT quote_ident(r.rolname) FROM pg_roles r WHERE r.oid = ANY(pol.polroles) ORDER BY r.rolname)
+              END AS roles,
+              pg_get_expr(pol.polqual, pol.polrelid) AS using_expression,
+              pg_get_expr(pol.polwithcheck, pol.polrelid) AS with_check_expression,
+              obj_description(pol.oid, 'pg_policy') AS comment
+       FROM pg_policy pol
+       WHERE pol.polrelid = $1 AND ($2::name IS NULL OR pol.polname = $2)
+       ORDER BY pol.polname`,
+      [relationOid, policyName ?? null]
+    );
+
+    const statements: DdlStatement[] = policies.map(policy => ({
+      kind: "policy" as const,
+      object: table,
+      sql: formatCreateRLSPolicy(quoteIdentifier(policy.name), table, policy.command, policy.roles, {
+        permissive: policy.permissive,
+        usingExpression: policy.using_expression ?? undefined,
+        withCheckExpression: policy.with_check_expression ?? undefined,
+      }),
+    }));
+    for (const policy of policies.filter(p => p.comment)) {
+      statements.push({
+        kind: "comment",
+        object: table,
+        sql: `COMMENT ON POLICY ${quoteIdentifier(policy.name)} ON ${table} IS ${this.literal(policy.comment)};`,
+      });
+    }
+    return statements;
+  }
+
+  private rlsStatements(relation: any, table: string): DdlStatement[] {
+    const statements: DdlStatement[] = [];
+    if (relation.row_security) {
+      statements.push({kind: "rls", object: table, sql: formatEnableRLS(table)});
+    }
+    if (relation.force_row_security) {
+      statements.push({kind: "rls", object: table, sql: `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY;`});
+    }
+    return statements;
+  }
+
+  private triggerStatements(trigger: any, table: string): DdlStatement[] {
+    const statements: DdlStatement[] = [{kind: "trigger", object: table, sql: `${trigger.definition};`}];
+    const state: Record<string, string> = {D: "DISABLE TRIGGER", R: "ENABLE REPLICA TRIGGER", A: "ENABLE ALWAYS TRIGGER"};
+    if (state[trigger.enabled]) {
+      statements.push({
+        kind: "trigger",
+        object: table,
+        sql: `ALTER TABLE ${table} ${state[trigger.enabled]} ${quoteIdentifier(trigger.name)};`,
+      });
+    }
+    return statements;
+  }
+
+  // One GRANT per grantee (and column), split by WITH GRANT OPTION
+  private grantStatements(entries: AclEntry[], target: string, object: string): DdlStatement[] {
+    const groups = new Map<string, {entry: AclEntry; privileges: string[]}>();
+    for (const entry of entries) {
+      const key = `${entry.column ?? ""}\u0000${entry.grantee}\u0000${entry.is_grantable}`;
+      const group = groups.get(key) ?? {entry, privileges: []};
+      group.privileges.push(entry.privilege_type);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()].map(({entry, privileges}) => {
+      const privilegeList = entry.column
+        ? privileges.map(p => `${p} (${quoteIdentifier(entry.column!)})`).join(", ")
+        : privileges.join(", ");
+      return {
+        kind: "grant" as const,
+        object,
+        sql: `GRANT ${privilegeList} ON ${target} TO ${entry.grantee}${entry.is_grantable ? " WITH GRANT OPTION" : ""};`,
+      };
+    });
+  }
+
+  private createSequenceSql(sequence: any): string {
+    return [
+      `CREATE SEQUENCE ${sequence.name}`,
+      `  AS ${sequence.data_type}`,
+      `  START WITH ${sequence.start}`,
+      `  INCREMENT BY ${sequence.increment}`,
+      `  MINVALUE ${sequence.min}`,
+      `  MAXVALUE ${sequence.max}`,
+      `  CACHE ${sequence.cache}${sequence.cycle ? "\n  CYCLE" : ""};`,
+    ].join("\n");
+  }
+
+  private columnDefinition(column: any): string {
+    const parts = [quoteIdentifier(column.name), column.type];
+    if (column.collation) {
+      parts.push(`COLLATE ${column.collation}`);
+    }
+    if (column.generated === "s") {
+      parts.push(`GENERATED ALWAYS AS (${column.default_expr}) STORED`);
+    } else if (column.identity === "a" || column.identity === "d") {
+      parts.push(`GENERATED ${column.identity === "a" ? "ALWAYS" : "BY DEFAULT"} AS IDENTITY`);
+    } else if (column.default_expr) {
+      parts.push(`DEFAULT ${column.default_expr}`);
+    }
+    if (column.not_null) {
+      parts.push("NOT NULL");
+    }
+    return parts.join(" ");
+  }
+
+  private literal(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+}
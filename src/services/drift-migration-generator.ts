@@ -0,0 +1,784 @@
+import {
+  DatabaseSchema,
+  Table,
+  Column,
+  Constraint,
+  ConstraintType,
+  Index,
+  View,
+  Trigger,
+  RLSPolicy,
+  Enum,
+  Partition,
+} from "../types/schema.js";
+import {SchemaDrift, MigrationOperation} from "../types/migration.js";
+import {
+  formatAlterTable,
+  formatCreateTable,
+  formatCreateIndex,
+  formatDropIndex,
+  formatDropColumn,
+  formatAddConstraint,
+  formatDropConstraint,
+  formatCreateView,
+  formatDropView,
+  formatAlterView,
+  formatCreateTrigger,
+  formatDropTrigger,
+  formatCreateRLSPolicy,
+  formatDropRLSPolicy,
+  formatCreateEnum,
+  formatDropEnum,
+  formatColumnType,
+  formatColumnDefinition,
+  formatConstraintDefinition,
+  quoteIdentifier,
+  qualifiedName,
+} from "../utils/sql-formatter.js";
+
+const TYPE_PROPERTIES = ["dataType", "udtName", "characterMaximumLength", "numericPrecision", "numericScale"];
+
+/**
+ * Turns a SchemaDrift into ordered migration operations. `source` is the
+ * schema the migration starts from and `target` the schema it should produce,
+ * so the drift is expected to come from `compareSchemas(target, source)`:
+ * "missing" objects get created from the target definition and "extra"
+ * objects get dropped, with the source definition used for the down SQL.
+ * Differences it cannot turn into SQL (sequences, materialized views,
+ * domains, composite types and grants) are reported through `warnings`.
+ */
+export class DriftMigrationGenerator {
+  generateOperations(
+    drift: SchemaDrift,
+    source: DatabaseSchema,
+    target: DatabaseSchema,
+    warnings: string[] = []
+  ): MigrationOperation[] {
+    const sourceTables = this.tableMap(source);
+    const targetTables = this.tableMap(target);
+
+    const dropPolicies: MigrationOperation[] = [];
+    const dropTriggers: MigrationOperation[] = [];
+    const dropViews: MigrationOperation[] = [];
+    const dropIndexes: MigrationOperation[] = [];
+    const dropForeignKeys: MigrationOperation[] = [];
+    const dropConstraints: MigrationOperation[] = [];
+    const dropColumns: MigrationOperation[] = [];
+    const dropPartitions: MigrationOperation[] = [];
+    const dropTables: MigrationOperation[] = [];
+    const dropEnums: MigrationOperation[] = [];
+    const createEnums: MigrationOperation[] = [];
+    const createTables: MigrationOperation[] = [];
+    const createPartitions: MigrationOperation[] = [];
+    const addColumns: MigrationOperation[] = [];
+    const modifyColumns: MigrationOperation[] = [];
+    const addConstraints: MigrationOperation[] = [];
+    const addForeignKeys: MigrationOperation[] = [];
+    const createIndexes: MigrationOperation[] = [];
+    const createViews: MigrationOperation[] = [];
+    const createTriggers: MigrationOperation[] = [];
+    const createPolicies: MigrationOperation[] = [];
+
+    // Enums
+    const enumKey = (e: Enum) => `${e.schema}.${e.name}`;
+    const sourceEnums = new Map(source.enums.map((e) => [enumKey(e), e]));
+    const targetEnums = new Map(target.enums.map((e) => [enumKey(e), e]));
+
+    for (const key of drift.extraEnums) {
+      const enumType = sourceEnums.get(key);
+      if (!enumType) continue;
+      dropEnums.push({
+        type: "DROP_ENUM",
+        enum: key,
+        sql: formatDropEnum(qualifiedName(enumType.schema, enumType.name)),
+        reverseSql: this.createEnumSql(enumType),
+      });
+    }
+
+    for (const key of drift.missingEnums) {
+      const enumType = targetEnums.get(key);
+      if (!enumType) continue;
+      createEnums.push({
+        type: "CREATE_ENUM",
+        enum: key,
+        sql: this.createEnumSql(enumType),
+        reverseSql: formatDropEnum(qualifiedName(enumType.schema, enumType.name)),
+      });
+    }
+
+    // New values are added in place; PostgreSQL cannot remove values from an enum
+    const addedEnumValues: {enum: string; value: string}[] = [];
+    for (const enumDrift of drift.modifiedEnums) {
+      const sourceEnum = sourceEnums.get(enumDrift.name);
+      const targetEnum = targetEnums.get(enumDrift.name);
+      if (!sourceEnum || !targetEnum) continue;
+      const removed = sourceEnum.values.filter((v) => !targetEnum.values.includes(v));
+      if (removed.length > 0) {
+        warnings.push(
+          `PostgreSQL cannot remove enum values, so ${enumDrift.name} keeps ${removed.join(", ")}. ` +
+            "Recreate the type by hand if they have to go."
+        );
+      }
+      targetEnum.values.forEach((value, position) => {
+        if (sourceEnum.values.includes(value)) return;
+        const next = targetEnum.values.slice(position + 1).find((v) => sourceEnum.values.includes(v));
+        const placement = next ? ` BEFORE ${this.enumLiteral(next)}` : "";
+        createEnums.push({
+          type: "ALTER_ENUM",
+          enum: enumDrift.name,
+          sql: `ALTER TYPE ${qualifiedName(targetEnum.schema, targetEnum.name)} ADD VALUE ${this.enumLiteral(value)}${placement};`,
+        });
+        addedEnumValues.push({enum: enumDrift.name, value});
+      });
+    }
+
+    // Partitions are created and dropped from the partition drift; their
+    // columns, constraints, indexes and triggers come from the partitioned table
+    const partitionKey = (p: Partition) => `${p.schema}.${p.name}`;
+    const sourcePartitions = new Map((source.partitions || []).map((p) => [partitionKey(p), p]));
+    const targetPartitions = new Map((target.partitions || []).map((p) => [partitionKey(p), p]));
+    const isPartition = (tableKey: string) => sourcePartitions.has(tableKey) || targetPartitions.has(tableKey);
+
+    // Tables
+    for (const tableKey of drift.extraTables) {
+      const table = sourceTables.get(tableKey);
+      if (!table || isPartition(tableKey)) continue;
+      for (const fk of this.foreignKeys(table)) {
+        dropForeignKeys.push(this.dropConstraintOperation(table, fk));
+      }
+      dropTables.push({
+        type: "DROP_TABLE",
+        table: tableKey,
+        sql: `DROP TABLE ${this.tableName(table)};`,
+        reverseSql: this.createTableSql(table),
+      });
+    }
+
+    for (const tableKey of drift.missingTables) {
+      const table = targetTables.get(tableKey);
+      if (!table || isPartition(tableKey)) continue;
+      createTables.push({
+        type: "CREATE_TABLE",
+        table: tableKey,
+        sql: this.createTableSql(table),
+        reverseSql: `DROP TABLE ${this.tableName(table)};`,
+      });
+      for (const fk of this.foreignKeys(table)) {
+        addForeignKeys.push(this.addConstraintOperation(table, fk));
+      }
+    }
+
+    // A partition of a partition comes after its parent
+    const partitionDepth = (partition: Partition, partitions: Map<string, Partition>): number => {
+      const parent = partitions.get(`${partition.parentSchema}.${partition.parentName}`);
+      return parent ? partitionDepth(parent, partitions) + 1 : 0;
+    };
+    const byDepth = (partitions: Map<string, Partition>) => (a: Partition, b: Partition) =>
+      partitionDepth(a, partitions) - partitionDepth(b, partitions);
+
+    const extraPartitions = drift.extraPartitions
+      .map((key) => sourcePartitions.get(key))
+      .filter((p): p is Partition => !!p)
+      .sort(byDepth(sourcePartitions))
+      .reverse();
+    for (const partition of extraPartitions) {
+      dropPartitions.push({
+        type: "DROP_TABLE",
+        table: partitionKey(partition),
+        sql: `DROP TABLE ${qualifiedName(partition.schema, partition.name)};`,
+        reverseSql: this.createPartitionSql(partition, sourceTables),
+      });
+    }
+
+    const missingPartitions = drift.missingPartitions
+      .map((key) => targetPartitions.get(key))
+      .filter((p): p is Partition => !!p)
+      .sort(byDepth(targetPartitions));
+    for (const partition of missingPartitions) {
+      createPartitions.push({
+        type: "CREATE_TABLE",
+        table: partitionKey(partition),
+        sql: this.createPartitionSql(partition, targetTables),
+        reverseSql: `DROP TABLE ${qualifiedName(partition.schema, partition.name)};`,
+      });
+    }
+
+    for (const partitionDrift of drift.modifiedPartitions) {
+      warnings.push(`Not generated: re-attach partition ${partitionDrift.name} with its new parent or bound`);
+    }
+
+    // Columns and constraints of tables present on both sides; tables losing a
+    // column or changing a column type are remembered for the views on them
+    const alteredTables = new Set<string>();
+    for (const tableDrift of drift.modifiedTables) {
+      const sourceTable = sourceTables.get(tableDrift.tableName);
+      const targetTable = targetTables.get(tableDrift.tableName);
+      if (!sourceTable || !targetTable || isPartition(tableDrift.tableName)) continue;
+
+      for (const constraintName of tableDrift.extraConstraints) {
+        const constraint = sourceTable.constraints.find((c) => c.name === constraintName);
+        if (!constraint) continue;
+        const operation = this.dropConstraintOperation(sourceTable, constraint);
+        if (constraint.type === ConstraintType.FOREIGN_KEY) {
+          dropForeignKeys.push(operation);
+        } else {
+          dropConstraints.push(operation);
+        }
+      }
+
+      for (const columnName of tableDrift.extraColumns) {
+        const column = sourceTable.columns.find((c) => c.name === columnName);
+        if (!column) continue;
+        alteredTables.add(tableDrift.tableName);
+        dropColumns.push({
+          type: "DROP_COLUMN",
+          table: tableDrift.tableName,
+          column: columnName,
+          sql: formatDropColumn(this.tableName(sourceTable), quoteIdentifier(columnName)),
+          reverseSql: formatAlterTable(this.tableName(sourceTable), `ADD COLUMN ${formatColumnDefinition(column)}`),
+        });
+      }
+
+      for (const columnName of tableDrift.missingColumns) {
+        const column = targetTable.columns.find((c) => c.name === columnName);
+        if (!column) continue;
+        addColumns.push({
+          type: "ADD_COLUMN",
+          table: tableDrift.tableName,
+          column: columnName,
+          sql: formatAlterTable(this.tableName(targetTable), `ADD COLUMN ${formatColumnDefinition(column)}`),
+          reverseSql: formatDropColumn(this.tableName(targetTable), quoteIdentifier(columnName)),
+        });
+      }
+
+      for (const columnDrift of tableDrift.modifiedColumns) {
+        const sourceColumn = sourceTable.columns.find((c) => c.name === columnDrift.columnName);
+        const targetColumn = targetTable.columns.find((c) => c.name === columnDrift.columnName);
+        if (!sourceColumn || !targetColumn) continue;
+        if (columnDrift.changes.some((change) => TYPE_PROPERTIES.includes(change.property))) {
+          alteredTables.add(tableDrift.tableName);
+        }
+        modifyColumns.push(
+          ...this.modifyColumnOperations(
+            targetTable,
+            sourceColumn,
+            targetColumn,
+            columnDrift.changes.map((change) => change.property)
+          )
+        );
+      }
+
+      for (const constraintName of tableDrift.missingConstraints) {
+        const constraint = targetTable.constraints.find((c) => c.name === constraintName);
+        if (!constraint) continue;
+        const operation = this.addConstraintOperation(targetTable, constraint);
+        if (constraint.type === ConstraintType.FOREIGN_KEY) {
+          addForeignKeys.push(operation);
+        } else {
+          addConstraints.push(operation);
+        }
+      }
+    }
+
+    // Indexes that back a constraint are created and dropped with the constraint
+    const sourceIndexes = this.indexMap(source);
+    const targetIndexes = this.indexMap(target);
+
+    for (const indexKey of drift.extraIndexes) {
+      const index = sourceIndexes.get(indexKey);
+      if (!index || this.isConstraintIndex(index, sourceTables) || isPartition(`${index.schemaName}.${index.tableName}`)) {
+        continue;
+      }
+      dropIndexes.push({
+        type: "DROP_INDEX",
+        table: `${index.schemaName}.${index.tableName}`,
+        index: index.name,
+        sql: formatDropIndex(qualifiedName(index.schemaName, index.name)),
+        reverseSql: this.createIndexSql(index),
+      });
+    }
+
+    for (const indexKey of drift.missingIndexes) {
+      const index = targetIndexes.get(indexKey);
+      if (!index || this.isConstraintIndex(index, targetTables) || isPartition(`${index.schemaName}.${index.tableName}`)) {
+        continue;
+      }
+      createIndexes.push({
+        type: "CREATE_INDEX",
+        table: `${index.schemaName}.${index.tableName}`,
+        index: index.name,
+        sql: this.createIndexSql(index),
+        reverseSql: formatDropIndex(qualifiedName(index.schemaName, index.name)),
+      });
+    }
+
+    // Views
+    const sourceViews = new Map(source.views.map((v) => [`${v.schema}.${v.name}`, v]));
+    const targetViews = new Map(target.views.map((v) => [`${v.schema}.${v.name}`, v]));
+
+    // PostgreSQL refuses to drop or retype a column a view selects, so the views
+    // on an altered table, and the views on those, are dropped before the column
+    // changes and created again after them
+    const rebuiltViews = this.viewsDependingOn(source.views, alteredTables);
+    for (const viewKey of rebuiltViews) {
+      const sourceView = sourceViews.get(viewKey);
+      const targetView = targetViews.get(viewKey);
+      if (!sourceView || !targetView) continue;
+      dropViews.push({
+        type: "DROP_VIEW",
+        view: viewKey,
+        sql: formatDropView(qualifiedName(sourceView.schema, sourceView.name)),
+        reverseSql: this.createViewSql(sourceView),
+      });
+      createViews.push({
+        type: "CREATE_VIEW",
+        view: viewKey,
+        sql: this.createViewSql(targetView),
+        reverseSql: formatDropView(qualifiedName(targetView.schema, targetView.name)),
+      });
+    }
+
+    for (const viewKey of drift.extraViews) {
+      const view = sourceViews.get(viewKey);
+      if (!view) continue;
+      dropViews.push({
+        type: "DROP_VIEW",
+        view: viewKey,
+        sql: formatDropView(qualifiedName(view.schema, view.name)),
+        reverseSql: this.createViewSql(view),
+      });
+    }
+
+    for (const viewKey of drift.missingViews) {
+      const view = targetViews.get(viewKey);
+      if (!view) continue;
+      createViews.push({
+        type: "CREATE_VIEW",
+        view: viewKey,
+        sql: this.createViewSql(view),
+        reverseSql: formatDropView(qualifiedName(view.schema, view.name)),
+      });
+    }
+
+    for (const viewDrift of drift.modifiedViews) {
+      const sourceView = sourceViews.get(viewDrift.viewName);
+      const targetView = targetViews.get(viewDrift.viewName);
+      if (!sourceView || !targetView || rebuiltViews.has(viewDrift.viewName)) continue;
+      const viewName = qualifiedName(targetView.schema, targetView.name);
+      createViews.push({
+        type: "REPLACE_VIEW",
+        view: viewDrift.viewName,
+        sql: formatAlterView(viewName, this.viewSelectBody(targetView.definition)),
+        reverseSql: formatAlterView(viewName, this.viewSelectBody(sourceView.definition)),
+      });
+    }
+
+    // Triggers
+    const triggerKey = (t: Trigger) => `${t.schema}.${t.tableName}.${t.name}`;
+    const sourceTriggers = new Map(source.triggers.map((t) => [triggerKey(t), t]));
+    const targetTriggers = new Map(target.triggers.map((t) => [triggerKey(t), t]));
+
+    for (const key of drift.extraTriggers) {
+      const trigger = sourceTriggers.get(key);
+      if (!trigger || isPartition(`${trigger.schema}.${trigger.tableName}`)) continue;
+      dropTriggers.push({
+        type: "DROP_TRIGGER",
+        table: `${trigger.schema}.${trigger.tableName}`,
+        trigger: trigger.name,
+        sql: formatDropTrigger(quoteIdentifier(trigger.name), qualifiedName(trigger.schema, trigger.tableName)),
+        reverseSql: this.createTriggerSql(trigger),
+      });
+    }
+
+    for (const key of drift.missingTriggers) {
+      const trigger = targetTriggers.get(key);
+      if (!trigger || isPartition(`${trigger.schema}.${trigger.tableName}`)) continue;
+      createTriggers.push({
+        type: "CREATE_TRIGGER",
+        table: `${trigger.schema}.${trigger.tableName}`,
+        trigger: trigger.name,
+        sql: this.createTriggerSql(trigger),
+        reverseSql: formatDropTrigger(quoteIdentifier(trigger.name), qualifiedName(trigger.schema, trigger.tableName)),
+      });
+    }
+
+    // RLS policies
+    const policyKey = (p: RLSPolicy) => `${p.schema}.${p.tableName}.${p.policyName}`;
+    const sourcePolicies = new Map(source.rlsPolicies.map((p) => [policyKey(p), p]));
+    const targetPolicies = new Map(target.rlsPolicies.map((p) => [policyKey(p), p]));
+
+    for (const key of drift.extraRLSPolicies) {
+      const policy = sourcePolicies.get(key);
+      if (!policy) continue;
+      dropPolicies.push({
+        type: "DROP_POLICY",
+        table: `${policy.schema}.${policy.tableName}`,
+        policy: policy.policyName,
+        sql: formatDropRLSPolicy(quoteIdentifier(policy.policyName), qualifiedName(policy.schema, policy.tableName)),
+        reverseSql: this.createPolicySql(policy),
+      });
+    }
+
+    for (const key of drift.missingRLSPolicies) {
+      const policy = targetPolicies.get(key);
+      if (!policy) continue;
+      createPolicies.push({
+        type: "CREATE_POLICY",
+        table: `${policy.schema}.${policy.tableName}`,
+        policy: policy.policyName,
+        sql: this.createPolicySql(policy),
+        reverseSql: formatDropRLSPolicy(quoteIdentifier(policy.policyName), qualifiedName(policy.schema, policy.tableName)),
+      });
+    }
+
+    // Dependents are dropped before what they depend on and created after it
+    const operations = [
+      ...dropPolicies,
+      ...dropTriggers,
+      ...this.sortByViewDependencies(dropViews, source.views).reverse(),
+      ...dropIndexes,
+      ...dropForeignKeys,
+      ...dropConstraints,
+      ...dropColumns,
+      ...dropPartitions,
+      ...dropTables,
+      ...createEnums,
+      ...createTables,
+      ...createPartitions,
+      ...addColumns,
+      ...modifyColumns,
+      ...dropEnums,
+      ...addConstraints,
+      ...addForeignKeys,
+      ...createIndexes,
+      ...this.sortByViewDependencies(createViews, target.views),
+      ...createTriggers,
+      ...createPolicies,
+    ];
+
+    // dbmate runs a migration in one transaction, and PostgreSQL rejects a new
+    // enum value used before the ALTER TYPE adding it has committed
+    for (const added of addedEnumValues) {
+      const literal = this.enumLiteral(added.value);
+      const addedAt = operations.findIndex(
+        (op) => op.type === "ALTER_ENUM" && op.enum === added.enum && op.sql.includes(literal)
+      );
+      if (operations.slice(addedAt + 1).some((op) => op.sql.includes(literal))) {
+        warnings.push(
+          `${added.enum} gains ${literal}, which later statements in the same migration use; ` +
+            "PostgreSQL rejects that inside one transaction (unsafe use of new enum value). " +
+            "Move the ALTER TYPE into its own migration marked -- migrate:up transaction:false."
+        );
+      }
+    }
+
+    this.reportUngenerated(drift, source, target, warnings);
+    return operations;
+  }
+
+  buildMigrationSql(operations: MigrationOperation[]): {upSql: string; downSql: string} {
+    const upSql = operations.map((operation) => operation.sql).join("\n\n");
+    const downSql = [...operations]
+      .reverse()
+      .map(
+        (operation) =>
+          operation.reverseSql ||
+          `-- Irreversible operation: ${operation.sql.split("\n")[0]}`
+      )
+      .join("\n\n");
+
+    return {upSql, downSql};
+  }
+
+  private modifyColumnOperations(
+    table: Table,
+    sourceColumn: Column,
+    targetColumn: Column,
+    changedProperties: string[]
+  ): MigrationOperation[] {
+    const operations: MigrationOperation[] = [];
+    const tableName = this.tableName(table);
+    const columnName = quoteIdentifier(targetColumn.name);
+    const base = {
+      type: "MODIFY_COLUMN" as const,
+      table: `${table.schema}.${table.name}`,
+      column: targetColumn.name,
+    };
+
+    if (changedProperties.some((property) => TYPE_PROPERTIES.includes(property))) {
+      const targetType = formatColumnType(targetColumn);
+      const sourceType = formatColumnType(sourceColumn);
+      operations.push({
+        ...base,
+        sql: formatAlterTable(tableName, `ALTER COLUMN ${columnName} TYPE ${targetType} USING ${columnName}::${targetType}`),
+        reverseSql: formatAlterTable(tableName, `ALTER COLUMN ${columnName} TYPE ${sourceType} USING ${columnName}::${sourceType}`),
+      });
+    }
+
+    if (changedProperties.includes("isNullable")) {
+      const setNotNull = `ALTER COLUMN ${columnName} SET NOT NULL`;
+      const dropNotNull = `ALTER COLUMN ${columnName} DROP NOT NULL`;
+      operations.push({
+        ...base,
+        sql: formatAlterTable(tableName, targetColumn.isNullable ? dropNotNull : setNotNull),
+        reverseSql: formatAlterTable(tableName, sourceColumn.isNullable ? dropNotNull : setNotNull),
+      });
+    }
+
+    if (changedProperties.includes("identityGeneration")) {
+      const identityAction = (from: Column, to: Column) =>
+        !to.isIdentity
+          ? `ALTER COLUMN ${columnName} DROP IDENTITY`
+          : from.isIdentity
+            ? `ALTER COLUMN ${columnName} SET GENERATED ${to.identityGeneration ?? "BY DEFAULT"}`
+            : `ALTER COLUMN ${columnName} ADD GENERATED ${to.identityGeneration ?? "BY DEFAULT"} AS IDENTITY`;
+      operations.push({
+        ...base,
+        sql: formatAlterTable(tableName, identityAction(sourceColumn, targetColumn)),
+        reverseSql: formatAlterTable(tableName, identityAction(targetColumn, sourceColumn)),
+      });
+    }
+
+    if (changedProperties.includes("defaultValue")) {
+      const defaultAction = (column: Column) =>
+        column.defaultValue
+          ? `ALTER COLUMN ${columnName} SET DEFAULT ${column.defaultValue}`
+          : `ALTER COLUMN ${columnName} DROP DEFAULT`;
+      operations.push({
+        ...base,
+        sql: formatAlterTable(tableName, defaultAction(targetColumn)),
+        reverseSql: formatAlterTable(tableName, defaultAction(sourceColumn)),
+      });
+    }
+
+    return operations;
+  }
+
+  // Views selecting from one of the relations, directly or through another view
+  private viewsDependingOn(views: View[], relations: Set<string>): Set<string> {
+    const dependents = new Set<string>();
+    let added = true;
+    while (added) {
+      added = false;
+      for (const view of views) {
+        const viewKey = `${view.schema}.${view.name}`;
+        if (dependents.has(viewKey)) continue;
+        if ([...relations, ...dependents].some((relation) => this.viewReferences(view, relation))) {
+          dependents.add(viewKey);
+          added = true;
+        }
+      }
+    }
+    return dependents;
+  }
+
+  // Views are emitted in catalog order; a view selecting from another view has
+  // to be created after it and dropped before it. Dependencies come first, and
+  // a cycle, which PostgreSQL itself rejects, keeps the input order
+  private sortByViewDependencies(operations: MigrationOperation[], views: View[]): MigrationOperation[] {
+    const viewsByKey = new Map(views.map((v) => [`${v.schema}.${v.name}`, v]));
+    const pending = new Set(operations.map((op) => op.view!));
+
+    const sorted: MigrationOperation[] = [];
+    const visiting = new Set<string>();
+    const visit = (op: MigrationOperation) => {
+      const viewKey = op.view!;
+      if (!pending.has(viewKey) || visiting.has(viewKey)) return;
+      visiting.add(viewKey);
+      const view = viewsByKey.get(viewKey);
+      if (view) {
+        for (const other of operations) {
+          if (other.view !== viewKey && this.viewReferences(view, other.view!)) visit(other);
+        }
+      }
+      pending.delete(viewKey);
+      sorted.push(op);
+    };
+    operations.forEach(visit);
+    return sorted;
+  }
+
+  // Matches the unqualified name as a word, since definitions may omit the schema
+  private viewReferences(view: View, relation: string): boolean {
+    const name = relation.split(".").pop()!;
+    return new RegExp(`(^|[^\\w$])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^\\w$])`).test(view.definition);
+  }
+
+  private reportUngenerated(
+    drift: SchemaDrift,
+    source: DatabaseSchema,
+    target: DatabaseSchema,
+    warnings: string[]
+  ): void {
+    const report = (kind: string, missing: string[], extra: string[], modified: string[]) => {
+      missing.forEach((name) => warnings.push(`Not generated: create ${kind} ${name}`));
+      extra.forEach((name) => warnings.push(`Not generated: drop ${kind} ${name}`));
+      modified.forEach((name) => warnings.push(`Not generated: alter ${kind} ${name}`));
+    };
+
+    // Serial and identity sequences come and go with their column
+    const ownedSequences = new Set(
+      [...(source.sequences || []), ...(target.sequences || [])]
+        .filter((sequence) => sequence.ownedBy)
+        .map((sequence) => `${sequence.schema}.${sequence.name}`)
+    );
+    const unowned = (names: string[]) => names.filter((name) => !ownedSequences.has(name));
+
+    report(
+      "sequence",
+      unowned(drift.missingSequences),
+      unowned(drift.extraSequences),
+      unowned(drift.modifiedSequences.map((d) => d.name))
+    );
+    report(
+      "materialized view",
+      drift.missingMaterializedViews,
+      drift.extraMaterializedViews,
+      drift.modifiedMaterializedViews.map((d) => d.viewName)
+    );
+    report("domain", drift.missingDomains, drift.extraDomains, drift.modifiedDomains.map((d) => d.name));
+    report(
+      "composite type",
+      drift.missingCompositeTypes,
+      drift.extraCompositeTypes,
+      drift.modifiedCompositeTypes.map((d) => d.name)
+    );
+    report("grant", drift.missingGrants, drift.extraGrants, []);
+  }
+
+  private addConstraintOperation(table: Table, constraint: Constraint): MigrationOperation {
+    return {
+      type: "ADD_CONSTRAINT",
+      table: `${table.schema}.${table.name}`,
+      constraint: constraint.name,
+      sql: formatAddConstraint(this.tableName(table), quoteIdentifier(constraint.name), formatConstraintDefinition(constraint)),
+      reverseSql: formatDropConstraint(this.tableName(table), quoteIdentifier(constraint.name)),
+    };
+  }
+
+  private dropConstraintOperation(table: Table, constraint: Constraint): MigrationOperation {
+    return {
+      type: "DROP_CONSTRAINT",
+      table: `${table.schema}.${table.name}`,
+      constraint: constraint.name,
+      sql: formatDropConstraint(this.tableName(table), quoteIdentifier(constraint.name)),
+      reverseSql: formatAddConstraint(this.tableName(table), quoteIdentifier(constraint.name), formatConstraintDefinition(constraint)),
+    };
+  }
+
+  private createTableSql(table: Table): string {
+    const columns = [...table.columns]
+      .sort((a, b) => a.ordinalPosition - b.ordinalPosition)
+      .map((column) => formatColumnDefinition(column));
+    // Foreign keys are added separately so tables can be created in any order
+    const constraints = (table.constraints || [])
+      .filter((c) => c.type !== ConstraintType.FOREIGN_KEY && c.type !== ConstraintType.NOT_NULL)
+      .map((c) => `CONSTRAINT ${quoteIdentifier(c.name)} ${formatConstraintDefinition(c)}`);
+
+    const sql = formatCreateTable(this.tableName(table), columns, constraints);
+    return table.partitionKey ? `${sql.slice(0, -1)} PARTITION BY ${table.partitionKey};` : sql;
+  }
+
+  private createPartitionSql(partition: Partition, tables: Map<string, Table>): string {
+    // A partition can itself be partitioned
+    const partitionKey = tables.get(`${partition.schema}.${partition.name}`)?.partitionKey;
+    return (
+      `CREATE TABLE ${qualifiedName(partition.schema, partition.name)} ` +
+      `PARTITION OF ${qualifiedName(partition.parentSchema, partition.parentName)} ${partition.bound}` +
+      (partitionKey ? ` PARTITION BY ${partitionKey}` : "") +
+      ";"
+    );
+  }
+
+  private createEnumSql(enumType: Enum): string {
+    return formatCreateEnum(
+      qualifiedName(enumType.schema, enumType.name),
+      enumType.values.map((value) => value.replace(/'/g, "''"))
+    );
+  }
+
+  private enumLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  private createIndexSql(index: Index): string {
+    if (index.definition) {
+      // pg_get_indexdef says ON ONLY for partitioned tables, which would leave out the partitions
+      return `${index.definition.replace(/ ON ONLY /, " ON ")};`;
+    }
+    return formatCreateIndex(
+      quoteIdentifier(index.name),
+      qualifiedName(index.schemaName, index.tableName),
+      index.columns.map((column) =>
+        column.direction === "DESC" ? `${quoteIdentifier(column.name)} DESC` : quoteIdentifier(column.name)
+      ),
+      {unique: index.isUnique, condition: index.condition}
+    );
+  }
+
+  private createViewSql(view: View): string {
+    return formatCreateView(qualifiedName(view.schema, view.name), this.viewSelectBody(view.definition));
+  }
+
+  private viewSelectBody(definition: string): string {
+    return definition
+      .trim()
+      .replace(/^CREATE\s+(?:OR\s+REPLACE\s+)?VIEW\s+[\w."]+\s+AS\s+/i, "")
+      .replace(/;\s*$/, "");
+  }
+
+  private createTriggerSql(trigger: Trigger): string {
+    if (/^\s*CREATE\s/i.test(trigger.definition || "")) {
+      return trigger.definition.trim().replace(/;?\s*$/, ";");
+    }
+    return formatCreateTrigger(
+      quoteIdentifier(trigger.name),
+      qualifiedName(trigger.schema, trigger.tableName),
+      trigger.timing,
+      trigger.events,
+      trigger.orientation,
+      qualifiedName(trigger.functionSchema || undefined, trigger.functionName),
+      {condition: trigger.condition}
+    );
+  }
+
+  private createPolicySql(policy: RLSPolicy): string {
+    return formatCreateRLSPolicy(
+      quoteIdentifier(policy.policyName),
+      qualifiedName(policy.schema, policy.tableName),
+      policy.command,
+      policy.roles && policy.roles.length > 0 ? policy.roles : ["PUBLIC"],
+      {
+        permissive: policy.permissive,
+        usingExpression: policy.qualExpression,
+        withCheckExpression: policy.withCheckExpression,
+      }
+    );
+  }
+
+  private isConstraintIndex(index: Index, tables: Map<string, Table>): boolean {
+    if (index.isPrimary) {
+      return true;
+    }
+    const table = tables.get(`${index.schemaName}.${index.tableName}`);
+    return !!table?.constraints?.some((c) => c.name === index.name);
+  }
+
+  private foreignKeys(table: Table): Constraint[] {
+    return (table.constraints || []).filter((c) => c.type === ConstraintType.FOREIGN_KEY);
+  }
+
+  private tableName(table: Table): string {
+    return qualifiedName(table.schema, table.name);
+  }
+
+  private tableMap(schema: DatabaseSchema): Map<string, Table> {
+    return new Map(schema.tables.map((t) => [`${t.schema}.${t.name}`, t]));
+  }
+
+  private indexMap(schema: DatabaseSchema): Map<string, Index> {
+    return new Map(
+      (schema.indexes || []).map((i) => [`${i.schemaName}.${i.tableName}.${i.name}`, i])
+    );
+  }
+}
@@ -0,0 +1,317 @@
+import {DatabaseService} from "./database.js";
+import {ImpactNode, ImpactTargetType, ObjectImpact} from "../types/schema.js";
+
+// A catalog object as pg_depend addresses it
+interface ObjectRef {
+  classid: number;
+  objid: number;
+  objsubid: number;
+}
+
+interface ResolvedTarget {
+  identity: string;
+  refs: ObjectRef[];
+  // Names a function body has to mention to count as depending on the target
+  bodyPatterns: RegExp[];
+}
+
+interface DependentRow {
+  classid: number;
+  objid: number;
+  objsubid: number;
+  deptype: "n" | "a";
+  kind: string;
+  schema: string | null;
+  identity: string;
+  row_type: number | null;
+  array_type: number | null;
+}
+
+// Views reference their inputs through pg_rewrite rules, which are reported as the view itself.
+// A generation expression is reported as its generated column, so what uses that column follows
+const DEPENDENTS_QUERY = `
+  WITH refs AS (
+    SELECT * FROM unnest($1::oid[], $2::oid[], $3::int[]) AS r(classid, objid, objsubid)
+  ),
+  deps AS (
+    SELECT
+      CASE
+        WHEN d.classid = 'pg_rewrite'::regclass OR gen.attnum IS NOT NULL THEN 'pg_class'::regclass::oid
+        ELSE d.classid
+      END AS classid,
+      CASE
+        WHEN d.classid = 'pg_rewrite'::regclass THEN rw.ev_class
+        WHEN gen.attnum IS NOT NULL THEN gen.attrelid
+        ELSE d.objid
+      END AS objid,
+      CASE
+        WHEN d.classid = 'pg_rewrite'::regclass THEN 0
+        WHEN gen.attnum IS NOT NULL THEN gen.attnum::int
+        ELSE d.objsubid
+      END AS objsubid,
+      CASE WHEN d.deptype = 'i' THEN 'a' ELSE d.deptype END AS deptype,
+      gen.attnum IS NOT NULL AS generated
+    FROM pg_depend d
+    JOIN refs ON d.refclassid = refs.classid AND d.refobjid = refs.objid
+      AND (refs.objsubid = 0 OR d.refobjsubid = refs.objsubid)
+    LEFT JOIN pg_rewrite rw ON d.classid = 'pg_rewrite'::regclass AND rw.oid = d.objid
+    LEFT JOIN pg_attrdef ad ON d.classid = 'pg_attrdef'::regclass AND ad.oid = d.objid
+    LEFT JOIN pg_attribute gen ON gen.attrelid = ad.adrelid AND gen.attnum = ad.adnum AND gen.attgenerated <> ''
+    -- A generation expression is an internal part of its column and goes with it
+    WHERE d.deptype IN ('n', 'a') OR (d.deptype = 'i' AND d.classid = 'pg_attrdef'::regclass)
+  )
+  SELECT DISTINCT ON (deps.classid, deps.objid, deps.objsubid)
+    deps.classid::int AS classid,
+    deps.objid::int AS objid,
+    deps.objsubid,
+    deps.deptype,
+    CASE WHEN deps.generated THEN 'generated column' ELSE o.type END AS kind,
+    o.schema,
+    o.identity,
+    CASE WHEN deps.classid = 'pg_class'::regclass AND deps.objsubid = 0
+      THEN (SELECT NULLIF(c.reltype, 0)::int FROM pg_class c WHERE c.oid = deps.objid) END AS row_type,
+    CASE WHEN deps.classid = 'pg_type'::regclass
+      THEN (SELECT NULLIF(t.typarray, 0)::int FROM pg_type t WHERE t.oid = deps.objid) END AS array_type
+  FROM deps
+  CROSS JOIN LATERAL pg_identify_object(deps.classid, deps.objid, deps.objsubid) o
+  WHERE NOT EXISTS (
+    SELECT 1 FROM refs
+    WHERE refs.classid = deps.classid AND refs.objid = deps.objid
+      AND (refs.objsubid = 0 OR refs.objsubid = deps.objsubid)
+  )
+  -- An object depending on the target both ways (a policy on the table that also reads one
+  -- of its columns) is dropped along with it, so the automatic dependency wins
+  ORDER BY deps.classid, deps.objid, deps.objsubid, deps.deptype
+`;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches a bare or double-quoted identifier, optionally schema-qualified
+const identifierPattern = (name: string, suffix = "") =>
+  new RegExp(`(^|[^\\w$])"?${escapeRegExp(name)}"?${suffix}($|[^\\w$])`, "i");
+
+/**
+ * Lists everything that depends on a table, column, view, type or function.
+ * Recorded dependencies come from pg_depend and are followed transitively, so
+ * a view built on a view built on the table shows up as a grandchild.
+ * Function bodies are not tracked by PostgreSQL (except SQL-standard bodies),
+ * so they are searched for the object's name instead and reported as breaking
+ * at runtime rather than blocking the DROP.
+ */
+export class ImpactAnalyzer {
+  private typeClassId?: number;
+
+  constructor(private databaseService: DatabaseService) {}
+
+  async analyze(
+    targetType: ImpactTargetType,
+    objectName: string,
+    schemaName: string = "public",
+    options: {columnName?: string; maxDepth?: number} = {}
+  ): Promise<ObjectImpact> {
+    const maxDepth = options.maxDepth ?? 10;
+    const target = await this.resolveTarget(targetType, objectName, schemaName, options.columnName);
+
+    const visited = new Set(target.refs.map(ref => this.refKey(ref)));
+    let truncated = false;
+
+    const walk = async (refs: ObjectRef[], depth: number): Promise<ImpactNode[]> => {
+      // Claim the whole level first so each object is listed where it is reached soonest
+      const rows = (await this.dependents(refs)).filter(row => !visited.has(this.refKey(row)));
+      rows.forEach(row => visited.add(this.refKey(row)));
+
+      const nodes: ImpactNode[] = [];
+      for (const row of rows) {
+        const node: ImpactNode = {
+          kind: row.kind,
+          identity: row.identity,
+          ...(row.schema ? {schema: row.schema} : {}),
+          dependency: row.deptype === "n" ? "normal" : "automatic",
+          onDrop: row.deptype === "n" ? "requires_cascade" : "dropped_automatically",
+          children: [],
+        };
+
+        // Things built on a dependent go down with it, including anything using its row type
+        const next: ObjectRef[] = [{classid: row.classid, objid: row.objid, objsubid: row.objsubid}];
+        if (row.row_type) next.push(await this.typeRef(row.row_type));
+        if (row.array_type) next.push(await this.typeRef(row.array_type));
+
+        if (depth >= maxDepth) {
+          truncated = true;
+        } else {
+          node.children = await walk(next, depth + 1);
+        }
+        nodes.push(node);
+      }
+      return nodes;
+    };
+
+    const dependents = await walk(target.refs, 1);
+
+    const tracked = new Set<string>();
+    const collect = (nodes: ImpactNode[]) => {
+      for (const node of nodes) {
+        if (node.kind === "function") tracked.add(node.identity.replace(/\(.*$/, ""));
+        collect(node.children);
+      }
+    };
+    collect(dependents);
+    dependents.push(...(await this.functionBodyDependents(target, targetType, schemaName, objectName, tracked)));
+
+    const blockedBy: string[] = [];
+    const droppedWithCascade: string[] = [];
+    const breaksAtRuntime: string[] = [];
+    const summarize = (nodes: ImpactNode[]) => {
+      for (const node of nodes) {
+        if (node.dependency === "function_body") {
+          breaksAtRuntime.push(node.identity);
+          continue;
+        }
+        if (node.dependency === "normal") blockedBy.push(`${node.kind} ${node.identity}`);
+        droppedWithCascade.push(`${node.kind} ${node.identity}`);
+        summarize(node.children);
+      }
+    };
+    summarize(dependents);
+
+    const parts = [
+      blockedBy.length > 0
+        ? `DROP without CASCADE fails because of ${blockedBy.length} dependent object(s)`
+        : "DROP without CASCADE succeeds",
+      `CASCADE would drop ${droppedWithCascade.length} object(s)`,
+    ];
+    if (breaksAtRuntime.length > 0) {
+      parts.push(`${breaksAtRuntime.length} function(s) reference it in their body and would fail when called`);
+    }
+
+    return {
+      target: {kind: targetType, identity: target.identity},
+      dependents,
+      cascade: {
+        restrictWouldFail: blockedBy.length > 0,
+        blockedBy,
+        droppedWithCascade,
+        breaksAtRuntime,
+      },
+      truncated,
+      summary: parts.join("; "),
+    };
+  }
+
+  private async resolveTarget(
+    targetType: ImpactTargetType,
+    objectName: string,
+    schemaName: string,
+    columnName?: string
+  ): Promise<ResolvedTarget> {
+    const identity = `${schemaName}.${objectName}`;
+
+    if (targetType === "function") {
+      const result = await this.databaseService.executeQuery(
+        `SELECT 'pg_proc'::regclass::int AS classid, p.oid::int AS objid
+         FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+         WHERE n.nspname = $1 AND p.proname = $2`,
+        [schemaName, objectName]
+      );
+      if (result.rows.length === 0) throw new Error(`Function ${identity} not found`);
+      return {
+        identity,
+        refs: result.rows.map((row: any) => ({classid: row.classid, objid: row.objid, objsubid: 0})),
+        bodyPatterns: [identifierPattern(objectName, "\\s*\\(")],
+      };
+    }
+
+    if (targetType === "type") {
+      const result = await this.databaseService.executeQuery(
+        `SELECT 'pg_type'::regclass::int AS classid, t.oid::int AS objid, NULLIF(t.typarray, 0)::int AS array_type
+         FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace
+         WHERE n.nspname = $1 AND t.typname = $2`,
+        [schemaName, objectName]
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error(`Type ${identity} not found`);
+      const refs: ObjectRef[] = [{classid: row.classid, objid: row.objid, objsubid: 0}];
+      if (row.array_type) refs.push({classid: row.classid, objid: row.array_type, objsubid: 0});
+      return {identity, refs, bodyPatterns: [identifierPattern(objectName)]};
+    }
+
+    const relkinds: Record<string, string[]> = {
+      table: ["r", "p", "f"],
+      column: ["r", "p", "f", "v", "m"],
+      view: ["v"],
+      materialized_view: ["m"],
+    };
+    const result = await this.databaseService.executeQuery(
+      `SELECT 'pg_class'::regclass::int AS classid, c.oid::int AS objid, NULLIF(c.reltype, 0)::int AS row_type
+       FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind = ANY($3::char[])`,
+      [schemaName, objectName, relkinds[targetType]]
+    );
+    const row = result.rows[0];
+    if (!row) throw new Error(`${targetType === "column" ? "Relation" : targetType.replace("_", " ")} ${identity} not found`);
+
+    if (targetType === "column") {
+      if (!columnName) throw new Error("columnName is required when objectType is column");
+      const column = await this.databaseService.executeQuery(
+        `SELECT attnum FROM pg_attribute WHERE attrelid = $1 AND attname = $2 AND attnum > 0 AND NOT attisdropped`,
+        [row.objid, columnName]
+      );
+      if (column.rows.length === 0) throw new Error(`Column ${columnName} not found on ${identity}`);
+      return {
+        identity: `${identity}.${columnName}`,
+        refs: [{classid: row.classid, objid: row.objid, objsubid: column.rows[0].attnum}],
+        bodyPatterns: [identifierPattern(objectName), identifierPattern(columnName)],
+      };
+    }
+
+    const refs: ObjectRef[] = [{classid: row.classid, objid: row.objid, objsubid: 0}];
+    if (row.row_type) refs.push(await this.typeRef(row.row_type));
+    return {identity, refs, bodyPatterns: [identifierPattern(objectName)]};
+  }
+
+  private async dependents(refs: ObjectRef[]): Promise<DependentRow[]> {
+    const result = await this.databaseService.executeQuery(DEPENDENTS_QUERY, [
+      refs.map(ref => ref.classid),
+      refs.map(ref => ref.objid),
+      refs.map(ref => ref.objsubid),
+    ]);
+    return result.rows;
+  }
+
+  private async typeRef(typeOid: number): Promise<ObjectRef> {
+    if (this.typeClassId === undefined) {
+      const result = await this.databaseService.executeQuery(`SELECT 'pg_type'::regclass::int AS classid`);
+      this.typeClassId = result.rows[0].classid as number;
+    }
+    return {classid: this.typeClassId, objid: typeOid, objsubid: 0};
+  }
+
+  private async functionBodyDependents(
+    target: ResolvedTarget,
+    targetType: ImpactTargetType,
+    schemaName: string,
+    objectName: string,
+    tracked: Set<string>
+  ): Promise<ImpactNode[]> {
+    const functions = await this.databaseService.getFunctions();
+    return functions
+      .filter(fn => {
+        const name = `${fn.schema}.${fn.name}`;
+        if (tracked.has(name) || fn.extension) return false;
+        if (targetType === "function" && fn.schema === schemaName && fn.name === objectName) return false;
+        return !!fn.definition && target.bodyPatterns.every(pattern => pattern.test(fn.definition!));
+      })
+      .map(fn => ({
+        kind: "function",
+        identity: `${fn.schema}.${fn.name}(${fn.identityArguments ?? ""})`,
+        schema: fn.schema,
+        dependency: "function_body" as const,
+        onDrop: "breaks_at_runtime" as const,
+        children: [],
+      }));
+  }
+
+  private refKey(ref: ObjectRef): string {
+    return `${ref.classid}:${ref.objid}:${ref.objsubid}`;
+  }
+}
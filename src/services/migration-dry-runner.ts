@@ -0,0 +1,285 @@
+import {ClientBase} from "pg";
+import {DatabaseService} from "./database.js";
+import {log} from "../utils/logger.js";
+import {ParsedStatement, isKeyword, parseSql} from "../utils/sql-parser.js";
+import {
+  DryRunError,
+  DryRunLock,
+  DryRunObject,
+  DryRunSectionResult,
+  DryRunStatementResult,
+  MigrationDryRunResult,
+} from "../types/migration.js";
+
+export interface DryRunOptions {
+  includeDown?: boolean;
+  // Applied with SET LOCAL so a dry run never waits long behind live traffic
+  lockTimeoutMs?: number;
+  statementTimeoutMs?: number;
+}
+
+const TRANSACTION_CONTROL_NOTE = "Transaction control is skipped; the dry run manages its own transaction";
+
+// Statements that would end the surrounding transaction or cannot run inside one
+const SKIPPED_COMMANDS: Record<string, string> = {
+  BEGIN: TRANSACTION_CONTROL_NOTE,
+  START: TRANSACTION_CONTROL_NOTE,
+  COMMIT: TRANSACTION_CONTROL_NOTE,
+  END: TRANSACTION_CONTROL_NOTE,
+  ROLLBACK: TRANSACTION_CONTROL_NOTE,
+  ABORT: TRANSACTION_CONTROL_NOTE,
+  SAVEPOINT: TRANSACTION_CONTROL_NOTE,
+  RELEASE: TRANSACTION_CONTROL_NOTE,
+  VACUUM: "VACUUM cannot run inside a transaction block",
+};
+
+const OBJECTS_QUERY = `
+  SELECT kind, schema, name FROM (
+    SELECT
+      CASE c.relkind
+        WHEN 'r' THEN 'table' WHEN 'p' THEN 'table' WHEN 'i' THEN 'index' WHEN 'I' THEN 'index'
+        WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized view' WHEN 'S' THEN 'sequence'
+        ELSE 'foreign table'
+      END AS kind,
+      n.nspname AS schema,
+      c.relname AS name
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'i', 'I', 'v', 'm', 'S', 'f')
+    UNION ALL
+    SELECT 'column', n.nspname, c.relname || '.' || a.attname
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p') AND a.attnum > 0 AND NOT a.attisdropped
+    UNION ALL
+    SELECT 'constraint', n.nspname, con.conname || ' on ' || c.relname
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    UNION ALL
+    SELECT 'function', n.nspname, p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')'
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    UNION ALL
+    SELECT 'type', n.nspname, t.typname
+    FROM pg_type t
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE t.typtype IN ('e', 'd')
+    UNION ALL
+    SELECT 'trigger', n.nspname, tg.tgname || ' on ' || c.relname
+    FROM pg_trigger tg
+    JOIN pg_class c ON c.oid = tg.tgrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE NOT tg.tgisinternal
+    UNION ALL
+    SELECT 'policy', n.nspname, pol.polname || ' on ' || c.relname
+    FROM pg_policy pol
+    JOIN pg_class c ON c.oid = pol.polrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    UNION ALL
+    SELECT 'extension', n.nspname, e.extname
+    FROM pg_extension e
+    JOIN pg_namespace n ON n.oid = e.extnamespace
+    UNION ALL
+    SELECT 'schema', nspname, nspname FROM pg_namespace
+  ) objects
+  WHERE schema NOT IN ('pg_catalog', 'information_schema')
+    AND schema NOT LIKE 'pg_toast%'
+    AND schema NOT LIKE 'pg_temp%'
+`;
+
+const LOCKS_QUERY = `
+  SELECT n.nspname AS schema, c.relname AS relation, l.mode, l.granted
+  FROM pg_locks l
+  JOIN pg_class c ON c.oid = l.relation
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE l.pid = pg_backend_pid()
+    AND l.locktype = 'relation'
+    AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+  ORDER BY n.nspname, c.relname, l.mode
+`;
+
+/**
+ * Executes migration SQL on the live connection inside a transaction that is
+ * always rolled back, reporting what it would do: rows touched, objects
+ * created or dropped, locks taken and the first error with its position.
+ */
+export class MigrationDryRunner {
+  constructor(private databaseService: DatabaseService) {}
+
+  async dryRun(upSql: string, downSql: string | undefined, options: DryRunOptions = {}): Promise<MigrationDryRunResult> {
+    const dryRunLogger = log.db("dry_run");
+    const lockTimeoutMs = options.lockTimeoutMs ?? 2000;
+    const statementTimeoutMs = options.statementTimeoutMs ?? 30000;
+
+    let rolledBack = false;
+    const result = await this.databaseService.withClient(async (client) => {
+      await client.query("BEGIN");
+
+      try {
+        await client.query(`SET LOCAL lock_timeout = ${Math.floor(lockTimeoutMs)}`);
+        await client.query(`SET LOCAL statement_timeout = ${Math.floor(statementTimeoutMs)}`);
+
+        const before = await this.listObjects(client);
+        const up = await this.runSection(client, upSql, before, []);
+        const sections: Omit<MigrationDryRunResult, "rolledBack"> = {success: up.success, up};
+
+        if (options.includeDown && downSql && up.success) {
+          const afterUp = await this.listObjects(client);
+          const down = await this.runSection(client, downSql, afterUp, up.locks);
+          sections.down = down;
+          sections.downLeftovers = this.diffObjects(before, await this.listObjects(client));
+          sections.success = down.success;
+        }
+
+        return sections;
+      } finally {
+        try {
+          await client.query("ROLLBACK");
+          rolledBack = true;
+        } catch (error) {
+          dryRunLogger.error(
+            "Dry run rollback failed",
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+      }
+    });
+
+    return {...result, rolledBack};
+  }
+
+  private async runSection(
+    client: ClientBase,
+    sql: string,
+    before: DryRunObject[],
+    locksBefore: DryRunLock[]
+  ): Promise<DryRunSectionResult> {
+    const statements: DryRunStatementResult[] = [];
+    let error: DryRunError | undefined;
+
+    for (const [index, statement] of parseSql(sql).entries()) {
+      const skipReason = this.skipReason(statement);
+      if (skipReason) {
+        statements.push({index, command: statement.command, rowCount: null, skipped: true, note: skipReason});
+        continue;
+      }
+
+      const {text, note} = this.prepareStatement(statement);
+
+      // A savepoint per statement keeps the transaction usable after a failure,
+      // so the objects and locks of the statements before it can still be read
+      await client.query("SAVEPOINT dry_run_statement");
+      try {
+        const result = await client.query(text);
+        await client.query("RELEASE SAVEPOINT dry_run_statement");
+        statements.push({
+          index,
+          command: result.command ?? statement.command,
+          rowCount: result.rowCount ?? null,
+          ...(note ? {note} : {}),
+        });
+      } catch (statementError) {
+        await client.query("ROLLBACK TO SAVEPOINT dry_run_statement");
+        error = this.describeError(statementError, sql, statement, index, note !== undefined);
+        break;
+      }
+    }
+
+    const after = await this.listObjects(client);
+    const {newObjects, droppedObjects} = this.diffObjects(before, after);
+    const locks = (await client.query(LOCKS_QUERY)).rows as DryRunLock[];
+    const heldBefore = new Set(locksBefore.map(lock => this.lockKey(lock)));
+
+    return {
+      success: error === undefined,
+      statements,
+      ...(error ? {error} : {}),
+      newObjects,
+      droppedObjects,
+      locks: locks.filter(lock => !heldBefore.has(this.lockKey(lock))),
+    };
+  }
+
+  // PREPARE TRANSACTION ends the transaction; a plain PREPARE only creates a prepared statement
+  private skipReason(statement: ParsedStatement): string | undefined {
+    if (statement.command === "PREPARE") {
+      return isKeyword(statement.tokens[1], "TRANSACTION") ? TRANSACTION_CONTROL_NOTE : undefined;
+    }
+    return SKIPPED_COMMANDS[statement.command];
+  }
+
+  private prepareStatement(statement: ParsedStatement): {text: string; note?: string} {
+    if (statement.concurrently && statement.objectType === "INDEX") {
+      return {
+        text: statement.text.replace(/\s+CONCURRENTLY\b/i, ""),
+        note: "Ran without CONCURRENTLY, which is not allowed inside a transaction; the real migration needs transaction:false",
+      };
+    }
+    if (statement.command === "REINDEX" && statement.tokens.some(token => isKeyword(token, "CONCURRENTLY"))) {
+      return {
+        text: statement.text.replace(/\s+CONCURRENTLY\b/i, ""),
+        note: "Ran without CONCURRENTLY, which is not allowed inside a transaction",
+      };
+    }
+    return {text: statement.text};
+  }
+
+  private describeError(
+    error: unknown,
+    sql: string,
+    statement: ParsedStatement,
+    statementIndex: number,
+    rewritten: boolean
+  ): DryRunError {
+    const pgError = error as {message?: string; code?: string; position?: string; detail?: string; hint?: string};
+    // The reported position is relative to the statement as sent; map it onto the section
+    const offset = pgError.position && !rewritten
+      ? statement.start + parseInt(pgError.position, 10) - 1
+      : statement.start;
+    const lines = sql.slice(0, offset).split("\n");
+
+    return {
+      statementIndex,
+      statement: statement.text,
+      message: pgError.message ?? String(error),
+      code: pgError.code,
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1,
+      detail: pgError.detail,
+      hint: pgError.hint,
+    };
+  }
+
+  private async listObjects(client: ClientBase): Promise<DryRunObject[]> {
+    return (await client.query(OBJECTS_QUERY)).rows as DryRunObject[];
+  }
+
+  private diffObjects(
+    before: DryRunObject[],
+    after: DryRunObject[]
+  ): {newObjects: DryRunObject[]; droppedObjects: DryRunObject[]} {
+    const key = (object: DryRunObject) => `${object.kind}:${object.schema}.${object.name}`;
+    const beforeKeys = new Set(before.map(key));
+    const afterKeys = new Set(after.map(key));
+
+    const added = after.filter(object => !beforeKeys.has(key(object)));
+    const removed = before.filter(object => !afterKeys.has(key(object)));
+
+    // Columns of a table created or dropped as a whole only repeat the table
+    const tableKeys = (objects: DryRunObject[]) =>
+      new Set(objects.filter(object => object.kind === "table").map(object => `${object.schema}.${object.name}`));
+    const withoutColumnsOf = (objects: DryRunObject[], tables: Set<string>) =>
+      objects.filter(object => object.kind !== "column" || !tables.has(`${object.schema}.${object.name.split(".")[0]}`));
+
+    return {
+      newObjects: withoutColumnsOf(added, tableKeys(added)),
+      droppedObjects: withoutColumnsOf(removed, tableKeys(removed)),
+    };
+  }
+
+  private lockKey(lock: DryRunLock): string {
+    return `${lock.schema}.${lock.relation}:${lock.mode}`;
+  }
+}
@@ -0,0 +1,566 @@
+import {
+  ParsedStatement,
+  SqlToken,
+  parseSql,
+  isKeyword,
+  isPunctuation,
+  isIdentifier,
+  identifierValue,
+  formatQualifiedName,
+  skipParenthesized,
+  parenthesizedTokens,
+  tokensToSql,
+} from "../utils/sql-parser.js";
+import {
+  LintSeverity,
+  MigrationLintFinding,
+  MigrationLintReport,
+  MigrationLintResult,
+  MigrationSectionOptions,
+} from "../types/migration.js";
+
+export interface LintOptions {
+  // Whether the SQL runs inside a transaction (dbmate's default for a section)
+  transactional?: boolean;
+  ignoreRules?: string[];
+}
+
+interface LintRule {
+  severity: LintSeverity;
+  description: string;
+}
+
+/**
+ * Rule ids with their severity. `error` means the statement fails outright or
+ * rewrites the table under an ACCESS EXCLUSIVE lock; `warning` means it blocks
+ * traffic for a time proportional to the table size or breaks running code.
+ */
+export const MIGRATION_LINT_RULES: Record<string, LintRule> = {
+  "require-concurrent-index-creation": {
+    severity: "warning",
+    description: "CREATE INDEX without CONCURRENTLY blocks writes to the table while the index builds",
+  },
+  "require-concurrent-index-deletion": {
+    severity: "warning",
+    description: "DROP INDEX without CONCURRENTLY blocks reads and writes to the table",
+  },
+  "concurrent-index-in-transaction": {
+    severity: "error",
+    description: "CONCURRENTLY index operations cannot run inside a transaction block",
+  },
+  "adding-volatile-default": {
+    severity: "error",
+    description: "Adding a column with a volatile default, serial, identity or stored generated column rewrites the table",
+  },
+  "adding-not-null-column-without-default": {
+    severity: "error",
+    description: "Adding a NOT NULL column without a default fails when the table has rows",
+  },
+  "changing-column-type": {
+    severity: "error",
+    description: "ALTER COLUMN TYPE rewrites the table and its indexes under an ACCESS EXCLUSIVE lock",
+  },
+  "setting-not-null": {
+    severity: "warning",
+    description: "SET NOT NULL scans the whole table under an ACCESS EXCLUSIVE lock unless a validated CHECK proves it",
+  },
+  "adding-foreign-key-constraint": {
+    severity: "warning",
+    description: "Adding a foreign key without NOT VALID scans the table while locking both tables against writes",
+  },
+  "adding-check-constraint": {
+    severity: "warning",
+    description: "Adding a CHECK constraint without NOT VALID scans the table under an ACCESS EXCLUSIVE lock",
+  },
+  "adding-unique-constraint": {
+    severity: "warning",
+    description: "Adding a UNIQUE or PRIMARY KEY constraint builds its index under an ACCESS EXCLUSIVE lock",
+  },
+  "dropping-column": {
+    severity: "warning",
+    description: "Dropping a column breaks application code that still reads or writes it",
+  },
+  "dropping-table": {
+    severity: "warning",
+    description: "Dropping a table breaks application code that still uses it and loses its data",
+  },
+  "renaming-column": {
+    severity: "warning",
+    description: "Renaming a column breaks application code that uses the old name",
+  },
+  "renaming-table": {
+    severity: "warning",
+    description: "Renaming a table breaks application code that uses the old name",
+  },
+  "refresh-materialized-view": {
+    severity: "warning",
+    description: "REFRESH MATERIALIZED VIEW without CONCURRENTLY blocks reads of the view",
+  },
+  "rewriting-table": {
+    severity: "error",
+    description: "VACUUM FULL and CLUSTER rewrite the table under an ACCESS EXCLUSIVE lock",
+  },
+  "missing-lock-timeout": {
+    severity: "info",
+    description: "Without lock_timeout, a statement waiting for its lock queues all later queries on the table behind it",
+  },
+};
+
+const VOLATILE_FUNCTIONS = [
+  "random",
+  "gen_random_uuid",
+  "uuidv4",
+  "uuidv7",
+  "uuid_generate_v1",
+  "uuid_generate_v1mc",
+  "uuid_generate_v4",
+  "clock_timestamp",
+  "timeofday",
+  "nextval",
+];
+
+const SERIAL_TYPES = ["serial", "serial2", "serial4", "serial8", "smallserial", "bigserial"];
+
+const COLUMN_CONSTRAINT_WORDS = [
+  "NOT",
+  "NULL",
+  "CONSTRAINT",
+  "CHECK",
+  "UNIQUE",
+  "PRIMARY",
+  "REFERENCES",
+  "GENERATED",
+  "COLLATE",
+  "DEFAULT",
+];
+
+interface LintContext {
+  sql: string;
+  options: LintOptions;
+  findings: MigrationLintFinding[];
+  // Tables created earlier in the same SQL are empty and invisible to other sessions
+  createdTables: Set<string>;
+  // "table.column" pairs with a CHECK (column IS NOT NULL) added earlier in the same SQL
+  notNullChecks: Set<string>;
+}
+
+/**
+ * Flags migration statements by the lock they take and whether they rewrite
+ * the table, each with a rule id and a safer way to get the same result.
+ */
+export class MigrationLinter {
+  lint(sql: string, options: LintOptions = {}): MigrationLintResult {
+    const context: LintContext = {
+      sql,
+      options: {transactional: true, ...options},
+      findings: [],
+      createdTables: new Set(),
+      notNullChecks: new Set(),
+    };
+
+    const statements = parseSql(sql);
+    for (const statement of statements) {
+      this.lintStatement(context, statement);
+    }
+
+    const locking = context.findings.filter(f => f.lock && f.severity !== "info");
+    if (locking.length > 0 && !/\block_timeout\b/i.test(sql)) {
+      this.report(context, "missing-lock-timeout", statements[0], {
+        message: `${locking.length} statement(s) take a blocking lock and no lock_timeout is set`,
+        suggestion: "Start the migration with SET lock_timeout = '5s'; so a blocked statement fails fast and can be retried instead of stalling traffic.",
+      });
+    }
+
+    return this.buildResult(context.findings);
+  }
+
+  lintMigration(
+    migration: {upSql: string; downSql: string; upOptions?: MigrationSectionOptions; downOptions?: MigrationSectionOptions},
+    ignoreRules?: string[]
+  ): MigrationLintReport {
+    const up = this.lint(migration.upSql, {transactional: migration.upOptions?.transaction !== false, ignoreRules});
+    const down = this.lint(migration.downSql, {transactional: migration.downOptions?.transaction !== false, ignoreRules});
+    const combined = this.buildResult([...up.findings, ...down.findings]);
+
+    return {risk: combined.risk, summary: combined.summary, up, down};
+  }
+
+  private buildResult(findings: MigrationLintFinding[]): MigrationLintResult {
+    const errors = findings.filter(f => f.severity === "error").length;
+    const warnings = findings.filter(f => f.severity === "warning").length;
+    const risk = errors > 0 ? "HIGH" : warnings > 0 ? "MEDIUM" : "LOW";
+
+    return {
+      findings,
+      risk,
+      summary: findings.length === 0
+        ? "No lock or rewrite risks found"
+        : `${errors} error(s), ${warnings} warning(s), ${findings.length - errors - warnings} info`,
+    };
+  }
+
+  private lintStatement(context: LintContext, statement: ParsedStatement): void {
+    const {command, objectType, tokens} = statement;
+
+    if (command === "CREATE" && objectType === "TABLE" && statement.name) {
+      context.createdTables.add(this.tableKey(statement.name));
+      return;
+    }
+
+    if (objectType === "INDEX" && (command === "CREATE" || command === "DROP")) {
+      this.lintIndex(context, statement);
+      return;
+    }
+
+    if (command === "ALTER" && objectType === "TABLE" && statement.name) {
+      if (context.createdTables.has(this.tableKey(statement.name))) {
+        return;
+      }
+      for (const action of statement.alterActions) {
+        this.lintAlterTableAction(context, statement, action.action, action.tokens);
+      }
+      return;
+    }
+
+    if (command === "DROP" && objectType === "TABLE") {
+      for (const name of statement.names) {
+        if (context.createdTables.has(this.tableKey(name))) {
+          continue;
+        }
+        this.report(context, "dropping-table", statement, {
+          table: formatQualifiedName(name),
+          lock: "ACCESS EXCLUSIVE",
+          message: `Dropping table ${formatQualifiedName(name)} deletes its data and breaks queries that still use it`,
+          suggestion: "Deploy application code that no longer uses the table first, and keep a backup if its data may still be needed.",
+        });
+      }
+      return;
+    }
+
+    if (command === "REFRESH" && isKeyword(tokens[1], "MATERIALIZED") && !isKeyword(tokens[3], "CONCURRENTLY")) {
+      this.report(context, "refresh-materialized-view", statement, {
+        lock: "ACCESS EXCLUSIVE",
+        message: "REFRESH MATERIALIZED VIEW blocks every read of the view until it finishes",
+        suggestion: "Use REFRESH MATERIALIZED VIEW CONCURRENTLY, which requires a unique index on the view.",
+      });
+      return;
+    }
+
+    if ((command === "VACUUM" && tokens.some(t => isKeyword(t, "FULL"))) || command === "CLUSTER") {
+      this.report(context, "rewriting-table", statement, {
+        lock: "ACCESS EXCLUSIVE",
+        rewritesTable: true,
+        message: `${command === "CLUSTER" ? "CLUSTER" : "VACUUM FULL"} rewrites the table and blocks all access to it`,
+        suggestion: "Run it outside migrations in a maintenance window, or use an online tool such as pg_repack.",
+      });
+    }
+  }
+
+  private lintIndex(context: LintContext, statement: ParsedStatement): void {
+    const table = statement.table ? formatQualifiedName(statement.table) : undefined;
+
+    if (statement.concurrently) {
+      if (context.options.transactional) {
+        this.report(context, "concurrent-index-in-transaction", statement, {
+          table,
+          message: `${statement.command} INDEX CONCURRENTLY fails inside the transaction dbmate wraps the section in`,
+          suggestion: "Mark the section `-- migrate:up transaction:false` (or `-- migrate:down transaction:false`) and keep the statement in its own migration.",
+        });
+      }
+      return;
+    }
+
+    if (statement.command === "CREATE") {
+      if (statement.table && context.createdTables.has(this.tableKey(statement.table))) {
+        return;
+      }
+      const concurrent = statement.text.replace(/^(CREATE\s+(UNIQUE\s+)?INDEX)/i, "$1 CONCURRENTLY");
+      this.report(context, "require-concurrent-index-creation", statement, {
+        table,
+        lock: "SHARE",
+        message: `Creating an index on ${table ?? "the table"} blocks inserts, updates and deletes until the build finishes`,
+        suggestion: `${concurrent}; in a migration whose section is marked transaction:false.`,
+      });
+      return;
+    }
+
+    const concurrent = statement.text.replace(/^DROP\s+INDEX/i, "DROP INDEX CONCURRENTLY");
+    this.report(context, "require-concurrent-index-deletion", statement, {
+      lock: "ACCESS EXCLUSIVE",
+      message: "Dropping an index blocks all reads and writes on its table",
+      suggestion: `${concurrent}; in a migration whose section is marked transaction:false.`,
+    });
+  }
+
+  private lintAlterTableAction(
+    context: LintContext,
+    statement: ParsedStatement,
+    action: string,
+    tokens: SqlToken[]
+  ): void {
+    const table = formatQualifiedName(statement.name!);
+
+    switch (action) {
+      case "ADD COLUMN":
+        this.lintAddColumn(context, statement, table, tokens);
+        break;
+      case "ALTER COLUMN":
+        this.lintAlterColumn(context, statement, table, tokens);
+        break;
+      case "ADD CONSTRAINT":
+        this.lintAddConstraint(context, statement, table, tokens);
+        break;
+      case "DROP COLUMN": {
+        const column = this.columnAfter(tokens, isKeyword(tokens[1], "COLUMN") ? 2 : 1);
+        this.report(context, "dropping-column", statement, {
+          table,
+          lock: "ACCESS EXCLUSIVE",
+          message: `Dropping column ${table}.${column}`,
+          suggestion: "Deploy application code that no longer reads or writes the column first, then drop it in a later migration.",
+        });
+        break;
+      }
+      case "RENAME COLUMN": {
+        const column = this.columnAfter(tokens, isKeyword(tokens[1], "COLUMN") ? 2 : 1);
+        this.report(context, "renaming-column", statement, {
+          table,
+          lock: "ACCESS EXCLUSIVE",
+          message: `Renaming column ${table}.${column} breaks queries that use the old name`,
+          suggestion: "Add the new column, write to both and backfill, switch reads over, then drop the old column in a later migration.",
+        });
+        break;
+      }
+      case "RENAME TABLE":
+        this.report(context, "renaming-table", statement, {
+          table,
+          lock: "ACCESS EXCLUSIVE",
+          message: `Renaming table ${table} breaks queries that use the old name`,
+          suggestion: `Rename the table and create a view with the old name (CREATE VIEW ${table} AS SELECT * FROM <new name>) until all code uses the new name.`,
+        });
+        break;
+    }
+  }
+
+  private lintAddColumn(context: LintContext, statement: ParsedStatement, table: string, tokens: SqlToken[]): void {
+    let i = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+    if (isKeyword(tokens[i], "IF") && isKeyword(tokens[i + 1], "NOT") && isKeyword(tokens[i + 2], "EXISTS")) {
+      i += 3;
+    }
+    const column = this.columnAfter(tokens, i);
+    const rest = tokens.slice(i + 1);
+
+    const constraintStart = this.findTopLevel(rest, 0, token => isKeyword(token, ...COLUMN_CONSTRAINT_WORDS));
+    const typeEnd = constraintStart === -1 ? rest.length : constraintStart;
+    const typeName = rest[0] && rest[0].type === "word" ? rest[0].value.toLowerCase() : "";
+    const defaultIndex = this.findTopLevel(rest, typeEnd, token => isKeyword(token, "DEFAULT"));
+    let defaultTokens: SqlToken[] = [];
+    if (defaultIndex !== -1) {
+      const defaultEnd = this.findTopLevel(rest, defaultIndex + 1, token =>
+        isKeyword(token, ...COLUMN_CONSTRAINT_WORDS.filter(word => word !== "NULL"))
+      );
+      defaultTokens = rest.slice(defaultIndex + 1, defaultEnd === -1 ? rest.length : defaultEnd);
+    }
+    const generatedIndex = this.findTopLevel(rest, typeEnd, token => isKeyword(token, "GENERATED"));
+    const notNullIndex = this.findTopLevel(rest, typeEnd, (token, index) =>
+      isKeyword(token, "NOT") && isKeyword(rest[index + 1], "NULL")
+    );
+
+    const volatileCall = defaultTokens.find((token, index) =>
+      token.type === "word" &&
+      VOLATILE_FUNCTIONS.includes(token.value.toLowerCase()) &&
+      isPunctuation(defaultTokens[index + 1], "(")
+    );
+    const isSerial = SERIAL_TYPES.includes(typeName);
+    const isIdentity = generatedIndex !== -1 && rest.slice(generatedIndex).some(token => isKeyword(token, "IDENTITY"));
+    const isStored = generatedIndex !== -1 && rest.slice(generatedIndex).some(token => isKeyword(token, "STORED"));
+
+    if (volatileCall || isSerial || isIdentity || isStored) {
+      const reason = volatileCall
+        ? `its default calls the volatile function ${volatileCall.value}()`
+        : isSerial
+          ? `${typeName} fills every existing row from a sequence`
+          : isIdentity
+            ? "an identity column fills every existing row from a sequence"
+            : "a stored generated column is computed for every existing row";
+      this.report(context, "adding-volatile-default", statement, {
+        table,
+        lock: "ACCESS EXCLUSIVE",
+        rewritesTable: true,
+        message: `Adding ${table}.${column} rewrites the whole table because ${reason}`,
+        suggestion: `Add ${column} without the default, set the default with ALTER TABLE ${table} ALTER COLUMN ${column} SET DEFAULT ... so new rows get it, then backfill existing rows in batches.`,
+      });
+      return;
+    }
+
+    if (notNullIndex !== -1 && defaultIndex === -1) {
+      this.report(context, "adding-not-null-column-without-default", statement, {
+        table,
+        lock: "ACCESS EXCLUSIVE",
+        message: `Adding NOT NULL column ${table}.${column} without a default fails if ${table} has any rows`,
+        suggestion: `Add ${column} with a constant DEFAULT, or add it as nullable, backfill it, and then enforce NOT NULL with a CHECK (${column} IS NOT NULL) NOT VALID constraint that is validated separately.`,
+      });
+    }
+  }
+
+  private lintAlterColumn(context: LintContext, statement: ParsedStatement, table: string, tokens: SqlToken[]): void {
+    const i = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+    const column = this.columnAfter(tokens, i);
+    const rest = tokens.slice(i + 1);
+
+    const changesType = isKeyword(rest[0], "TYPE") ||
+      (isKeyword(rest[0], "SET") && isKeyword(rest[1], "DATA") && isKeyword(rest[2], "TYPE"));
+    if (changesType) {
+      this.report(context, "changing-column-type", statement, {
+        table,
+        lock: "ACCESS EXCLUSIVE",
+        rewritesTable: true,
+        message: `Changing the type of ${table}.${column} rewrites the table and rebuilds its indexes (only binary-compatible changes such as widening varchar or varchar to text skip this)`,
+        suggestion: `Add a new column with the target type, keep it in sync with a trigger while backfilling in batches, then switch code to it and drop ${column} in a later migration.`,
+      });
+      return;
+    }
+
+    if (isKeyword(rest[0], "SET") && isKeyword(rest[1], "NOT") && isKeyword(rest[2], "NULL")) {
+      if (context.notNullChecks.has(`${this.tableKey(statement.name!)}.${column}`)) {
+        return;
+      }
+      this.report(context, "setting-not-null", statement, {
+        table,
+        lock: "ACCESS EXCLUSIVE",
+        message: `SET NOT NULL on ${table}.${column} scans every row while blocking all access to the table`,
+        suggestion:
+          `ALTER TABLE ${table} ADD CONSTRAINT ${column}_not_null CHECK (${column} IS NOT NULL) NOT VALID; ` +
+          `ALTER TABLE ${table} VALIDATE CONSTRAINT ${column}_not_null; ` +
+          `then SET NOT NULL (PostgreSQL 12+ skips the scan) and drop the CHECK constraint.`,
+      });
+    }
+  }
+
+  private lintAddConstraint(context: LintContext, statement: ParsedStatement, table: string, tokens: SqlToken[]): void {
+    let i = 1;
+    let constraintName: string | undefined;
+    if (isKeyword(tokens[i], "CONSTRAINT") && isIdentifier(tokens[i + 1])) {
+      constraintName = identifierValue(tokens[i + 1]);
+      i += 2;
+    }
+    const name = constraintName ?? "<constraint>";
+    const notValid = tokens.some((token, index) => isKeyword(token, "NOT") && isKeyword(tokens[index + 1], "VALID"));
+    const definition = tokensToSql(statement.text, tokens.slice(i));
+
+    if (isKeyword(tokens[i], "CHECK")) {
+      const checkTokens = parenthesizedTokens(tokens, i + 1);
+      checkTokens.forEach((token, index) => {
+        if (
+          isIdentifier(token) &&
+          isKeyword(checkTokens[index + 1], "IS") &&
+          isKeyword(checkTokens[index + 2], "NOT") &&
+          isKeyword(checkTokens[index + 3], "NULL")
+        ) {
+          context.notNullChecks.add(`${this.tableKey(statement.name!)}.${identifierValue(token)}`);
+        }
+      });
+
+      if (!notValid) {
+        this.report(context, "adding-check-constraint", statement, {
+          table,
+          lock: "ACCESS EXCLUSIVE",
+          message: `Adding CHECK constraint ${name} on ${table} validates every row while blocking all access to the table`,
+          suggestion: `ALTER TABLE ${table} ADD CONSTRAINT ${name} ${definition} NOT VALID; then in a separate migration ALTER TABLE ${table} VALIDATE CONSTRAINT ${name};`,
+        });
+      }
+      return;
+    }
+
+    if (isKeyword(tokens[i], "FOREIGN")) {
+      if (!notValid) {
+        this.report(context, "adding-foreign-key-constraint", statement, {
+          table,
+          lock: "SHARE ROW EXCLUSIVE",
+          message: `Adding foreign key ${name} on ${table} validates every row while blocking writes to both tables`,
+          suggestion: `ALTER TABLE ${table} ADD CONSTRAINT ${name} ${definition} NOT VALID; then in a separate migration ALTER TABLE ${table} VALIDATE CONSTRAINT ${name};`,
+        });
+      }
+      return;
+    }
+
+    if (isKeyword(tokens[i], "UNIQUE", "PRIMARY")) {
+      const usingIndex = tokens.some((token, index) => isKeyword(token, "USING") && isKeyword(tokens[index + 1], "INDEX"));
+      if (!usingIndex) {
+        const kind = isKeyword(tokens[i], "PRIMARY") ? "PRIMARY KEY" : "UNIQUE";
+        const columnsIndex = tokens.findIndex((token, index) => index > i && isPunctuation(token, "("));
+        const columns = columnsIndex === -1
+          ? "..."
+          : parenthesizedTokens(tokens, columnsIndex).map(token => token.value).join(" ").replace(/ ,/g, ",");
+        const indexName = constraintName ?? `${statement.name!.name}_idx`;
+        this.report(context, "adding-unique-constraint", statement, {
+          table,
+          lock: "ACCESS EXCLUSIVE",
+          message: `Adding ${kind} constraint ${name} on ${table} builds its index while blocking all access to the table`,
+          suggestion:
+            `CREATE UNIQUE INDEX CONCURRENTLY ${indexName} ON ${table} (${columns}); in a transaction:false migration, ` +
+            `then ALTER TABLE ${table} ADD CONSTRAINT ${indexName} ${kind} USING INDEX ${indexName};`,
+        });
+      }
+    }
+  }
+
+  private report(
+    context: LintContext,
+    ruleId: string,
+    statement: ParsedStatement | undefined,
+    details: {
+      message: string;
+      suggestion: string;
+      table?: string;
+      lock?: string;
+      rewritesTable?: boolean;
+    }
+  ): void {
+    if (context.options.ignoreRules?.includes(ruleId)) {
+      return;
+    }
+
+    context.findings.push({
+      ruleId,
+      severity: MIGRATION_LINT_RULES[ruleId].severity,
+      message: details.message,
+      lock: details.lock,
+      rewritesTable: details.rewritesTable ?? false,
+      table: details.table,
+      statement: statement?.text ?? "",
+      line: statement ? context.sql.slice(0, statement.start).split("\n").length : 1,
+      suggestion: details.suggestion,
+    });
+  }
+
+  private findTopLevel(
+    tokens: SqlToken[],
+    from: number,
+    predicate: (token: SqlToken, index: number) => boolean
+  ): number {
+    let i = from;
+    while (i < tokens.length) {
+      if (isPunctuation(tokens[i], "(")) {
+        i = skipParenthesized(tokens, i);
+        continue;
+      }
+      if (predicate(tokens[i], i)) {
+        return i;
+      }
+      i++;
+    }
+    return -1;
+  }
+
+  private columnAfter(tokens: SqlToken[], index: number): string {
+    let i = index;
+    if (isKeyword(tokens[i], "IF") && isKeyword(tokens[i + 1], "EXISTS")) {
+      i += 2;
+    }
+    return tokens[i] && isIdentifier(tokens[i]) ? identifierValue(tokens[i]) : "<column>";
+  }
+
+  private tableKey(name: {schema?: string; name: string}): string {
+    return formatQualifiedName(name, "public");
+  }
+}
@@ -0,0 +1,502 @@
+import {
+  ParsedStatement,
+  QualifiedName,
+  SqlToken,
+  parseSql,
+  isKeyword,
+  isPunctuation,
+  isIdentifier,
+  identifierValue,
+  formatQualifiedName,
+  parenthesizedTokens,
+  splitTopLevel,
+  tokensToSql,
+} from "../utils/sql-parser.js";
+import {formatAlterTable, quoteIdentifier, qualifiedName} from "../utils/sql-formatter.js";
+import {MigrationOperation} from "../types/migration.js";
+
+type OperationType = MigrationOperation["type"];
+
+export interface ReversalCheck {
+  // Up operations with no matching counterpart in the down SQL
+  unreversed: MigrationOperation[];
+  // Up operations PostgreSQL cannot undo at all, e.g. ALTER TYPE ... ADD VALUE
+  irreversible: MigrationOperation[];
+  warnings: string[];
+}
+
+// Down operations that undo an up operation of the given type
+const INVERSE_TYPES: Partial<Record<OperationType, OperationType[]>> = {
+  CREATE_TABLE: ["DROP_TABLE"],
+  DROP_TABLE: ["CREATE_TABLE"],
+  ADD_COLUMN: ["DROP_COLUMN"],
+  DROP_COLUMN: ["ADD_COLUMN"],
+  MODIFY_COLUMN: ["MODIFY_COLUMN", "DROP_COLUMN"],
+  CREATE_INDEX: ["DROP_INDEX"],
+  DROP_INDEX: ["CREATE_INDEX"],
+  ADD_CONSTRAINT: ["DROP_CONSTRAINT"],
+  DROP_CONSTRAINT: ["ADD_CONSTRAINT"],
+  CREATE_ENUM: ["DROP_ENUM"],
+  DROP_ENUM: ["CREATE_ENUM"],
+  CREATE_EXTENSION: ["DROP_EXTENSION"],
+  DROP_EXTENSION: ["CREATE_EXTENSION"],
+  CREATE_VIEW: ["DROP_VIEW", "CREATE_VIEW", "REPLACE_VIEW"],
+  REPLACE_VIEW: ["DROP_VIEW", "CREATE_VIEW", "REPLACE_VIEW"],
+  DROP_VIEW: ["CREATE_VIEW", "REPLACE_VIEW"],
+  CREATE_TRIGGER: ["DROP_TRIGGER"],
+  DROP_TRIGGER: ["CREATE_TRIGGER"],
+  CREATE_POLICY: ["DROP_POLICY"],
+  DROP_POLICY: ["CREATE_POLICY"],
+  CREATE_FUNCTION: ["DROP_FUNCTION", "CREATE_FUNCTION", "REPLACE_FUNCTION"],
+  REPLACE_FUNCTION: ["DROP_FUNCTION", "CREATE_FUNCTION", "REPLACE_FUNCTION"],
+  DROP_FUNCTION: ["CREATE_FUNCTION", "REPLACE_FUNCTION"],
+  RENAME_TABLE: ["RENAME_TABLE"],
+  RENAME_COLUMN: ["RENAME_COLUMN"],
+  RENAME_INDEX: ["RENAME_INDEX"],
+  RENAME_CONSTRAINT: ["RENAME_CONSTRAINT"],
+  RENAME_VIEW: ["RENAME_VIEW"],
+  ENABLE_RLS: ["DISABLE_RLS"],
+  DISABLE_RLS: ["ENABLE_RLS"],
+};
+
+// Operations on a table that dropping the table in the down SQL also undoes
+const TABLE_SCOPED_TYPES: OperationType[] = [
+  "ADD_COLUMN",
+  "MODIFY_COLUMN",
+  "CREATE_INDEX",
+  "ADD_CONSTRAINT",
+  "CREATE_TRIGGER",
+  "CREATE_POLICY",
+  "ENABLE_RLS",
+];
+
+/**
+ * Classifies migration SQL into MigrationOperations, one per statement or
+ * ALTER TABLE action, infers the SQL that undoes each one where that can be
+ * derived from the statement alone, and checks a down section against an up
+ * section.
+ */
+export class MigrationOperationAnalyzer {
+  extractOperations(sql: string): MigrationOperation[] {
+    return parseSql(sql).flatMap(statement => this.classifyStatement(statement));
+  }
+
+  checkReversal(upOperations: MigrationOperation[], downOperations: MigrationOperation[]): ReversalCheck {
+    const unreversed: MigrationOperation[] = [];
+    const irreversible: MigrationOperation[] = [];
+    const warnings: string[] = [];
+
+    for (const operation of upOperations) {
+      if (operation.type === "ALTER_ENUM") {
+        irreversible.push(operation);
+        warnings.push(
+          `${operation.sql} cannot be undone: PostgreSQL has no way to remove an enum value short of recreating the type`
+        );
+        continue;
+      }
+      if (operation.type === "EXECUTE_SQL") {
+        continue;
+      }
+      if (downOperations.some(down => this.reverses(down, operation))) {
+        continue;
+      }
+      if (
+        (operation.type === "CREATE_INDEX" && !operation.index) ||
+        (operation.type === "ADD_CONSTRAINT" && !operation.constraint)
+      ) {
+        warnings.push(
+          `Cannot check that the down migration undoes ${operation.sql} because the object is unnamed; ` +
+            "give it an explicit name so it can be dropped reliably"
+        );
+        continue;
+      }
+
+      unreversed.push(operation);
+      warnings.push(
+        `The down migration does not undo: ${operation.sql}` +
+          (operation.reverseSql ? ` (expected something like: ${operation.reverseSql})` : "")
+      );
+    }
+
+    return {unreversed, irreversible, warnings};
+  }
+
+  private reverses(down: MigrationOperation, up: MigrationOperation): boolean {
+    if (
+      down.type === "DROP_TABLE" &&
+      up.table &&
+      TABLE_SCOPED_TYPES.includes(up.type) &&
+      this.sameName(down.table, up.table)
+    ) {
+      return true;
+    }
+
+    if (!INVERSE_TYPES[up.type]?.includes(down.type)) {
+      return false;
+    }
+
+    switch (up.type) {
+      case "RENAME_TABLE":
+        return this.sameName(down.table, this.renamed(up.table, up.newName)) && this.sameName(down.newName, this.bareName(up.table));
+      case "RENAME_VIEW":
+        return this.sameName(down.view, this.renamed(up.view, up.newName)) && this.sameName(down.newName, this.bareName(up.view));
+      case "RENAME_INDEX":
+        return this.sameName(down.index, this.renamed(up.index, up.newName)) && this.sameName(down.newName, this.bareName(up.index));
+      case "RENAME_COLUMN":
+        return this.sameName(down.table, up.table) && down.column === up.newName && down.newName === up.column;
+      case "RENAME_CONSTRAINT":
+        return this.sameName(down.table, up.table) && down.constraint === up.newName && down.newName === up.constraint;
+    }
+
+    switch (down.type) {
+      case "DROP_TABLE":
+      case "CREATE_TABLE":
+        return this.sameName(down.table, up.table);
+      case "ADD_COLUMN":
+      case "DROP_COLUMN":
+      case "MODIFY_COLUMN":
+        return this.sameName(down.table, up.table) && down.column === up.column;
+      case "CREATE_INDEX":
+      case "DROP_INDEX":
+        return !!up.index && this.sameName(down.index, up.index);
+      case "ADD_CONSTRAINT":
+      case "DROP_CONSTRAINT":
+        return this.sameName(down.table, up.table) && !!up.constraint && down.constraint === up.constraint;
+      case "CREATE_TRIGGER":
+      case "DROP_TRIGGER":
+        return this.sameName(down.table, up.table) && down.trigger === up.trigger;
+      case "CREATE_POLICY":
+      case "DROP_POLICY":
+        return this.sameName(down.table, up.table) && down.policy === up.policy;
+      case "CREATE_VIEW":
+      case "REPLACE_VIEW":
+      case "DROP_VIEW":
+        return this.sameName(down.view, up.view);
+      case "CREATE_FUNCTION":
+      case "REPLACE_FUNCTION":
+      case "DROP_FUNCTION":
+        return this.sameName(down.function, up.function);
+      case "CREATE_ENUM":
+      case "DROP_ENUM":
+        return this.sameName(down.enum, up.enum);
+      case "CREATE_EXTENSION":
+      case "DROP_EXTENSION":
+        return down.extension === up.extension;
+      case "ENABLE_RLS":
+      case "DISABLE_RLS":
+        return this.sameName(down.table, up.table);
+      default:
+        return false;
+    }
+  }
+
+  private classifyStatement(statement: ParsedStatement): MigrationOperation[] {
+    const sql = `${statement.text};`;
+    const {command, objectType, name} = statement;
+    const fallback: MigrationOperation[] = [{type: "EXECUTE_SQL", sql}];
+
+    if (command === "CREATE" && objectType === "INDEX" && !name) {
+      const table = statement.table ? formatQualifiedName(statement.table) : undefined;
+      return [{type: "CREATE_INDEX", table, sql}];
+    }
+
+    if (command === "CREATE" && name) {
+      return this.classifyCreate(statement, name, sql) ?? fallback;
+    }
+
+    if (command === "ALTER" && objectType === "TABLE" && name) {
+      return statement.alterActions.map(action => this.classifyAlterTableAction(statement, name, action.action, action.tokens));
+    }
+
+    if (command === "ALTER" && name) {
+      return this.classifyAlter(statement, name, sql) ?? fallback;
+    }
+
+    if (command === "DROP" && statement.names.length > 0) {
+      const operations = statement.names
+        .map(dropped => this.classifyDrop(statement, dropped, sql))
+        .filter((operation): operation is MigrationOperation => operation !== undefined);
+      return operations.length > 0 ? operations : fallback;
+    }
+
+    return fallback;
+  }
+
+  private classifyCreate(statement: ParsedStatement, name: QualifiedName, sql: string): MigrationOperation[] | undefined {
+    const display = formatQualifiedName(name);
+    const quoted = qualifiedName(name.schema, name.name);
+    const table = statement.table ? formatQualifiedName(statement.table) : undefined;
+    const quotedTable = statement.table ? qualifiedName(statement.table.schema, statement.table.name) : undefined;
+
+    switch (statement.objectType) {
+      case "TABLE":
+        return [{type: "CREATE_TABLE", table: display, sql, reverseSql: `DROP TABLE ${quoted};`}];
+      case "INDEX": {
+        // Indexes live in their table's schema
+        const indexSchema = name.schema ?? statement.table?.schema;
+        return [{
+          type: "CREATE_INDEX",
+          index: formatQualifiedName({schema: indexSchema, name: name.name}),
+          table,
+          sql,
+          reverseSql: `DROP INDEX ${qualifiedName(indexSchema, name.name)};`,
+        }];
+      }
+      case "VIEW":
+      case "MATERIALIZED VIEW":
+        return [{
+          type: statement.orReplace ? "REPLACE_VIEW" : "CREATE_VIEW",
+          view: display,
+          sql,
+          reverseSql: statement.orReplace ? undefined : `DROP ${statement.objectType} ${quoted};`,
+        }];
+      case "TRIGGER":
+        return [{
+          type: "CREATE_TRIGGER",
+          trigger: name.name,
+          table,
+          sql,
+          reverseSql: quotedTable ? `DROP TRIGGER ${quoteIdentifier(name.name)} ON ${quotedTable};` : undefined,
+        }];
+      case "POLICY":
+        return [{
+          type: "CREATE_POLICY",
+          policy: name.name,
+          table,
+          sql,
+          reverseSql: quotedTable ? `DROP POLICY ${quoteIdentifier(name.name)} ON ${quotedTable};` : undefined,
+        }];
+      case "FUNCTION":
+      case "PROCEDURE": {
+        const signature = this.routineSignature(statement.text, statement.tokens);
+        return [{
+          type: statement.orReplace ? "REPLACE_FUNCTION" : "CREATE_FUNCTION",
+          function: display,
+          sql,
+          // OR REPLACE may have overwritten an older body the down SQL should restore instead
+          reverseSql: statement.orReplace || signature === undefined
+            ? undefined
+            : `DROP ${statement.objectType} ${quoted}(${signature});`,
+        }];
+      }
+      case "TYPE":
+        if (statement.tokens.some((token, i) => isKeyword(token, "AS") && isKeyword(statement.tokens[i + 1], "ENUM"))) {
+          return [{type: "CREATE_ENUM", enum: display, sql, reverseSql: `DROP TYPE ${quoted};`}];
+        }
+        return undefined;
+      case "EXTENSION":
+        return [{type: "CREATE_EXTENSION", extension: name.name, sql, reverseSql: `DROP EXTENSION ${quoteIdentifier(name.name)};`}];
+      default:
+        return undefined;
+    }
+  }
+
+  private classifyAlterTableAction(
+    statement: ParsedStatement,
+    name: QualifiedName,
+    action: string,
+    tokens: SqlToken[]
+  ): MigrationOperation {
+    const table = formatQualifiedName(name);
+    const quotedTable = qualifiedName(name.schema, name.name);
+    const actionSql = tokensToSql(statement.text, tokens);
+    const sql = formatAlterTable(quotedTable, actionSql);
+    const skipIfExists = (index: number) =>
+      isKeyword(tokens[index], "IF") && isKeyword(tokens[index + 1], "NOT") && isKeyword(tokens[index + 2], "EXISTS")
+        ? index + 3
+        : isKeyword(tokens[index], "IF") && isKeyword(tokens[index + 1], "EXISTS") ? index + 2 : index;
+    const identifierAt = (index: number) => (isIdentifier(tokens[index]) ? identifierValue(tokens[index]) : undefined);
+
+    switch (action) {
+      case "ADD COLUMN": {
+        const column = identifierAt(skipIfExists(isKeyword(tokens[1], "COLUMN") ? 2 : 1));
+        return {
+          type: "ADD_COLUMN",
+          table,
+          column,
+          sql,
+          reverseSql: column ? formatAlterTable(quotedTable, `DROP COLUMN ${quoteIdentifier(column)}`) : undefined,
+        };
+      }
+      case "DROP COLUMN":
+        return {type: "DROP_COLUMN", table, column: identifierAt(skipIfExists(isKeyword(tokens[1], "COLUMN") ? 2 : 1)), sql};
+      case "ALTER COLUMN": {
+        const columnIndex = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+        const column = identifierAt(columnIndex);
+        const [first, second, third] = tokens.slice(columnIndex + 1);
+        let reverseAction: string | undefined;
+        if (isKeyword(first, "SET") && isKeyword(second, "NOT") && isKeyword(third, "NULL")) {
+          reverseAction = "DROP NOT NULL";
+        } else if (isKeyword(first, "DROP") && isKeyword(second, "NOT") && isKeyword(third, "NULL")) {
+          reverseAction = "SET NOT NULL";
+        }
+        return {
+          type: "MODIFY_COLUMN",
+          table,
+          column,
+          sql,
+          reverseSql: column && reverseAction
+            ? formatAlterTable(quotedTable, `ALTER COLUMN ${quoteIdentifier(column)} ${reverseAction}`)
+            : undefined,
+        };
+      }
+      case "ADD CONSTRAINT": {
+        const constraint = isKeyword(tokens[1], "CONSTRAINT") ? identifierAt(2) : undefined;
+        return {
+          type: "ADD_CONSTRAINT",
+          table,
+          constraint,
+          sql,
+          reverseSql: constraint ? formatAlterTable(quotedTable, `DROP CONSTRAINT ${quoteIdentifier(constraint)}`) : undefined,
+        };
+      }
+      case "DROP CONSTRAINT":
+        return {type: "DROP_CONSTRAINT", table, constraint: identifierAt(skipIfExists(2)), sql};
+      case "RENAME COLUMN": {
+        const columnIndex = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+        const column = identifierAt(columnIndex);
+        const newName = isKeyword(tokens[columnIndex + 1], "TO") ? identifierAt(columnIndex + 2) : undefined;
+        return {
+          type: "RENAME_COLUMN",
+          table,
+          column,
+          newName,
+          sql,
+          reverseSql: column && newName
+            ? formatAlterTable(quotedTable, `RENAME COLUMN ${quoteIdentifier(newName)} TO ${quoteIdentifier(column)}`)
+            : undefined,
+        };
+      }
+      case "RENAME CONSTRAINT": {
+        const constraint = identifierAt(2);
+        const newName = isKeyword(tokens[3], "TO") ? identifierAt(4) : undefined;
+        return {
+          type: "RENAME_CONSTRAINT",
+          table,
+          constraint,
+          newName,
+          sql,
+          reverseSql: constraint && newName
+            ? formatAlterTable(quotedTable, `RENAME CONSTRAINT ${quoteIdentifier(newName)} TO ${quoteIdentifier(constraint)}`)
+            : undefined,
+        };
+      }
+      case "RENAME TABLE": {
+        const newName = identifierAt(2);
+        return {
+          type: "RENAME_TABLE",
+          table,
+          newName,
+          sql,
+          reverseSql: newName
+            ? formatAlterTable(qualifiedName(name.schema, newName), `RENAME TO ${quoteIdentifier(name.name)}`)
+            : undefined,
+        };
+      }
+      case "ENABLE RLS":
+        return {type: "ENABLE_RLS", table, sql, reverseSql: formatAlterTable(quotedTable, "DISABLE ROW LEVEL SECURITY")};
+      case "DISABLE RLS":
+        return {type: "DISABLE_RLS", table, sql, reverseSql: formatAlterTable(quotedTable, "ENABLE ROW LEVEL SECURITY")};
+      default:
+        return {type: "EXECUTE_SQL", table, sql};
+    }
+  }
+
+  private classifyAlter(statement: ParsedStatement, name: QualifiedName, sql: string): MigrationOperation[] | undefined {
+    const tokens = statement.tokens;
+    const renameIndex = tokens.findIndex((token, i) => isKeyword(token, "RENAME") && isKeyword(tokens[i + 1], "TO"));
+    const newName = renameIndex !== -1 && isIdentifier(tokens[renameIndex + 2])
+      ? identifierValue(tokens[renameIndex + 2])
+      : undefined;
+    const renameBack = newName
+      ? `ALTER ${statement.objectType} ${qualifiedName(name.schema, newName)} RENAME TO ${quoteIdentifier(name.name)};`
+      : undefined;
+
+    switch (statement.objectType) {
+      case "INDEX":
+        return newName
+          ? [{type: "RENAME_INDEX", index: formatQualifiedName(name), newName, sql, reverseSql: renameBack}]
+          : undefined;
+      case "VIEW":
+      case "MATERIALIZED VIEW":
+        return newName
+          ? [{type: "RENAME_VIEW", view: formatQualifiedName(name), newName, sql, reverseSql: renameBack}]
+          : undefined;
+      case "TYPE":
+        if (tokens.some((token, i) => isKeyword(token, "ADD") && isKeyword(tokens[i + 1], "VALUE"))) {
+          return [{type: "ALTER_ENUM", enum: formatQualifiedName(name), sql}];
+        }
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private classifyDrop(statement: ParsedStatement, name: QualifiedName, sql: string): MigrationOperation | undefined {
+    const display = formatQualifiedName(name);
+    const table = statement.table ? formatQualifiedName(statement.table) : undefined;
+
+    switch (statement.objectType) {
+      case "TABLE":
+        return {type: "DROP_TABLE", table: display, sql};
+      case "INDEX":
+        return {type: "DROP_INDEX", index: display, sql};
+      case "VIEW":
+      case "MATERIALIZED VIEW":
+        return {type: "DROP_VIEW", view: display, sql};
+      case "TRIGGER":
+        return {type: "DROP_TRIGGER", trigger: name.name, table, sql};
+      case "POLICY":
+        return {type: "DROP_POLICY", policy: name.name, table, sql};
+      case "FUNCTION":
+      case "PROCEDURE":
+        return {type: "DROP_FUNCTION", function: display, sql};
+      case "TYPE":
+        return {type: "DROP_ENUM", enum: display, sql};
+      case "EXTENSION":
+        return {type: "DROP_EXTENSION", extension: name.name, sql};
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * The argument list of a CREATE FUNCTION/PROCEDURE as DROP accepts it,
+   * i.e. without parameter defaults.
+   */
+  private routineSignature(text: string, tokens: SqlToken[]): string | undefined {
+    const open = tokens.findIndex(token => isPunctuation(token, "("));
+    if (open === -1) {
+      return undefined;
+    }
+
+    return splitTopLevel(parenthesizedTokens(tokens, open))
+      .map(parameter => {
+        const defaultIndex = parameter.findIndex(token => isKeyword(token, "DEFAULT") || token.value === "=");
+        return tokensToSql(text, defaultIndex === -1 ? parameter : parameter.slice(0, defaultIndex));
+      })
+      .filter(parameter => parameter.length > 0)
+      .join(", ");
+  }
+
+  private sameName(a: string | undefined, b: string | undefined): boolean {
+    if (!a || !b) {
+      return false;
+    }
+    const qualify = (name: string) => (name.includes(".") ? name : `public.${name}`);
+    return qualify(a) === qualify(b);
+  }
+
+  private bareName(name: string | undefined): string | undefined {
+    return name?.split(".").pop();
+  }
+
+  // A renamed object stays in its schema, so "app.old" renamed to "new" is "app.new"
+  private renamed(name: string | undefined, newName: string | undefined): string | undefined {
+    if (!name || !newName) {
+      return undefined;
+    }
+    const parts = name.split(".");
+    return parts.length > 1 ? `${parts[0]}.${newName}` : newName;
+  }
+}
@@ -7,7 +7,8 @@ import {
   MigrationHistory, 
   MigrationAnalysis, 
   MigrationError, 
-  AppliedMigration 
+  AppliedMigration,
+  MigrationSectionOptions,
 } from '../types/migration.js';
 
 export class MigrationParser {
@@ -50,7 +51,7 @@ export class MigrationParser {
       errors.push('Invalid filename format: unable to extract version');
     }
     
-    const { upSql, downSql } = this.parseMigrationSections(content);
+    const { upSql, downSql, upOptions, downOptions } = this.parseMigrationSections(content);
     
     if (!upSql.trim()) {
       errors.push('Missing or empty migrate:up section');
@@ -65,6 +66,8 @@ export class MigrationParser {
       name: name || '',
       upSql,
       downSql,
+      upOptions,
+      downOptions,
       hasValidStructure: errors.length === 0,
       errors,
     };
@@ -80,10 +83,17 @@ export class MigrationParser {
     return match ? match[1].replace(/_/g, ' ') : null;
   }
 
-  private parseMigrationSections(content: string): { upSql: string; downSql: string } {
+  private parseMigrationSections(content: string): {
+    upSql: string;
+    downSql: string;
+    upOptions: MigrationSectionOptions;
+    downOptions: MigrationSectionOptions;
+  } {
     const lines = content.split('\n');
     let upSql = '';
     let downSql = '';
+    let upOptions: MigrationSectionOptions = { transaction: true };
+    let downOptions: MigrationSectionOptions = { transaction: true };
     let currentSection: 'up' | 'down' | 'none' = 'none';
     
     for (const line of lines) {
@@ -91,11 +101,13 @@ export class MigrationParser {
       
       if (trimmed.startsWith('-- migrate:up')) {
         currentSection = 'up';
+        upOptions = this.parseSectionOptions(trimmed.slice('-- migrate:up'.length));
         continue;
       }
       
       if (trimmed.startsWith('-- migrate:down')) {
         currentSection = 'down';
+        downOptions = this.parseSectionOptions(trimmed.slice('-- migrate:down'.length));
         continue;
       }
       
@@ -109,9 +121,25 @@ export class MigrationParser {
     return {
       upSql: upSql.trim(),
       downSql: downSql.trim(),
+      upOptions,
+      downOptions,
     };
   }
 
+  // dbmate accepts space separated key:value pairs after the section marker
+  private parseSectionOptions(optionsText: string): MigrationSectionOptions {
+    const options: MigrationSectionOptions = { transaction: true };
+    
+    for (const pair of optionsText.trim().split(/\s+/).filter(Boolean)) {
+      const [key, value] = pair.split(':');
+      if (key === 'transaction') {
+        options.transaction = value !== 'false';
+      }
+    }
+    
+    return options;
+  }
+
   async analyzeMigrations(): Promise<MigrationAnalysis> {
     const files = await this.parseMigrationFiles();
     const analysis: MigrationAnalysis = {
@@ -158,6 +186,8 @@ export class MigrationParser {
           filename: file.filename,
           upSql: parsed.upSql,
           downSql: parsed.downSql,
+          upOptions: parsed.upOptions,
+          downOptions: parsed.downOptions,
         });
       }
     }
@@ -191,6 +221,8 @@ export class MigrationParser {
           filename: file.filename,
           upSql: file.parsed.upSql,
           downSql: file.parsed.downSql,
+          upOptions: file.parsed.upOptions,
+          downOptions: file.parsed.downOptions,
         };
         
         if (!appliedVersions.has(file.parsed.version)) {
@@ -206,7 +238,9 @@ export class MigrationParser {
     
     if (appliedMigrations.length > 0) {
       const sortedApplied = appliedMigrations.sort((a, b) => 
-        b.appliedAt.getTime() - a.appliedAt.getTime()
+        a.appliedAt && b.appliedAt
+          ? b.appliedAt.getTime() - a.appliedAt.getTime()
+          : b.version.localeCompare(a.version)
       );
       lastAppliedVersion = sortedApplied[0].version;
     }
@@ -221,6 +255,8 @@ export class MigrationParser {
           filename: file.filename,
           upSql: file.parsed.upSql,
           downSql: file.parsed.downSql,
+          upOptions: file.parsed.upOptions,
+          downOptions: file.parsed.downOptions,
         };
         
         const applied = appliedMigrations.find(m => m.version === file.parsed.version);
@@ -273,8 +309,8 @@ export class MigrationParser {
     return `${year}${month}${day}${hours}${minutes}${seconds}`;
   }
 
-  generateMigrationFilename(name: string): string {
-    const timestamp = this.generateMigrationTimestamp();
+  // Pass the timestamp already reported as the version so both agree across a second boundary
+  generateMigrationFilename(name: string, timestamp: string = this.generateMigrationTimestamp()): string {
     const safeName = name.toLowerCase().replace(/[^a-z0-9]/g, '_');
     return `${timestamp}_${safeName}.sql`;
   }
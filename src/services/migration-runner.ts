@@ -0,0 +1,246 @@
+import { ClientBase } from 'pg';
+import { DatabaseService } from './database.js';
+import { MigrationParser } from './migration-parser.js';
+import { log } from '../utils/logger.js';
+import { splitSqlStatements } from '../utils/sql-parser.js';
+import {
+  Migration,
+  MigrationDirection,
+  MigrationRunResult,
+  MigrationStepResult,
+} from '../types/migration.js';
+
+interface PlannedStep {
+  migration: Migration;
+  direction: MigrationDirection;
+}
+
+/**
+ * Applies and rolls back dbmate migrations natively. Applied versions are
+ * recorded in the migrations table exactly like dbmate does (a single
+ * `version` row per migration), so both tools can be used on the same database.
+ */
+export class MigrationRunner {
+  constructor(
+    private databaseService: DatabaseService,
+    private migrationParser: MigrationParser,
+    private migrationsTable: string
+  ) {}
+
+  async migrateUp(
+    options: { limit?: number; dryRun?: boolean; versions?: string[] } = {}
+  ): Promise<MigrationRunResult> {
+    const [migrations, appliedVersions] = await Promise.all([
+      this.loadMigrations(),
+      this.getAppliedVersions(options.dryRun),
+    ]);
+
+    let pending = migrations.filter(m => !appliedVersions.includes(m.version));
+    if (options.versions !== undefined) {
+      const versions = options.versions;
+      pending = pending.filter(m => versions.includes(m.version));
+    }
+    if (options.limit !== undefined) {
+      pending = pending.slice(0, options.limit);
+    }
+
+    return this.execute(
+      pending.map(migration => ({ migration, direction: 'up' as const })),
+      options.dryRun ?? false
+    );
+  }
+
+  async migrateDown(options: { steps?: number; dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    const [migrations, appliedVersions] = await Promise.all([
+      this.loadMigrations(),
+      this.getAppliedVersions(options.dryRun),
+    ]);
+
+    const toRollback = [...appliedVersions]
+      .sort((a, b) => b.localeCompare(a))
+      .slice(0, options.steps ?? 1);
+
+    return this.execute(
+      toRollback.map(version => ({
+        migration: this.findMigration(migrations, version),
+        direction: 'down' as const,
+      })),
+      options.dryRun ?? false
+    );
+  }
+
+  async migrateToVersion(targetVersion: string, options: { dryRun?: boolean } = {}): Promise<MigrationRunResult> {
+    const [migrations, appliedVersions] = await Promise.all([
+      this.loadMigrations(),
+      this.getAppliedVersions(options.dryRun),
+    ]);
+
+    // Version "0" means "roll back everything"
+    if (targetVersion !== '0' && !migrations.some(m => m.version === targetVersion)) {
+      throw new Error(`Migration version ${targetVersion} not found among the migration files`);
+    }
+
+    const rollbacks = appliedVersions
+      .filter(version => version.localeCompare(targetVersion) > 0)
+      .sort((a, b) => b.localeCompare(a))
+      .map(version => ({
+        migration: this.findMigration(migrations, version),
+        direction: 'down' as const,
+      }));
+
+    const applies = migrations
+      .filter(m => !appliedVersions.includes(m.version) && m.version.localeCompare(targetVersion) <= 0)
+      .map(migration => ({ migration, direction: 'up' as const }));
+
+    return this.execute([...rollbacks, ...applies], options.dryRun ?? false);
+  }
+
+  // A dry run must not write, so a missing migrations table means nothing is applied yet
+  async getAppliedVersions(dryRun = false): Promise<string[]> {
+    if (dryRun) {
+      const exists = await this.databaseService.executeQuery(
+        'SELECT to_regclass($1) IS NOT NULL AS exists',
+        [this.migrationsTable]
+      );
+      if (!exists.rows[0]?.exists) {
+        return [];
+      }
+    } else {
+      await this.ensureMigrationsTable();
+    }
+    const result = await this.databaseService.executeQuery(
+      `SELECT version FROM ${this.migrationsTable} ORDER BY version`
+    );
+    return result.rows.map((row: { version: string }) => String(row.version));
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.databaseService.executeQuery(
+      `CREATE TABLE IF NOT EXISTS ${this.migrationsTable} (version varchar(128) PRIMARY KEY)`
+    );
+  }
+
+  private async loadMigrations(): Promise<Migration[]> {
+    const files = await this.migrationParser.parseMigrationFiles();
+    const migrations: Migration[] = [];
+
+    for (const file of files) {
+      if (!file.parsed.version) {
+        continue;
+      }
+      migrations.push({
+        version: file.parsed.version,
+        name: file.parsed.name,
+        filename: file.filename,
+        upSql: file.parsed.upSql,
+        downSql: file.parsed.downSql,
+        upOptions: file.parsed.upOptions,
+        downOptions: file.parsed.downOptions,
+      });
+    }
+
+    return migrations;
+  }
+
+  private findMigration(migrations: Migration[], version: string): Migration {
+    const migration = migrations.find(m => m.version === version);
+    if (!migration) {
+      throw new Error(`Applied migration ${version} has no matching migration file`);
+    }
+    return migration;
+  }
+
+  private async execute(steps: PlannedStep[], dryRun: boolean): Promise<MigrationRunResult> {
+    const runLogger = log.db('migrate');
+    const planned = steps.map(step => ({
+      version: step.migration.version,
+      filename: step.migration.filename,
+      direction: step.direction,
+    }));
+    const executed: MigrationStepResult[] = [];
+
+    if (!dryRun) {
+      for (const step of steps) {
+        const { migration, direction } = step;
+        const sql = direction === 'up' ? migration.upSql : migration.downSql;
+        const options = direction === 'up' ? migration.upOptions : migration.downOptions;
+        const transactional = options?.transaction !== false;
+        const startTime = Date.now();
+
+        runLogger.info(`Applying migration ${direction}`, {
+          version: migration.version,
+          filename: migration.filename,
+          transactional,
+        });
+
+        try {
+          if (!sql.trim()) {
+            throw new Error(`Migration ${migration.filename} has an empty migrate:${direction} section`);
+          }
+
+          const apply = (client: ClientBase) => this.applyStep(client, migration, direction, sql, transactional);
+          if (transactional) {
+            await this.databaseService.withTransaction(apply);
+          } else {
+            await this.databaseService.withClient(apply);
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          runLogger.error(
+            `Migration ${direction} failed`,
+            error instanceof Error ? error : new Error(message),
+            { version: migration.version }
+          );
+          return {
+            success: false,
+            dryRun,
+            planned,
+            executed,
+            failed: { version: migration.version, filename: migration.filename, direction, error: message },
+            appliedVersions: await this.getAppliedVersions(dryRun),
+          };
+        }
+
+        executed.push({
+          version: migration.version,
+          filename: migration.filename,
+          direction,
+          transactional,
+          durationMs: Date.now() - startTime,
+        });
+      }
+    }
+
+    return {
+      success: true,
+      dryRun,
+      planned,
+      executed,
+      appliedVersions: await this.getAppliedVersions(dryRun),
+    };
+  }
+
+  private async applyStep(
+    client: ClientBase,
+    migration: Migration,
+    direction: MigrationDirection,
+    sql: string,
+    transactional: boolean
+  ): Promise<void> {
+    if (transactional) {
+      await client.query(sql);
+    } else {
+      // A multi-statement query runs in an implicit transaction, which statements
+      // like CREATE INDEX CONCURRENTLY refuse, so send them one at a time
+      for (const statement of splitSqlStatements(sql)) {
+        await client.query(statement.text);
+      }
+    }
+
+    if (direction === 'up') {
+      await client.query(`INSERT INTO ${this.migrationsTable} (version) VALUES ($1)`, [migration.version]);
+    } else {
+      await client.query(`DELETE FROM ${this.migrationsTable} WHERE version = $1`, [migration.version]);
+    }
+  }
+}
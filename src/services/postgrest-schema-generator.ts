@@ -6,17 +6,18 @@ import {
   PostgRESTPermission
 } from '../types/postgrest.js';
 import { DatabaseSchema, Table, Column, Index, Constraint } from '../types/schema.js';
-import { DatabaseService } from './database.js';
+import { SchemaSource } from './schema-snapshot.js';
 
 export class PostgRESTSchemaGenerator {
-  private databaseService: DatabaseService;
+  private schemaSource: SchemaSource;
 
-  constructor(databaseService: DatabaseService) {
-    this.databaseService = databaseService;
+  // Either a DatabaseService or a snapshot file; snapshots carry no grants
+  constructor(schemaSource: SchemaSource) {
+    this.schemaSource = schemaSource;
   }
 
   async generatePostgRESTSchema(tableFilter?: string): Promise<PostgRESTSchemaDefinition[]> {
-    const schema = await this.databaseService.getSchema();
+    const schema = await this.schemaSource.getSchema();
     const definitions: PostgRESTSchemaDefinition[] = [];
 
     for (const table of schema.tables) {
@@ -138,8 +139,11 @@ export class PostgRESTSchemaGenerator {
   }
 
   private async extractPermissions(table: Table): Promise<PostgRESTPermission[]> {
+    if (!this.schemaSource.getTablePermissions) {
+      return [];
+    }
     try {
-      const permissions = await this.databaseService.getTablePermissions(table.schema, table.name);
+      const permissions = await this.schemaSource.getTablePermissions(table.schema, table.name);
       return permissions.map(p => ({
         role: p.grantee,
         operation: p.privilege_type as any,
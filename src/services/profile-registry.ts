@@ -0,0 +1,85 @@
+import {ProfileConfig} from "../types/config.js";
+import {ConfigLoader, DEFAULT_PROFILE} from "../utils/config-loader.js";
+import {DatabaseService} from "./database.js";
+import {MigrationParser} from "./migration-parser.js";
+import {MigrationRunner} from "./migration-runner.js";
+import {ShadowDatabase} from "./shadow-database.js";
+import {log} from "../utils/logger.js";
+
+export interface ProfileServices {
+  profile: ProfileConfig;
+  databaseService: DatabaseService;
+  migrationParser: MigrationParser;
+  migrationRunner: MigrationRunner;
+  shadowDatabase: ShadowDatabase;
+}
+
+/**
+ * Hands out the database-bound services of a configuration profile. Services
+ * for a profile are created the first time a tool asks for it, so profiles
+ * that are never used never open a connection.
+ */
+export class ProfileRegistry {
+  private services = new Map<string, ProfileServices>();
+
+  constructor(
+    private configLoader: ConfigLoader,
+    // False when the DB_* configuration failed validation
+    private defaultProfileAvailable: boolean
+  ) {}
+
+  getProfileNames(): string[] {
+    return this.configLoader.getProfileNames();
+  }
+
+  get(name: string = DEFAULT_PROFILE): ProfileServices {
+    const existing = this.services.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    if (name === DEFAULT_PROFILE && !this.defaultProfileAvailable) {
+      throw new Error(
+        "Database service not available. Please check your database configuration."
+      );
+    }
+
+    const profile = this.configLoader.getProfileConfig(name);
+    log.info("Initializing services for profile", {profile: name, readOnly: profile.readOnly});
+
+    const databaseService = new DatabaseService(profile.database);
+    const migrationParser = new MigrationParser(profile.migrations.directory);
+    const services: ProfileServices = {
+      profile,
+      databaseService,
+      migrationParser,
+      migrationRunner: new MigrationRunner(databaseService, migrationParser, profile.migrations.table),
+      shadowDatabase: new ShadowDatabase(
+        databaseService,
+        profile.database,
+        migrationParser,
+        profile.migrations.table
+      ),
+    };
+    this.services.set(name, services);
+    return services;
+  }
+
+  /**
+   * Throws when the profile is read-only; called by tools that change the
+   * database (or create databases next to it) before they do anything.
+   */
+  assertWritable(services: ProfileServices, action: string): void {
+    if (services.profile.readOnly) {
+      throw new Error(
+        `Profile "${services.profile.name}" is read-only; refusing to ${action}`
+      );
+    }
+  }
+
+  async disconnectAll(): Promise<void> {
+    for (const services of this.services.values()) {
+      await services.databaseService.disconnect();
+    }
+  }
+}
@@ -1,15 +1,7 @@
-import {
-  DatabaseSchema,
-  Table,
-  Column,
-  Index,
-  Constraint,
-  View,
-  Trigger,
-  RLSPolicy,
-} from "../types/schema.js";
+import {DatabaseSchema, Table, Column, View, Grant} from "../types/schema.js";
 import {
   SchemaDrift,
+  ObjectDrift,
   TableDrift,
   ColumnDrift,
   ColumnChange,
@@ -18,8 +10,12 @@ import {
   TriggerDrift,
   RLSPolicyDrift,
 } from "../types/migration.js";
+import {SchemaReplayer} from "./schema-replayer.js";
+import {normalizeSqlForComparison} from "../utils/sql-parser.js";
 
 export class SchemaAnalyzer {
+  private replayer = new SchemaReplayer();
+
   compareSchemasWithMigrations(
     currentSchema: DatabaseSchema,
     migrations: Migration[]
@@ -168,7 +164,93 @@ export class SchemaAnalyzer {
       }
     }
 
+    const materializedViews = this.compareObjectSets(
+      expected.materializedViews,
+      actual.materializedViews,
+      (v) => `${v.schema}.${v.name}`,
+      (v) => ({definition: normalizeSqlForComparison(v.definition)})
+    );
+    const modifiedMaterializedViews = materializedViews.modified.map((drift) =>
+      this.compareView(
+        expected.materializedViews!.find((v) => `${v.schema}.${v.name}` === drift.name)!,
+        actual.materializedViews!.find((v) => `${v.schema}.${v.name}` === drift.name)!
+      )
+    );
+    const sequences = this.compareObjectSets(
+      expected.sequences,
+      actual.sequences,
+      (s) => `${s.schema}.${s.name}`,
+      (s) => ({
+        dataType: s.dataType,
+        startValue: s.startValue,
+        increment: s.increment,
+        minValue: s.minValue,
+        maxValue: s.maxValue,
+        cacheSize: s.cacheSize,
+        cycled: s.cycled,
+      })
+    );
+    const partitions = this.compareObjectSets(
+      expected.partitions,
+      actual.partitions,
+      (p) => `${p.schema}.${p.name}`,
+      (p) => ({parent: `${p.parentSchema}.${p.parentName}`, bound: p.bound})
+    );
+    const enums = this.compareObjectSets(
+      expected.enums,
+      actual.enums,
+      (e) => `${e.schema}.${e.name}`,
+      (e) => ({values: e.values.join(", ")})
+    );
+    const domains = this.compareObjectSets(
+      expected.domains,
+      actual.domains,
+      (d) => `${d.schema}.${d.name}`,
+      (d) => ({
+        baseType: d.baseType,
+        notNull: d.notNull,
+        defaultValue: d.defaultValue,
+        collation: d.collation,
+        constraints: d.constraints.map((c) => `${c.name}: ${c.definition}`).join("; "),
+      })
+    );
+    const compositeTypes = this.compareObjectSets(
+      expected.compositeTypes,
+      actual.compositeTypes,
+      (t) => `${t.schema}.${t.name}`,
+      (t) => ({attributes: t.attributes.map((a) => `${a.name} ${a.dataType}`).join(", ")})
+    );
+    const grants = this.compareObjectSets(expected.grants, actual.grants, (g) => this.grantKey(g), () => ({}));
+    const roles = this.compareObjectSets(
+      expected.roles,
+      actual.roles,
+      (r) => r.name,
+      (r) => ({
+        canLogin: r.canLogin,
+        isSuperuser: r.isSuperuser,
+        canCreateDb: r.canCreateDb,
+        canCreateRole: r.canCreateRole,
+        inherit: r.inherit,
+        bypassRls: r.bypassRls,
+        replication: r.replication,
+        connectionLimit: r.connectionLimit,
+        validUntil: r.validUntil,
+        memberOf: r.memberOf.join(", "),
+      })
+    );
+    const otherChanges = [
+      materializedViews,
+      sequences,
+      partitions,
+      enums,
+      domains,
+      compositeTypes,
+      grants,
+      roles,
+    ].some((set) => set.missing.length > 0 || set.extra.length > 0 || set.modified.length > 0);
+
     const hasChanges =
+      otherChanges ||
       missingTables.length > 0 ||
       extraTables.length > 0 ||
       modifiedTables.length > 0 ||
@@ -196,6 +278,29 @@ export class SchemaAnalyzer {
       extraTriggers,
       missingRLSPolicies,
       extraRLSPolicies,
+      missingMaterializedViews: materializedViews.missing,
+      extraMaterializedViews: materializedViews.extra,
+      modifiedMaterializedViews,
+      missingSequences: sequences.missing,
+      extraSequences: sequences.extra,
+      modifiedSequences: sequences.modified,
+      missingPartitions: partitions.missing,
+      extraPartitions: partitions.extra,
+      modifiedPartitions: partitions.modified,
+      missingEnums: enums.missing,
+      extraEnums: enums.extra,
+      modifiedEnums: enums.modified,
+      missingDomains: domains.missing,
+      extraDomains: domains.extra,
+      modifiedDomains: domains.modified,
+      missingCompositeTypes: compositeTypes.missing,
+      extraCompositeTypes: compositeTypes.extra,
+      modifiedCompositeTypes: compositeTypes.modified,
+      missingGrants: grants.missing,
+      extraGrants: grants.extra,
+      missingRoles: roles.missing,
+      extraRoles: roles.extra,
+      modifiedRoles: roles.modified,
       summary: this.generateSummary(
         hasChanges,
         missingTables,
@@ -205,6 +310,60 @@ export class SchemaAnalyzer {
     };
   }
 
+  /**
+   * Diffs a collection that only catalog introspection provides. When either
+   * side lacks it (a schema replayed from migrations, an older snapshot) it is
+   * skipped rather than reported as entirely missing or extra.
+   */
+  private compareObjectSets<T>(
+    expected: T[] | undefined,
+    actual: T[] | undefined,
+    key: (item: T) => string,
+    properties: (item: T) => Record<string, unknown>
+  ): {missing: string[]; extra: string[]; modified: ObjectDrift[]} {
+    if (!expected || !actual) {
+      return {missing: [], extra: [], modified: []};
+    }
+
+    const expectedMap = new Map(expected.map((item) => [key(item), item]));
+    const actualMap = new Map(actual.map((item) => [key(item), item]));
+    const format = (value: unknown) => (value === undefined || value === null ? "null" : String(value));
+    const missing: string[] = [];
+    const modified: ObjectDrift[] = [];
+
+    for (const [name, expectedItem] of expectedMap) {
+      const actualItem = actualMap.get(name);
+      if (!actualItem) {
+        missing.push(name);
+        continue;
+      }
+      const expectedProperties = properties(expectedItem);
+      const actualProperties = properties(actualItem);
+      const changes = Object.keys(expectedProperties)
+        .filter((property) => format(expectedProperties[property]) !== format(actualProperties[property]))
+        .map((property) => ({
+          property,
+          expected: format(expectedProperties[property]),
+          actual: format(actualProperties[property]),
+        }));
+      if (changes.length > 0) {
+        modified.push({name, changes});
+      }
+    }
+
+    const extra = [...actualMap.keys()].filter((name) => !expectedMap.has(name));
+    return {missing, extra, modified};
+  }
+
+  private grantKey(grant: Grant): string {
+    const object = grant.objectType === "schema"
+      ? `SCHEMA ${grant.schema}`
+      : `${grant.objectType.toUpperCase().replace("_", " ")} ${grant.schema}.${grant.name}`;
+    const column = grant.column ? ` (${grant.column})` : "";
+    const grantOption = grant.isGrantable ? " WITH GRANT OPTION" : "";
+    return `${grant.privilege}${column} ON ${object} TO ${grant.grantee}${grantOption}`;
+  }
+
   private compareTable(expected: Table, actual: Table): TableDrift {
     const expectedColumnMap = new Map(expected.columns.map((c) => [c.name, c]));
     const actualColumnMap = new Map(actual.columns.map((c) => [c.name, c]));
@@ -253,6 +412,8 @@ export class SchemaAnalyzer {
       }
     }
 
+    const partitionKeyChanged = (expected.partitionKey ?? null) !== (actual.partitionKey ?? null);
+
     return {
       tableName: `${expected.schema}.${expected.name}`,
       missingColumns,
@@ -260,11 +421,22 @@ export class SchemaAnalyzer {
       modifiedColumns,
       missingConstraints,
       extraConstraints,
+      ...(partitionKeyChanged
+        ? {
+            partitionKey: {
+              property: "partitionKey",
+              expected: expected.partitionKey || "null",
+              actual: actual.partitionKey || "null",
+            },
+          }
+        : {}),
     };
   }
 
   private compareColumn(expected: Column, actual: Column): ColumnDrift {
     const changes: ColumnChange[] = [];
+    // The catalog reports absent values as null, replayed schemas leave them undefined
+    const differs = (a: unknown, b: unknown) => (a ?? null) !== (b ?? null);
 
     if (expected.dataType !== actual.dataType) {
       changes.push({
@@ -274,6 +446,19 @@ export class SchemaAnalyzer {
       });
     }
 
+    if (
+      expected.udtName &&
+      actual.udtName &&
+      ["USER-DEFINED", "ARRAY"].includes(expected.dataType) &&
+      expected.udtName !== actual.udtName
+    ) {
+      changes.push({
+        property: "udtName",
+        expected: expected.udtName,
+        actual: actual.udtName,
+      });
+    }
+
     if (expected.isNullable !== actual.isNullable) {
       changes.push({
         property: "isNullable",
@@ -282,7 +467,9 @@ export class SchemaAnalyzer {
       });
     }
 
-    if (expected.defaultValue !== actual.defaultValue) {
+    const normalizeDefault = (value?: string) =>
+      value ? normalizeSqlForComparison(value) : null;
+    if (normalizeDefault(expected.defaultValue) !== normalizeDefault(actual.defaultValue)) {
       changes.push({
         property: "defaultValue",
         expected: expected.defaultValue || "null",
@@ -290,7 +477,17 @@ export class SchemaAnalyzer {
       });
     }
 
-    if (expected.characterMaximumLength !== actual.characterMaximumLength) {
+    // undefined when a snapshot taken before the identity kind was recorded only says isIdentity
+    const identity = (column: Column) => (column.isIdentity ? column.identityGeneration : null);
+    if (identity(expected) !== undefined && identity(actual) !== undefined && differs(identity(expected), identity(actual))) {
+      changes.push({
+        property: "identityGeneration",
+        expected: identity(expected) || "null",
+        actual: identity(actual) || "null",
+      });
+    }
+
+    if (differs(expected.characterMaximumLength, actual.characterMaximumLength)) {
       changes.push({
         property: "characterMaximumLength",
         expected: expected.characterMaximumLength?.toString() || "null",
@@ -298,7 +495,7 @@ export class SchemaAnalyzer {
       });
     }
 
-    if (expected.numericPrecision !== actual.numericPrecision) {
+    if (differs(expected.numericPrecision, actual.numericPrecision)) {
       changes.push({
         property: "numericPrecision",
         expected: expected.numericPrecision?.toString() || "null",
@@ -306,7 +503,7 @@ export class SchemaAnalyzer {
       });
     }
 
-    if (expected.numericScale !== actual.numericScale) {
+    if (differs(expected.numericScale, actual.numericScale)) {
       changes.push({
         property: "numericScale",
         expected: expected.numericScale?.toString() || "null",
@@ -320,9 +517,13 @@ export class SchemaAnalyzer {
     };
   }
 
-  private compareView(expected: View, actual: View): ViewDrift {
+  private compareView(
+    expected: Pick<View, "schema" | "name" | "definition">,
+    actual: Pick<View, "schema" | "name" | "definition">
+  ): ViewDrift {
     const definitionChanged =
-      expected.definition.trim() !== actual.definition.trim();
+      normalizeSqlForComparison(expected.definition) !==
+      normalizeSqlForComparison(actual.definition);
 
     return {
       viewName: `${expected.schema}.${expected.name}`,
@@ -338,7 +539,8 @@ export class SchemaAnalyzer {
       tableDrift.extraColumns.length > 0 ||
       tableDrift.modifiedColumns.length > 0 ||
       tableDrift.missingConstraints.length > 0 ||
-      tableDrift.extraConstraints.length > 0
+      tableDrift.extraConstraints.length > 0 ||
+      tableDrift.partitionKey !== undefined
     );
   }
 
@@ -366,22 +568,17 @@ export class SchemaAnalyzer {
       parts.push(`${modifiedTables.length} table(s) have structural changes`);
     }
 
+    if (parts.length === 0) {
+      parts.push("objects other than tables differ");
+    }
+
     return `Schema drift detected: ${parts.join(", ")}.`;
   }
 
-  private buildExpectedSchemaFromMigrations(
+  buildExpectedSchemaFromMigrations(
     migrations: Migration[]
   ): DatabaseSchema {
-    const schema: DatabaseSchema = {
-      tables: [],
-      views: [],
-      enums: [],
-      functions: [],
-      extensions: [],
-      indexes: [],
-      triggers: [],
-      rlsPolicies: [],
-    };
+    const schema = this.replayer.createEmptySchema();
 
     for (const migration of migrations) {
       this.applyMigrationToSchema(schema, migration);
@@ -394,304 +591,6 @@ export class SchemaAnalyzer {
     schema: DatabaseSchema,
     migration: Migration
   ): void {
-    const operations = this.parseMigrationOperations(migration.upSql);
-
-    for (const operation of operations) {
-      switch (operation.type) {
-        case "CREATE_TABLE":
-          this.applyCreateTable(schema, operation.sql);
-          break;
-        case "DROP_TABLE":
-          this.applyDropTable(schema, operation.sql);
-          break;
-        case "ADD_COLUMN":
-          this.applyAddColumn(schema, operation.sql);
-          break;
-        case "DROP_COLUMN":
-          this.applyDropColumn(schema, operation.sql);
-          break;
-        case "CREATE_INDEX":
-          this.applyCreateIndex(schema, operation.sql);
-          break;
-        case "DROP_INDEX":
-          this.applyDropIndex(schema, operation.sql);
-          break;
-        case "CREATE_VIEW":
-          this.applyCreateView(schema, operation.sql);
-          break;
-        case "DROP_VIEW":
-          this.applyDropView(schema, operation.sql);
-          break;
-        case "CREATE_TRIGGER":
-          this.applyCreateTrigger(schema, operation.sql);
-          break;
-        case "DROP_TRIGGER":
-          this.applyDropTrigger(schema, operation.sql);
-          break;
-        case "CREATE_POLICY":
-          this.applyCreatePolicy(schema, operation.sql);
-          break;
-        case "DROP_POLICY":
-          this.applyDropPolicy(schema, operation.sql);
-          break;
-      }
-    }
-  }
-
-  private parseMigrationOperations(
-    sql: string
-  ): Array<{type: string; sql: string}> {
-    const operations: Array<{type: string; sql: string}> = [];
-    const statements = sql
-      .split(";")
-      .map((s) => s.trim())
-      .filter((s) => s.length > 0);
-
-    for (const statement of statements) {
-      const upperStatement = statement.toUpperCase();
-
-      if (upperStatement.startsWith("CREATE TABLE")) {
-        operations.push({type: "CREATE_TABLE", sql: statement});
-      } else if (upperStatement.startsWith("DROP TABLE")) {
-        operations.push({type: "DROP_TABLE", sql: statement});
-      } else if (
-        upperStatement.startsWith("ALTER TABLE") &&
-        upperStatement.includes("ADD COLUMN")
-      ) {
-        operations.push({type: "ADD_COLUMN", sql: statement});
-      } else if (
-        upperStatement.startsWith("ALTER TABLE") &&
-        upperStatement.includes("DROP COLUMN")
-      ) {
-        operations.push({type: "DROP_COLUMN", sql: statement});
-      } else if (
-        upperStatement.startsWith("CREATE INDEX") ||
-        upperStatement.startsWith("CREATE UNIQUE INDEX")
-      ) {
-        operations.push({type: "CREATE_INDEX", sql: statement});
-      } else if (upperStatement.startsWith("DROP INDEX")) {
-        operations.push({type: "DROP_INDEX", sql: statement});
-      }
-    }
-
-    return operations;
-  }
-
-  private applyCreateTable(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(
-      /CREATE TABLE\s+(?:IF NOT EXISTS\s+)?(?:(\w+)\.)?(\w+)/i
-    );
-    if (match) {
-      const schemaName = match[1] || "public";
-      const tableName = match[2];
-
-      const table: Table = {
-        schema: schemaName,
-        name: tableName,
-        columns: [],
-        constraints: [],
-        indexes: [],
-      };
-
-      schema.tables.push(table);
-    }
-  }
-
-  private applyDropTable(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(/DROP TABLE\s+(?:IF EXISTS\s+)?(?:(\w+)\.)?(\w+)/i);
-    if (match) {
-      const schemaName = match[1] || "public";
-      const tableName = match[2];
-
-      schema.tables = schema.tables.filter(
-        (t) => !(t.schema === schemaName && t.name === tableName)
-      );
-    }
-  }
-
-  private applyAddColumn(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(
-      /ALTER TABLE\s+(?:(\w+)\.)?(\w+)\s+ADD COLUMN\s+(\w+)/i
-    );
-    if (match) {
-      const schemaName = match[1] || "public";
-      const tableName = match[2];
-      const columnName = match[3];
-
-      const table = schema.tables.find(
-        (t) => t.schema === schemaName && t.name === tableName
-      );
-      if (table) {
-        const column: Column = {
-          name: columnName,
-          dataType: "text",
-          isNullable: true,
-          isGenerated: false,
-          ordinalPosition: table.columns.length + 1,
-        };
-        table.columns.push(column);
-      }
-    }
-  }
-
-  private applyDropColumn(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(
-      /ALTER TABLE\s+(?:(\w+)\.)?(\w+)\s+DROP COLUMN\s+(\w+)/i
-    );
-    if (match) {
-      const schemaName = match[1] || "public";
-      const tableName = match[2];
-      const columnName = match[3];
-
-      const table = schema.tables.find(
-        (t) => t.schema === schemaName && t.name === tableName
-      );
-      if (table) {
-        table.columns = table.columns.filter((c) => c.name !== columnName);
-      }
-    }
-  }
-
-  private applyCreateIndex(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(
-      /CREATE\s+(?:UNIQUE\s+)?INDEX\s+(?:CONCURRENTLY\s+)?(\w+)\s+ON\s+(?:(\w+)\.)?(\w+)/i
-    );
-    if (match) {
-      const indexName = match[1];
-      const schemaName = match[2] || "public";
-      const tableName = match[3];
-
-      const index: Index = {
-        name: indexName,
-        tableName,
-        schemaName,
-        columns: [],
-        isUnique: sql.toUpperCase().includes("UNIQUE"),
-        isPrimary: false,
-        method: "btree",
-        isConcurrent: sql.toUpperCase().includes("CONCURRENTLY"),
-      };
-
-      schema.indexes.push(index);
-    }
-  }
-
-  private applyDropIndex(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(
-      /DROP INDEX\s+(?:CONCURRENTLY\s+)?(?:IF EXISTS\s+)?(\w+)/i
-    );
-    if (match) {
-      const indexName = match[1];
-      schema.indexes = schema.indexes.filter((i) => i.name !== indexName);
-    }
-  }
-
-  private applyCreateView(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(
-      /CREATE\s+(?:OR\s+REPLACE\s+)?VIEW\s+(?:(\w+)\.)?(\w+)\s+AS/i
-    );
-    if (match) {
-      const schemaName = match[1] || "public";
-      const viewName = match[2];
-
-      // Remove existing view if it exists (for CREATE OR REPLACE)
-      schema.views = schema.views.filter(
-        (v) => !(v.schema === schemaName && v.name === viewName)
-      );
-
-      const view: View = {
-        schema: schemaName,
-        name: viewName,
-        definition: sql,
-        columns: [],
-        owner: "",
-        dependencies: [],
-        isUpdatable: false,
-        hasInsteadOfTriggers: false,
-      };
-
-      schema.views.push(view);
-    }
-  }
-
-  private applyDropView(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(/DROP VIEW\s+(?:IF EXISTS\s+)?(?:(\w+)\.)?(\w+)/i);
-    if (match) {
-      const schemaName = match[1] || "public";
-      const viewName = match[2];
-
-      schema.views = schema.views.filter(
-        (v) => !(v.schema === schemaName && v.name === viewName)
-      );
-    }
-  }
-
-  private applyCreateTrigger(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(/CREATE TRIGGER\s+(\w+)/i);
-    if (match) {
-      const triggerName = match[1];
-
-      const trigger: Trigger = {
-        schema: "public",
-        name: triggerName,
-        tableName: "",
-        timing: "BEFORE" as any,
-        events: [],
-        orientation: "ROW" as any,
-        functionName: "",
-        functionSchema: "",
-        definition: sql,
-        isConstraint: false,
-        isEnabled: true,
-      };
-
-      schema.triggers.push(trigger);
-    }
-  }
-
-  private applyDropTrigger(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(/DROP TRIGGER\s+(\w+)/i);
-    if (match) {
-      const triggerName = match[1];
-      schema.triggers = schema.triggers.filter((t) => t.name !== triggerName);
-    }
-  }
-
-  private applyCreatePolicy(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(/CREATE POLICY\s+(\w+)\s+ON\s+(?:(\w+)\.)?(\w+)/i);
-    if (match) {
-      const policyName = match[1];
-      const schemaName = match[2] || "public";
-      const tableName = match[3];
-
-      const policy: RLSPolicy = {
-        schema: schemaName,
-        tableName: tableName,
-        policyName: policyName,
-        permissive: true,
-        roles: [],
-        command: "ALL" as any,
-      };
-
-      schema.rlsPolicies.push(policy);
-    }
-  }
-
-  private applyDropPolicy(schema: DatabaseSchema, sql: string): void {
-    const match = sql.match(/DROP POLICY\s+(\w+)\s+ON\s+(?:(\w+)\.)?(\w+)/i);
-    if (match) {
-      const policyName = match[1];
-      const schemaName = match[2] || "public";
-      const tableName = match[3];
-
-      schema.rlsPolicies = schema.rlsPolicies.filter(
-        (p) =>
-          !(
-            p.schema === schemaName &&
-            p.tableName === tableName &&
-            p.policyName === policyName
-          )
-      );
-    }
+    this.replayer.applySql(schema, migration.upSql);
   }
 }
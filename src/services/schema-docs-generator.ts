@@ -0,0 +1,487 @@
+import path from "path";
+import {Column, Constraint, ConstraintType, DatabaseSchema, Grant, Table} from "../types/schema.js";
+import {SchemaSource} from "./schema-snapshot.js";
+import {formatColumnType} from "../utils/sql-formatter.js";
+import {buildErModel, renderErDiagram} from "../utils/er-diagram.js";
+
+export type SchemaDocsFormat = "markdown" | "html";
+
+export interface SchemaDocsFile {
+  path: string;
+  content: string;
+}
+
+export interface UndocumentedObject {
+  kind: DocumentedKind;
+  object: string;
+}
+
+export type DocumentedKind = "table" | "column" | "view" | "materialized_view" | "function" | "domain" | "composite_type";
+
+export interface DocumentationCoverage {
+  total: number;
+  documented: number;
+  // Share of objects with a COMMENT ON, 0-100
+  percent: number;
+  byKind: Partial<Record<DocumentedKind, {total: number; documented: number}>>;
+  missing: UndocumentedObject[];
+}
+
+export interface SchemaDocs {
+  format: SchemaDocsFormat;
+  files: SchemaDocsFile[];
+  coverage: DocumentationCoverage;
+}
+
+export interface SchemaDocsOptions {
+  schemas?: string[];
+  diagrams?: boolean;
+}
+
+// Renders the building blocks of a page; every string passed in as text is escaped by the writer
+interface DocWriter {
+  extension: string;
+  text(value: string): string;
+  code(value: string): string;
+  link(label: string, href: string): string;
+  heading(level: number, text: string): string;
+  paragraph(text: string): string;
+  list(items: string[]): string;
+  table(headers: string[], rows: string[][]): string;
+  diagram(mermaid: string): string;
+  page(title: string, blocks: string[]): string;
+}
+
+const markdownWriter: DocWriter = {
+  extension: "md",
+  text: value => value.replace(/[\\`*_[\]<>]/g, match => `\\${match}`).replace(/\r?\n/g, "  \n"),
+  code: value => {
+    const single = value.replace(/\s*\r?\n\s*/g, " ");
+    return single.includes("`") ? `\`\` ${single} \`\`` : `\`${single}\``;
+  },
+  link: (label, href) => `[${label}](${encodeURI(href)})`,
+  heading: (level, text) => `${"#".repeat(level)} ${text}`,
+  paragraph: text => text,
+  list: items => items.map(item => `- ${item}`).join("\n"),
+  table: (headers, rows) => {
+    // GFM cells are single lines, and a bare pipe would end the cell
+    const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/ {2}\n/g, "<br>") || " ";
+    return [
+      `| ${headers.join(" | ")} |`,
+      `| ${headers.map(() => "---").join(" | ")} |`,
+      ...rows.map(row => `| ${row.map(cell).join(" | ")} |`),
+    ].join("\n");
+  },
+  diagram: mermaid => `\`\`\`mermaid\n${mermaid.trimEnd()}\n\`\`\``,
+  page: (_title, blocks) => blocks.join("\n\n") + "\n",
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 72rem; padding: 0 1rem; color: #1f2328; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.9em; }
+pre { background: #f6f8fa; padding: 0.8rem; overflow-x: auto; }
+a { color: #0969da; }`;
+
+const htmlWriter: DocWriter = {
+  extension: "html",
+  text: value => escapeHtml(value).replace(/\r?\n/g, "<br>"),
+  code: value => `<code>${escapeHtml(value)}</code>`,
+  link: (label, href) => `<a href="${escapeHtml(encodeURI(href))}">${label}</a>`,
+  heading: (level, text) => `<h${level}>${text}</h${level}>`,
+  paragraph: text => `<p>${text}</p>`,
+  list: items => `<ul>\n${items.map(item => `  <li>${item}</li>`).join("\n")}\n</ul>`,
+  table: (headers, rows) => [
+    "<table>",
+    `  <tr>${headers.map(header => `<th>${header}</th>`).join("")}</tr>`,
+    ...rows.map(row => `  <tr>${row.map(cell => `<td>${cell}</td>`).join("")}</tr>`),
+    "</table>",
+  ].join("\n"),
+  diagram: mermaid => `<pre class="mermaid">\n${escapeHtml(mermaid.trimEnd())}\n</pre>`,
+  page: (title, blocks) => {
+    const body = blocks.join("\n");
+    // Mermaid is only loaded by pages that draw a diagram
+    const script = body.includes('class="mermaid"')
+      ? '\n<script type="module">\nimport mermaid from "https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.esm.min.mjs";\nmermaid.initialize({ startOnLoad: true });\n</script>'
+      : "";
+    return [
+      "<!DOCTYPE html>",
+      '<html lang="en">',
+      "<head>",
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>${HTML_STYLE}\n</style>`,
+      "</head>",
+      "<body>",
+      body + script,
+      "</body>",
+      "</html>",
+      "",
+    ].join("\n");
+  },
+};
+
+const tableKey = (schema: string, name: string) => `${schema}.${name}`;
+
+// Keeps page names portable across file systems
+const fileName = (name: string) => name.replace(/[^A-Za-z0-9_.-]/g, "_");
+
+// information_schema repeats the columns of composite keys, once per referenced column, and
+// reports null for check constraints that mention no column
+const unique = (values: (string | null)[] = []) => [...new Set(values.filter((value): value is string => !!value))];
+
+/**
+ * Builds a browsable data dictionary: an index page, a page per schema and a
+ * page per table, in Markdown or as standalone HTML. Mermaid ER diagrams are
+ * embedded on the index, schema and table pages, and the objects without a
+ * COMMENT ON are collected into a coverage report.
+ */
+export class SchemaDocsGenerator {
+  private schemaSource: SchemaSource;
+  private schema!: DatabaseSchema;
+  private writer!: DocWriter;
+  private diagrams = true;
+  private tables!: Table[];
+
+  constructor(schemaSource: SchemaSource) {
+    this.schemaSource = schemaSource;
+  }
+
+  async generate(format: SchemaDocsFormat, options: SchemaDocsOptions = {}): Promise<SchemaDocs> {
+    this.schema = await this.schemaSource.getSchema();
+    this.writer = format === "html" ? htmlWriter : markdownWriter;
+    this.diagrams = options.diagrams ?? true;
+
+    const included = (schemaName: string) => !options.schemas || options.schemas.includes(schemaName);
+    // Partitions are listed on their parent's page
+    const partitions = new Set((this.schema.partitions || []).map(p => tableKey(p.schema, p.name)));
+    this.tables = this.schema.tables.filter(t => included(t.schema) && !partitions.has(tableKey(t.schema, t.name)));
+
+    const schemaNames = [...new Set([
+      ...this.tables.map(t => t.schema),
+      ...this.schema.views.map(v => v.schema),
+      ...(this.schema.materializedViews || []).map(v => v.schema),
+      ...this.schema.enums.map(e => e.schema),
+      ...this.schema.functions.filter(f => !f.extension).map(f => f.schema),
+      ...(this.schema.domains || []).map(d => d.schema),
+      ...(this.schema.compositeTypes || []).map(t => t.schema),
+    ])].filter(included).sort();
+
+    const coverage = this.coverage(schemaNames);
+    const files: SchemaDocsFile[] = [
+      {path: this.pagePath("index"), content: this.indexPage(schemaNames, coverage)},
+      {path: this.pagePath("coverage"), content: this.coveragePage(coverage)},
+      ...schemaNames.map(name => ({path: this.schemaPath(name), content: this.schemaPage(name)})),
+      ...this.tables.map(table => ({path: this.tablePath(table.schema, table.name), content: this.tablePage(table)})),
+    ];
+    return {format, files, coverage};
+  }
+
+  private pagePath(name: string): string {
+    return `${name}.${this.writer.extension}`;
+  }
+
+  private schemaPath(schemaName: string): string {
+    return `${fileName(schemaName)}/index.${this.writer.extension}`;
+  }
+
+  private tablePath(schemaName: string, tableName: string): string {
+    return `${fileName(schemaName)}/tables/${fileName(tableName)}.${this.writer.extension}`;
+  }
+
+  private href(from: string, to: string): string {
+    return path.posix.relative(path.posix.dirname(from), to);
+  }
+
+  private tableLink(from: string, schemaName: string, tableName: string, label = tableKey(schemaName, tableName)): string {
+    const key = tableKey(schemaName, tableName);
+    const documented = this.tables.some(t => tableKey(t.schema, t.name) === key);
+    const text = this.writer.code(label);
+    return documented ? this.writer.link(text, this.href(from, this.tablePath(schemaName, tableName))) : text;
+  }
+
+  private comment(comment: string | undefined): string {
+    return comment ? this.writer.text(comment) : "";
+  }
+
+  private diagram(schema: DatabaseSchema, focusTable?: string): string | undefined {
+    if (!this.diagrams) return undefined;
+    const model = buildErModel(schema, {focusTable, hops: 1, columns: "keys"});
+    if (model.entities.length === 0 || (focusTable && model.relationships.length === 0)) return undefined;
+    return this.writer.diagram(renderErDiagram(model, "mermaid"));
+  }
+
+  private section(blocks: string[], title: string, headers: string[], rows: string[][]): void {
+    if (rows.length === 0) return;
+    blocks.push(this.writer.heading(2, this.writer.text(title)), this.writer.table(headers.map(h => this.writer.text(h)), rows));
+  }
+
+  private indexPage(schemaNames: string[], coverage: DocumentationCoverage): string {
+    const w = this.writer;
+    const from = this.pagePath("index");
+    const blocks = [w.heading(1, w.text("Database documentation"))];
+
+    blocks.push(w.table(
+      ["Schema", "Tables", "Views", "Functions"].map(h => w.text(h)),
+      schemaNames.map(name => [
+        w.link(w.code(name), this.href(from, this.schemaPath(name))),
+        String(this.tables.filter(t => t.schema === name).length),
+        String(this.schema.views.filter(v => v.schema === name).length + (this.schema.materializedViews || []).filter(v => v.schema === name).length),
+        String(this.schema.functions.filter(f => f.schema === name && !f.extension).length),
+      ])
+    ));
+
+    blocks.push(
+      w.heading(2, w.text("Documentation coverage")),
+      w.paragraph(
+        w.text(`${coverage.documented} of ${coverage.total} objects have a comment (${coverage.percent}%). `) +
+        w.link(w.text("Undocumented objects"), this.href(from, this.pagePath("coverage")))
+      )
+    );
+
+    const diagram = this.diagram({...this.schema, tables: this.tables});
+    if (diagram) blocks.push(w.heading(2, w.text("Entity relationship diagram")), diagram);
+    return w.page("Database documentation", blocks);
+  }
+
+  private coveragePage(coverage: DocumentationCoverage): string {
+    const w = this.writer;
+    const blocks = [
+      w.paragraph(w.link(w.text("Index"), this.pagePath("index"))),
+      w.heading(1, w.text("Documentation coverage")),
+      w.paragraph(w.text(`${coverage.documented} of ${coverage.total} objects have a COMMENT ON (${coverage.percent}%).`)),
+      w.table(
+        ["Kind", "Documented", "Total"].map(h => w.text(h)),
+        Object.entries(coverage.byKind).map(([kind, counts]) => [w.text(kind), String(counts.documented), String(counts.total)])
+      ),
+    ];
+    if (coverage.missing.length > 0) {
+      blocks.push(w.heading(2, w.text("Missing comments")), w.list(coverage.missing.map(m => `${w.code(m.object)} ${w.text(`(${m.kind})`)}`)));
+    }
+    return w.page("Documentation coverage", blocks);
+  }
+
+  private schemaPage(schemaName: string): string {
+    const w = this.writer;
+    const from = this.schemaPath(schemaName);
+    const blocks = [
+      w.paragraph(w.link(w.text("Index"), this.href(from, this.pagePath("index")))),
+      w.heading(1, w.text(`Schema ${schemaName}`)),
+    ];
+
+    this.section(blocks, "Tables", ["Table", "Columns", "Comment"], this.tables
+      .filter(t => t.schema === schemaName)
+      .map(t => [this.tableLink(from, t.schema, t.name, t.name), String(t.columns.length), this.comment(t.comment)]));
+
+    this.section(blocks, "Views", ["View", "Columns", "Comment"], this.schema.views
+      .filter(v => v.schema === schemaName)
+      .map(v => [w.code(v.name), v.columns.map(c => w.code(c.name)).join(", "), this.comment(v.comment)]));
+
+    this.section(blocks, "Materialized views", ["View", "Columns", "Comment"], (this.schema.materializedViews || [])
+      .filter(v => v.schema === schemaName)
+      .map(v => [w.code(v.name), (v.columns || []).map(c => w.code(c.name)).join(", "), this.comment(v.comment)]));
+
+    this.section(blocks, "Enums", ["Enum", "Values"], this.schema.enums
+      .filter(e => e.schema === schemaName)
+      .map(e => [w.code(e.name), e.values.map(v => w.code(v)).join(", ")]));
+
+    this.section(blocks, "Domains", ["Domain", "Base type", "Constraints", "Comment"], (this.schema.domains || [])
+      .filter(d => d.schema === schemaName)
+      .map(d => [
+        w.code(d.name),
+        w.code(d.baseType + (d.notNull ? " NOT NULL" : "")),
+        d.constraints.map(c => w.code(c.definition)).join(", "),
+        this.comment(d.comment),
+      ]));
+
+    this.section(blocks, "Composite types", ["Type", "Attributes", "Comment"], (this.schema.compositeTypes || [])
+      .filter(t => t.schema === schemaName)
+      .map(t => [w.code(t.name), t.attributes.map(a => w.code(`${a.name} ${a.dataType}`)).join(", "), this.comment(t.comment)]));
+
+    this.section(blocks, "Functions", ["Function", "Returns", "Language", "Comment"], this.schema.functions
+      .filter(f => f.schema === schemaName && !f.extension)
+      .map(f => [
+        w.code(`${f.name}(${f.arguments ?? f.parameters.map(p => `${p.name} ${p.type}`.trim()).join(", ")})`),
+        w.code(f.returnType),
+        w.text(f.language),
+        this.comment(f.comment),
+      ]));
+
+    // Sequences owned by a column are part of that column's serial or identity default
+    this.section(blocks, "Sequences", ["Sequence", "Type", "Increment", "Range"], (this.schema.sequences || [])
+      .filter(s => s.schema === schemaName && !s.ownedBy)
+      .map(s => [w.code(s.name), w.code(s.dataType), s.increment, w.text(`${s.minValue} to ${s.maxValue}${s.cycled ? ", cycles" : ""}`)]));
+
+    this.section(blocks, "Grants", ["Grantee", "Privileges"], this.grantRows(
+      (this.schema.grants || []).filter(g => g.objectType === "schema" && g.schema === schemaName)
+    ));
+
+    const diagram = this.diagram({...this.schema, tables: this.tables.filter(t => t.schema === schemaName)});
+    if (diagram) blocks.push(w.heading(2, w.text("Entity relationship diagram")), diagram);
+    return w.page(`Schema ${schemaName}`, blocks);
+  }
+
+  private tablePage(table: Table): string {
+    const w = this.writer;
+    const from = this.tablePath(table.schema, table.name);
+    const key = tableKey(table.schema, table.name);
+    const constraints = table.constraints || [];
+    const foreignKeys = constraints.filter(c => c.type === ConstraintType.FOREIGN_KEY && c.referencedTable);
+    const primaryKey = constraints.find(c => c.type === ConstraintType.PRIMARY_KEY);
+
+    const blocks = [
+      w.paragraph([
+        w.link(w.text("Index"), this.href(from, this.pagePath("index"))),
+        w.link(w.text(table.schema), this.href(from, this.schemaPath(table.schema))),
+      ].join(" / ")),
+      w.heading(1, w.text(key)),
+    ];
+    if (table.comment) blocks.push(w.paragraph(w.text(table.comment)));
+
+    if (table.partitionKey) {
+      const partitions = (this.schema.partitions || []).filter(p => p.parentSchema === table.schema && p.parentName === table.name);
+      blocks.push(w.paragraph(w.text("Partitioned by ") + w.code(table.partitionKey)));
+      if (partitions.length > 0) blocks.push(w.list(partitions.map(p => `${w.code(tableKey(p.schema, p.name))} ${w.code(p.bound)}`)));
+    }
+
+    const keyColumns = (column: Column) => [
+      primaryKey && unique(primaryKey.columns).includes(column.name) ? "PK" : "",
+      foreignKeys.some(fk => unique(fk.columns).includes(column.name)) ? "FK" : "",
+      constraints.some(c => c.type === ConstraintType.UNIQUE && unique(c.columns).length === 1 && c.columns[0] === column.name) ? "UQ" : "",
+    ].filter(Boolean).join(", ");
+
+    this.section(blocks, "Columns", ["Column", "Type", "Nullable", "Default", "Key", "Comment"], [...table.columns]
+      .sort((a, b) => a.ordinalPosition - b.ordinalPosition)
+      .map(column => [
+        w.code(column.name),
+        w.code(column.domainName ?? formatColumnType(column)),
+        column.isNullable ? "yes" : "no",
+        this.columnDefault(column),
+        keyColumns(column),
+        this.comment(column.comment),
+      ]));
+
+    this.section(blocks, "Constraints", ["Constraint", "Type", "Columns", "Definition"], constraints
+      .filter(c => c.type === ConstraintType.PRIMARY_KEY || c.type === ConstraintType.UNIQUE || c.type === ConstraintType.CHECK)
+      .map(c => [
+        w.code(c.name),
+        w.text(c.type),
+        unique(c.columns).map(name => w.code(name)).join(", "),
+        c.checkClause || c.definition ? w.code(c.checkClause || c.definition!) : "",
+      ]));
+
+    this.section(blocks, "Indexes", ["Index", "Method", "Unique", "Definition"], (this.schema.indexes || [])
+      .filter(i => i.schemaName === table.schema && i.tableName === table.name)
+      .map(i => [w.code(i.name), w.text(i.method), i.isUnique ? "yes" : "no", i.definition ? w.code(i.definition) : ""]));
+
+    this.section(blocks, "Foreign keys", ["Constraint", "Columns", "References", "On delete", "On update"], foreignKeys
+      .map(fk => this.foreignKeyRow(from, table, fk)));
+
+    this.section(blocks, "Referenced by", ["Table", "Constraint", "Columns", "Referenced columns"], this.tables
+      .flatMap(other => (other.constraints || [])
+        .filter(c => c.type === ConstraintType.FOREIGN_KEY && tableKey(c.referencedSchema || other.schema, c.referencedTable || "") === key)
+        .map(fk => [
+          this.tableLink(from, other.schema, other.name),
+          w.code(fk.name),
+          unique(fk.columns).map(name => w.code(name)).join(", "),
+          unique(fk.referencedColumns).map(name => w.code(name)).join(", "),
+        ])));
+
+    this.section(blocks, "Triggers", ["Trigger", "Timing", "Events", "Function", "Enabled"], this.schema.triggers
+      .filter(t => t.schema === table.schema && t.tableName === table.name)
+      .map(t => [
+        w.code(t.name),
+        w.text(`${t.timing} ${t.orientation}`),
+        w.text(t.events.join(", ")) + (t.condition ? ` ${w.code(`WHEN ${t.condition}`)}` : ""),
+        w.code(tableKey(t.functionSchema, t.functionName)),
+        t.isEnabled ? "yes" : "no",
+      ]));
+
+    this.section(blocks, "Row level security policies", ["Policy", "Command", "Roles", "Using", "With check"], this.schema.rlsPolicies
+      .filter(p => p.schema === table.schema && p.tableName === table.name)
+      .map(p => [
+        w.code(p.policyName) + (p.permissive ? "" : ` ${w.text("(restrictive)")}`),
+        w.text(p.command),
+        p.roles.map(role => w.code(role)).join(", "),
+        p.qualExpression ? w.code(p.qualExpression) : "",
+        p.withCheckExpression ? w.code(p.withCheckExpression) : "",
+      ]));
+
+    const grants = (this.schema.grants || []).filter(g => g.objectType === "table" && g.schema === table.schema && g.name === table.name);
+    this.section(blocks, "Grants", ["Grantee", "Privileges"], this.grantRows(grants));
+
+    const diagram = this.diagram({...this.schema, tables: this.tables}, key);
+    if (diagram) blocks.push(w.heading(2, w.text("Related tables")), diagram);
+    return w.page(key, blocks);
+  }
+
+  private columnDefault(column: Column): string {
+    if (column.isGenerated && column.generationExpression) return this.writer.code(`GENERATED ALWAYS AS (${column.generationExpression})`);
+    if (column.isIdentity) return this.writer.code("IDENTITY");
+    return column.defaultValue ? this.writer.code(column.defaultValue) : "";
+  }
+
+  private foreignKeyRow(from: string, table: Table, fk: Constraint): string[] {
+    const w = this.writer;
+    const parentSchema = fk.referencedSchema || table.schema;
+    const columns = unique(fk.referencedColumns).map(name => w.code(name)).join(", ");
+    return [
+      w.code(fk.name),
+      unique(fk.columns).map(name => w.code(name)).join(", "),
+      `${this.tableLink(from, parentSchema, fk.referencedTable!)} (${columns})`,
+      w.text(fk.onDelete || "NO ACTION"),
+      w.text(fk.onUpdate || "NO ACTION"),
+    ];
+  }
+
+  // One row per grantee; column privileges are listed with their column and grantable ones are marked
+  private grantRows(grants: Grant[]): string[][] {
+    const w = this.writer;
+    const byGrantee = new Map<string, string[]>();
+    for (const grant of grants) {
+      const privilege = `${grant.privilege}${grant.column ? ` (${grant.column})` : ""}${grant.isGrantable ? " WITH GRANT OPTION" : ""}`;
+      byGrantee.set(grant.grantee, [...(byGrantee.get(grant.grantee) || []), privilege]);
+    }
+    return [...byGrantee].map(([grantee, privileges]) => [w.code(grantee), w.text(privileges.join(", "))]);
+  }
+
+  private coverage(schemaNames: string[]): DocumentationCoverage {
+    const byKind: DocumentationCoverage["byKind"] = {};
+    const missing: UndocumentedObject[] = [];
+    const count = (kind: DocumentedKind, object: string, comment: string | undefined) => {
+      const counts = byKind[kind] ?? (byKind[kind] = {total: 0, documented: 0});
+      counts.total++;
+      if (comment?.trim()) counts.documented++;
+      else missing.push({kind, object});
+    };
+    const inScope = (schemaName: string) => schemaNames.includes(schemaName);
+
+    for (const table of this.tables) {
+      count("table", tableKey(table.schema, table.name), table.comment);
+      for (const column of table.columns) count("column", `${tableKey(table.schema, table.name)}.${column.name}`, column.comment);
+    }
+    this.schema.views.filter(v => inScope(v.schema)).forEach(v => count("view", tableKey(v.schema, v.name), v.comment));
+    (this.schema.materializedViews || []).filter(v => inScope(v.schema))
+      .forEach(v => count("materialized_view", tableKey(v.schema, v.name), v.comment));
+    this.schema.functions.filter(f => inScope(f.schema) && !f.extension)
+      .forEach(f => count("function", `${tableKey(f.schema, f.name)}(${f.identityArguments ?? ""})`, f.comment));
+    (this.schema.domains || []).filter(d => inScope(d.schema)).forEach(d => count("domain", tableKey(d.schema, d.name), d.comment));
+    (this.schema.compositeTypes || []).filter(t => inScope(t.schema))
+      .forEach(t => count("composite_type", tableKey(t.schema, t.name), t.comment));
+
+    const total = Object.values(byKind).reduce((sum, counts) => sum + counts.total, 0);
+    const documented = Object.values(byKind).reduce((sum, counts) => sum + counts.documented, 0);
+    return {
+      total,
+      documented,
+      percent: total === 0 ? 100 : Math.floor((documented / total) * 1000) / 10,
+      byKind,
+      missing,
+    };
+  }
+}
@@ -0,0 +1,411 @@
+import {Column, Constraint, ConstraintType, DatabaseSchema, Table} from "../types/schema.js";
+import {LintSeverity} from "../types/migration.js";
+import {SchemaLintConfig, SchemaLintFinding, SchemaLintObjectType, SchemaLintReport} from "../types/lint.js";
+import {qualifiedName, quoteIdentifier} from "../utils/sql-formatter.js";
+
+interface SchemaLintRule {
+  severity: LintSeverity;
+  description: string;
+  // Defaults for the options a config file can override
+  options?: Record<string, unknown>;
+}
+
+const SNAKE_CASE = "^[a-z][a-z0-9_]*$";
+
+/**
+ * Rule ids with their default severity and options. `error` marks tables that
+ * break tooling outright, `warning` design problems that cost performance or
+ * correctness, and `info` conventions a team may or may not follow. Naming
+ * patterns are regular expressions in which {table} stands for the table name.
+ */
+export const SCHEMA_LINT_RULES: Record<string, SchemaLintRule> = {
+  "require-primary-key": {
+    severity: "error",
+    description: "Tables need a primary key for logical replication, ORMs and PostgREST updates",
+  },
+  "foreign-key-without-index": {
+    severity: "warning",
+    description: "Foreign key columns without an index make deletes on the parent and joins scan the child table",
+  },
+  "timestamp-without-time-zone": {
+    severity: "warning",
+    description: "timestamp without time zone stores wall-clock time and loses the offset it was written in",
+  },
+  "prefer-text-over-varchar": {
+    severity: "info",
+    description: "varchar(n) is no faster than text, and changing n later needs ALTER COLUMN TYPE",
+  },
+  "prefer-identity-over-serial": {
+    severity: "info",
+    description: "serial columns use a separately owned sequence; identity columns are the SQL standard replacement",
+  },
+  "require-timestamps": {
+    severity: "info",
+    description: "Tables should record when rows were created and last updated",
+    options: {columns: ["created_at", "updated_at"]},
+  },
+  "table-naming": {
+    severity: "warning",
+    description: "Table names should follow the naming convention",
+    options: {pattern: SNAKE_CASE},
+  },
+  "column-naming": {
+    severity: "warning",
+    description: "Column names should follow the naming convention",
+    options: {pattern: SNAKE_CASE},
+  },
+  "index-naming": {
+    severity: "warning",
+    description: "Index names should follow the naming convention",
+    options: {pattern: "^{table}_[a-z0-9_]+_idx$"},
+  },
+  "constraint-naming": {
+    severity: "warning",
+    description: "Constraint names should follow the naming convention",
+    options: {
+      primaryKey: "^{table}_pkey$",
+      unique: "^{table}_[a-z0-9_]+_key$",
+      foreignKey: "^{table}_[a-z0-9_]+_fkey$",
+      check: "^{table}_[a-z0-9_]+_check$",
+    },
+  },
+  "trigger-naming": {
+    severity: "warning",
+    description: "Trigger names should follow the naming convention",
+    options: {pattern: SNAKE_CASE},
+  },
+  "nullable-boolean": {
+    severity: "warning",
+    description: "A nullable boolean has three states, and WHERE NOT flag skips the NULL rows",
+  },
+  "enum-instead-of-lookup-table": {
+    severity: "info",
+    description: "Large enums are better kept as lookup tables, whose values can be removed and carry attributes",
+    options: {maxValues: 10},
+  },
+};
+
+// PostgreSQL truncates identifiers to 63 bytes, which breaks the suffix of generated names
+const MAX_IDENTIFIER_LENGTH = 63;
+
+interface ActiveRule {
+  severity: LintSeverity;
+  options: Record<string, unknown>;
+}
+
+interface SchemaLintContext {
+  rules: Map<string, ActiveRule>;
+  ignore: RegExp[];
+  findings: SchemaLintFinding[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// information_schema repeats the columns of composite keys, once per referenced column
+const keyColumns = (constraint: Constraint) => [...new Set(constraint.columns.filter(Boolean))];
+
+/**
+ * Checks an introspected schema against design and naming rules. Rules can
+ * be switched off, given another severity or other options through a config
+ * file; findings can be exported as SARIF for code scanning dashboards.
+ */
+export class SchemaLinter {
+  lint(schema: DatabaseSchema, config: SchemaLintConfig = {rules: {}, ignore: []}): SchemaLintReport {
+    const context: SchemaLintContext = {
+      rules: this.resolveRules(config),
+      ignore: config.ignore.map(glob => new RegExp(`^${glob.split("*").map(escapeRegExp).join(".*")}$`)),
+      findings: [],
+    };
+
+    // Partitions are checked through their parent
+    const partitions = new Set((schema.partitions || []).map(p => `${p.schema}.${p.name}`));
+    const tables = schema.tables.filter(t => !partitions.has(`${t.schema}.${t.name}`));
+
+    for (const table of tables) {
+      this.lintTable(context, schema, table);
+    }
+    const maxValues = Number(context.rules.get("enum-instead-of-lookup-table")?.options.maxValues ?? Infinity);
+    for (const enumType of schema.enums) {
+      if (enumType.values.length > maxValues) {
+        this.report(context, "enum-instead-of-lookup-table", "enum", {schema: enumType.schema, name: enumType.name}, {
+          message: `Enum ${enumType.schema}.${enumType.name} has ${enumType.values.length} values`,
+          suggestion: `Replace it with a lookup table referenced by a foreign key; enum values cannot be dropped and more than ${maxValues} usually keep growing.`,
+        });
+      }
+    }
+
+    const counts: Record<LintSeverity, number> = {error: 0, warning: 0, info: 0};
+    context.findings.forEach(f => counts[f.severity]++);
+    return {
+      findings: context.findings,
+      counts,
+      summary: context.findings.length === 0
+        ? "No schema lint findings"
+        : `${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} info`,
+      rules: Object.fromEntries([...context.rules].map(([id, rule]) => [id, rule.severity])),
+    };
+  }
+
+  /**
+   * Converts a report into a SARIF 2.1.0 log. Code scanning needs a file to
+   * attach results to: pass the path of the schema dump (dbmate's
+   * db/schema.sql) and, when available, its content so each result points at
+   * the line that creates the object.
+   */
+  toSarif(report: SchemaLintReport, artifact: {uri?: string; content?: string} = {}): Record<string, unknown> {
+    const ruleIds = Object.keys(report.rules);
+    const level = (severity: LintSeverity) => (severity === "info" ? "note" : severity);
+    const lines = artifact.content?.split("\n");
+
+    return {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "pg-schema-sage",
+              rules: ruleIds.map(id => ({
+                id,
+                shortDescription: {text: SCHEMA_LINT_RULES[id].description},
+                defaultConfiguration: {level: level(report.rules[id])},
+              })),
+            },
+          },
+          results: report.findings.map(finding => ({
+            ruleId: finding.ruleId,
+            ruleIndex: ruleIds.indexOf(finding.ruleId),
+            level: level(finding.severity),
+            message: {text: `${finding.message}. ${finding.suggestion}`},
+            locations: [
+              {
+                ...(artifact.uri
+                  ? {
+                      physicalLocation: {
+                        artifactLocation: {uri: artifact.uri},
+                        region: {startLine: lines ? this.definitionLine(lines, finding) : 1},
+                      },
+                    }
+                  : {}),
+                logicalLocations: [{fullyQualifiedName: finding.object, kind: finding.objectType}],
+              },
+            ],
+            // Keeps results matched across runs when the dump's line numbers shift
+            partialFingerprints: {schemaObject: `${finding.ruleId}:${finding.object}`},
+          })),
+        },
+      ],
+    };
+  }
+
+  private resolveRules(config: SchemaLintConfig): Map<string, ActiveRule> {
+    const unknownRules = Object.keys(config.rules).filter(id => !SCHEMA_LINT_RULES[id]);
+    if (unknownRules.length > 0) {
+      throw new Error(
+        `Unknown rule id(s): ${unknownRules.join(", ")}. Known rules: ${Object.keys(SCHEMA_LINT_RULES).join(", ")}`
+      );
+    }
+
+    const rules = new Map<string, ActiveRule>();
+    for (const [id, rule] of Object.entries(SCHEMA_LINT_RULES)) {
+      const setting = config.rules[id];
+      const severity = typeof setting === "string" ? setting : setting?.severity ?? rule.severity;
+      if (severity === "off") continue;
+      rules.set(id, {
+        severity,
+        options: {...rule.options, ...(typeof setting === "object" ? setting.options : {})},
+      });
+    }
+    return rules;
+  }
+
+  private lintTable(context: SchemaLintContext, schema: DatabaseSchema, table: Table): void {
+    const tableName = `${table.schema}.${table.name}`;
+    const at = {schema: table.schema, table: table.name};
+    const constraints = table.constraints || [];
+    const indexes = (schema.indexes || []).filter(i => i.schemaName === table.schema && i.tableName === table.name);
+
+    if (!constraints.some(c => c.type === ConstraintType.PRIMARY_KEY)) {
+      this.report(context, "require-primary-key", "table", {...at, name: table.name}, {
+        message: `Table ${tableName} has no primary key`,
+        suggestion: "Add one, e.g. an id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY column, or a primary key over the columns that identify a row.",
+      });
+    }
+
+    for (const fk of constraints.filter(c => c.type === ConstraintType.FOREIGN_KEY)) {
+      const columns = keyColumns(fk);
+      const covered = indexes.some(index => {
+        const leading = index.columns.slice(0, columns.length).map(c => c.name);
+        return leading.length === columns.length && columns.every(column => leading.includes(column));
+      });
+      if (!covered) {
+        this.report(context, "foreign-key-without-index", "constraint", {...at, name: fk.name}, {
+          message: `Foreign key ${fk.name} on ${tableName} (${columns.join(", ")}) has no index starting with its columns`,
+          suggestion: `CREATE INDEX CONCURRENTLY ON ${qualifiedName(table.schema, table.name)} (${columns.map(quoteIdentifier).join(", ")});`,
+        });
+      }
+    }
+
+    const required = (context.rules.get("require-timestamps")?.options.columns as string[] | undefined) ?? [];
+    const missing = required.filter(name => !table.columns.some(c => c.name === name));
+    if (missing.length > 0) {
+      this.report(context, "require-timestamps", "table", {...at, name: table.name}, {
+        message: `Table ${tableName} has no ${missing.join(" or ")} column`,
+        suggestion: missing.map(name => `ALTER TABLE ${qualifiedName(table.schema, table.name)} ADD COLUMN ${quoteIdentifier(name)} timestamptz NOT NULL DEFAULT now();`).join(" "),
+      });
+    }
+
+    for (const column of table.columns) {
+      this.lintColumn(context, table, column);
+    }
+    this.lintNames(context, schema, table);
+  }
+
+  private lintColumn(context: SchemaLintContext, table: Table, column: Column): void {
+    const name = `${table.schema}.${table.name}.${column.name}`;
+    const at = {schema: table.schema, table: table.name, name: column.name};
+    const alter = `ALTER TABLE ${qualifiedName(table.schema, table.name)} ALTER COLUMN ${quoteIdentifier(column.name)}`;
+
+    if (column.dataType === "timestamp without time zone") {
+      this.report(context, "timestamp-without-time-zone", "column", at, {
+        message: `Column ${name} is timestamp without time zone`,
+        suggestion: `${alter} TYPE timestamptz; existing values are read in the session time zone, so set it to the one they were written in first.`,
+      });
+    }
+    if (column.dataType === "character varying" && column.characterMaximumLength) {
+      this.report(context, "prefer-text-over-varchar", "column", at, {
+        message: `Column ${name} is varchar(${column.characterMaximumLength})`,
+        suggestion: `Use text, with CHECK (char_length(${quoteIdentifier(column.name)}) <= ${column.characterMaximumLength}) if the limit is a business rule.`,
+      });
+    }
+    if (column.defaultValue && /^nextval\(/.test(column.defaultValue) && !column.isIdentity) {
+      this.report(context, "prefer-identity-over-serial", "column", at, {
+        message: `Column ${name} takes its default from a sequence`,
+        suggestion: `New tables should use ${quoteIdentifier(column.name)} ${column.dataType} GENERATED BY DEFAULT AS IDENTITY instead of serial.`,
+      });
+    }
+    if (column.dataType === "boolean" && column.isNullable) {
+      this.report(context, "nullable-boolean", "column", at, {
+        message: `Boolean column ${name} is nullable`,
+        suggestion: `${alter} SET DEFAULT false, ALTER COLUMN ${quoteIdentifier(column.name)} SET NOT NULL; after updating the NULL rows.`,
+      });
+    }
+    this.checkName(context, "column-naming", "pattern", "Column", "column", at, table.name);
+  }
+
+  private lintNames(context: SchemaLintContext, schema: DatabaseSchema, table: Table): void {
+    const at = {schema: table.schema, table: table.name};
+    this.checkName(context, "table-naming", "pattern", "Table", "table", {...at, name: table.name}, table.name);
+
+    const constraintKinds: Partial<Record<ConstraintType, [option: string, label: string]>> = {
+      [ConstraintType.PRIMARY_KEY]: ["primaryKey", "Primary key"],
+      [ConstraintType.UNIQUE]: ["unique", "Unique constraint"],
+      [ConstraintType.FOREIGN_KEY]: ["foreignKey", "Foreign key"],
+      [ConstraintType.CHECK]: ["check", "Check constraint"],
+    };
+    const constraints = table.constraints || [];
+    for (const constraint of constraints) {
+      const kind = constraintKinds[constraint.type];
+      if (kind) this.checkName(context, "constraint-naming", kind[0], kind[1], "constraint", {...at, name: constraint.name}, table.name);
+    }
+
+    // Indexes backing a primary key or unique constraint are named by the constraint rule
+    const constraintNames = new Set(constraints.map(c => c.name));
+    for (const index of (schema.indexes || []).filter(i => i.schemaName === table.schema && i.tableName === table.name)) {
+      if (index.isPrimary || constraintNames.has(index.name)) continue;
+      this.checkName(context, "index-naming", "pattern", "Index", "index", {...at, name: index.name}, table.name);
+    }
+
+    for (const trigger of schema.triggers.filter(t => t.schema === table.schema && t.tableName === table.name)) {
+      this.checkName(context, "trigger-naming", "pattern", "Trigger", "trigger", {...at, name: trigger.name}, table.name);
+    }
+  }
+
+  private checkName(
+    context: SchemaLintContext,
+    ruleId: string,
+    option: string,
+    label: string,
+    objectType: SchemaLintObjectType,
+    at: {schema: string; table: string; name: string},
+    tableName: string
+  ): void {
+    const pattern = context.rules.get(ruleId)?.options[option];
+    if (typeof pattern !== "string" || at.name.length >= MAX_IDENTIFIER_LENGTH) return;
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern.replace(/\{table\}/g, escapeRegExp(tableName)));
+    } catch (error) {
+      throw new Error(
+        `Invalid pattern ${pattern} for ${ruleId}${option === "pattern" ? "" : ` (${option})`}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (regex.test(at.name)) return;
+
+    this.report(context, ruleId, objectType, at, {
+      message: objectType === "table"
+        ? `${label} ${at.schema}.${at.name} does not match ${pattern}`
+        : `${label} ${at.name} on ${at.schema}.${at.table} does not match ${pattern}`,
+      suggestion: `Rename it to match ${pattern}${pattern.includes("{table}") ? `, where {table} is ${tableName}` : ""}.`,
+    });
+  }
+
+  private report(
+    context: SchemaLintContext,
+    ruleId: string,
+    objectType: SchemaLintObjectType,
+    at: {schema: string; table?: string; name: string},
+    details: {message: string; suggestion: string}
+  ): void {
+    const rule = context.rules.get(ruleId);
+    if (!rule) return;
+
+    const tableName = at.table ? `${at.schema}.${at.table}` : undefined;
+    const object = tableName && objectType !== "table" ? `${tableName}.${at.name}` : `${at.schema}.${at.name}`;
+    if (context.ignore.some(glob => glob.test(object) || (tableName !== undefined && glob.test(tableName)))) return;
+
+    context.findings.push({
+      ruleId,
+      severity: rule.severity,
+      message: details.message,
+      objectType,
+      object,
+      schema: at.schema,
+      table: at.table,
+      suggestion: details.suggestion,
+    });
+  }
+
+  // Line of the statement that creates the object in a pg_dump style schema file
+  private definitionLine(lines: string[], finding: SchemaLintFinding): number {
+    const name = finding.object.slice(finding.object.lastIndexOf(".") + 1);
+    const table = finding.table ? qualifiedName(finding.schema, finding.table) : undefined;
+    const find = (prefix: string, from = 0) => lines.findIndex((line, i) => i >= from && line.startsWith(prefix));
+
+    const tableLine = table ? find(`CREATE TABLE ${table} (`) : -1;
+    let index = -1;
+    switch (finding.objectType) {
+      case "table":
+        index = tableLine;
+        break;
+      case "column":
+        if (tableLine >= 0) index = find(`    ${quoteIdentifier(name)} `, tableLine);
+        break;
+      case "index":
+        index = lines.findIndex(line => new RegExp(`^CREATE (UNIQUE )?INDEX ${escapeRegExp(quoteIdentifier(name))} `).test(line));
+        break;
+      case "constraint":
+        index = lines.findIndex(line => line.includes(`ADD CONSTRAINT ${quoteIdentifier(name)} `));
+        break;
+      case "trigger":
+        index = find(`CREATE TRIGGER ${quoteIdentifier(name)} `);
+        break;
+      case "enum":
+        index = find(`CREATE TYPE ${qualifiedName(finding.schema, name)} AS ENUM`);
+        break;
+    }
+    if (index < 0) index = tableLine;
+    return index < 0 ? 1 : index + 1;
+  }
+}
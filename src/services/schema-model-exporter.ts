@@ -0,0 +1,901 @@
+import {Column, Constraint, ConstraintType, DatabaseSchema, Enum, Index, Table} from "../types/schema.js";
+import {SchemaSource} from "./schema-snapshot.js";
+import {formatColumnType} from "../utils/sql-formatter.js";
+import {
+  identifierValue,
+  isIdentifier,
+  isKeyword,
+  isPunctuation,
+  isSignificant,
+  parenthesizedTokens,
+  splitTopLevel,
+  tokenizeSql,
+  tokensToSql,
+} from "../utils/sql-parser.js";
+
+export type SchemaModelFormat = "prisma" | "drizzle" | "dbml";
+
+// Something in the database the exported model leaves out or cannot express
+export interface UnrepresentedConstruct {
+  kind: string;
+  object: string;
+  detail: string;
+}
+
+export interface SchemaModelExport {
+  format: SchemaModelFormat;
+  content: string;
+  unrepresented: UnrepresentedConstruct[];
+}
+
+interface ForeignKey {
+  name: string;
+  table: Table;
+  parent: Table;
+  columns: string[];
+  referencedColumns: string[];
+  onDelete: string;
+  onUpdate: string;
+  // Every referencing column is NOT NULL
+  required: boolean;
+  // The referencing columns are unique, so each parent row has at most one child
+  oneToOne: boolean;
+  // Prisma only accepts a one-to-one relation when a unique constraint lists the columns in the same order
+  uniqueInOrder: boolean;
+}
+
+interface IndexKey {
+  column?: string;
+  expression?: string;
+  descending: boolean;
+}
+
+interface ExportIndex {
+  index: Index;
+  keys: IndexKey[];
+}
+
+type ParsedDefault =
+  | {kind: "sequence"}
+  | {kind: "now"}
+  | {kind: "string"; value: string}
+  | {kind: "number"; value: string}
+  | {kind: "boolean"; value: boolean}
+  | {kind: "expression"; sql: string};
+
+const REFERENTIAL_ACTIONS = ["CASCADE", "RESTRICT", "NO ACTION", "SET NULL", "SET DEFAULT"];
+
+const tableKey = (schema: string, name: string) => `${schema}.${name}`;
+
+const isSimpleIdentifier = (name: string) => /^[A-Za-z][A-Za-z0-9_]*$/.test(name);
+
+function sanitizeIdentifier(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_]/g, "_");
+  // Prisma identifiers have to start with a letter
+  return /^[A-Za-z]/.test(cleaned) ? cleaned : `n${cleaned}`;
+}
+
+function camelCase(...parts: string[]): string {
+  const words = parts.flatMap(part => part.split(/[^A-Za-z0-9]+/)).filter(Boolean);
+  const name = words
+    .map((word, index) => (index === 0 ? word[0].toLowerCase() : word[0].toUpperCase()) + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "unnamed";
+}
+
+// Prisma doc comments end at the line break, so every line of a multi-line comment gets its own ///
+const prismaDocLines = (comment: string, indent = "") => comment.split(/\r?\n/).map(line => `${indent}/// ${line}`.trimEnd());
+
+const singleQuote = (value: string) => `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+const RESERVED_WORDS = new Set([
+  "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else",
+  "enum", "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof",
+  "new", "null", "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void",
+  "while", "with", "let", "static", "yield", "await", "sql",
+]);
+
+/**
+ * Recognizes the column defaults each format has a native spelling for;
+ * anything else is carried over as a raw SQL expression.
+ */
+function parseDefault(defaultValue: string): ParsedDefault | undefined {
+  const value = defaultValue.trim();
+  if (/^NULL(::[\w\s."]+)?$/i.test(value)) return undefined;
+  if (/^nextval\('.+'::regclass\)$/.test(value)) return {kind: "sequence"};
+  if (/^(now\(\)|CURRENT_TIMESTAMP)$/i.test(value)) return {kind: "now"};
+  if (/^(true|false)$/i.test(value)) return {kind: "boolean", value: value.toLowerCase() === "true"};
+
+  const number = /^\(?(-?\d+(?:\.\d+)?)\)?(?:::[\w\s]+)?$/.exec(value);
+  if (number) return {kind: "number", value: number[1]};
+
+  const string = /^'((?:[^']|'')*)'(?:::[\w\s."]+(?:\[\])?)?$/.exec(value);
+  if (string) return {kind: "string", value: string[1].replace(/''/g, "'")};
+
+  return {kind: "expression", sql: value};
+}
+
+/**
+ * Reads the key columns of an index from its definition. Keys that are not a
+ * plain column (optionally with a sort order or operator class) are returned
+ * as expressions.
+ */
+function indexKeys(index: Index): IndexKey[] {
+  if (!index.definition) {
+    return index.columns.map(column => ({
+      column: typeof column === "string" ? column : column.name,
+      descending: typeof column !== "string" && column.direction === "DESC",
+    }));
+  }
+
+  const tokens = tokenizeSql(index.definition).filter(isSignificant);
+  const using = tokens.findIndex(token => isKeyword(token, "USING"));
+  const open = tokens.findIndex((token, i) => i > using && isPunctuation(token, "("));
+  if (using < 0 || open < 0) return [];
+
+  return splitTopLevel(parenthesizedTokens(tokens, open)).map(part => {
+    const descending = part.some(token => isKeyword(token, "DESC"));
+    const modifiers = part.slice(1);
+    const plain = isIdentifier(part[0]) && modifiers.every(token => token.type === "word" || token.type === "quoted_identifier");
+    return plain
+      ? {column: identifierValue(part[0]), descending}
+      : {expression: tokensToSql(index.definition!, part), descending};
+  });
+}
+
+/**
+ * Converts an introspected schema into a Prisma schema, a Drizzle ORM module
+ * or a DBML document for dbdiagram.io. Tables, columns, defaults, primary
+ * keys, unique constraints, indexes, foreign keys with their referential
+ * actions and enums are carried over. Whatever a format cannot express, and
+ * everything outside the table model (views, functions, triggers, RLS), is
+ * listed in the export's `unrepresented` report instead of being dropped
+ * silently.
+ */
+export class SchemaModelExporter {
+  private schemaSource: SchemaSource;
+  private schema!: DatabaseSchema;
+  private tables!: Table[];
+  private unrepresented!: UnrepresentedConstruct[];
+
+  constructor(schemaSource: SchemaSource) {
+    this.schemaSource = schemaSource;
+  }
+
+  async export(format: SchemaModelFormat, options: {schemas?: string[]} = {}): Promise<SchemaModelExport> {
+    this.schema = await this.schemaSource.getSchema();
+    const included = (schemaName: string) => !options.schemas || options.schemas.includes(schemaName);
+
+    const partitions = new Set((this.schema.partitions || []).map(p => tableKey(p.schema, p.name)));
+    this.tables = (this.schema.tables || []).filter(t => included(t.schema) && !partitions.has(tableKey(t.schema, t.name)));
+    this.unrepresented = this.outsideTableModel(included);
+
+    const content = format === "prisma" ? this.toPrisma() : format === "drizzle" ? this.toDrizzle() : this.toDbml();
+    return {format, content, unrepresented: this.unrepresented};
+  }
+
+  private report(kind: string, object: string, detail: string) {
+    this.unrepresented.push({kind, object, detail});
+  }
+
+  // Objects none of the formats model
+  private outsideTableModel(included: (schemaName: string) => boolean): UnrepresentedConstruct[] {
+    const report: UnrepresentedConstruct[] = [];
+    const exported = new Set(this.tables.map(t => tableKey(t.schema, t.name)));
+
+    for (const policy of this.schema.rlsPolicies || []) {
+      if (!exported.has(tableKey(policy.schema, policy.tableName))) continue;
+      report.push({
+        kind: "rls_policy",
+        object: `${policy.schema}.${policy.tableName}.${policy.policyName}`,
+        detail: `Row level security policy for ${policy.command} is not exported`,
+      });
+    }
+    for (const trigger of this.schema.triggers || []) {
+      if (!exported.has(tableKey(trigger.schema, trigger.tableName))) continue;
+      report.push({
+        kind: "trigger",
+        object: `${trigger.schema}.${trigger.tableName}.${trigger.name}`,
+        detail: `Trigger calling ${trigger.functionSchema}.${trigger.functionName}() is not exported`,
+      });
+    }
+    for (const partition of this.schema.partitions || []) {
+      if (!exported.has(tableKey(partition.parentSchema, partition.parentName))) continue;
+      report.push({
+        kind: "partition",
+        object: `${partition.schema}.${partition.name}`,
+        detail: `Partition of ${partition.parentSchema}.${partition.parentName} is not exported; the parent is exported as a regular table`,
+      });
+    }
+    for (const view of this.schema.views || []) {
+      if (included(view.schema)) {
+        report.push({kind: "view", object: `${view.schema}.${view.name}`, detail: "Views are not exported"});
+      }
+    }
+    for (const view of this.schema.materializedViews || []) {
+      if (included(view.schema)) {
+        report.push({
+          kind: "materialized_view",
+          object: `${view.schema}.${view.name}`,
+          detail: "Materialized views are not exported",
+        });
+      }
+    }
+    for (const fn of this.schema.functions || []) {
+      if (included(fn.schema) && !fn.extension) {
+        report.push({
+          kind: "function",
+          object: `${fn.schema}.${fn.name}(${fn.identityArguments ?? ""})`,
+          detail: "Functions and procedures are not exported",
+        });
+      }
+    }
+    for (const domain of this.schema.domains || []) {
+      if (included(domain.schema)) {
+        report.push({
+          kind: "domain",
+          object: `${domain.schema}.${domain.name}`,
+          detail: `Columns using this domain are exported with its base type ${domain.baseType}; its constraints are lost`,
+        });
+      }
+    }
+    for (const sequence of this.schema.sequences || []) {
+      if (included(sequence.schema) && !sequence.ownedBy) {
+        report.push({
+          kind: "sequence",
+          object: `${sequence.schema}.${sequence.name}`,
+          detail: "Standalone sequences are not exported",
+        });
+      }
+    }
+    return report;
+  }
+
+  private findEnum(column: Pick<Column, "dataType" | "udtName">, schemaName: string): Enum | undefined {
+    if (column.dataType !== "USER-DEFINED" && column.dataType !== "ARRAY") return undefined;
+    const name = column.udtName?.replace(/^_/, "");
+    const matches = (this.schema.enums || []).filter(e => e.name === name);
+    return matches.find(e => e.schema === schemaName) || matches.find(e => e.schema === "public") || matches[0];
+  }
+
+  private foreignKeys(table: Table): ForeignKey[] {
+    const byKey = new Map(this.tables.map(t => [tableKey(t.schema, t.name), t]));
+    const uniqueSets = (table.constraints || [])
+      .filter(c => c.type === ConstraintType.PRIMARY_KEY || c.type === ConstraintType.UNIQUE)
+      .map(c => c.columns);
+
+    return (table.constraints || [])
+      .filter(c => c.type === ConstraintType.FOREIGN_KEY && c.referencedTable)
+      .flatMap(constraint => {
+        const parent = byKey.get(tableKey(constraint.referencedSchema || table.schema, constraint.referencedTable!));
+        if (!parent) return [];
+        const {columns, referencedColumns} = this.foreignKeyColumns(constraint);
+        return [{
+          name: constraint.name,
+          table,
+          parent,
+          columns,
+          referencedColumns,
+          onDelete: REFERENTIAL_ACTIONS.includes(constraint.onDelete ?? "") ? constraint.onDelete! : "NO ACTION",
+          onUpdate: REFERENTIAL_ACTIONS.includes(constraint.onUpdate ?? "") ? constraint.onUpdate! : "NO ACTION",
+          required: columns.every(name => table.columns.find(c => c.name === name)?.isNullable === false),
+          oneToOne: uniqueSets.some(set => set.length === columns.length && set.every(c => columns.includes(c))),
+          uniqueInOrder: uniqueSets.some(set => set.join(",") === columns.join(",")),
+        }];
+      });
+  }
+
+  // information_schema repeats and reorders the columns of composite foreign keys; the definition keeps them paired
+  private foreignKeyColumns(constraint: Constraint): {columns: string[]; referencedColumns: string[]} {
+    const match = /^FOREIGN KEY \(([^)]+)\) REFERENCES\s+[^(]+\(([^)]+)\)/.exec(constraint.definition ?? "");
+    const names = (list: string) => list.split(",").map(name => name.trim().replace(/^"(.*)"$/, "$1").replace(/""/g, '"'));
+    if (match) return {columns: names(match[1]), referencedColumns: names(match[2])};
+    return {
+      columns: [...new Set(constraint.columns)],
+      referencedColumns: [...new Set(constraint.referencedColumns || [])],
+    };
+  }
+
+  /**
+   * Indexes that are not backing a primary key or unique constraint, with
+   * their key columns. Partial and expression indexes are reported when the
+   * format cannot express them and left out.
+   */
+  private indexes(table: Table, supports: {partial: boolean; expressions: boolean}): ExportIndex[] {
+    const constraintNames = new Set((table.constraints || []).map(c => c.name));
+    const object = (index: Index) => `${table.schema}.${table.name}.${index.name}`;
+
+    return (this.schema.indexes || [])
+      .filter(index => index.schemaName === table.schema && index.tableName === table.name)
+      .filter(index => !index.isPrimary && !constraintNames.has(index.name))
+      .flatMap(index => {
+        const keys = indexKeys(index);
+        if (index.condition && !supports.partial) {
+          this.report("partial_index", object(index), `Partial index (WHERE ${index.condition}) is not supported`);
+          return [];
+        }
+        if ((keys.length === 0 || keys.some(key => key.expression)) && !supports.expressions) {
+          this.report("expression_index", object(index), "Index on an expression is not supported");
+          return [];
+        }
+        return [{index, keys}];
+      });
+  }
+
+  private primaryKey(table: Table): Constraint | undefined {
+    return (table.constraints || []).find(c => c.type === ConstraintType.PRIMARY_KEY);
+  }
+
+  private uniqueConstraints(table: Table): Constraint[] {
+    return (table.constraints || []).filter(c => c.type === ConstraintType.UNIQUE);
+  }
+
+  private checkConstraints(table: Table): Constraint[] {
+    return (table.constraints || []).filter(c => c.type === ConstraintType.CHECK);
+  }
+
+  private sortedColumns(table: Table): Column[] {
+    return [...table.columns].sort((a, b) => a.ordinalPosition - b.ordinalPosition);
+  }
+
+  // ---- Prisma ----
+
+  private toPrisma(): string {
+    const schemas = [...new Set([...this.tables.map(t => t.schema), ...this.usedEnums().map(e => e.schema)])].sort();
+    const multiSchema = schemas.length > 1 || (schemas.length === 1 && schemas[0] !== "public");
+
+    // Model and enum names share one namespace across schemas
+    const names = new Map<string, string>();
+    const taken = new Set<string>();
+    const allocate = (schemaName: string, name: string) => {
+      let candidate = sanitizeIdentifier(name);
+      if (taken.has(candidate)) candidate = sanitizeIdentifier(`${schemaName}_${name}`);
+      while (taken.has(candidate)) candidate = `${candidate}_`;
+      taken.add(candidate);
+      names.set(tableKey(schemaName, name), candidate);
+      return candidate;
+    };
+    const enums = this.usedEnums().map(e => ({enumType: e, name: allocate(e.schema, e.name)}));
+    this.tables.forEach(t => allocate(t.schema, t.name));
+    const modelName = (table: Table) => names.get(tableKey(table.schema, table.name))!;
+    const enumName = (enumType: Enum) => names.get(tableKey(enumType.schema, enumType.name))!;
+
+    const lines = [
+      "// Generated by pg-schema-sage from the database schema.",
+      "// The connection URL belongs in prisma.config.ts.",
+      "",
+      "generator client {",
+      '  provider = "prisma-client-js"',
+      ...(multiSchema ? ['  previewFeatures = ["multiSchema"]'] : []),
+      "}",
+      "",
+      "datasource db {",
+      '  provider = "postgresql"',
+      ...(multiSchema ? [`  schemas  = [${schemas.map(s => JSON.stringify(s)).join(", ")}]`] : []),
+      "}",
+    ];
+
+    for (const {enumType, name} of enums) {
+      lines.push("", `enum ${name} {`);
+      for (const value of enumType.values) {
+        const identifier = sanitizeIdentifier(value);
+        lines.push(identifier === value ? `  ${value}` : `  ${identifier} @map(${JSON.stringify(value)})`);
+      }
+      if (name !== enumType.name) lines.push(`  @@map(${JSON.stringify(enumType.name)})`);
+      if (multiSchema) lines.push(`  @@schema(${JSON.stringify(enumType.schema)})`);
+      lines.push("}");
+    }
+
+    const foreignKeys = this.tables.flatMap(table => this.foreignKeys(table));
+    // Prisma needs a relation name when two models are related more than once, or a model to itself
+    const pairCounts = new Map<string, number>();
+    const pairKey = (fk: ForeignKey) => [modelName(fk.table), modelName(fk.parent)].sort().join("|");
+    foreignKeys.forEach(fk => pairCounts.set(pairKey(fk), (pairCounts.get(pairKey(fk)) || 0) + 1));
+    const needsName = (fk: ForeignKey) => fk.table === fk.parent || (pairCounts.get(pairKey(fk)) || 0) > 1;
+
+    for (const table of this.tables) {
+      const model = modelName(table);
+      const object = tableKey(table.schema, table.name);
+      const fieldNames = new Set<string>();
+      const fieldName = (preferred: string) => {
+        let candidate = sanitizeIdentifier(preferred);
+        while (fieldNames.has(candidate)) candidate = `${candidate}_`;
+        fieldNames.add(candidate);
+        return candidate;
+      };
+
+      const primaryKey = this.primaryKey(table);
+      const uniques = this.uniqueConstraints(table);
+      const columnFields = new Map<string, string>();
+      const body: string[] = [];
+
+      for (const column of this.sortedColumns(table)) {
+        const field = fieldName(column.name);
+        columnFields.set(column.name, field);
+        const type = this.prismaType(column, table, enumName, object);
+        const attributes: string[] = [];
+
+        if (primaryKey?.columns.length === 1 && primaryKey.columns[0] === column.name) {
+          attributes.push(`@id(map: ${JSON.stringify(primaryKey.name)})`);
+        }
+        const unique = uniques.find(u => u.columns.length === 1 && u.columns[0] === column.name);
+        if (unique) attributes.push(`@unique(map: ${JSON.stringify(unique.name)})`);
+
+        const defaultAttribute = this.prismaDefault(column, type.scalar, type.enumType);
+        if (defaultAttribute) attributes.push(defaultAttribute);
+        if (column.isGenerated) {
+          this.report("generated_column", `${object}.${column.name}`,
+            `Generated column (${column.generationExpression}) is exported as a regular column`);
+        }
+        if (field !== column.name) attributes.push(`@map(${JSON.stringify(column.name)})`);
+        if (type.native) attributes.push(type.native);
+
+        if (column.comment) body.push(...prismaDocLines(column.comment, "  "));
+        const optional = column.isNullable && !type.list ? "?" : "";
+        body.push(`  ${field} ${type.scalar}${type.list ? "[]" : ""}${optional}${attributes.length ? " " + attributes.join(" ") : ""}`);
+      }
+
+      // Relation fields: this table's foreign keys, then the ones pointing at it
+      for (const fk of foreignKeys.filter(fk => fk.table === table)) {
+        const field = fieldName(needsName(fk) ? `${modelName(fk.parent)}_${fk.columns.join("_")}` : modelName(fk.parent));
+        const args = [
+          ...(needsName(fk) ? [JSON.stringify(fk.name)] : []),
+          `fields: [${fk.columns.map(c => columnFields.get(c) ?? c).join(", ")}]`,
+          `references: [${fk.referencedColumns.map(c => sanitizeIdentifier(c)).join(", ")}]`,
+          `onDelete: ${this.prismaAction(fk.onDelete)}`,
+          `onUpdate: ${this.prismaAction(fk.onUpdate)}`,
+          `map: ${JSON.stringify(fk.name)}`,
+        ];
+        body.push(`  ${field} ${modelName(fk.parent)}${fk.required ? "" : "?"} @relation(${args.join(", ")})`);
+      }
+      for (const fk of foreignKeys.filter(fk => fk.parent === table)) {
+        const field = fieldName(needsName(fk) ? fk.name : modelName(fk.table));
+        const relation = needsName(fk) ? ` @relation(${JSON.stringify(fk.name)})` : "";
+        body.push(`  ${field} ${modelName(fk.table)}${fk.uniqueInOrder ? "?" : "[]"}${relation}`);
+      }
+
+      const blockAttributes: string[] = [];
+      const fieldList = (columns: string[]) => columns.map(c => columnFields.get(c) ?? sanitizeIdentifier(c)).join(", ");
+      if (primaryKey && primaryKey.columns.length > 1) {
+        blockAttributes.push(`@@id([${fieldList(primaryKey.columns)}], map: ${JSON.stringify(primaryKey.name)})`);
+      }
+      for (const unique of uniques.filter(u => u.columns.length > 1)) {
+        blockAttributes.push(`@@unique([${fieldList(unique.columns)}], map: ${JSON.stringify(unique.name)})`);
+      }
+      const indexTypes: Record<string, string> = {hash: "Hash", gist: "Gist", gin: "Gin", spgist: "SpGist", brin: "Brin"};
+      for (const {index, keys} of this.indexes(table, {partial: false, expressions: false})) {
+        const fields = keys.map(key => {
+          const name = columnFields.get(key.column!) ?? sanitizeIdentifier(key.column!);
+          return key.descending ? `${name}(sort: Desc)` : name;
+        });
+        const args = [`[${fields.join(", ")}]`, `map: ${JSON.stringify(index.name)}`];
+        if (indexTypes[index.method]) args.push(`type: ${indexTypes[index.method]}`);
+        blockAttributes.push(`${index.isUnique ? "@@unique" : "@@index"}(${args.join(", ")})`);
+      }
+      for (const check of this.checkConstraints(table)) {
+        this.report("check_constraint", `${object}.${check.name}`, `CHECK ${check.checkClause ?? ""} is not supported by Prisma`.trim());
+      }
+      if (!primaryKey && uniques.length === 0) {
+        this.report("no_unique_identifier", object, "Prisma requires a primary key or unique constraint, so the model is marked @@ignore");
+        blockAttributes.push("@@ignore");
+      }
+      if (model !== table.name) blockAttributes.push(`@@map(${JSON.stringify(table.name)})`);
+      if (multiSchema) blockAttributes.push(`@@schema(${JSON.stringify(table.schema)})`);
+
+      lines.push("");
+      if (table.comment) lines.push(...prismaDocLines(table.comment));
+      lines.push(`model ${model} {`, ...body);
+      if (blockAttributes.length > 0) lines.push("", ...blockAttributes.map(a => `  ${a}`));
+      lines.push("}");
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  private usedEnums(): Enum[] {
+    const used = new Set<Enum>();
+    for (const table of this.tables) {
+      for (const column of table.columns) {
+        const enumType = this.findEnum(column, table.schema);
+        if (enumType) used.add(enumType);
+      }
+    }
+    return [...used];
+  }
+
+  private prismaType(
+    column: Column,
+    table: Table,
+    enumName: (enumType: Enum) => string,
+    object: string
+  ): {scalar: string; native?: string; list: boolean; enumType?: Enum} {
+    const list = column.dataType === "ARRAY";
+    const enumType = this.findEnum(column, table.schema);
+    if (enumType) return {scalar: enumName(enumType), list, enumType};
+
+    const udt = (column.udtName ?? "").replace(/^_/, "");
+    const length = column.characterMaximumLength ? `(${column.characterMaximumLength})` : "";
+    const types: Record<string, [string, string?]> = {
+      int2: ["Int", "@db.SmallInt"],
+      int4: ["Int"],
+      int8: ["BigInt"],
+      float4: ["Float", "@db.Real"],
+      float8: ["Float"],
+      numeric: ["Decimal", column.numericPrecision ? `@db.Decimal(${column.numericPrecision}, ${column.numericScale ?? 0})` : "@db.Decimal"],
+      money: ["Decimal", "@db.Money"],
+      bool: ["Boolean"],
+      text: ["String"],
+      varchar: ["String", `@db.VarChar${length}`],
+      bpchar: ["String", `@db.Char${length}`],
+      uuid: ["String", "@db.Uuid"],
+      citext: ["String", "@db.Citext"],
+      inet: ["String", "@db.Inet"],
+      xml: ["String", "@db.Xml"],
+      bit: ["String", `@db.Bit${length}`],
+      varbit: ["String", `@db.VarBit${length}`],
+      json: ["Json", "@db.Json"],
+      jsonb: ["Json"],
+      date: ["DateTime", "@db.Date"],
+      timestamp: ["DateTime", "@db.Timestamp"],
+      timestamptz: ["DateTime", "@db.Timestamptz"],
+      time: ["DateTime", "@db.Time"],
+      timetz: ["DateTime", "@db.Timetz"],
+      bytea: ["Bytes"],
+      oid: ["Int", "@db.Oid"],
+    };
+    const mapped = types[udt];
+    if (mapped) return {scalar: mapped[0], native: mapped[1], list};
+
+    const declared = formatColumnType(column);
+    this.report("unsupported_type", `${object}.${column.name}`, `Type ${declared} has no Prisma equivalent and is declared as Unsupported`);
+    return {scalar: `Unsupported(${JSON.stringify(declared.replace(/\[\]$/, ""))})`, list};
+  }
+
+  private prismaDefault(column: Column, scalar: string, enumType?: Enum): string | undefined {
+    if (column.isIdentity) return "@default(autoincrement())";
+    if (column.isGenerated || !column.defaultValue) return undefined;
+
+    const parsed = parseDefault(column.defaultValue);
+    switch (parsed?.kind) {
+      case undefined:
+        return undefined;
+      case "sequence":
+        return scalar === "Int" || scalar === "BigInt" ? "@default(autoincrement())" : `@default(dbgenerated(${JSON.stringify(column.defaultValue)}))`;
+      case "now":
+        return "@default(now())";
+      case "boolean":
+        return `@default(${parsed.value})`;
+      case "number":
+        return `@default(${parsed.value})`;
+      case "string":
+        if (enumType && enumType.values.includes(parsed.value)) return `@default(${sanitizeIdentifier(parsed.value)})`;
+        return scalar === "String" ? `@default(${JSON.stringify(parsed.value)})` : `@default(dbgenerated(${JSON.stringify(column.defaultValue)}))`;
+      case "expression":
+        return `@default(dbgenerated(${JSON.stringify(parsed.sql)}))`;
+    }
+  }
+
+  private prismaAction(action: string): string {
+    const actions: Record<string, string> = {
+      CASCADE: "Cascade",
+      RESTRICT: "Restrict",
+      "NO ACTION": "NoAction",
+      "SET NULL": "SetNull",
+      "SET DEFAULT": "SetDefault",
+    };
+    return actions[action] ?? "NoAction";
+  }
+
+  // ---- Drizzle ----
+
+  private toDrizzle(): string {
+    const imports = new Set<string>(["pgTable"]);
+    let usesSql = false;
+    const sqlTemplate = (text: string) => {
+      usesSql = true;
+      return `sql\`${text.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${")}\``;
+    };
+
+    const variables = new Set<string>();
+    const variable = (...parts: string[]) => {
+      let name = camelCase(...parts);
+      if (RESERVED_WORDS.has(name)) name = `${name}Table`;
+      while (variables.has(name)) name = `${name}_`;
+      variables.add(name);
+      return name;
+    };
+    const qualify = (schemaName: string, name: string) => (schemaName === "public" ? [name] : [schemaName, name]);
+
+    const schemaVariables = new Map<string, string>();
+    const declarations: string[] = [];
+    const schemaVariable = (schemaName: string) => {
+      if (!schemaVariables.has(schemaName)) {
+        imports.add("pgSchema");
+        const name = variable(schemaName, "schema");
+        schemaVariables.set(schemaName, name);
+        declarations.push(`export const ${name} = pgSchema(${singleQuote(schemaName)});`);
+      }
+      return schemaVariables.get(schemaName)!;
+    };
+
+    const enumVariables = new Map<Enum, string>();
+    const enumDeclarations: string[] = [];
+    for (const enumType of this.usedEnums()) {
+      const name = variable(...qualify(enumType.schema, enumType.name), "enum");
+      enumVariables.set(enumType, name);
+      const factory = enumType.schema === "public" ? (imports.add("pgEnum"), "pgEnum") : `${schemaVariable(enumType.schema)}.enum`;
+      enumDeclarations.push(
+        `export const ${name} = ${factory}(${singleQuote(enumType.name)}, [${enumType.values.map(singleQuote).join(", ")}]);`
+      );
+    }
+
+    const tableVariables = new Map<Table, string>();
+    this.tables.forEach(table => tableVariables.set(table, variable(...qualify(table.schema, table.name))));
+
+    const tableDeclarations = this.tables.map(table => {
+      const primaryKey = this.primaryKey(table);
+      const uniques = this.uniqueConstraints(table);
+      const keys = new Map<string, string>();
+      const keyNames = new Set<string>();
+      for (const column of this.sortedColumns(table)) {
+        let key = camelCase(column.name);
+        while (keyNames.has(key)) key = `${key}_`;
+        keyNames.add(key);
+        keys.set(column.name, key);
+      }
+      const ref = (column: string) => `table.${keys.get(column) ?? camelCase(column)}`;
+
+      const columnLines = this.sortedColumns(table).map(column => {
+        const parsedDefault = column.defaultValue && !column.isGenerated ? parseDefault(column.defaultValue) : undefined;
+        const serial = parsedDefault?.kind === "sequence";
+        let builder = this.drizzleBuilder(column, table, serial, enumVariables, imports);
+
+        if (column.dataType === "ARRAY") builder += ".array()";
+        if (primaryKey?.columns.length === 1 && primaryKey.columns[0] === column.name) {
+          builder += ".primaryKey()";
+        } else if (!column.isNullable && !serial) {
+          builder += ".notNull()";
+        }
+        const unique = uniques.find(u => u.columns.length === 1 && u.columns[0] === column.name);
+        if (unique) builder += `.unique(${singleQuote(unique.name)})`;
+
+        if (column.isGenerated && column.generationExpression) {
+          builder += `.generatedAlwaysAs(${sqlTemplate(column.generationExpression)})`;
+        } else if (column.isIdentity) {
+          builder += column.identityGeneration === "ALWAYS"
+            ? ".generatedAlwaysAsIdentity()"
+            : ".generatedByDefaultAsIdentity()";
+        } else if (parsedDefault && !serial) {
+          switch (parsedDefault.kind) {
+            case "now":
+              builder += ".defaultNow()";
+              break;
+            case "boolean":
+              builder += `.default(${parsedDefault.value})`;
+              break;
+            case "number":
+              // Drizzle maps numeric to a string
+              builder += column.udtName === "numeric"
+                ? `.default(${singleQuote(parsedDefault.value)})`
+                : `.default(${parsedDefault.value})`;
+              break;
+            case "string":
+              // Drizzle would serialize a string default for array and json columns again
+              builder += column.dataType === "ARRAY" || ["json", "jsonb"].includes(column.udtName ?? "")
+                ? `.default(${sqlTemplate(column.defaultValue!)})`
+                : `.default(${singleQuote(parsedDefault.value)})`;
+              break;
+            case "expression":
+              builder += `.default(${sqlTemplate(parsedDefault.sql)})`;
+              break;
+          }
+        }
+        return `  ${keys.get(column.name)}: ${builder},`;
+      });
+
+      const extras: string[] = [];
+      if (primaryKey && primaryKey.columns.length > 1) {
+        imports.add("primaryKey");
+        extras.push(`primaryKey({ name: ${singleQuote(primaryKey.name)}, columns: [${primaryKey.columns.map(ref).join(", ")}] })`);
+      }
+      for (const unique of uniques.filter(u => u.columns.length > 1)) {
+        imports.add("unique");
+        extras.push(`unique(${singleQuote(unique.name)}).on(${unique.columns.map(ref).join(", ")})`);
+      }
+      for (const fk of this.foreignKeys(table)) {
+        imports.add("foreignKey");
+        const parent = fk.parent === table ? "table" : tableVariables.get(fk.parent)!;
+        const foreignColumns = fk.referencedColumns.map(c => `${parent}.${camelCase(c)}`);
+        extras.push(
+          `foreignKey({ name: ${singleQuote(fk.name)}, columns: [${fk.columns.map(ref).join(", ")}], foreignColumns: [${foreignColumns.join(", ")}] })` +
+          `.onDelete(${singleQuote(fk.onDelete.toLowerCase())}).onUpdate(${singleQuote(fk.onUpdate.toLowerCase())})`
+        );
+      }
+      for (const {index, keys: indexKeyList} of this.indexes(table, {partial: true, expressions: false})) {
+        imports.add(index.isUnique ? "uniqueIndex" : "index");
+        const columns = indexKeyList.map(key => `${ref(key.column!)}${key.descending ? ".desc()" : ""}`).join(", ");
+        const on = index.method && index.method !== "btree"
+          ? `.using(${singleQuote(index.method)}, ${columns})`
+          : `.on(${columns})`;
+        const where = index.condition ? `.where(${sqlTemplate(index.condition)})` : "";
+        extras.push(`${index.isUnique ? "uniqueIndex" : "index"}(${singleQuote(index.name)})${on}${where}`);
+      }
+      for (const check of this.checkConstraints(table)) {
+        if (!check.checkClause) continue;
+        imports.add("check");
+        extras.push(`check(${singleQuote(check.name)}, ${sqlTemplate(check.checkClause)})`);
+      }
+
+      const factory = table.schema === "public" ? "pgTable" : `${schemaVariable(table.schema)}.table`;
+      const doc = table.comment ? `/** ${table.comment.replace(/\*\//g, "*\\/")} */\n` : "";
+      const extraConfig = extras.length > 0 ? `, (table) => [\n${extras.map(e => `  ${e},`).join("\n")}\n]` : "";
+      return `${doc}export const ${tableVariables.get(table)} = ${factory}(${singleQuote(table.name)}, {\n${columnLines.join("\n")}\n}${extraConfig});`;
+    });
+
+    if (this.tables.every(t => t.schema !== "public")) imports.delete("pgTable");
+    const lines = [
+      "// Generated by pg-schema-sage from the database schema.",
+      "",
+      `import { ${[...imports].sort().join(", ")} } from 'drizzle-orm/pg-core';`,
+      ...(usesSql ? ["import { sql } from 'drizzle-orm';"] : []),
+      "",
+      ...(declarations.length ? [...declarations, ""] : []),
+      ...(enumDeclarations.length ? [...enumDeclarations, ""] : []),
+      tableDeclarations.join("\n\n"),
+    ];
+    return lines.join("\n").trimEnd() + "\n";
+  }
+
+  private drizzleBuilder(
+    column: Column,
+    table: Table,
+    serial: boolean,
+    enumVariables: Map<Enum, string>,
+    imports: Set<string>
+  ): string {
+    const name = singleQuote(column.name);
+    const enumType = this.findEnum(column, table.schema);
+    if (enumType) return `${enumVariables.get(enumType)}(${name})`;
+
+    const udt = (column.udtName ?? "").replace(/^_/, "");
+    const use = (builder: string, options?: string) => {
+      imports.add(builder);
+      return options ? `${builder}(${name}, ${options})` : `${builder}(${name})`;
+    };
+
+    if (serial) {
+      if (udt === "int2") return use("smallserial");
+      if (udt === "int4") return use("serial");
+      if (udt === "int8") return use("bigserial", "{ mode: 'number' }");
+    }
+
+    switch (udt) {
+      case "int2": return use("smallint");
+      case "int4": return use("integer");
+      case "int8": return use("bigint", "{ mode: 'number' }");
+      case "float4": return use("real");
+      case "float8": return use("doublePrecision");
+      case "numeric":
+        return column.numericPrecision
+          ? use("numeric", `{ precision: ${column.numericPrecision}, scale: ${column.numericScale ?? 0} }`)
+          : use("numeric");
+      case "bool": return use("boolean");
+      case "text": return use("text");
+      case "varchar": return column.characterMaximumLength ? use("varchar", `{ length: ${column.characterMaximumLength} }`) : use("varchar");
+      case "bpchar": return column.characterMaximumLength ? use("char", `{ length: ${column.characterMaximumLength} }`) : use("char");
+      case "uuid": return use("uuid");
+      case "json": return use("json");
+      case "jsonb": return use("jsonb");
+      case "date": return use("date");
+      case "timestamp": return use("timestamp");
+      case "timestamptz": return use("timestamp", "{ withTimezone: true }");
+      case "time": return use("time");
+      case "timetz": return use("time", "{ withTimezone: true }");
+      case "interval": return use("interval");
+      case "inet": return use("inet");
+      case "cidr": return use("cidr");
+      case "macaddr": return use("macaddr");
+      case "macaddr8": return use("macaddr8");
+      case "point": return use("point");
+      case "line": return use("line");
+    }
+
+    // Anything else keeps its database type through a custom column type
+    imports.add("customType");
+    const declared = formatColumnType({...column, dataType: column.dataType === "ARRAY" ? "USER-DEFINED" : column.dataType, udtName: udt});
+    return `customType<{ data: string }>({ dataType: () => ${singleQuote(declared)} })(${name})`;
+  }
+
+  // ---- DBML ----
+
+  private toDbml(): string {
+    const name = (schemaName: string, objectName: string) => {
+      const quoted = (part: string) => (isSimpleIdentifier(part) ? part : JSON.stringify(part));
+      return schemaName === "public" ? quoted(objectName) : `${quoted(schemaName)}.${quoted(objectName)}`;
+    };
+    const column = (columnName: string) => (isSimpleIdentifier(columnName) ? columnName : JSON.stringify(columnName));
+    const note = (text: string) => `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n")}'`;
+
+    const lines = ["// Generated by pg-schema-sage from the database schema."];
+
+    for (const enumType of this.usedEnums()) {
+      lines.push("", `Enum ${name(enumType.schema, enumType.name)} {`);
+      enumType.values.forEach(value => lines.push(`  ${JSON.stringify(value)}`));
+      lines.push("}");
+    }
+
+    const refs: string[] = [];
+    for (const table of this.tables) {
+      const object = tableKey(table.schema, table.name);
+      const primaryKey = this.primaryKey(table);
+      const uniques = this.uniqueConstraints(table);
+      lines.push("", `Table ${name(table.schema, table.name)} {`);
+
+      for (const col of this.sortedColumns(table)) {
+        const enumType = this.findEnum(col, table.schema);
+        let type = enumType ? name(enumType.schema, enumType.name) + (col.dataType === "ARRAY" ? "[]" : "") : formatColumnType(col);
+        if (!enumType && /[^\w(),[\]]/.test(type)) type = JSON.stringify(type);
+
+        const settings: string[] = [];
+        if (primaryKey?.columns.length === 1 && primaryKey.columns[0] === col.name) settings.push("pk");
+        const parsed = col.defaultValue && !col.isGenerated ? parseDefault(col.defaultValue) : undefined;
+        if (col.isIdentity || parsed?.kind === "sequence") settings.push("increment");
+        if (uniques.some(u => u.columns.length === 1 && u.columns[0] === col.name)) settings.push("unique");
+        if (!col.isNullable && !settings.includes("pk")) settings.push("not null");
+        switch (parsed?.kind) {
+          case "now": settings.push("default: `now()`"); break;
+          case "boolean": settings.push(`default: ${parsed.value}`); break;
+          case "number": settings.push(`default: ${parsed.value}`); break;
+          case "string": settings.push(`default: ${note(parsed.value)}`); break;
+          case "expression": settings.push(`default: \`${parsed.sql}\``); break;
+        }
+        if (col.isGenerated) {
+          this.report("generated_column", `${object}.${col.name}`,
+            `Generated column (${col.generationExpression}) is exported as a regular column`);
+        }
+        if (col.comment) settings.push(`note: ${note(col.comment)}`);
+        lines.push(`  ${column(col.name)} ${type}${settings.length ? ` [${settings.join(", ")}]` : ""}`);
+      }
+
+      const indexLines: string[] = [];
+      const keyList = (columns: string[]) => (columns.length === 1 ? column(columns[0]) : `(${columns.map(column).join(", ")})`);
+      if (primaryKey && primaryKey.columns.length > 1) {
+        indexLines.push(`${keyList(primaryKey.columns)} [pk, name: ${note(primaryKey.name)}]`);
+      }
+      for (const unique of uniques.filter(u => u.columns.length > 1)) {
+        indexLines.push(`${keyList(unique.columns)} [unique, name: ${note(unique.name)}]`);
+      }
+      for (const {index, keys} of this.indexes(table, {partial: false, expressions: true})) {
+        const parts = keys.map(key => (key.expression ? `\`${key.expression}\`` : column(key.column!)));
+        const settings = [`name: ${note(index.name)}`];
+        if (index.isUnique) settings.push("unique");
+        if (index.method === "hash") {
+          settings.push("type: hash");
+        } else if (index.method && index.method !== "btree") {
+          this.report("index_method", `${object}.${index.name}`, `Index method ${index.method} is not supported; exported as a regular index`);
+        }
+        indexLines.push(`${parts.length === 1 ? parts[0] : `(${parts.join(", ")})`} [${settings.join(", ")}]`);
+      }
+      if (indexLines.length > 0) {
+        lines.push("", "  indexes {", ...indexLines.map(l => `    ${l}`), "  }");
+      }
+      if (table.comment) lines.push("", `  Note: ${note(table.comment)}`);
+      lines.push("}");
+
+      for (const check of this.checkConstraints(table)) {
+        this.report("check_constraint", `${object}.${check.name}`, `CHECK ${check.checkClause ?? ""} is not supported by DBML`.trim());
+      }
+      for (const fk of this.foreignKeys(table)) {
+        const side = (t: Table, columns: string[]) =>
+          `${name(t.schema, t.name)}.${columns.length === 1 ? column(columns[0]) : `(${columns.map(column).join(", ")})`}`;
+        refs.push(
+          `Ref${isSimpleIdentifier(fk.name) ? ` ${fk.name}` : ""}: ${side(fk.table, fk.columns)} ${fk.oneToOne ? "-" : ">"} ${side(fk.parent, fk.referencedColumns)}` +
+          ` [delete: ${fk.onDelete.toLowerCase()}, update: ${fk.onUpdate.toLowerCase()}]`
+        );
+      }
+    }
+
+    if (refs.length > 0) lines.push("", ...refs);
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,1110 @@
+import {DatabaseSchema} from "../types/schema.js";
+import {SchemaReplayer} from "./schema-replayer.js";
+import {qualifiedName, quoteIdentifier} from "../utils/sql-formatter.js";
+
+export type SchemaModelImportFormat = "dbml" | "prisma";
+
+export interface ImportedSchemaModel {
+  format: SchemaModelImportFormat;
+  // What replaying `ddl` produces, comparable with an introspected schema
+  schema: DatabaseSchema;
+  // The model written out as PostgreSQL DDL
+  ddl: string;
+  // Parts of the model that were skipped because PostgreSQL tables cannot express them
+  warnings: string[];
+}
+
+interface ModelColumn {
+  name: string;
+  // As it would be written in DDL, e.g. "varchar(255)" or "billing.status[]"
+  type: string;
+  nullable: boolean;
+  increment?: boolean;
+  defaultSql?: string;
+  comment?: string;
+}
+
+interface ModelKey {
+  name?: string;
+  columns: string[];
+}
+
+interface ModelIndex {
+  name?: string;
+  // Quoted column names or parenthesized expressions, with an optional DESC
+  keys: string[];
+  unique: boolean;
+  method?: string;
+  where?: string;
+}
+
+interface ModelForeignKey {
+  name?: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+interface ModelTable {
+  schema: string;
+  name: string;
+  columns: ModelColumn[];
+  primaryKey?: ModelKey;
+  uniques: ModelKey[];
+  checks: {name?: string; expression: string}[];
+  indexes: ModelIndex[];
+  foreignKeys: ModelForeignKey[];
+  comment?: string;
+}
+
+interface ModelEnum {
+  schema: string;
+  name: string;
+  values: string[];
+}
+
+interface Model {
+  enums: ModelEnum[];
+  tables: ModelTable[];
+  warnings: string[];
+}
+
+interface Token {
+  type: "word" | "string" | "expression" | "number" | "punctuation" | "newline" | "doc";
+  value: string;
+  // Double-quoted DBML identifiers
+  quoted?: boolean;
+}
+
+const SERIAL_TYPES: Record<string, string> = {
+  int: "serial",
+  integer: "serial",
+  int4: "serial",
+  bigint: "bigserial",
+  int8: "bigserial",
+  smallint: "smallserial",
+  int2: "smallserial",
+};
+
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+function emptyTable(schema: string, name: string): ModelTable {
+  return {schema, name, columns: [], uniques: [], checks: [], indexes: [], foreignKeys: []};
+}
+
+/**
+ * Tokenizer shared by both formats: quoted strings, backtick expressions,
+ * `//` and `/* *\/` comments, and `///` doc comments, which Prisma attaches to
+ * the next model or field. Newlines are kept because both formats put one
+ * definition per line.
+ */
+function tokenize(text: string, options: {docComments: boolean}): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "\n") {
+      tokens.push({type: "newline", value: "\n"});
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (options.docComments && text.startsWith("///", i)) {
+      const end = text.indexOf("\n", i);
+      tokens.push({type: "doc", value: text.slice(i + 3, end < 0 ? text.length : end).trim()});
+      i = end < 0 ? text.length : end;
+    } else if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      i = end < 0 ? text.length : end;
+    } else if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      i = end < 0 ? text.length : end + 2;
+    } else if (text.startsWith("'''", i)) {
+      const end = text.indexOf("'''", i + 3);
+      tokens.push({type: "string", value: text.slice(i + 3, end < 0 ? text.length : end).trim()});
+      i = end < 0 ? text.length : end + 3;
+    } else if (ch === "'" || ch === '"' || ch === "`") {
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        if (text[i] === "\\" && ch !== "`" && i + 1 < text.length) {
+          value += text[i + 1];
+          i += 2;
+        } else {
+          value += text[i++];
+        }
+      }
+      i++;
+      if (ch === "`") {
+        tokens.push({type: "expression", value});
+      } else {
+        tokens.push({type: ch === '"' && !options.docComments ? "word" : "string", value, quoted: true});
+      }
+    } else if (text.startsWith("<>", i)) {
+      tokens.push({type: "punctuation", value: "<>"});
+      i += 2;
+    } else {
+      const number = /^-?\d+(?:\.\d+)?/.exec(text.slice(i));
+      // Prisma attributes keep their namespace, as in @db.VarChar
+      const word = /^(?:@@?[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*|[A-Za-z_#][\w#]*)/.exec(text.slice(i));
+      if (number && !(ch === "-" && tokens[tokens.length - 1]?.type === "word")) {
+        tokens.push({type: "number", value: number[0]});
+        i += number[0].length;
+      } else if (word) {
+        tokens.push({type: "word", value: word[0]});
+        i += word[0].length;
+      } else {
+        tokens.push({type: "punctuation", value: ch});
+        i++;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Walks a token list; positions past the end read as undefined so callers
+ * can treat truncated input as the end of a block.
+ */
+class TokenCursor {
+  pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === "punctuation" && token.value === value;
+  }
+
+  isWord(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === "word" && !token.quoted && token.value.toLowerCase() === value;
+  }
+
+  skipNewlines(): void {
+    while (this.peek()?.type === "newline") this.pos++;
+  }
+
+  // Stops before a closing brace so one-line blocks like `enum a { x y }` still end
+  skipLine(): void {
+    while (!this.done() && this.peek()!.type !== "newline" && !this.is("}")) this.pos++;
+  }
+
+  // Consumes a bracketed group starting at the current token and returns what is inside it
+  group(open: string, close: string): Token[] {
+    const start = this.pos + 1;
+    let depth = 0;
+    while (!this.done()) {
+      const token = this.next()!;
+      if (token.type !== "punctuation") continue;
+      if (token.value === open) depth++;
+      if (token.value === close && --depth === 0) return this.tokens.slice(start, this.pos - 1);
+    }
+    return this.tokens.slice(start);
+  }
+}
+
+// Splits tokens on top-level commas, ignoring newlines
+function splitItems(tokens: Token[]): Token[][] {
+  const items: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type === "newline") continue;
+    if (token.type === "punctuation" && "([{".includes(token.value)) depth++;
+    if (token.type === "punctuation" && ")]}".includes(token.value)) depth--;
+    if (depth === 0 && token.type === "punctuation" && token.value === ",") {
+      items.push([]);
+    } else {
+      items[items.length - 1].push(token);
+    }
+  }
+  return items.filter(item => item.length > 0);
+}
+
+// ---- DBML ----
+
+interface DbmlSetting {
+  key: string;
+  value: Token[];
+}
+
+interface DbmlEndpoint {
+  // Table name parts, optionally schema-qualified or an alias
+  table: string[];
+  columns: string[];
+}
+
+interface DbmlRef {
+  name?: string;
+  from: DbmlEndpoint;
+  operator: string;
+  to: DbmlEndpoint;
+  settings: DbmlSetting[];
+}
+
+class DbmlParser {
+  private cursor: TokenCursor;
+  private model: Model = {enums: [], tables: [], warnings: []};
+  private aliases = new Map<string, ModelTable>();
+  private refs: DbmlRef[] = [];
+
+  constructor(content: string) {
+    this.cursor = new TokenCursor(tokenize(content, {docComments: false}));
+  }
+
+  parse(): Model {
+    const cursor = this.cursor;
+    while (!cursor.done()) {
+      cursor.skipNewlines();
+      const token = cursor.next();
+      if (!token) break;
+      const keyword = token.type === "word" && !token.quoted ? token.value.toLowerCase() : "";
+
+      if (keyword === "table") {
+        this.parseTable();
+      } else if (keyword === "enum") {
+        this.parseEnum();
+      } else if (keyword === "ref") {
+        this.parseRef();
+      } else {
+        if (!["project", "tablegroup", "note"].includes(keyword)) {
+          this.model.warnings.push(`Skipped unsupported DBML element "${token.value}"`);
+        }
+        this.skipDefinition();
+      }
+    }
+
+    this.refs.forEach(ref => this.addRef(ref));
+    return this.model;
+  }
+
+  private skipDefinition(): void {
+    const cursor = this.cursor;
+    while (!cursor.done() && !cursor.is("{") && cursor.peek()!.type !== "newline") cursor.pos++;
+    if (cursor.is("{")) cursor.group("{", "}");
+  }
+
+  private parseName(): string[] {
+    const cursor = this.cursor;
+    const parts = [cursor.next()!.value];
+    while (cursor.is(".") && cursor.peek(1)?.type === "word") {
+      cursor.pos++;
+      parts.push(cursor.next()!.value);
+    }
+    return parts;
+  }
+
+  private parseSettings(cursor = this.cursor): DbmlSetting[] {
+    if (!cursor.is("[")) return [];
+    return splitItems(cursor.group("[", "]")).map(item => {
+      const colon = item.findIndex(token => token.type === "punctuation" && token.value === ":");
+      const keyTokens = colon < 0 ? item : item.slice(0, colon);
+      return {
+        key: keyTokens.map(token => token.value.toLowerCase()).join(" "),
+        value: colon < 0 ? [] : item.slice(colon + 1),
+      };
+    });
+  }
+
+  private settingText(setting: DbmlSetting | undefined): string | undefined {
+    return setting ? setting.value.map(token => token.value).join(" ") : undefined;
+  }
+
+  private parseTable(): void {
+    const cursor = this.cursor;
+    const parts = this.parseName();
+    const table = emptyTable(parts.length > 1 ? parts[0] : "public", parts[parts.length - 1]);
+    this.aliases.set(parts.join("."), table);
+    if (cursor.isWord("as")) {
+      cursor.pos++;
+      this.aliases.set(cursor.next()!.value, table);
+    }
+    table.comment = this.settingText(this.parseSettings().find(s => s.key === "note"));
+    if (!cursor.is("{")) return;
+    cursor.pos++;
+
+    while (!cursor.done()) {
+      cursor.skipNewlines();
+      if (cursor.is("}")) {
+        cursor.pos++;
+        break;
+      }
+      if (cursor.isWord("note") && (cursor.is(":", 1) || cursor.is("{", 1))) {
+        cursor.pos++;
+        const note = cursor.is(":") ? (cursor.pos++, [cursor.next()!]) : cursor.group("{", "}");
+        table.comment = note.filter(token => token.type === "string").map(token => token.value).join("\n");
+      } else if (cursor.isWord("indexes") && cursor.is("{", 1)) {
+        cursor.pos++;
+        this.parseIndexes(table);
+      } else if (cursor.isWord("checks") && cursor.is("{", 1)) {
+        cursor.pos++;
+        this.parseChecks(table);
+      } else {
+        this.parseColumn(table);
+      }
+      cursor.skipLine();
+    }
+
+    this.model.tables.push(table);
+  }
+
+  private parseColumn(table: ModelTable): void {
+    const cursor = this.cursor;
+    const name = cursor.next()!.value;
+    const column: ModelColumn = {name, type: this.parseType(), nullable: true};
+    table.columns.push(column);
+
+    for (const setting of this.parseSettings()) {
+      switch (setting.key) {
+        case "pk":
+        case "primary key":
+          table.primaryKey = {columns: [name]};
+          column.nullable = false;
+          break;
+        case "not null":
+          column.nullable = false;
+          break;
+        case "null":
+          column.nullable = true;
+          break;
+        case "unique":
+          table.uniques.push({columns: [name]});
+          break;
+        case "increment":
+          column.increment = true;
+          break;
+        case "default":
+          column.defaultSql = this.defaultSql(setting.value);
+          break;
+        case "note":
+          column.comment = setting.value[0]?.value;
+          break;
+        case "check":
+          if (setting.value[0]?.type === "expression") table.checks.push({expression: setting.value[0].value});
+          break;
+        case "ref": {
+          const [operator, ...target] = setting.value;
+          const to = this.endpoint(target);
+          const self = table.schema === "public" ? [table.name] : [table.schema, table.name];
+          if (operator && to) this.refs.push({from: {table: self, columns: [name]}, operator: operator.value, to, settings: []});
+          break;
+        }
+      }
+    }
+  }
+
+  private parseType(): string {
+    const cursor = this.cursor;
+    const first = cursor.next()!;
+    let type = first.value;
+    while (cursor.is(".") && cursor.peek(1)?.type === "word") {
+      cursor.pos++;
+      type += `.${cursor.next()!.value}`;
+    }
+    if (cursor.is("(")) {
+      type += `(${cursor.group("(", ")").map(token => token.value).join("").replace(/,/g, ", ")})`;
+    }
+    while (cursor.is("[") && cursor.is("]", 1)) {
+      cursor.pos += 2;
+      type += "[]";
+    }
+    return type;
+  }
+
+  private defaultSql(value: Token[]): string | undefined {
+    const token = value[0];
+    if (!token) return undefined;
+    if (token.type === "expression" || token.type === "number") return token.value;
+    if (token.type === "string") return literal(token.value);
+    const word = token.value.toLowerCase();
+    if (word === "null") return undefined;
+    return word === "true" || word === "false" ? word : token.value;
+  }
+
+  private indexKeys(tokens: Token[]): string[] {
+    return tokens
+      .filter(token => token.type !== "punctuation" && token.type !== "newline")
+      .map(token => (token.type === "expression" ? `(${token.value})` : quoteIdentifier(token.value)));
+  }
+
+  private parseIndexes(table: ModelTable): void {
+    const cursor = this.cursor;
+    cursor.pos++;
+    while (!cursor.done()) {
+      cursor.skipNewlines();
+      if (cursor.is("}")) {
+        cursor.pos++;
+        return;
+      }
+
+      const keys = cursor.is("(") ? this.indexKeys(cursor.group("(", ")")) : this.indexKeys([cursor.next()!]);
+      const settings = this.parseSettings();
+      const name = this.settingText(settings.find(s => s.key === "name"));
+      const has = (key: string) => settings.some(s => s.key === key);
+
+      if (has("pk") || has("primary key")) {
+        table.primaryKey = {name, columns: keys.map(key => key.replace(/^"(.*)"$/, "$1").replace(/""/g, '"'))};
+      } else {
+        table.indexes.push({
+          name,
+          keys,
+          unique: has("unique"),
+          method: this.settingText(settings.find(s => s.key === "type")),
+        });
+      }
+      cursor.skipLine();
+    }
+  }
+
+  private parseChecks(table: ModelTable): void {
+    const cursor = this.cursor;
+    cursor.pos++;
+    while (!cursor.done()) {
+      cursor.skipNewlines();
+      if (cursor.is("}")) {
+        cursor.pos++;
+        return;
+      }
+      const expression = cursor.next()!;
+      const name = this.settingText(this.parseSettings().find(s => s.key === "name"));
+      if (expression.type === "expression") table.checks.push({name, expression: expression.value});
+      cursor.skipLine();
+    }
+  }
+
+  private parseEnum(): void {
+    const cursor = this.cursor;
+    const parts = this.parseName();
+    const enumType: ModelEnum = {schema: parts.length > 1 ? parts[0] : "public", name: parts[parts.length - 1], values: []};
+    if (!cursor.is("{")) return;
+    cursor.pos++;
+
+    while (!cursor.done()) {
+      cursor.skipNewlines();
+      if (cursor.is("}")) {
+        cursor.pos++;
+        break;
+      }
+      enumType.values.push(cursor.next()!.value);
+      this.parseSettings();
+      cursor.skipLine();
+    }
+    this.model.enums.push(enumType);
+  }
+
+  private parseRef(): void {
+    const cursor = this.cursor;
+    const name = cursor.peek()?.type === "word" ? cursor.next()!.value : undefined;
+
+    if (cursor.is(":")) {
+      cursor.pos++;
+      const line: Token[] = [];
+      while (!cursor.done() && cursor.peek()!.type !== "newline") line.push(cursor.next()!);
+      this.addRefLine(name, line);
+    } else if (cursor.is("{")) {
+      const body = cursor.group("{", "}");
+      let line: Token[] = [];
+      for (const token of [...body, {type: "newline" as const, value: "\n"}]) {
+        if (token.type === "newline") {
+          if (line.length > 0) this.addRefLine(name, line);
+          line = [];
+        } else {
+          line.push(token);
+        }
+      }
+    }
+  }
+
+  private addRefLine(name: string | undefined, line: Token[]): void {
+    const operatorIndex = line.findIndex(
+      (token, index) => token.type === "punctuation" && ["<", ">", "-", "<>"].includes(token.value) && index > 0
+    );
+    const settingsIndex = line.findIndex((token, index) => index > operatorIndex && token.type === "punctuation" && token.value === "[");
+    const from = this.endpoint(line.slice(0, operatorIndex));
+    const to = this.endpoint(line.slice(operatorIndex + 1, settingsIndex < 0 ? undefined : settingsIndex));
+    if (operatorIndex < 0 || !from || !to) {
+      this.model.warnings.push(`Skipped unreadable Ref: ${line.map(token => token.value).join(" ")}`);
+      return;
+    }
+
+    const settings = settingsIndex >= 0 ? this.parseSettings(new TokenCursor(line.slice(settingsIndex))) : [];
+    this.refs.push({name, from, operator: line[operatorIndex].value, to, settings});
+  }
+
+  // Reads `table.column`, `schema.table.column` or `table.(a, b)`
+  private endpoint(tokens: Token[]): DbmlEndpoint | undefined {
+    const names = tokens.filter(token => token.type === "word").map(token => token.value);
+    const open = tokens.findIndex(token => token.type === "punctuation" && token.value === "(");
+    if (open >= 0) {
+      const table = tokens.slice(0, open).filter(token => token.type === "word").map(token => token.value);
+      const columns = tokens.slice(open).filter(token => token.type === "word").map(token => token.value);
+      return table.length > 0 && columns.length > 0 ? {table, columns} : undefined;
+    }
+    return names.length >= 2 ? {table: names.slice(0, -1), columns: names.slice(-1)} : undefined;
+  }
+
+  private findTable(parts: string[]): ModelTable | undefined {
+    return this.aliases.get(parts.join(".")) ?? (parts.length === 2 && parts[0] === "public" ? this.aliases.get(parts[1]) : undefined);
+  }
+
+  private addRef(ref: DbmlRef): void {
+    if (ref.operator === "<>") {
+      this.model.warnings.push(
+        `Skipped many-to-many Ref ${ref.from.table.join(".")} <> ${ref.to.table.join(".")}; model it with a join table`
+      );
+      return;
+    }
+
+    // ">" and "-" put the foreign key on the left, "<" on the right
+    const [child, parent] = ref.operator === "<" ? [ref.to, ref.from] : [ref.from, ref.to];
+    const childTable = this.findTable(child.table);
+    const parentTable = this.findTable(parent.table);
+    if (!childTable || !parentTable) {
+      this.model.warnings.push(`Skipped Ref to unknown table ${(childTable ? parent : child).table.join(".")}`);
+      return;
+    }
+
+    const action = (key: string) => this.settingText(ref.settings.find(s => s.key === key))?.toUpperCase();
+    childTable.foreignKeys.push({
+      name: ref.name,
+      columns: child.columns,
+      referencedSchema: parentTable.schema,
+      referencedTable: parentTable.name,
+      referencedColumns: parent.columns,
+      onDelete: action("delete"),
+      onUpdate: action("update"),
+    });
+  }
+}
+
+// ---- Prisma ----
+
+interface PrismaArgument {
+  name?: string;
+  value: Token[];
+}
+
+interface PrismaAttribute {
+  name: string;
+  args: PrismaArgument[];
+}
+
+interface PrismaField {
+  name: string;
+  type: string;
+  unsupportedType?: string;
+  optional: boolean;
+  list: boolean;
+  attributes: PrismaAttribute[];
+  doc?: string;
+}
+
+interface PrismaBlock {
+  kind: string;
+  name: string;
+  fields: PrismaField[];
+  attributes: PrismaAttribute[];
+  doc?: string;
+}
+
+// Prisma's default native type for each scalar
+const PRISMA_SCALARS: Record<string, string> = {
+  String: "text",
+  Int: "integer",
+  BigInt: "bigint",
+  Float: "double precision",
+  Decimal: "decimal(65, 30)",
+  Boolean: "boolean",
+  DateTime: "timestamp(3)",
+  Json: "jsonb",
+  Bytes: "bytea",
+};
+
+const PRISMA_NATIVE_TYPES: Record<string, string> = {
+  Text: "text",
+  VarChar: "varchar",
+  Char: "char",
+  Uuid: "uuid",
+  Citext: "citext",
+  Inet: "inet",
+  Xml: "xml",
+  Bit: "bit",
+  VarBit: "varbit",
+  SmallInt: "smallint",
+  Integer: "integer",
+  BigInt: "bigint",
+  Oid: "oid",
+  Real: "real",
+  DoublePrecision: "double precision",
+  Decimal: "numeric",
+  Money: "money",
+  Boolean: "boolean",
+  Timestamp: "timestamp",
+  Timestamptz: "timestamptz",
+  Date: "date",
+  Time: "time",
+  Timetz: "timetz",
+  Json: "json",
+  JsonB: "jsonb",
+  ByteA: "bytea",
+};
+
+const PRISMA_ACTIONS: Record<string, string> = {
+  Cascade: "CASCADE",
+  Restrict: "RESTRICT",
+  NoAction: "NO ACTION",
+  SetNull: "SET NULL",
+  SetDefault: "SET DEFAULT",
+};
+
+const PRISMA_INDEX_TYPES: Record<string, string> = {
+  BTree: "btree",
+  Hash: "hash",
+  Gist: "gist",
+  Gin: "gin",
+  SpGist: "spgist",
+  Brin: "brin",
+};
+
+// Defaults Prisma Client fills in itself; the column gets no database default
+const PRISMA_CLIENT_DEFAULTS = ["uuid", "cuid", "nanoid", "ulid"];
+
+class PrismaParser {
+  private cursor: TokenCursor;
+  private warnings: string[] = [];
+
+  constructor(content: string) {
+    this.cursor = new TokenCursor(tokenize(content, {docComments: true}));
+  }
+
+  parse(): Model {
+    const blocks = this.parseBlocks();
+    const models = blocks.filter(block => block.kind === "model");
+    const enums = blocks.filter(block => block.kind === "enum");
+    for (const block of blocks.filter(b => !["model", "enum", "generator", "datasource"].includes(b.kind))) {
+      this.warnings.push(`Skipped ${block.kind} ${block.name}; only models and enums become tables and types`);
+    }
+
+    const stringArg = (attributes: PrismaAttribute[], name: string) =>
+      attributes.find(a => a.name === name)?.args[0]?.value[0]?.value;
+    const schemaOf = (block: PrismaBlock) => stringArg(block.attributes, "@@schema") ?? "public";
+
+    const enumTypes = new Map<string, ModelEnum & {values: string[]; valueNames: Map<string, string>}>();
+    for (const block of enums) {
+      const valueNames = new Map(block.fields.map(f => [f.name, stringArg(f.attributes, "@map") ?? f.name]));
+      enumTypes.set(block.name, {
+        schema: schemaOf(block),
+        name: stringArg(block.attributes, "@@map") ?? block.name,
+        values: [...valueNames.values()],
+        valueNames,
+      });
+    }
+
+    const tableOf = new Map(models.map(block => [block.name, {schema: schemaOf(block), name: stringArg(block.attributes, "@@map") ?? block.name}]));
+    const columnName = (block: PrismaBlock, field: string) =>
+      stringArg(block.fields.find(f => f.name === field)?.attributes ?? [], "@map") ?? field;
+    const modelBlocks = new Map(models.map(block => [block.name, block]));
+
+    const tables = models.map(block => {
+      const target = tableOf.get(block.name)!;
+      const table = emptyTable(target.schema, target.name);
+      table.comment = block.doc;
+      const column = (field: string) => columnName(block, field);
+
+      for (const field of block.fields) {
+        if (modelBlocks.has(field.type)) {
+          const relation = field.attributes.find(a => a.name === "@relation");
+          const fields = this.fieldList(relation, "fields");
+          const parent = modelBlocks.get(field.type)!;
+          if (!relation || fields.length === 0) continue;
+          const action = (name: string, fallback: string) => {
+            const value = this.argument(relation, name)?.[0]?.value;
+            return value ? PRISMA_ACTIONS[value] ?? fallback : fallback;
+          };
+          table.foreignKeys.push({
+            name: this.argument(relation, "map")?.[0]?.value,
+            columns: fields.map(f => column(f.name)),
+            referencedSchema: tableOf.get(parent.name)!.schema,
+            referencedTable: tableOf.get(parent.name)!.name,
+            referencedColumns: this.fieldList(relation, "references").map(f => columnName(parent, f.name)),
+            // Prisma Migrate's defaults for relations without explicit actions
+            onDelete: action("onDelete", field.optional ? "SET NULL" : "RESTRICT"),
+            onUpdate: action("onUpdate", "CASCADE"),
+          });
+          continue;
+        }
+
+        const name = column(field.name);
+        const enumType = enumTypes.get(field.type);
+        const col: ModelColumn = {
+          name,
+          type: this.columnType(field, enumType),
+          nullable: field.optional || field.list,
+          comment: field.doc,
+        };
+        table.columns.push(col);
+
+        const defaultAttribute = field.attributes.find(a => a.name === "@default");
+        if (defaultAttribute) this.applyDefault(col, defaultAttribute, enumType?.valueNames, `${block.name}.${field.name}`);
+
+        const id = field.attributes.find(a => a.name === "@id");
+        if (id) {
+          table.primaryKey = {name: this.argument(id, "map")?.[0]?.value, columns: [name]};
+          col.nullable = false;
+        }
+        const unique = field.attributes.find(a => a.name === "@unique");
+        if (unique) table.uniques.push({name: this.argument(unique, "map")?.[0]?.value, columns: [name]});
+      }
+
+      for (const attribute of block.attributes) {
+        const keys = this.fieldList(attribute, "fields", 0);
+        const name = this.argument(attribute, "map")?.[0]?.value;
+        if (attribute.name === "@@id") {
+          table.primaryKey = {name, columns: keys.map(k => column(k.name))};
+        } else if (attribute.name === "@@unique") {
+          table.uniques.push({name, columns: keys.map(k => column(k.name))});
+        } else if (attribute.name === "@@index") {
+          const type = this.argument(attribute, "type")?.[0]?.value;
+          table.indexes.push({
+            // Prisma names unmapped indexes the way PostgreSQL would
+            name: name ?? [table.name, ...keys.map(k => column(k.name))].join("_") + "_idx",
+            keys: keys.map(k => `${quoteIdentifier(column(k.name))}${k.descending ? " DESC" : ""}`),
+            unique: false,
+            method: type ? PRISMA_INDEX_TYPES[type] : undefined,
+          });
+        } else if (attribute.name === "@@fulltext") {
+          this.warnings.push(`Skipped @@fulltext on ${block.name}; PostgreSQL has no full-text index type`);
+        }
+      }
+      return table;
+    });
+
+    return {
+      enums: [...enumTypes.values()].map(({schema, name, values}) => ({schema, name, values})),
+      tables,
+      warnings: this.warnings,
+    };
+  }
+
+  private parseBlocks(): PrismaBlock[] {
+    const cursor = this.cursor;
+    const blocks: PrismaBlock[] = [];
+    let doc: string[] = [];
+
+    while (!cursor.done()) {
+      cursor.skipNewlines();
+      const token = cursor.next();
+      if (!token) break;
+      if (token.type === "doc") {
+        doc.push(token.value);
+        continue;
+      }
+
+      const name = cursor.peek()?.type === "word" ? cursor.next()!.value : "";
+      if (!cursor.is("{")) {
+        cursor.skipLine();
+        doc = [];
+        continue;
+      }
+      cursor.pos++;
+      const block: PrismaBlock = {kind: token.value, name, fields: [], attributes: [], doc: doc.join("\n") || undefined};
+      doc = [];
+      this.parseBlockBody(block);
+      blocks.push(block);
+    }
+    return blocks;
+  }
+
+  private parseBlockBody(block: PrismaBlock): void {
+    const cursor = this.cursor;
+    let doc: string[] = [];
+
+    while (!cursor.done()) {
+      cursor.skipNewlines();
+      const token = cursor.peek();
+      if (!token) return;
+      if (token.type === "punctuation" && token.value === "}") {
+        cursor.pos++;
+        return;
+      }
+      if (token.type === "doc") {
+        doc.push(cursor.next()!.value);
+        continue;
+      }
+      if (token.value.startsWith("@@")) {
+        block.attributes.push(this.parseAttribute());
+        cursor.skipLine();
+        continue;
+      }
+      if (block.kind === "generator" || block.kind === "datasource") {
+        cursor.pos++;
+        cursor.skipLine();
+        continue;
+      }
+
+      const field: PrismaField = {
+        name: cursor.next()!.value,
+        type: "",
+        optional: false,
+        list: false,
+        attributes: [],
+        doc: doc.join("\n") || undefined,
+      };
+      doc = [];
+      if (cursor.peek()?.type === "word" && !cursor.peek()!.value.startsWith("@")) {
+        field.type = cursor.next()!.value;
+        if (field.type === "Unsupported" && cursor.is("(")) {
+          field.unsupportedType = cursor.group("(", ")")[0]?.value;
+        }
+        if (cursor.is("[") && cursor.is("]", 1)) {
+          cursor.pos += 2;
+          field.list = true;
+        }
+        if (cursor.is("?")) {
+          cursor.pos++;
+          field.optional = true;
+        }
+      }
+      while (cursor.peek()?.type === "word" && cursor.peek()!.value.startsWith("@")) {
+        field.attributes.push(this.parseAttribute());
+      }
+      block.fields.push(field);
+      cursor.skipLine();
+    }
+  }
+
+  private parseAttribute(): PrismaAttribute {
+    const cursor = this.cursor;
+    const name = cursor.next()!.value;
+    if (!cursor.is("(")) return {name, args: []};
+    const args = splitItems(cursor.group("(", ")")).map(item =>
+      item[0]?.type === "word" && item[1]?.type === "punctuation" && item[1].value === ":"
+        ? {name: item[0].value, value: item.slice(2)}
+        : {value: item}
+    );
+    return {name, args};
+  }
+
+  private argument(attribute: PrismaAttribute | undefined, name: string, position?: number): Token[] | undefined {
+    if (!attribute) return undefined;
+    const named = attribute.args.find(arg => arg.name === name);
+    if (named) return named.value;
+    return position !== undefined ? attribute.args.filter(arg => !arg.name)[position]?.value : undefined;
+  }
+
+  // Reads `[a, b(sort: Desc)]`
+  private fieldList(attribute: PrismaAttribute | undefined, name: string, position?: number): {name: string; descending: boolean}[] {
+    const value = this.argument(attribute, name, position);
+    if (!value || !value[0] || value[0].value !== "[") return [];
+    return splitItems(value.slice(1, -1)).map(item => ({
+      name: item[0].value,
+      descending: item.some(token => token.value === "Desc"),
+    }));
+  }
+
+  private columnType(field: PrismaField, enumType?: ModelEnum): string {
+    let type: string;
+    const native = field.attributes.find(a => a.name.startsWith("@db."));
+    if (enumType) {
+      type = enumType.schema === "public" ? quoteIdentifier(enumType.name) : qualifiedName(enumType.schema, enumType.name);
+    } else if (field.unsupportedType) {
+      type = field.unsupportedType;
+    } else if (native && PRISMA_NATIVE_TYPES[native.name.slice(4)]) {
+      const args = native.args.map(arg => arg.value.map(token => token.value).join(""));
+      type = PRISMA_NATIVE_TYPES[native.name.slice(4)] + (args.length > 0 ? `(${args.join(", ")})` : "");
+    } else {
+      type = PRISMA_SCALARS[field.type] ?? "text";
+      if (!PRISMA_SCALARS[field.type]) {
+        this.warnings.push(`Field ${field.name} has unknown type ${field.type}; created as text`);
+      }
+    }
+    return field.list ? `${type}[]` : type;
+  }
+
+  private applyDefault(column: ModelColumn, attribute: PrismaAttribute, enumValues: Map<string, string> | undefined, field: string): void {
+    const value = attribute.args[0]?.value ?? [];
+    const [token, next] = value;
+    if (!token) return;
+
+    if (token.type === "word" && next?.value === "(") {
+      const args = value.slice(2, -1);
+      switch (token.value) {
+        case "autoincrement":
+          column.increment = true;
+          return;
+        case "now":
+          column.defaultSql = "now()";
+          return;
+        case "dbgenerated":
+          if (args[0]?.type === "string") column.defaultSql = args[0].value;
+          return;
+        default:
+          if (!PRISMA_CLIENT_DEFAULTS.includes(token.value)) {
+            this.warnings.push(`Skipped default ${token.value}() on ${field}`);
+          }
+          return;
+      }
+    }
+
+    if (token.type === "string") {
+      column.defaultSql = literal(token.value);
+    } else if (token.type === "number") {
+      column.defaultSql = token.value;
+    } else if (token.value === "[") {
+      const items = splitItems(value.slice(1, -1)).map(item => enumValues?.get(item[0].value) ?? item[0].value);
+      column.defaultSql = literal(`{${items.join(",")}}`);
+    } else if (token.value === "true" || token.value === "false") {
+      column.defaultSql = token.value;
+    } else if (enumValues?.has(token.value)) {
+      column.defaultSql = literal(enumValues.get(token.value)!);
+    }
+  }
+}
+
+function modelToDdl(model: Model): string {
+  const statements: string[] = [];
+  const tableName = (schema: string, name: string) => qualifiedName(schema, name);
+  const columnList = (columns: string[]) => columns.map(quoteIdentifier).join(", ");
+  const constraintPrefix = (name?: string) => (name ? `CONSTRAINT ${quoteIdentifier(name)} ` : "");
+
+  const schemas = new Set([...model.enums.map(e => e.schema), ...model.tables.map(t => t.schema)]);
+  for (const schema of [...schemas].sort()) {
+    if (schema !== "public") statements.push(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema)};`);
+  }
+
+  for (const enumType of model.enums) {
+    statements.push(`CREATE TYPE ${tableName(enumType.schema, enumType.name)} AS ENUM (${enumType.values.map(literal).join(", ")});`);
+  }
+
+  for (const table of model.tables) {
+    const lines = table.columns.map(column => {
+      let type = column.type;
+      let generated = "";
+      if (column.increment) {
+        const serial = SERIAL_TYPES[type.toLowerCase()];
+        type = serial ?? type;
+        if (!serial) generated = " GENERATED BY DEFAULT AS IDENTITY";
+      }
+      const defaultSql = column.defaultSql && !column.increment ? ` DEFAULT ${column.defaultSql}` : "";
+      return `${quoteIdentifier(column.name)} ${type}${generated}${defaultSql}${column.nullable ? "" : " NOT NULL"}`;
+    });
+    if (table.primaryKey) {
+      lines.push(`${constraintPrefix(table.primaryKey.name)}PRIMARY KEY (${columnList(table.primaryKey.columns)})`);
+    }
+    for (const unique of table.uniques) {
+      lines.push(`${constraintPrefix(unique.name)}UNIQUE (${columnList(unique.columns)})`);
+    }
+    for (const check of table.checks) {
+      lines.push(`${constraintPrefix(check.name)}CHECK (${check.expression})`);
+    }
+    statements.push(`CREATE TABLE ${tableName(table.schema, table.name)} (\n  ${lines.join(",\n  ")}\n);`);
+
+    if (table.comment) {
+      statements.push(`COMMENT ON TABLE ${tableName(table.schema, table.name)} IS ${literal(table.comment)};`);
+    }
+    for (const column of table.columns.filter(c => c.comment)) {
+      statements.push(
+        `COMMENT ON COLUMN ${tableName(table.schema, table.name)}.${quoteIdentifier(column.name)} IS ${literal(column.comment!)};`
+      );
+    }
+  }
+
+  for (const table of model.tables) {
+    for (const index of table.indexes) {
+      const name = index.name ? `${quoteIdentifier(index.name)} ` : "";
+      const method = index.method && index.method !== "btree" ? `USING ${index.method} ` : "";
+      const where = index.where ? ` WHERE ${index.where}` : "";
+      statements.push(
+        `CREATE ${index.unique ? "UNIQUE " : ""}INDEX ${name}ON ${tableName(table.schema, table.name)} ${method}(${index.keys.join(", ")})${where};`
+      );
+    }
+  }
+
+  // Foreign keys go last so tables can reference each other in any order
+  for (const table of model.tables) {
+    for (const fk of table.foreignKeys) {
+      const actions = `${fk.onDelete ? ` ON DELETE ${fk.onDelete}` : ""}${fk.onUpdate ? ` ON UPDATE ${fk.onUpdate}` : ""}`;
+      statements.push(
+        `ALTER TABLE ${tableName(table.schema, table.name)} ADD ${constraintPrefix(fk.name)}FOREIGN KEY (${columnList(fk.columns)}) ` +
+        `REFERENCES ${tableName(fk.referencedSchema, fk.referencedTable)} (${columnList(fk.referencedColumns)})${actions};`
+      );
+    }
+  }
+
+  return statements.join("\n\n") + "\n";
+}
+
+/**
+ * Reads a DBML document (dbdiagram.io) or a Prisma schema into a
+ * DatabaseSchema. The model is first written out as PostgreSQL DDL and then
+ * replayed, so types, serial defaults and implicit constraint and index names
+ * come out exactly as they do for schemas replayed from migrations.
+ */
+export class SchemaModelImporter {
+  import(format: SchemaModelImportFormat, content: string): ImportedSchemaModel {
+    const model = format === "prisma" ? new PrismaParser(content).parse() : new DbmlParser(content).parse();
+    const ddl = modelToDdl(model);
+
+    const replayer = new SchemaReplayer();
+    const schema = replayer.createEmptySchema();
+    replayer.applySql(schema, ddl);
+
+    return {format, schema, ddl, warnings: model.warnings};
+  }
+
+  /**
+   * The schema a migration should produce: `current` with the tables, indexes
+   * and enums of the given schemas replaced by the model's. Partitions and
+   * everything neither format describes (views, functions, triggers, policies,
+   * grants) are kept as they are, except triggers and policies on tables the
+   * model leaves out. Check constraints the model does not name are kept too,
+   * since Prisma cannot express them and exported DBML leaves them out.
+   */
+  desiredSchema(current: DatabaseSchema, model: DatabaseSchema, schemas: string[]): DatabaseSchema {
+    const key = (schema: string, name: string) => `${schema}.${name}`;
+    const partitions = new Set((current.partitions || []).map(p => key(p.schema, p.name)));
+    const kept = (schema: string, table: string) => !schemas.includes(schema) || partitions.has(key(schema, table));
+
+    const currentTables = new Map(current.tables.map(t => [key(t.schema, t.name), t]));
+    const tables = [
+      ...current.tables.filter(t => kept(t.schema, t.name)),
+      ...model.tables.map(t => {
+        const existing = currentTables.get(key(t.schema, t.name));
+        if (!existing) return t;
+        const names = new Set(t.constraints.map(c => c.name));
+        const checks = existing.constraints.filter(c => c.type === "CHECK" && !names.has(c.name));
+        return {
+          ...t,
+          constraints: [...t.constraints, ...checks],
+          ...(existing.partitionKey ? {partitionKey: existing.partitionKey} : {}),
+        };
+      }),
+    ];
+    const tableKeys = new Set(tables.map(t => key(t.schema, t.name)));
+
+    return {
+      ...current,
+      tables,
+      indexes: [...(current.indexes || []).filter(i => kept(i.schemaName, i.tableName)), ...model.indexes],
+      enums: [...current.enums.filter(e => !schemas.includes(e.schema)), ...model.enums],
+      triggers: current.triggers.filter(t => tableKeys.has(key(t.schema, t.tableName))),
+      rlsPolicies: current.rlsPolicies.filter(p => tableKeys.has(key(p.schema, p.tableName))),
+    };
+  }
+}
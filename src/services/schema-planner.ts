@@ -0,0 +1,197 @@
+import {DatabaseSchema, Extension, Function} from "../types/schema.js";
+import {MigrationOperation, SchemaDrift} from "../types/migration.js";
+import {SchemaAnalyzer} from "./schema-analyzer.js";
+import {DriftMigrationGenerator} from "./drift-migration-generator.js";
+import {
+  formatCreateExtension,
+  formatDropExtension,
+  qualifiedName,
+  quoteIdentifier,
+} from "../utils/sql-formatter.js";
+
+export interface SchemaPlan {
+  drift: SchemaDrift;
+  operations: MigrationOperation[];
+  warnings: string[];
+}
+
+/**
+ * Plans the migration from the current schema to a desired one. Enums,
+ * tables, columns, constraints, indexes, views, triggers and policies come
+ * from DriftMigrationGenerator; extensions and functions, which SchemaDrift
+ * does not cover, are diffed here. Enums are created before the functions that
+ * may use them, and everything else is placed so every object is created after
+ * what it depends on and dropped before it.
+ */
+export class SchemaPlanner {
+  private generator = new DriftMigrationGenerator();
+
+  constructor(private schemaAnalyzer: SchemaAnalyzer) {}
+
+  plan(current: DatabaseSchema, desired: DatabaseSchema): SchemaPlan {
+    const warnings: string[] = [];
+    const drift = this.schemaAnalyzer.compareSchemas(desired, current);
+    const isEnumOperation = (op: MigrationOperation) => op.enum !== undefined;
+    const generated = this.generator.generateOperations(drift, current, desired, warnings);
+    const relationOperations = generated.filter(op => !isEnumOperation(op));
+
+    const extensions = this.extensionOperations(current, desired);
+    const enums = generated.filter(isEnumOperation);
+    const functions = this.functionOperations(current, desired, warnings);
+    const rowTypeUses = new Map([...this.rowTypeUses(current), ...this.rowTypeUses(desired)]);
+    const usesRowType = (op: MigrationOperation) => op.function !== undefined && rowTypeUses.has(op.function);
+
+    const operations = [
+      ...extensions.filter(op => op.type === "CREATE_EXTENSION"),
+      ...enums.filter(op => op.type !== "DROP_ENUM"),
+      ...functions.filter(op => op.type !== "DROP_FUNCTION" && !usesRowType(op)),
+      ...this.placeRowTypeFunctions(relationOperations, functions.filter(usesRowType), rowTypeUses),
+      ...functions.filter(op => op.type === "DROP_FUNCTION" && !usesRowType(op)),
+      ...enums.filter(op => op.type === "DROP_ENUM"),
+      ...extensions.filter(op => op.type === "DROP_EXTENSION"),
+    ];
+
+    return {drift, operations, warnings};
+  }
+
+  buildMigrationSql(operations: MigrationOperation[]): {upSql: string; downSql: string} {
+    const {upSql, downSql} = this.generator.buildMigrationSql(operations);
+    const functionTypes = ["CREATE_FUNCTION", "REPLACE_FUNCTION", "DROP_FUNCTION"];
+    if (!operations.some(op => functionTypes.includes(op.type))) {
+      return {upSql, downSql};
+    }
+
+    // Function bodies may reference tables created further down, as in pg_dump output
+    const preamble = "SET check_function_bodies = false;\n\n";
+    return {upSql: preamble + upSql, downSql: preamble + downSql};
+  }
+
+  private extensionOperations(current: DatabaseSchema, desired: DatabaseSchema): MigrationOperation[] {
+    const currentExtensions = new Map(current.extensions.map(e => [e.name, e]));
+    const desiredExtensions = new Map(desired.extensions.map(e => [e.name, e]));
+    const create = (extension: Extension) =>
+      formatCreateExtension(quoteIdentifier(extension.name), quoteIdentifier(extension.schema));
+    const drop = (extension: Extension) => formatDropExtension(quoteIdentifier(extension.name));
+
+    return [
+      ...desired.extensions
+        .filter(e => !currentExtensions.has(e.name))
+        .map(e => ({type: "CREATE_EXTENSION" as const, extension: e.name, sql: create(e), reverseSql: drop(e)})),
+      ...current.extensions
+        .filter(e => !desiredExtensions.has(e.name))
+        .map(e => ({type: "DROP_EXTENSION" as const, extension: e.name, sql: drop(e), reverseSql: create(e)})),
+    ];
+  }
+
+  private functionOperations(current: DatabaseSchema, desired: DatabaseSchema, warnings: string[]): MigrationOperation[] {
+    // Functions installed by an extension come and go with the extension
+    const own = (functions: Function[]) => functions.filter(f => !f.extension);
+    const key = (f: Function) => `${f.schema}.${f.name}(${f.identityArguments ?? ""})`;
+    const currentFunctions = new Map(own(current.functions).map(f => [key(f), f]));
+    const desiredFunctions = new Map(own(desired.functions).map(f => [key(f), f]));
+    const statement = (f: Function) => `${f.fullDefinition!.trim()};`;
+    const drop = (f: Function) =>
+      `DROP ${f.kind === "procedure" ? "PROCEDURE" : "FUNCTION"} ${qualifiedName(f.schema, f.name)}(${f.identityArguments ?? ""});`;
+    const operations: MigrationOperation[] = [];
+
+    for (const [functionKey, desiredFunction] of desiredFunctions) {
+      const currentFunction = currentFunctions.get(functionKey);
+      if (!desiredFunction.fullDefinition) {
+        if (!currentFunction) {
+          warnings.push(`${functionKey} is an aggregate or window function and is not planned`);
+        }
+        continue;
+      }
+      if (!currentFunction) {
+        operations.push({
+          type: "CREATE_FUNCTION",
+          function: functionKey,
+          sql: statement(desiredFunction),
+          reverseSql: drop(desiredFunction),
+        });
+      } else if (currentFunction.fullDefinition && currentFunction.fullDefinition !== desiredFunction.fullDefinition) {
+        operations.push({
+          type: "REPLACE_FUNCTION",
+          function: functionKey,
+          sql: statement(desiredFunction),
+          reverseSql: statement(currentFunction),
+        });
+      }
+    }
+
+    for (const [functionKey, currentFunction] of currentFunctions) {
+      if (desiredFunctions.has(functionKey)) continue;
+      operations.push({
+        type: "DROP_FUNCTION",
+        function: functionKey,
+        sql: drop(currentFunction),
+        ...(currentFunction.fullDefinition ? {reverseSql: statement(currentFunction)} : {}),
+      });
+    }
+
+    return operations;
+  }
+
+  /**
+   * Functions whose arguments or result use a table or view row type, keyed
+   * like the function operations. The types are matched by name in the
+   * pg_get_function_arguments and pg_get_function_result text.
+   */
+  private rowTypeUses(schema: DatabaseSchema): Map<string, "table" | "view"> {
+    const relations = [
+      ...schema.tables.map(t => ({schema: t.schema, name: t.name, kind: "table" as const})),
+      ...schema.views.map(v => ({schema: v.schema, name: v.name, kind: "view" as const})),
+    ];
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const uses = new Map<string, "table" | "view">();
+
+    for (const fn of schema.functions) {
+      const signature = `${fn.arguments ?? fn.identityArguments ?? ""} ${fn.returnType}`;
+      const used = relations.filter(relation => new RegExp(
+        `(^|[\\s(,])(${escape(quoteIdentifier(relation.schema))}\\.)?${escape(quoteIdentifier(relation.name))}($|[\\s),[])`
+      ).test(signature));
+      if (used.length === 0) continue;
+      uses.set(
+        `${fn.schema}.${fn.name}(${fn.identityArguments ?? ""})`,
+        used.some(relation => relation.kind === "view") ? "view" : "table"
+      );
+    }
+    return uses;
+  }
+
+  /**
+   * Functions using a row type are created once the relation exists, before
+   * the views (or, for view row types, the triggers and policies) that may call
+   * them, and dropped after the views and before the tables.
+   */
+  private placeRowTypeFunctions(
+    relationOperations: MigrationOperation[],
+    functions: MigrationOperation[],
+    rowTypeUses: Map<string, "table" | "view">
+  ): MigrationOperation[] {
+    const insertBefore = (
+      operations: MigrationOperation[],
+      stop: (op: MigrationOperation) => boolean,
+      inserted: MigrationOperation[]
+    ) => {
+      const index = operations.findIndex(stop);
+      return index < 0
+        ? [...operations, ...inserted]
+        : [...operations.slice(0, index), ...inserted, ...operations.slice(index)];
+    };
+    const createdUsing = (use: "table" | "view") =>
+      functions.filter(op => op.type !== "DROP_FUNCTION" && rowTypeUses.get(op.function!) === use);
+
+    let operations = insertBefore(
+      relationOperations,
+      op => !["DROP_POLICY", "DROP_TRIGGER", "DROP_VIEW"].includes(op.type),
+      functions.filter(op => op.type === "DROP_FUNCTION")
+    );
+    operations = insertBefore(
+      operations,
+      op => ["CREATE_VIEW", "REPLACE_VIEW", "CREATE_TRIGGER", "CREATE_POLICY"].includes(op.type),
+      createdUsing("table")
+    );
+    return insertBefore(operations, op => ["CREATE_TRIGGER", "CREATE_POLICY"].includes(op.type), createdUsing("view"));
+  }
+}
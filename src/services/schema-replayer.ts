@@ -0,0 +1,1361 @@
+import {
+  DatabaseSchema,
+  Table,
+  Column,
+  Constraint,
+  ConstraintType,
+  Index,
+  IndexColumn,
+  View,
+  Trigger,
+  TriggerEvent,
+  TriggerTiming,
+  TriggerOrientation,
+  RLSPolicy,
+  RLSCommand,
+  Enum,
+  Function,
+  FunctionParameter,
+} from "../types/schema.js";
+import {
+  ParsedStatement,
+  QualifiedName,
+  SqlToken,
+  parseSql,
+  isKeyword,
+  isPunctuation,
+  isIdentifier,
+  identifierValue,
+  readQualifiedName,
+  splitTopLevel,
+  skipParenthesized,
+  parenthesizedTokens,
+  tokensToSql,
+} from "../utils/sql-parser.js";
+import {resolveColumnType, makeObjectName} from "../utils/pg-types.js";
+
+interface QualifiedObject {
+  schema: string;
+  name: string;
+}
+
+// Keywords that end a column's type and start its constraints
+const COLUMN_CONSTRAINT_KEYWORDS = [
+  "CONSTRAINT",
+  "NOT",
+  "NULL",
+  "DEFAULT",
+  "PRIMARY",
+  "UNIQUE",
+  "CHECK",
+  "REFERENCES",
+  "GENERATED",
+  "COLLATE",
+  "DEFERRABLE",
+  "INITIALLY",
+];
+
+const TABLE_CONSTRAINT_KEYWORDS = ["CONSTRAINT", "PRIMARY", "UNIQUE", "CHECK", "FOREIGN", "EXCLUDE"];
+
+const FUNCTION_OPTION_KEYWORDS = [
+  "LANGUAGE",
+  "AS",
+  "IMMUTABLE",
+  "STABLE",
+  "VOLATILE",
+  "STRICT",
+  "CALLED",
+  "SECURITY",
+  "EXTERNAL",
+  "COST",
+  "ROWS",
+  "PARALLEL",
+  "SET",
+  "LEAKPROOF",
+  "NOT",
+  "WINDOW",
+  "TRANSFORM",
+  "SUPPORT",
+  "BEGIN",
+  "RETURN",
+];
+
+/**
+ * Replays migration DDL onto an in-memory DatabaseSchema, modelling objects
+ * the way the PostgreSQL catalogs report them (implicit constraint and index
+ * names, serial defaults, information_schema type names) so the result can be
+ * compared against DatabaseService.getSchema().
+ */
+export class SchemaReplayer {
+  constructor(private defaultSchema: string = "public") {}
+
+  createEmptySchema(): DatabaseSchema {
+    return {
+      tables: [],
+      views: [],
+      enums: [],
+      functions: [],
+      extensions: [],
+      indexes: [],
+      triggers: [],
+      rlsPolicies: [],
+    };
+  }
+
+  applySql(schema: DatabaseSchema, sql: string): void {
+    for (const statement of parseSql(sql)) {
+      this.applyStatement(schema, statement);
+    }
+  }
+
+  private applyStatement(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (statement.command === "COMMENT") {
+      this.applyComment(schema, statement);
+      return;
+    }
+
+    switch (`${statement.command} ${statement.objectType ?? ""}`.trim()) {
+      case "CREATE TABLE":
+        this.applyCreateTable(schema, statement);
+        break;
+      case "ALTER TABLE":
+        this.applyAlterTable(schema, statement);
+        break;
+      case "DROP TABLE":
+        statement.names.forEach((name) => this.dropTable(schema, this.qualify(name), this.hasCascade(statement)));
+        break;
+      case "CREATE INDEX":
+        this.applyCreateIndex(schema, statement);
+        break;
+      case "ALTER INDEX":
+        this.applyAlterIndex(schema, statement);
+        break;
+      case "DROP INDEX":
+        statement.names.forEach((name) => this.dropIndex(schema, name));
+        break;
+      case "CREATE VIEW":
+        this.applyCreateView(schema, statement);
+        break;
+      case "ALTER VIEW":
+        this.applyAlterView(schema, statement);
+        break;
+      case "DROP VIEW":
+        statement.names.forEach((name) => {
+          const view = this.qualify(name);
+          schema.views = schema.views.filter((v) => !this.matches(v, view));
+        });
+        break;
+      case "CREATE TRIGGER":
+        this.applyCreateTrigger(schema, statement);
+        break;
+      case "ALTER TRIGGER":
+        this.applyAlterTrigger(schema, statement);
+        break;
+      case "DROP TRIGGER":
+        this.applyDropTrigger(schema, statement);
+        break;
+      case "CREATE POLICY":
+        this.applyCreatePolicy(schema, statement);
+        break;
+      case "ALTER POLICY":
+        this.applyAlterPolicy(schema, statement);
+        break;
+      case "DROP POLICY":
+        this.applyDropPolicy(schema, statement);
+        break;
+      case "CREATE TYPE":
+        this.applyCreateType(schema, statement);
+        break;
+      case "ALTER TYPE":
+        this.applyAlterType(schema, statement);
+        break;
+      case "DROP TYPE":
+        statement.names.forEach((name) => {
+          const type = this.qualify(name);
+          schema.enums = schema.enums.filter((e) => !this.matches(e, type));
+        });
+        break;
+      case "CREATE FUNCTION":
+      case "CREATE PROCEDURE":
+        this.applyCreateFunction(schema, statement);
+        break;
+      case "ALTER FUNCTION":
+      case "ALTER PROCEDURE":
+        this.applyAlterFunction(schema, statement);
+        break;
+      case "DROP FUNCTION":
+      case "DROP PROCEDURE":
+        this.applyDropFunction(schema, statement);
+        break;
+      case "CREATE EXTENSION":
+        this.applyCreateExtension(schema, statement);
+        break;
+      case "DROP EXTENSION":
+        statement.names.forEach((name) => {
+          schema.extensions = schema.extensions.filter((e) => e.name !== name.name);
+        });
+        break;
+      case "DROP SCHEMA":
+        statement.names.forEach((name) => this.dropSchema(schema, name.name));
+        break;
+    }
+  }
+
+  // Tables
+
+  private applyCreateTable(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const target = this.qualify(statement.name);
+    if (this.findTable(schema, target)) return;
+
+    const table: Table = {
+      schema: target.schema,
+      name: target.name,
+      columns: [],
+      constraints: [],
+      indexes: [],
+    };
+    schema.tables.push(table);
+
+    const tokens = statement.tokens;
+    const nameEnd = this.indexAfterName(tokens, statement.name);
+    // CREATE TABLE ... AS / PARTITION OF / OF type carry no column list we can read
+    if (!isPunctuation(tokens[nameEnd], "(")) return;
+
+    for (const element of splitTopLevel(parenthesizedTokens(tokens, nameEnd))) {
+      if (element.length === 0) continue;
+      if (isKeyword(element[0], ...TABLE_CONSTRAINT_KEYWORDS)) {
+        this.addTableConstraint(schema, table, element, statement.text);
+      } else if (isKeyword(element[0], "LIKE")) {
+        this.copyColumnsFrom(schema, table, element);
+      } else {
+        this.addColumn(schema, table, element, statement.text);
+      }
+    }
+  }
+
+  private copyColumnsFrom(schema: DatabaseSchema, table: Table, tokens: SqlToken[]): void {
+    const source = readQualifiedName(tokens, 1);
+    const sourceTable = source && this.findTable(schema, this.qualify(source.name));
+    if (!sourceTable) return;
+
+    const includeDefaults = tokens.some((t) => isKeyword(t, "DEFAULTS", "ALL"));
+    for (const column of sourceTable.columns) {
+      table.columns.push({
+        ...column,
+        defaultValue: includeDefaults ? column.defaultValue : undefined,
+        ordinalPosition: table.columns.length + 1,
+      });
+    }
+  }
+
+  private addColumn(schema: DatabaseSchema, table: Table, tokens: SqlToken[], text: string): void {
+    const columnName = identifierValue(tokens[0]);
+    let typeEnd = 1;
+    while (typeEnd < tokens.length && !isKeyword(tokens[typeEnd], ...COLUMN_CONSTRAINT_KEYWORDS)) {
+      typeEnd = isPunctuation(tokens[typeEnd], "(") ? skipParenthesized(tokens, typeEnd) : typeEnd + 1;
+    }
+
+    const {serial, ...type} = resolveColumnType(tokensToSql(text, tokens.slice(1, typeEnd)));
+    const column: Column = {
+      name: columnName,
+      ...type,
+      isNullable: true,
+      isGenerated: false,
+      ordinalPosition: Math.max(0, ...table.columns.map((c) => c.ordinalPosition)) + 1,
+    };
+
+    if (serial) {
+      const sequenceName = makeObjectName(table.name, columnName, "seq");
+      const qualifiedSequence = table.schema === this.defaultSchema ? sequenceName : `${table.schema}.${sequenceName}`;
+      column.defaultValue = `nextval('${qualifiedSequence}'::regclass)`;
+      column.isNullable = false;
+    }
+
+    table.columns.push(column);
+
+    let constraintName: string | undefined;
+    let i = typeEnd;
+    while (i < tokens.length) {
+      const token = tokens[i];
+
+      if (isKeyword(token, "CONSTRAINT") && tokens[i + 1]) {
+        constraintName = identifierValue(tokens[i + 1]);
+        i += 2;
+        continue;
+      }
+
+      if (isKeyword(token, "NOT") && isKeyword(tokens[i + 1], "NULL")) {
+        column.isNullable = false;
+        i += 2;
+      } else if (isKeyword(token, "NULL")) {
+        column.isNullable = true;
+        i++;
+      } else if (isKeyword(token, "DEFAULT")) {
+        const end = this.findColumnClauseEnd(tokens, i + 1);
+        column.defaultValue = tokensToSql(text, tokens.slice(i + 1, end));
+        i = end;
+      } else if (isKeyword(token, "PRIMARY") && isKeyword(tokens[i + 1], "KEY")) {
+        this.addConstraint(schema, table, ConstraintType.PRIMARY_KEY, [columnName], constraintName);
+        i += 2;
+      } else if (isKeyword(token, "UNIQUE")) {
+        this.addConstraint(schema, table, ConstraintType.UNIQUE, [columnName], constraintName);
+        i++;
+      } else if (isKeyword(token, "CHECK") && isPunctuation(tokens[i + 1], "(")) {
+        const end = skipParenthesized(tokens, i + 1);
+        this.addConstraint(schema, table, ConstraintType.CHECK, [columnName], constraintName, {
+          checkClause: tokensToSql(text, parenthesizedTokens(tokens, i + 1)),
+        });
+        i = end;
+      } else if (isKeyword(token, "REFERENCES")) {
+        const end = this.findColumnClauseEnd(tokens, i + 1);
+        this.addForeignKey(schema, table, [columnName], tokens.slice(i + 1, end), constraintName);
+        i = end;
+      } else if (isKeyword(token, "GENERATED")) {
+        const asIndex = tokens.findIndex((t, index) => index > i && isKeyword(t, "AS"));
+        if (asIndex !== -1 && isKeyword(tokens[asIndex + 1], "IDENTITY")) {
+          column.isIdentity = true;
+          column.identityGeneration = isKeyword(tokens[i + 1], "ALWAYS") ? "ALWAYS" : "BY DEFAULT";
+          column.isNullable = false;
+          i = isPunctuation(tokens[asIndex + 2], "(") ? skipParenthesized(tokens, asIndex + 2) : asIndex + 2;
+        } else if (asIndex !== -1 && isPunctuation(tokens[asIndex + 1], "(")) {
+          column.isGenerated = true;
+          column.generationExpression = tokensToSql(text, parenthesizedTokens(tokens, asIndex + 1));
+          i = skipParenthesized(tokens, asIndex + 1);
+          if (isKeyword(tokens[i], "STORED", "VIRTUAL")) i++;
+        } else {
+          i++;
+        }
+      } else if (isKeyword(token, "DEFERRABLE", "DEFERRED")) {
+        const last = table.constraints[table.constraints.length - 1];
+        if (last) {
+          if (isKeyword(token, "DEFERRABLE")) last.isDeferrable = true;
+          if (isKeyword(token, "DEFERRED")) last.isDeferred = true;
+        }
+        i++;
+      } else {
+        i++;
+      }
+
+      constraintName = undefined;
+    }
+  }
+
+  private findColumnClauseEnd(tokens: SqlToken[], start: number): number {
+    let i = start;
+    while (i < tokens.length) {
+      const token = tokens[i];
+      const isClauseStart =
+        isKeyword(token, "CONSTRAINT", "PRIMARY", "UNIQUE", "CHECK", "REFERENCES", "GENERATED", "COLLATE", "DEFAULT", "DEFERRABLE", "INITIALLY") ||
+        (isKeyword(token, "NOT") && isKeyword(tokens[i + 1], "NULL", "DEFERRABLE")) ||
+        (isKeyword(token, "NULL") && i > start && !isKeyword(tokens[i - 1], "IS", "NOT", "SET"));
+      if (isClauseStart && i > start) break;
+      i = isPunctuation(token, "(") ? skipParenthesized(tokens, i) : i + 1;
+    }
+    return i;
+  }
+
+  private addTableConstraint(schema: DatabaseSchema, table: Table, tokens: SqlToken[], text: string): void {
+    let i = 0;
+    let name: string | undefined;
+    if (isKeyword(tokens[0], "CONSTRAINT") && tokens[1]) {
+      name = identifierValue(tokens[1]);
+      i = 2;
+    }
+
+    const columnList = (index: number) =>
+      isPunctuation(tokens[index], "(")
+        ? splitTopLevel(parenthesizedTokens(tokens, index)).map((part) => identifierValue(part[0]))
+        : [];
+
+    if (isKeyword(tokens[i], "PRIMARY") && isKeyword(tokens[i + 1], "KEY")) {
+      this.addConstraintOrUseIndex(schema, table, ConstraintType.PRIMARY_KEY, columnList(i + 2), name, tokens);
+    } else if (isKeyword(tokens[i], "UNIQUE")) {
+      let listIndex = i + 1;
+      while (listIndex < tokens.length && !isPunctuation(tokens[listIndex], "(") && !isKeyword(tokens[listIndex], "USING")) {
+        listIndex++;
+      }
+      this.addConstraintOrUseIndex(schema, table, ConstraintType.UNIQUE, columnList(listIndex), name, tokens);
+    } else if (isKeyword(tokens[i], "CHECK") && isPunctuation(tokens[i + 1], "(")) {
+      const expression = parenthesizedTokens(tokens, i + 1);
+      const referenced = expression
+        .filter((t) => isIdentifier(t))
+        .map((t) => identifierValue(t))
+        .find((identifier) => table.columns.some((c) => c.name === identifier));
+      this.addConstraint(schema, table, ConstraintType.CHECK, referenced ? [referenced] : [], name, {
+        checkClause: tokensToSql(text, expression),
+      });
+    } else if (isKeyword(tokens[i], "FOREIGN") && isKeyword(tokens[i + 1], "KEY")) {
+      const columns = columnList(i + 2);
+      const referencesIndex = tokens.findIndex((t) => isKeyword(t, "REFERENCES"));
+      if (referencesIndex !== -1) {
+        this.addForeignKey(schema, table, columns, tokens.slice(referencesIndex + 1), name);
+      }
+    }
+
+    const constraint = name ? table.constraints.find((c) => c.name === name) : table.constraints[table.constraints.length - 1];
+    if (constraint) {
+      if (tokens.some((t, index) => isKeyword(t, "DEFERRABLE") && !isKeyword(tokens[index - 1], "NOT"))) {
+        constraint.isDeferrable = true;
+      }
+      if (tokens.some((t) => isKeyword(t, "DEFERRED"))) {
+        constraint.isDeferred = true;
+      }
+    }
+  }
+
+  private addConstraintOrUseIndex(
+    schema: DatabaseSchema,
+    table: Table,
+    type: ConstraintType,
+    columns: string[],
+    name: string | undefined,
+    tokens: SqlToken[]
+  ): void {
+    // ADD CONSTRAINT ... PRIMARY KEY USING INDEX idx turns an existing index into the constraint
+    const usingIndex = tokens.findIndex((t, index) => isKeyword(t, "USING") && isKeyword(tokens[index + 1], "INDEX"));
+    if (usingIndex !== -1 && tokens[usingIndex + 2]) {
+      const indexName = identifierValue(tokens[usingIndex + 2]);
+      const index = schema.indexes.find((i) => i.schemaName === table.schema && i.name === indexName);
+      if (index) {
+        const constraintName = name ?? indexName;
+        this.renameIndex(schema, index, constraintName);
+        index.isUnique = true;
+        index.isPrimary = type === ConstraintType.PRIMARY_KEY;
+        table.constraints.push(this.buildConstraint(constraintName, type, index.columns.map((c) => c.name)));
+        if (type === ConstraintType.PRIMARY_KEY) this.markNotNull(table, index.columns.map((c) => c.name));
+        return;
+      }
+    }
+
+    this.addConstraint(schema, table, type, columns, name);
+  }
+
+  private addConstraint(
+    schema: DatabaseSchema,
+    table: Table,
+    type: ConstraintType,
+    columns: string[],
+    name?: string,
+    extra: Partial<Constraint> = {}
+  ): Constraint {
+    const labels: Record<string, string> = {
+      [ConstraintType.PRIMARY_KEY]: "pkey",
+      [ConstraintType.UNIQUE]: "key",
+      [ConstraintType.CHECK]: "check",
+      [ConstraintType.FOREIGN_KEY]: "fkey",
+    };
+    const constraintName =
+      name ??
+      this.chooseName(
+        schema,
+        table,
+        table.name,
+        type === ConstraintType.PRIMARY_KEY || columns.length === 0 ? undefined : columns.join("_"),
+        labels[type]
+      );
+
+    const constraint = {...this.buildConstraint(constraintName, type, columns), ...extra};
+    table.constraints.push(constraint);
+
+    // Primary keys and unique constraints are backed by an index of the same name
+    if (type === ConstraintType.PRIMARY_KEY || type === ConstraintType.UNIQUE) {
+      this.addIndex(schema, table, {
+        name: constraintName,
+        tableName: table.name,
+        schemaName: table.schema,
+        columns: columns.map((column) => ({name: column, direction: "ASC"})),
+        isUnique: true,
+        isPrimary: type === ConstraintType.PRIMARY_KEY,
+        method: "btree",
+        isConcurrent: false,
+      });
+    }
+    if (type === ConstraintType.PRIMARY_KEY) {
+      this.markNotNull(table, columns);
+    }
+
+    return constraint;
+  }
+
+  private buildConstraint(name: string, type: ConstraintType, columns: string[]): Constraint {
+    return {name, type, columns, isDeferrable: false, isDeferred: false};
+  }
+
+  private addForeignKey(
+    schema: DatabaseSchema,
+    table: Table,
+    columns: string[],
+    referenceTokens: SqlToken[],
+    name?: string
+  ): void {
+    const reference = readQualifiedName(referenceTokens, 0);
+    if (!reference) return;
+    const referenced = this.qualify(reference.name);
+
+    let referencedColumns: string[] = [];
+    if (isPunctuation(referenceTokens[reference.next], "(")) {
+      referencedColumns = splitTopLevel(parenthesizedTokens(referenceTokens, reference.next)).map((part) =>
+        identifierValue(part[0])
+      );
+    } else {
+      const referencedTable = referenced.schema === table.schema && referenced.name === table.name
+        ? table
+        : this.findTable(schema, referenced);
+      referencedColumns =
+        referencedTable?.constraints.find((c) => c.type === ConstraintType.PRIMARY_KEY)?.columns ?? [];
+    }
+
+    const action = (event: string): string => {
+      const index = referenceTokens.findIndex(
+        (t, i) => isKeyword(t, "ON") && isKeyword(referenceTokens[i + 1], event)
+      );
+      if (index === -1) return "NO ACTION";
+      const first = referenceTokens[index + 2];
+      const second = referenceTokens[index + 3];
+      if (isKeyword(first, "SET", "NO") && second) {
+        return `${first.value.toUpperCase()} ${second.value.toUpperCase()}`;
+      }
+      return first ? first.value.toUpperCase() : "NO ACTION";
+    };
+
+    this.addConstraint(schema, table, ConstraintType.FOREIGN_KEY, columns, name, {
+      referencedSchema: referenced.schema,
+      referencedTable: referenced.name,
+      referencedColumns,
+      onDelete: action("DELETE"),
+      onUpdate: action("UPDATE"),
+    });
+  }
+
+  private markNotNull(table: Table, columns: string[]): void {
+    for (const column of table.columns) {
+      if (columns.includes(column.name)) {
+        column.isNullable = false;
+      }
+    }
+  }
+
+  private applyAlterTable(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const target = this.qualify(statement.name);
+    const table = this.findTable(schema, target);
+
+    if (!table) {
+      // ALTER TABLE also accepts views for renames and schema moves
+      const view = schema.views.find((v) => this.matches(v, target));
+      if (view) {
+        this.applyRenameOrMove(statement.alterActions.map((a) => a.tokens).flat(), view);
+      }
+      return;
+    }
+
+    for (const {action, tokens} of statement.alterActions) {
+      switch (action) {
+        case "ADD COLUMN": {
+          let i = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+          if (isKeyword(tokens[i], "IF") && isKeyword(tokens[i + 1], "NOT")) {
+            i += 3;
+            if (table.columns.some((c) => c.name === identifierValue(tokens[i]))) break;
+          }
+          this.addColumn(schema, table, tokens.slice(i), statement.text);
+          break;
+        }
+        case "DROP COLUMN": {
+          let i = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+          if (isKeyword(tokens[i], "IF") && isKeyword(tokens[i + 1], "EXISTS")) i += 2;
+          if (tokens[i]) this.dropColumn(schema, table, identifierValue(tokens[i]));
+          break;
+        }
+        case "ALTER COLUMN":
+          this.applyAlterColumn(table, tokens, statement.text);
+          break;
+        case "ADD CONSTRAINT":
+          this.addTableConstraint(schema, table, tokens.slice(1), statement.text);
+          break;
+        case "DROP CONSTRAINT": {
+          let i = 2;
+          if (isKeyword(tokens[i], "IF") && isKeyword(tokens[i + 1], "EXISTS")) i += 2;
+          if (tokens[i]) this.dropConstraint(schema, table, identifierValue(tokens[i]));
+          break;
+        }
+        case "RENAME COLUMN": {
+          const from = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+          if (tokens[from] && isKeyword(tokens[from + 1], "TO") && tokens[from + 2]) {
+            this.renameColumn(schema, table, identifierValue(tokens[from]), identifierValue(tokens[from + 2]));
+          }
+          break;
+        }
+        case "RENAME CONSTRAINT": {
+          if (tokens[2] && isKeyword(tokens[3], "TO") && tokens[4]) {
+            const constraint = table.constraints.find((c) => c.name === identifierValue(tokens[2]));
+            if (constraint) {
+              const index = schema.indexes.find((i) => i.schemaName === table.schema && i.name === constraint.name);
+              constraint.name = identifierValue(tokens[4]);
+              if (index) this.renameIndex(schema, index, constraint.name);
+            }
+          }
+          break;
+        }
+        case "RENAME TABLE":
+        case "SET SCHEMA":
+          this.renameOrMoveTable(schema, table, tokens);
+          break;
+      }
+    }
+  }
+
+  private applyAlterColumn(table: Table, tokens: SqlToken[], text: string): void {
+    const nameIndex = isKeyword(tokens[1], "COLUMN") ? 2 : 1;
+    if (!tokens[nameIndex]) return;
+    const column = table.columns.find((c) => c.name === identifierValue(tokens[nameIndex]));
+    if (!column) return;
+
+    const rest = tokens.slice(nameIndex + 1);
+    const [first, second] = rest;
+
+    if (isKeyword(first, "TYPE") || (isKeyword(first, "SET") && isKeyword(second, "DATA"))) {
+      const typeStart = isKeyword(first, "TYPE") ? 1 : 3;
+      let typeEnd = typeStart;
+      while (typeEnd < rest.length && !isKeyword(rest[typeEnd], "USING", "COLLATE")) {
+        typeEnd = isPunctuation(rest[typeEnd], "(") ? skipParenthesized(rest, typeEnd) : typeEnd + 1;
+      }
+      const {serial: _serial, ...type} = resolveColumnType(tokensToSql(text, rest.slice(typeStart, typeEnd)));
+      Object.assign(column, {
+        characterMaximumLength: undefined,
+        numericPrecision: undefined,
+        numericScale: undefined,
+        ...type,
+      });
+    } else if (isKeyword(first, "SET") && isKeyword(second, "DEFAULT")) {
+      column.defaultValue = tokensToSql(text, rest.slice(2));
+    } else if (isKeyword(first, "DROP") && isKeyword(second, "DEFAULT")) {
+      column.defaultValue = undefined;
+    } else if (isKeyword(first, "SET") && isKeyword(second, "NOT")) {
+      column.isNullable = false;
+    } else if (isKeyword(first, "DROP") && isKeyword(second, "NOT")) {
+      column.isNullable = true;
+    } else if (isKeyword(first, "ADD") && isKeyword(second, "GENERATED")) {
+      column.isIdentity = true;
+      column.identityGeneration = isKeyword(rest[2], "ALWAYS") ? "ALWAYS" : "BY DEFAULT";
+      column.isNullable = false;
+    } else if (isKeyword(first, "SET") && isKeyword(second, "GENERATED") && column.isIdentity) {
+      column.identityGeneration = isKeyword(rest[2], "ALWAYS") ? "ALWAYS" : "BY DEFAULT";
+    } else if (isKeyword(first, "DROP") && isKeyword(second, "IDENTITY")) {
+      column.isIdentity = false;
+      column.identityGeneration = undefined;
+    } else if (isKeyword(first, "DROP") && isKeyword(second, "EXPRESSION")) {
+      column.isGenerated = false;
+      column.generationExpression = undefined;
+    }
+  }
+
+  private dropColumn(schema: DatabaseSchema, table: Table, columnName: string): void {
+    table.columns = table.columns.filter((c) => c.name !== columnName);
+
+    // Constraints and indexes involving the column go with it
+    for (const constraint of table.constraints.filter((c) => c.columns.includes(columnName))) {
+      this.dropConstraint(schema, table, constraint.name);
+    }
+    schema.indexes = schema.indexes.filter(
+      (i) => !(i.schemaName === table.schema && i.tableName === table.name && i.columns.some((c) => c.name === columnName))
+    );
+    table.indexes = table.indexes.filter((i) => !i.columns.some((c) => c.name === columnName));
+  }
+
+  private dropConstraint(schema: DatabaseSchema, table: Table, constraintName: string): void {
+    table.constraints = table.constraints.filter((c) => c.name !== constraintName);
+    schema.indexes = schema.indexes.filter(
+      (i) => !(i.schemaName === table.schema && i.tableName === table.name && i.name === constraintName)
+    );
+    table.indexes = table.indexes.filter((i) => i.name !== constraintName);
+  }
+
+  private renameColumn(schema: DatabaseSchema, table: Table, from: string, to: string): void {
+    const column = table.columns.find((c) => c.name === from);
+    if (!column) return;
+    column.name = to;
+
+    const rename = (names: string[] | undefined) => names?.map((name) => (name === from ? to : name));
+    for (const constraint of table.constraints) {
+      constraint.columns = rename(constraint.columns) ?? [];
+    }
+    for (const other of schema.tables) {
+      for (const constraint of other.constraints) {
+        if (constraint.referencedSchema === table.schema && constraint.referencedTable === table.name) {
+          constraint.referencedColumns = rename(constraint.referencedColumns);
+        }
+      }
+    }
+    for (const index of schema.indexes.filter((i) => i.schemaName === table.schema && i.tableName === table.name)) {
+      index.columns = index.columns.map((c) => (c.name === from ? {...c, name: to} : c));
+    }
+  }
+
+  private renameOrMoveTable(schema: DatabaseSchema, table: Table, tokens: SqlToken[]): void {
+    const previous = {schema: table.schema, name: table.name};
+    this.applyRenameOrMove(tokens, table);
+    if (previous.schema === table.schema && previous.name === table.name) return;
+
+    const follows = (object: {schema?: string; schemaName?: string; tableName: string}) =>
+      (object.schema ?? object.schemaName) === previous.schema && object.tableName === previous.name;
+
+    for (const index of schema.indexes.filter(follows)) {
+      index.schemaName = table.schema;
+      index.tableName = table.name;
+    }
+    for (const index of table.indexes) {
+      index.schemaName = table.schema;
+      index.tableName = table.name;
+    }
+    for (const trigger of schema.triggers.filter(follows)) {
+      trigger.schema = table.schema;
+      trigger.tableName = table.name;
+    }
+    for (const policy of schema.rlsPolicies.filter(follows)) {
+      policy.schema = table.schema;
+      policy.tableName = table.name;
+    }
+    for (const other of schema.tables) {
+      for (const constraint of other.constraints) {
+        if (constraint.referencedSchema === previous.schema && constraint.referencedTable === previous.name) {
+          constraint.referencedSchema = table.schema;
+          constraint.referencedTable = table.name;
+        }
+      }
+    }
+  }
+
+  private applyRenameOrMove(tokens: SqlToken[], object: {schema: string; name: string}): void {
+    const renameIndex = tokens.findIndex((t, i) => isKeyword(t, "RENAME") && isKeyword(tokens[i + 1], "TO"));
+    if (renameIndex !== -1 && tokens[renameIndex + 2]) {
+      object.name = identifierValue(tokens[renameIndex + 2]);
+    }
+    const schemaIndex = tokens.findIndex((t, i) => isKeyword(t, "SET") && isKeyword(tokens[i + 1], "SCHEMA"));
+    if (schemaIndex !== -1 && tokens[schemaIndex + 2]) {
+      object.schema = identifierValue(tokens[schemaIndex + 2]);
+    }
+  }
+
+  private dropTable(schema: DatabaseSchema, target: QualifiedObject, cascade: boolean): void {
+    const onTable = (schemaName: string, tableName: string) =>
+      schemaName === target.schema && tableName === target.name;
+
+    schema.tables = schema.tables.filter((t) => !this.matches(t, target));
+    schema.indexes = schema.indexes.filter((i) => !onTable(i.schemaName, i.tableName));
+    schema.triggers = schema.triggers.filter((t) => !onTable(t.schema, t.tableName));
+    schema.rlsPolicies = schema.rlsPolicies.filter((p) => !onTable(p.schema, p.tableName));
+
+    if (cascade) {
+      for (const table of schema.tables) {
+        table.constraints = table.constraints.filter(
+          (c) => !(c.type === ConstraintType.FOREIGN_KEY && c.referencedSchema === target.schema && c.referencedTable === target.name)
+        );
+      }
+    }
+  }
+
+  private dropSchema(schema: DatabaseSchema, schemaName: string): void {
+    schema.tables = schema.tables.filter((t) => t.schema !== schemaName);
+    schema.views = schema.views.filter((v) => v.schema !== schemaName);
+    schema.indexes = schema.indexes.filter((i) => i.schemaName !== schemaName);
+    schema.triggers = schema.triggers.filter((t) => t.schema !== schemaName);
+    schema.rlsPolicies = schema.rlsPolicies.filter((p) => p.schema !== schemaName);
+    schema.enums = schema.enums.filter((e) => e.schema !== schemaName);
+    schema.functions = schema.functions.filter((f) => f.schema !== schemaName);
+  }
+
+  // Indexes
+
+  private applyCreateIndex(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.table) return;
+    const tokens = statement.tokens;
+    const target = this.qualify(statement.table);
+    const table = this.findTable(schema, target);
+
+    let i = tokens.findIndex((t) => isKeyword(t, "ON")) + 1;
+    if (isKeyword(tokens[i], "ONLY")) i++;
+    i = readQualifiedName(tokens, i)?.next ?? i;
+
+    let method = "btree";
+    if (isKeyword(tokens[i], "USING") && tokens[i + 1]) {
+      method = identifierValue(tokens[i + 1]);
+      i += 2;
+    }
+    if (!isPunctuation(tokens[i], "(")) return;
+
+    const columns: IndexColumn[] = [];
+    const nameParts: string[] = [];
+    for (const element of splitTopLevel(parenthesizedTokens(tokens, i))) {
+      const simpleColumn = isIdentifier(element[0]) && !isPunctuation(element[1], "(") && !isPunctuation(element[1], ".");
+      // Expressions are named after their function the way PostgreSQL names index columns
+      const name = simpleColumn
+        ? identifierValue(element[0])
+        : isIdentifier(element[0]) && isPunctuation(element[1], "(")
+          ? identifierValue(element[0])
+          : "expr";
+      nameParts.push(name);
+      columns.push({
+        name,
+        direction: element.some((t) => isKeyword(t, "DESC")) ? "DESC" : "ASC",
+        ...(element.some((t) => isKeyword(t, "FIRST")) ? {nullsOrder: "FIRST" as const} : {}),
+      });
+    }
+    i = skipParenthesized(tokens, i);
+
+    const whereIndex = tokens.findIndex((t, index) => index >= i && isKeyword(t, "WHERE"));
+    const condition = whereIndex !== -1 ? tokensToSql(statement.text, tokens.slice(whereIndex + 1)) : undefined;
+
+    const name =
+      statement.name?.name ??
+      this.chooseName(schema, table, target.name, nameParts.join("_"), "idx");
+    if (statement.ifNotExists && schema.indexes.some((index) => index.schemaName === target.schema && index.name === name)) {
+      return;
+    }
+
+    this.addIndex(schema, table, {
+      name,
+      tableName: target.name,
+      schemaName: target.schema,
+      columns,
+      isUnique: statement.unique,
+      isPrimary: false,
+      method,
+      condition,
+      isConcurrent: statement.concurrently,
+      definition: statement.text.replace(/^(CREATE\s+(?:UNIQUE\s+)?INDEX)\s+CONCURRENTLY\b/i, "$1"),
+    });
+  }
+
+  private addIndex(schema: DatabaseSchema, table: Table | undefined, index: Index): void {
+    schema.indexes = schema.indexes.filter((i) => !(i.schemaName === index.schemaName && i.name === index.name));
+    schema.indexes.push(index);
+    if (table) {
+      table.indexes = table.indexes.filter((i) => i.name !== index.name);
+      table.indexes.push(index);
+    }
+  }
+
+  private applyAlterIndex(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const index = this.findIndex(schema, statement.name);
+    const renameIndex = statement.tokens.findIndex(
+      (t, i) => isKeyword(t, "RENAME") && isKeyword(statement.tokens[i + 1], "TO")
+    );
+    if (index && renameIndex !== -1 && statement.tokens[renameIndex + 2]) {
+      const newName = identifierValue(statement.tokens[renameIndex + 2]);
+      // Renaming a constraint's index renames the constraint as well
+      const table = this.findTable(schema, {schema: index.schemaName, name: index.tableName});
+      const constraint = table?.constraints.find((c) => c.name === index.name);
+      if (constraint) constraint.name = newName;
+      this.renameIndex(schema, index, newName);
+    }
+  }
+
+  private renameIndex(schema: DatabaseSchema, index: Index, newName: string): void {
+    const table = this.findTable(schema, {schema: index.schemaName, name: index.tableName});
+    const tableIndex = table?.indexes.find((i) => i.name === index.name);
+    if (tableIndex) tableIndex.name = newName;
+    index.name = newName;
+  }
+
+  private dropIndex(schema: DatabaseSchema, name: QualifiedName): void {
+    const index = this.findIndex(schema, name);
+    if (!index) return;
+    schema.indexes = schema.indexes.filter((i) => i !== index);
+    const table = this.findTable(schema, {schema: index.schemaName, name: index.tableName});
+    if (table) {
+      table.indexes = table.indexes.filter((i) => i.name !== index.name);
+    }
+  }
+
+  private findIndex(schema: DatabaseSchema, name: QualifiedName): Index | undefined {
+    if (name.schema) {
+      return schema.indexes.find((i) => i.schemaName === name.schema && i.name === name.name);
+    }
+    return (
+      schema.indexes.find((i) => i.schemaName === this.defaultSchema && i.name === name.name) ??
+      schema.indexes.find((i) => i.name === name.name)
+    );
+  }
+
+  // Views
+
+  private applyCreateView(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const target = this.qualify(statement.name);
+    const tokens = statement.tokens;
+
+    let i = this.indexAfterName(tokens, statement.name);
+    while (i < tokens.length && !isKeyword(tokens[i], "AS")) {
+      i = isPunctuation(tokens[i], "(") ? skipParenthesized(tokens, i) : i + 1;
+    }
+    let bodyTokens = tokens.slice(i + 1);
+    const checkOption = bodyTokens.findIndex(
+      (t, index) => isKeyword(t, "WITH") && bodyTokens.slice(index + 1, index + 4).some((next) => isKeyword(next, "CHECK"))
+    );
+    if (checkOption !== -1) {
+      bodyTokens = bodyTokens.slice(0, checkOption);
+    }
+
+    const view: View = {
+      schema: target.schema,
+      name: target.name,
+      definition: tokensToSql(statement.text, bodyTokens),
+      columns: [],
+      owner: "",
+      dependencies: [],
+      isUpdatable: false,
+      hasInsteadOfTriggers: false,
+    };
+
+    schema.views = schema.views.filter((v) => !this.matches(v, target));
+    schema.views.push(view);
+  }
+
+  private applyAlterView(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const view = schema.views.find((v) => this.matches(v, this.qualify(statement.name!)));
+    if (view) {
+      this.applyRenameOrMove(statement.tokens, view);
+    }
+  }
+
+  // Triggers
+
+  private applyCreateTrigger(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name || !statement.table) return;
+    const tokens = statement.tokens;
+    const table = this.qualify(statement.table);
+    const onIndex = tokens.findIndex((t) => isKeyword(t, "ON"));
+
+    let timing = TriggerTiming.AFTER;
+    const events: TriggerEvent[] = [];
+    for (const token of tokens.slice(0, onIndex)) {
+      if (isKeyword(token, "BEFORE")) timing = TriggerTiming.BEFORE;
+      if (isKeyword(token, "INSTEAD")) timing = TriggerTiming.INSTEAD_OF;
+      if (isKeyword(token, "INSERT", "UPDATE", "DELETE", "TRUNCATE")) {
+        events.push(token.value.toUpperCase() as TriggerEvent);
+      }
+    }
+
+    const orientation = tokens.some((t, i) => i > onIndex && isKeyword(t, "ROW"))
+      ? TriggerOrientation.ROW
+      : TriggerOrientation.STATEMENT;
+
+    const whenIndex = tokens.findIndex((t, i) => i > onIndex && isKeyword(t, "WHEN"));
+    const condition =
+      whenIndex !== -1 && isPunctuation(tokens[whenIndex + 1], "(")
+        ? tokensToSql(statement.text, parenthesizedTokens(tokens, whenIndex + 1))
+        : undefined;
+
+    const executeIndex = tokens.findIndex((t) => isKeyword(t, "EXECUTE"));
+    const functionName = executeIndex !== -1 ? readQualifiedName(tokens, executeIndex + 2) : null;
+    const functionCall = executeIndex !== -1 ? tokensToSql(statement.text, tokens.slice(executeIndex + 2)) : "";
+
+    const trigger: Trigger = {
+      schema: table.schema,
+      name: statement.name.name,
+      tableName: table.name,
+      timing,
+      events,
+      orientation,
+      functionName: functionName?.name.name ?? "",
+      functionSchema: functionName?.name.schema ?? this.defaultSchema,
+      definition: `EXECUTE FUNCTION ${functionCall}`,
+      condition,
+      isConstraint: tokens.slice(0, onIndex).some((t) => isKeyword(t, "CONSTRAINT")),
+      isEnabled: true,
+    };
+
+    schema.triggers = schema.triggers.filter((t) => !this.sameTrigger(t, trigger.name, table));
+    schema.triggers.push(trigger);
+  }
+
+  private applyAlterTrigger(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name || !statement.table) return;
+    const table = this.qualify(statement.table);
+    const trigger = schema.triggers.find((t) => this.sameTrigger(t, statement.name!.name, table));
+    const renameIndex = statement.tokens.findIndex(
+      (t, i) => isKeyword(t, "RENAME") && isKeyword(statement.tokens[i + 1], "TO")
+    );
+    if (trigger && renameIndex !== -1 && statement.tokens[renameIndex + 2]) {
+      trigger.name = identifierValue(statement.tokens[renameIndex + 2]);
+    }
+  }
+
+  private applyDropTrigger(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name || !statement.table) return;
+    const table = this.qualify(statement.table);
+    schema.triggers = schema.triggers.filter((t) => !this.sameTrigger(t, statement.name!.name, table));
+  }
+
+  private sameTrigger(trigger: Trigger, name: string, table: QualifiedObject): boolean {
+    return trigger.name === name && trigger.schema === table.schema && trigger.tableName === table.name;
+  }
+
+  // Row level security policies
+
+  private applyCreatePolicy(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name || !statement.table) return;
+    const table = this.qualify(statement.table);
+    const tokens = statement.tokens;
+
+    const forIndex = tokens.findIndex((t) => isKeyword(t, "FOR"));
+    const command = forIndex !== -1 && tokens[forIndex + 1]
+      ? (tokens[forIndex + 1].value.toUpperCase() as RLSCommand)
+      : RLSCommand.ALL;
+
+    const policy: RLSPolicy = {
+      schema: table.schema,
+      tableName: table.name,
+      policyName: statement.name.name,
+      permissive: !tokens.some((t) => isKeyword(t, "RESTRICTIVE")),
+      roles: ["public"],
+      command,
+    };
+    this.applyPolicyClauses(policy, statement);
+
+    schema.rlsPolicies = schema.rlsPolicies.filter((p) => !this.samePolicy(p, policy.policyName, table));
+    schema.rlsPolicies.push(policy);
+  }
+
+  private applyAlterPolicy(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name || !statement.table) return;
+    const table = this.qualify(statement.table);
+    const policy = schema.rlsPolicies.find((p) => this.samePolicy(p, statement.name!.name, table));
+    if (!policy) return;
+
+    const tokens = statement.tokens;
+    const renameIndex = tokens.findIndex((t, i) => isKeyword(t, "RENAME") && isKeyword(tokens[i + 1], "TO"));
+    if (renameIndex !== -1 && tokens[renameIndex + 2]) {
+      policy.policyName = identifierValue(tokens[renameIndex + 2]);
+      return;
+    }
+    this.applyPolicyClauses(policy, statement);
+  }
+
+  private applyPolicyClauses(policy: RLSPolicy, statement: ParsedStatement): void {
+    const tokens = statement.tokens;
+
+    const toIndex = tokens.findIndex((t) => isKeyword(t, "TO"));
+    if (toIndex !== -1) {
+      const roles: string[] = [];
+      for (let i = toIndex + 1; i < tokens.length && !isKeyword(tokens[i], "USING", "WITH"); i++) {
+        if (isIdentifier(tokens[i])) roles.push(identifierValue(tokens[i]));
+      }
+      policy.roles = roles;
+    }
+
+    const usingIndex = tokens.findIndex((t) => isKeyword(t, "USING"));
+    if (usingIndex !== -1 && isPunctuation(tokens[usingIndex + 1], "(")) {
+      policy.qualExpression = tokensToSql(statement.text, parenthesizedTokens(tokens, usingIndex + 1));
+    }
+
+    const checkIndex = tokens.findIndex((t, i) => isKeyword(t, "WITH") && isKeyword(tokens[i + 1], "CHECK"));
+    if (checkIndex !== -1 && isPunctuation(tokens[checkIndex + 2], "(")) {
+      policy.withCheckExpression = tokensToSql(statement.text, parenthesizedTokens(tokens, checkIndex + 2));
+    }
+  }
+
+  private applyDropPolicy(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name || !statement.table) return;
+    const table = this.qualify(statement.table);
+    schema.rlsPolicies = schema.rlsPolicies.filter((p) => !this.samePolicy(p, statement.name!.name, table));
+  }
+
+  private samePolicy(policy: RLSPolicy, name: string, table: QualifiedObject): boolean {
+    return policy.policyName === name && policy.schema === table.schema && policy.tableName === table.name;
+  }
+
+  // Types
+
+  private applyCreateType(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const tokens = statement.tokens;
+    const i = this.indexAfterName(tokens, statement.name);
+    if (!isKeyword(tokens[i], "AS") || !isKeyword(tokens[i + 1], "ENUM") || !isPunctuation(tokens[i + 2], "(")) {
+      return;
+    }
+
+    const target = this.qualify(statement.name);
+    const values = parenthesizedTokens(tokens, i + 2)
+      .filter((t) => t.type === "string")
+      .map((t) => this.stringValue(t));
+
+    schema.enums = schema.enums.filter((e) => !this.matches(e, target));
+    schema.enums.push({schema: target.schema, name: target.name, values});
+  }
+
+  private applyAlterType(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const target = this.qualify(statement.name);
+    const enumType = schema.enums.find((e) => this.matches(e, target));
+    if (!enumType) return;
+
+    const tokens = statement.tokens.slice(this.indexAfterName(statement.tokens, statement.name));
+    const strings = tokens.filter((t) => t.type === "string").map((t) => this.stringValue(t));
+
+    if (isKeyword(tokens[0], "ADD") && isKeyword(tokens[1], "VALUE") && strings[0] !== undefined) {
+      const value = strings[0];
+      if (enumType.values.includes(value)) return;
+      const anchor = strings[1] !== undefined ? enumType.values.indexOf(strings[1]) : -1;
+      if (anchor !== -1 && tokens.some((t) => isKeyword(t, "BEFORE"))) {
+        enumType.values.splice(anchor, 0, value);
+      } else if (anchor !== -1) {
+        enumType.values.splice(anchor + 1, 0, value);
+      } else {
+        enumType.values.push(value);
+      }
+    } else if (isKeyword(tokens[0], "RENAME") && isKeyword(tokens[1], "VALUE") && strings.length === 2) {
+      enumType.values = enumType.values.map((v) => (v === strings[0] ? strings[1] : v));
+    } else {
+      this.renameOrMoveType(schema, enumType, tokens);
+    }
+  }
+
+  private renameOrMoveType(schema: DatabaseSchema, enumType: Enum, tokens: SqlToken[]): void {
+    const previousName = enumType.name;
+    this.applyRenameOrMove(tokens, enumType);
+    if (previousName === enumType.name) return;
+
+    // Columns refer to the type by name
+    for (const table of schema.tables) {
+      for (const column of table.columns) {
+        if (column.udtName === previousName) column.udtName = enumType.name;
+        if (column.udtName === `_${previousName}`) column.udtName = `_${enumType.name}`;
+      }
+    }
+  }
+
+  // Functions and procedures
+
+  private applyCreateFunction(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const tokens = statement.tokens;
+    const target = this.qualify(statement.name);
+    const argsIndex = this.indexAfterName(tokens, statement.name);
+    if (!isPunctuation(tokens[argsIndex], "(")) return;
+
+    const parameters = this.parseParameters(parenthesizedTokens(tokens, argsIndex), statement.text);
+
+    let returnType = "";
+    let language = "sql";
+    let definition = "";
+    let i = skipParenthesized(tokens, argsIndex);
+    while (i < tokens.length) {
+      const token = tokens[i];
+      if (isKeyword(token, "RETURNS") && !isKeyword(tokens[i + 1], "NULL")) {
+        let end = i + 1;
+        while (end < tokens.length && !isKeyword(tokens[end], ...FUNCTION_OPTION_KEYWORDS)) {
+          end = isPunctuation(tokens[end], "(") ? skipParenthesized(tokens, end) : end + 1;
+        }
+        returnType = tokensToSql(statement.text, tokens.slice(i + 1, end));
+        i = end;
+      } else if (isKeyword(token, "LANGUAGE") && tokens[i + 1]) {
+        const languageToken = tokens[i + 1];
+        language = languageToken.type === "string" ? this.stringValue(languageToken) : identifierValue(languageToken);
+        i += 2;
+      } else if (isKeyword(token, "AS") && tokens[i + 1]) {
+        definition = this.stringValue(tokens[i + 1]);
+        i += 2;
+      } else if (isKeyword(token, "BEGIN", "RETURN")) {
+        definition = tokensToSql(statement.text, tokens.slice(i));
+        break;
+      } else {
+        i = isPunctuation(token, "(") ? skipParenthesized(tokens, i) : i + 1;
+      }
+    }
+
+    const fn: Function = {schema: target.schema, name: target.name, returnType, parameters, language, definition};
+    const signature = this.functionSignature(parameters);
+    schema.functions = schema.functions.filter(
+      (f) => !(this.matches(f, target) && this.functionSignature(f.parameters) === signature)
+    );
+    schema.functions.push(fn);
+  }
+
+  private parseParameters(tokens: SqlToken[], text: string): FunctionParameter[] {
+    const parameters: FunctionParameter[] = [];
+
+    for (const part of splitTopLevel(tokens)) {
+      if (part.length === 0) continue;
+      let i = 0;
+      let mode: FunctionParameter["mode"] = "IN";
+      if (isKeyword(part[0], "IN", "OUT", "INOUT", "VARIADIC")) {
+        const keyword = part[0].value.toUpperCase();
+        mode = keyword === "OUT" || keyword === "INOUT" ? keyword : "IN";
+        i = 1;
+      }
+
+      let end = part.findIndex((t, index) => index >= i && (isKeyword(t, "DEFAULT") || (t.type === "operator" && t.value === "=")));
+      if (end === -1) end = part.length;
+
+      // A parameter name is only present when something besides the type follows it
+      const typeTokens = part.slice(i, end);
+      const hasName = typeTokens.length > 1 && isIdentifier(typeTokens[0]) && !this.startsType(typeTokens);
+      parameters.push({
+        name: hasName ? identifierValue(typeTokens[0]) : "",
+        type: tokensToSql(text, hasName ? typeTokens.slice(1) : typeTokens),
+        mode,
+      });
+    }
+
+    return parameters;
+  }
+
+  private startsType(tokens: SqlToken[]): boolean {
+    const multiWordTypes = ["double precision", "character varying", "bit varying", "timestamp with", "timestamp without", "time with", "time without"];
+    const start = tokens.slice(0, 2).map((t) => t.value.toLowerCase()).join(" ");
+    return multiWordTypes.some((type) => start.startsWith(type)) || isPunctuation(tokens[1], "(") || isPunctuation(tokens[1], "[") || isPunctuation(tokens[1], ".");
+  }
+
+  private functionSignature(parameters: FunctionParameter[]): string {
+    return parameters
+      .filter((p) => p.mode !== "OUT")
+      .map((p) => resolveColumnType(p.type).udtName)
+      .join(",");
+  }
+
+  private applyAlterFunction(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const target = this.qualify(statement.name);
+    for (const fn of schema.functions.filter((f) => this.matches(f, target))) {
+      this.applyRenameOrMove(statement.tokens, fn);
+    }
+  }
+
+  private applyDropFunction(schema: DatabaseSchema, statement: ParsedStatement): void {
+    const tokens = statement.tokens;
+    let i = 2;
+    if (isKeyword(tokens[i], "IF") && isKeyword(tokens[i + 1], "EXISTS")) i += 2;
+
+    for (const part of splitTopLevel(tokens.slice(i))) {
+      const qualified = readQualifiedName(part, 0);
+      if (!qualified) continue;
+      const target = this.qualify(qualified.name);
+      const signature = isPunctuation(part[qualified.next], "(")
+        ? this.functionSignature(this.parseParameters(parenthesizedTokens(part, qualified.next), statement.text))
+        : undefined;
+
+      schema.functions = schema.functions.filter(
+        (f) => !(this.matches(f, target) && (signature === undefined || this.functionSignature(f.parameters) === signature))
+      );
+    }
+  }
+
+  // Extensions
+
+  private applyCreateExtension(schema: DatabaseSchema, statement: ParsedStatement): void {
+    if (!statement.name) return;
+    const name = statement.name.name;
+    if (schema.extensions.some((e) => e.name === name)) return;
+
+    const tokens = statement.tokens;
+    const schemaIndex = tokens.findIndex((t) => isKeyword(t, "SCHEMA"));
+    const versionIndex = tokens.findIndex((t) => isKeyword(t, "VERSION"));
+
+    schema.extensions.push({
+      name,
+      schema: schemaIndex !== -1 && tokens[schemaIndex + 1] ? identifierValue(tokens[schemaIndex + 1]) : this.defaultSchema,
+      version: versionIndex !== -1 && tokens[versionIndex + 1] ? this.stringValue(tokens[versionIndex + 1]) : "",
+    });
+  }
+
+  // Comments
+
+  private applyComment(schema: DatabaseSchema, statement: ParsedStatement): void {
+    const tokens = statement.tokens;
+    if (!isKeyword(tokens[1], "ON")) return;
+
+    const isIndex = tokens.findIndex((t) => isKeyword(t, "IS"));
+    if (isIndex === -1 || !tokens[isIndex + 1]) return;
+    const comment = tokens[isIndex + 1].type === "string" ? this.stringValue(tokens[isIndex + 1]) : undefined;
+
+    const parts = tokens
+      .slice(3, isIndex)
+      .filter((t) => isIdentifier(t))
+      .map((t) => identifierValue(t));
+
+    if (isKeyword(tokens[2], "TABLE") && parts.length > 0) {
+      const table = this.findTable(schema, this.qualify(this.toQualifiedName(parts)));
+      if (table) table.comment = comment;
+    } else if (isKeyword(tokens[2], "VIEW") && parts.length > 0) {
+      const view = schema.views.find((v) => this.matches(v, this.qualify(this.toQualifiedName(parts))));
+      if (view) view.comment = comment;
+    } else if (isKeyword(tokens[2], "COLUMN") && parts.length > 1) {
+      const columnName = parts[parts.length - 1];
+      const table = this.findTable(schema, this.qualify(this.toQualifiedName(parts.slice(0, -1))));
+      const column = table?.columns.find((c) => c.name === columnName);
+      if (column) column.comment = comment;
+    }
+  }
+
+  // Helpers
+
+  private chooseName(
+    schema: DatabaseSchema,
+    table: Table | undefined,
+    name1: string,
+    name2: string | undefined,
+    label: string
+  ): string {
+    const schemaName = table?.schema ?? this.defaultSchema;
+    const taken = new Set([
+      ...schema.indexes.filter((i) => i.schemaName === schemaName).map((i) => i.name),
+      ...schema.tables.filter((t) => t.schema === schemaName).map((t) => t.name),
+      ...(table?.constraints.map((c) => c.name) ?? []),
+    ]);
+
+    // PostgreSQL appends a counter to the label until the name is free
+    let name = makeObjectName(name1, name2, label);
+    for (let pass = 1; taken.has(name); pass++) {
+      name = makeObjectName(name1, name2, `${label}${pass}`);
+    }
+    return name;
+  }
+
+  private indexAfterName(tokens: SqlToken[], name: QualifiedName): number {
+    for (let i = 0; i < tokens.length; i++) {
+      const qualified = readQualifiedName(tokens, i);
+      if (qualified && qualified.name.name === name.name && qualified.name.schema === name.schema) {
+        return qualified.next;
+      }
+    }
+    return tokens.length;
+  }
+
+  private hasCascade(statement: ParsedStatement): boolean {
+    return statement.tokens.some((t) => isKeyword(t, "CASCADE"));
+  }
+
+  private stringValue(token: SqlToken): string {
+    if (token.type === "dollar_string") {
+      const tag = token.value.match(/^\$[^$]*\$/)?.[0] ?? "$$";
+      return token.value.slice(tag.length, token.value.length - tag.length);
+    }
+    if (token.type === "string") {
+      const quoteStart = token.value.indexOf("'");
+      return token.value.slice(quoteStart + 1, -1).replace(/''/g, "'");
+    }
+    return identifierValue(token);
+  }
+
+  private toQualifiedName(parts: string[]): QualifiedName {
+    return parts.length > 1
+      ? {schema: parts[parts.length - 2], name: parts[parts.length - 1]}
+      : {name: parts[0]};
+  }
+
+  private qualify(name: QualifiedName): QualifiedObject {
+    return {schema: name.schema ?? this.defaultSchema, name: name.name};
+  }
+
+  private matches(object: {schema: string; name: string}, target: QualifiedObject): boolean {
+    return object.schema === target.schema && object.name === target.name;
+  }
+
+  private findTable(schema: DatabaseSchema, target: QualifiedObject): Table | undefined {
+    return schema.tables.find((t) => this.matches(t, target));
+  }
+}
@@ -0,0 +1,172 @@
+import {createHash} from "crypto";
+import {promises as fs} from "fs";
+import path from "path";
+import {DatabaseSchema, SchemaSnapshot} from "../types/schema.js";
+import {log} from "../utils/logger.js";
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Anything a schema can be read from: a live DatabaseService or a snapshot
+ * file. Sources that cannot report grants leave out getTablePermissions.
+ */
+export interface SchemaSource {
+  getSchema(): Promise<DatabaseSchema>;
+  getTablePermissions?(schemaName: string, tableName: string): Promise<any[]>;
+}
+
+/**
+ * Serializes DatabaseSchema to versioned JSON files meant to be committed.
+ * Objects are written in a stable order and the hash covers only the schema,
+ * so taking a snapshot of an unchanged database produces no diff.
+ */
+export class SchemaSnapshotStore {
+  create(schema: DatabaseSchema, source: SchemaSnapshot["source"] = {}): SchemaSnapshot {
+    const normalized = this.normalize(schema);
+    return {
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      generatedAt: new Date().toISOString(),
+      source,
+      hash: this.hash(normalized),
+      schema: normalized,
+    };
+  }
+
+  /**
+   * Writes the snapshot unless the file already holds one with the same hash,
+   * in which case it is left untouched to keep its generatedAt.
+   */
+  async write(filePath: string, snapshot: SchemaSnapshot): Promise<{written: boolean}> {
+    try {
+      const existing = await this.read(filePath);
+      if (existing.hash === snapshot.hash) {
+        return {written: false};
+      }
+    } catch {
+      // Missing or unreadable files are simply replaced
+    }
+
+    await fs.mkdir(path.dirname(filePath), {recursive: true});
+    await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2) + "\n", "utf8");
+    log.schema("snapshot").info("Schema snapshot written", {filePath, hash: snapshot.hash});
+    return {written: true};
+  }
+
+  async read(filePath: string): Promise<SchemaSnapshot> {
+    let snapshot: SchemaSnapshot;
+    try {
+      snapshot = JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (error) {
+      throw new Error(
+        `Could not read schema snapshot ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (typeof snapshot?.formatVersion !== "number" || !snapshot.schema) {
+      throw new Error(`${filePath} is not a schema snapshot`);
+    }
+    if (snapshot.formatVersion > SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(
+        `${filePath} uses snapshot format ${snapshot.formatVersion}; this version reads up to ${SNAPSHOT_FORMAT_VERSION}`
+      );
+    }
+
+    const hash = this.hash(this.normalize(snapshot.schema));
+    if (hash !== snapshot.hash) {
+      throw new Error(
+        `Schema snapshot ${filePath} does not match its hash (expected ${snapshot.hash}, got ${hash}); ` +
+          "it was edited after being generated"
+      );
+    }
+    return snapshot;
+  }
+
+  hash(schema: DatabaseSchema): string {
+    return "sha256:" + createHash("sha256").update(this.canonicalJson(schema)).digest("hex");
+  }
+
+  // The introspection query does not order every list, so sort them here
+  private normalize(schema: DatabaseSchema): DatabaseSchema {
+    // Plain code point order; localeCompare would make the file depend on the machine's locale
+    const by = <T>(key: (item: T) => string) => (a: T, b: T) => compareStrings(key(a), key(b));
+
+    return {
+      tables: [...(schema.tables ?? [])]
+        .map(table => ({
+          ...table,
+          columns: [...table.columns].sort((a, b) => a.ordinalPosition - b.ordinalPosition),
+          constraints: [...(table.constraints ?? [])].sort(by(c => c.name)),
+          indexes: [...(table.indexes ?? [])].sort(by(i => i.name)),
+        }))
+        .sort(by(t => `${t.schema}.${t.name}`)),
+      views: [...(schema.views ?? [])].sort(by(v => `${v.schema}.${v.name}`)),
+      enums: [...(schema.enums ?? [])].sort(by(e => `${e.schema}.${e.name}`)),
+      functions: [...(schema.functions ?? [])].sort(
+        by(f => `${f.schema}.${f.name}(${(f.parameters ?? []).map(p => p.type).join(",")})`)
+      ),
+      extensions: [...(schema.extensions ?? [])].sort(by(e => e.name)),
+      indexes: [...(schema.indexes ?? [])].sort(by(i => `${i.schemaName}.${i.tableName}.${i.name}`)),
+      triggers: [...(schema.triggers ?? [])].sort(by(t => `${t.schema}.${t.tableName}.${t.name}`)),
+      rlsPolicies: [...(schema.rlsPolicies ?? [])].sort(
+        by(p => `${p.schema}.${p.tableName}.${p.policyName}`)
+      ),
+      // Left out when absent so snapshots taken before these were introspected keep their hash
+      materializedViews: schema.materializedViews && [...schema.materializedViews].sort(by(v => `${v.schema}.${v.name}`)),
+      sequences: schema.sequences && [...schema.sequences].sort(by(q => `${q.schema}.${q.name}`)),
+      partitions: schema.partitions && [...schema.partitions].sort(by(p => `${p.schema}.${p.name}`)),
+      domains: schema.domains && [...schema.domains].sort(by(d => `${d.schema}.${d.name}`)),
+      compositeTypes: schema.compositeTypes && [...schema.compositeTypes].sort(by(t => `${t.schema}.${t.name}`)),
+      grants: schema.grants && [...schema.grants].sort(
+        by(g => `${g.schema}.${g.name}.${g.column ?? ""}.${g.grantee}.${g.privilege}`)
+      ),
+      roles: schema.roles && [...schema.roles].sort(by(r => r.name)),
+    };
+  }
+
+  // JSON with object keys sorted, so the hash does not depend on key order
+  private canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalJson(item)).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+      const entries = Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => compareStrings(a, b));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${this.canonicalJson(item)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
+
+/**
+ * Serves the schema stored in a snapshot file wherever a DatabaseService
+ * would otherwise be introspected.
+ */
+export class SnapshotSchemaSource implements SchemaSource {
+  private schema?: Promise<DatabaseSchema>;
+
+  constructor(private filePath: string, private store = new SchemaSnapshotStore()) {}
+
+  async getSchema(): Promise<DatabaseSchema> {
+    this.schema ??= this.store.read(this.filePath).then(snapshot => snapshot.schema);
+    return this.schema;
+  }
+
+  // Same rows as DatabaseService.getTablePermissions, minus the owner's implicit privileges
+  async getTablePermissions(schemaName: string, tableName: string): Promise<any[]> {
+    const grants = (await this.getSchema()).grants ?? [];
+    return grants
+      .filter(g => ["table", "view", "materialized_view"].includes(g.objectType))
+      .filter(g => g.schema === schemaName && g.name === tableName)
+      .map(g => ({
+        grantee: g.grantee,
+        privilege_type: g.privilege,
+        column_name: g.column ?? null,
+        is_grantable: g.isGrantable ? "YES" : "NO",
+      }));
+  }
+}
@@ -0,0 +1,86 @@
+import {DatabaseConfig} from "../types/config.js";
+import {DatabaseService} from "./database.js";
+import {MigrationParser} from "./migration-parser.js";
+import {MigrationRunner} from "./migration-runner.js";
+import {log} from "../utils/logger.js";
+import {quoteIdentifier} from "../utils/sql-formatter.js";
+
+export interface ShadowContext {
+  databaseName: string;
+  databaseService: DatabaseService;
+  migrationRunner: MigrationRunner;
+  migrationsTable: string;
+}
+
+/**
+ * Runs work against a throwaway database on the same server as the configured
+ * one. The scratch database is created from template0, so it starts empty
+ * regardless of what the live database contains, and it is dropped again
+ * once the callback settles, including when a migration in it fails.
+ */
+export class ShadowDatabase {
+  constructor(
+    private databaseService: DatabaseService,
+    private databaseConfig: DatabaseConfig,
+    private migrationParser: MigrationParser,
+    private migrationsTable: string
+  ) {}
+
+  async run<T>(callback: (shadow: ShadowContext) => Promise<T>): Promise<T> {
+    const shadowLogger = log.db("shadow");
+    const databaseName = this.generateDatabaseName();
+
+    try {
+      await this.databaseService.executeQuery(
+        `CREATE DATABASE ${quoteIdentifier(databaseName)} TEMPLATE template0`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Could not create shadow database ${databaseName}: ${message}. ` +
+          "The configured user needs the CREATEDB privilege for shadow verification."
+      );
+    }
+    shadowLogger.info("Created shadow database", {databaseName});
+
+    const shadowService = new DatabaseService({...this.databaseConfig, database: databaseName});
+    try {
+      return await callback({
+        databaseName,
+        databaseService: shadowService,
+        migrationRunner: new MigrationRunner(shadowService, this.migrationParser, this.migrationsTable),
+        migrationsTable: this.migrationsTable,
+      });
+    } finally {
+      await this.drop(shadowService, databaseName);
+    }
+  }
+
+  private async drop(shadowService: DatabaseService, databaseName: string): Promise<void> {
+    const shadowLogger = log.db("shadow");
+
+    try {
+      await shadowService.disconnect();
+    } catch (error) {
+      shadowLogger.warn("Failed to close shadow database connection", {
+        databaseName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      await this.databaseService.executeQuery(`DROP DATABASE IF EXISTS ${quoteIdentifier(databaseName)}`);
+      shadowLogger.info("Dropped shadow database", {databaseName});
+    } catch (error) {
+      shadowLogger.error(
+        `Failed to drop shadow database ${databaseName}; drop it manually`,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  private generateDatabaseName(): string {
+    const suffix = Math.random().toString(36).slice(2, 8);
+    return `pgsage_shadow_${Date.now()}_${suffix}`;
+  }
+}
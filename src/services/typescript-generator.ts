@@ -0,0 +1,665 @@
+import {Column, CompositeType, DatabaseSchema, Domain, Enum, Function as DBFunction, Table, View, ViewColumn} from "../types/schema.js";
+import {SchemaSource} from "./schema-snapshot.js";
+import {resolveColumnType} from "../utils/pg-types.js";
+
+export interface TypeScriptGeneratorOptions {
+  // Tables, views and functions outside these schemas are skipped; types they use are inlined
+  schemas?: string[];
+  includeZod?: boolean;
+  splitBySchema?: boolean;
+}
+
+export interface GeneratedTypeFile {
+  fileName: string;
+  // Set when the file holds a single schema
+  schema?: string;
+  content: string;
+}
+
+// A TypeScript type and the zod schema that validates it
+interface MappedType {
+  ts: string;
+  zod: string;
+}
+
+interface Declaration {
+  schema: string;
+  ts: string;
+  zod?: string;
+  // Identifiers declared here, and the ones the declaration refers to
+  defines: string[];
+  uses: Set<string>;
+}
+
+interface ParsedArgument {
+  name: string;
+  type: string;
+  mode: "IN" | "OUT" | "INOUT" | "VARIADIC";
+  hasDefault: boolean;
+}
+
+const JSON_TYPE: MappedType = {ts: "Json", zod: "jsonSchema"};
+
+// Types as PostgREST serializes them to JSON
+const BUILTIN_TYPES: Record<string, MappedType> = {
+  int2: {ts: "number", zod: "z.number().int()"},
+  int4: {ts: "number", zod: "z.number().int()"},
+  int8: {ts: "number", zod: "z.number().int()"},
+  oid: {ts: "number", zod: "z.number().int()"},
+  float4: {ts: "number", zod: "z.number()"},
+  float8: {ts: "number", zod: "z.number()"},
+  numeric: {ts: "number", zod: "z.number()"},
+  bool: {ts: "boolean", zod: "z.boolean()"},
+  json: JSON_TYPE,
+  jsonb: JSON_TYPE,
+  uuid: {ts: "string", zod: "z.string().uuid()"},
+  void: {ts: "void", zod: "z.void()"},
+  record: {ts: "Record<string, unknown>", zod: "z.record(z.unknown())"},
+};
+
+const STRING_TYPES = [
+  "text", "varchar", "bpchar", "char", "name", "citext", "bytea", "money", "xml",
+  "date", "time", "timetz", "timestamp", "timestamptz", "interval",
+  "inet", "cidr", "macaddr", "macaddr8", "bit", "varbit", "tsvector", "tsquery",
+  "point", "line", "lseg", "box", "path", "polygon", "circle",
+  "int4range", "int8range", "numrange", "tsrange", "tstzrange", "daterange",
+];
+
+const JSON_DECLARATION: Declaration = {
+  schema: "",
+  ts: "export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];",
+  zod: [
+    "export const jsonSchema: z.ZodType<Json> = z.lazy(() =>",
+    "  z.union([z.string(), z.number(), z.boolean(), z.null(), z.record(jsonSchema), z.array(jsonSchema)])",
+    ");",
+  ].join("\n"),
+  defines: ["Json", "jsonSchema"],
+  uses: new Set(),
+};
+
+function pascalCase(...parts: string[]): string {
+  const name = parts
+    .flatMap(part => part.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function camelCase(...parts: string[]): string {
+  const name = pascalCase(...parts);
+  return name[0] === "_" ? name : name[0].toLowerCase() + name.slice(1);
+}
+
+const propertyKey = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+
+const quote = (value: string) => `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+// Splits on commas that are not inside parentheses or double quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = "";
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && char === "(") depth++;
+    if (!inQuotes && char === ")") depth--;
+    if (!inQuotes && depth === 0 && char === ",") {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function isBuiltinType(declaredType: string): boolean {
+  const elementType = declaredType.trim().replace(/(\s*\[\d*\])+$/, "").replace(/\s+array(\[\d*\])?$/i, "");
+  return resolveColumnType(elementType).dataType !== "USER-DEFINED";
+}
+
+/**
+ * Parses pg_get_function_arguments output, e.g.
+ * `uid integer, VARIADIC tags text[], OUT total numeric, lim integer DEFAULT 10`.
+ * Unnamed arguments are numbered.
+ */
+function parseArguments(argumentsText: string): ParsedArgument[] {
+  return splitTopLevel(argumentsText).map((part, index) => {
+    let text = part;
+    const defaultIndex = text.search(/\s+DEFAULT\s+/);
+    const hasDefault = defaultIndex >= 0;
+    if (hasDefault) text = text.slice(0, defaultIndex);
+
+    let mode: ParsedArgument["mode"] = "IN";
+    const modeMatch = /^(IN|OUT|INOUT|VARIADIC)\s+/.exec(text);
+    if (modeMatch) {
+      mode = modeMatch[1] as ParsedArgument["mode"];
+      text = text.slice(modeMatch[0].length);
+    }
+
+    // A lone type may itself contain spaces ("character varying"), so a name is only split off when what follows it is
+    // a built-in type, or when neither part is one (a named argument of a user-defined type)
+    const nameMatch = /^("(?:[^"]|"")+"|[^\s"]+)\s+(.+)$/.exec(text);
+    const unnamed = !nameMatch || (!isBuiltinType(nameMatch[2]) && isBuiltinType(text));
+    if (unnamed) {
+      return {name: `arg${index + 1}`, type: text, mode, hasDefault};
+    }
+    const name = nameMatch[1].startsWith('"') ? nameMatch[1].slice(1, -1).replace(/""/g, '"') : nameMatch[1];
+    return {name, type: nameMatch[2], mode, hasDefault};
+  });
+}
+
+/**
+ * Generates TypeScript types, and optionally matching zod schemas, from a
+ * schema: string-literal unions for enums, aliases for domains, interfaces
+ * for composite types, Row/Insert/Update interfaces for tables and views, and
+ * argument and return types for functions. Values are typed the way they
+ * arrive as JSON (through PostgREST), so numeric and bigint columns are
+ * numbers and timestamps are strings.
+ */
+export class TypeScriptGenerator {
+  private schemaSource: SchemaSource;
+  private schema!: DatabaseSchema;
+  private included!: (schemaName: string) => boolean;
+
+  constructor(schemaSource: SchemaSource) {
+    this.schemaSource = schemaSource;
+  }
+
+  async generate(options: TypeScriptGeneratorOptions = {}): Promise<GeneratedTypeFile[]> {
+    const {schemas, includeZod = true, splitBySchema = false} = options;
+    this.schema = await this.schemaSource.getSchema();
+    this.included = (schemaName: string) => !schemas || schemas.includes(schemaName);
+
+    const declarations: Declaration[] = [
+      ...(this.schema.enums || []).filter(e => this.included(e.schema)).map(e => this.enumDeclaration(e)),
+      ...(this.schema.domains || []).filter(d => this.included(d.schema)).map(d => this.domainDeclaration(d)),
+      ...(this.schema.compositeTypes || [])
+        .filter(t => this.included(t.schema))
+        .map(t => this.compositeDeclaration(t)),
+      ...this.tables().map(table => this.tableDeclaration(table)),
+      ...(this.schema.views || []).filter(v => this.included(v.schema)).map(v => this.viewDeclaration(v)),
+      ...(this.schema.materializedViews || [])
+        .filter(v => this.included(v.schema) && v.columns)
+        .map(v => this.relationDeclaration(v.schema, v.name, v.columns!, false)),
+      ...this.functionDeclarations(),
+    ];
+
+    const bySchema = new Map<string, Declaration[]>();
+    for (const declaration of declarations) {
+      const key = splitBySchema ? declaration.schema : "";
+      if (!bySchema.has(key)) bySchema.set(key, []);
+      bySchema.get(key)!.push(declaration);
+    }
+    if (bySchema.size === 0) bySchema.set("", []);
+
+    const owners = new Map<string, string>();
+    declarations.forEach(d => d.defines.forEach(name => owners.set(name, d.schema)));
+
+    return [...bySchema.entries()].map(([schemaName, fileDeclarations]) => ({
+      fileName: schemaName ? `${schemaName}.ts` : "database.ts",
+      ...(schemaName ? {schema: schemaName} : {}),
+      content: this.renderFile(fileDeclarations, schemaName, owners, includeZod),
+    }));
+  }
+
+  private tables(): Table[] {
+    // Partitions share their parent's row type
+    const partitions = new Set((this.schema.partitions || []).map(p => `${p.schema}.${p.name}`));
+    return (this.schema.tables || []).filter(t => this.included(t.schema) && !partitions.has(`${t.schema}.${t.name}`));
+  }
+
+  private typeName(schemaName: string, name: string): string {
+    return schemaName === "public" ? pascalCase(name) : pascalCase(schemaName, name);
+  }
+
+  private schemaName(schemaName: string, name: string): string {
+    return `${schemaName === "public" ? camelCase(name) : camelCase(schemaName, name)}Schema`;
+  }
+
+  // Prefers an object in the referring schema, then public, then any other
+  private findByName<T extends {schema: string; name: string}>(items: T[] | undefined, name: string, schemaName: string) {
+    const matches = (items || []).filter(item => item.name === name);
+    return (
+      matches.find(item => item.schema === schemaName) ||
+      matches.find(item => item.schema === "public") ||
+      matches[0]
+    );
+  }
+
+  private reference(schemaName: string, name: string, uses: Set<string>): MappedType {
+    const ts = this.typeName(schemaName, name);
+    const zod = this.schemaName(schemaName, name);
+    uses.add(ts);
+    uses.add(zod);
+    return {ts, zod};
+  }
+
+  /**
+   * Maps a named (non-array) type. Types from excluded schemas are written
+   * out in place rather than referenced, since nothing declares them.
+   */
+  private namedType(udtName: string, contextSchema: string, uses: Set<string>): MappedType {
+    const qualified = udtName.includes(".") ? udtName.split(".") : undefined;
+    const name = qualified ? qualified[1] : udtName;
+    const schemaName = qualified ? qualified[0] : contextSchema;
+
+    const builtin = BUILTIN_TYPES[name];
+    if (builtin) {
+      if (builtin === JSON_TYPE) uses.add("Json").add("jsonSchema");
+      return builtin;
+    }
+    if (STRING_TYPES.includes(name)) return {ts: "string", zod: "z.string()"};
+
+    const enumType = this.findByName(this.schema.enums, name, schemaName);
+    if (enumType) {
+      return this.included(enumType.schema)
+        ? this.reference(enumType.schema, enumType.name, uses)
+        : this.enumType(enumType);
+    }
+    const domain = this.findByName(this.schema.domains, name, schemaName);
+    if (domain) {
+      return this.included(domain.schema)
+        ? this.reference(domain.schema, domain.name, uses)
+        : this.declaredType(domain.baseType, domain.schema, uses);
+    }
+    const composite = this.findByName(this.schema.compositeTypes, name, schemaName);
+    if (composite) {
+      return this.included(composite.schema)
+        ? this.reference(composite.schema, composite.name, uses)
+        : this.objectType(composite.attributes.map(a => ({
+          name: a.name,
+          type: this.declaredType(a.dataType, composite.schema, uses),
+          optional: false,
+          nullable: true,
+        })));
+    }
+
+    // Every table and view also defines a row type
+    const relations = [...this.tables(), ...(this.schema.views || []), ...(this.schema.materializedViews || [])];
+    const relation = this.findByName(relations, name, schemaName);
+    if (relation && this.included(relation.schema)) {
+      return this.reference(relation.schema, `${relation.name}_row`, uses);
+    }
+
+    return {ts: "unknown", zod: "z.unknown()"};
+  }
+
+  // Maps a column by its udt name, where arrays are prefixed with an underscore
+  private columnType(column: Column | ViewColumn, contextSchema: string, uses: Set<string>): MappedType {
+    if (column.domainName) {
+      const domain = this.findByName(this.schema.domains, column.domainName, contextSchema);
+      if (domain) return this.namedType(domain.name, domain.schema, uses);
+    }
+    const udtName = column.udtName;
+    const mapped = !udtName
+      ? this.declaredType(column.dataType, contextSchema, uses)
+      : udtName.startsWith("_")
+        ? this.arrayType(this.namedType(udtName.slice(1), contextSchema, uses))
+        : this.namedType(udtName, contextSchema, uses);
+
+    if (mapped.zod === "z.string()" && column.characterMaximumLength) {
+      return {ts: mapped.ts, zod: `z.string().max(${column.characterMaximumLength})`};
+    }
+    return mapped;
+  }
+
+  // Maps a type as format_type prints it, e.g. "character varying(20)[]" or "public.mood"
+  private declaredType(declaredType: string, contextSchema: string, uses: Set<string>): MappedType {
+    const setOf = /^SETOF\s+(.+)$/i.exec(declaredType.trim());
+    if (setOf) return this.arrayType(this.declaredType(setOf[1], contextSchema, uses));
+
+    // resolveColumnType lowercases names, so user-defined types are looked up as written
+    const written = declaredType.trim().replace(/(\s*\[\d*\])+$/, "").replace(/"/g, "");
+    const element = resolveColumnType(written);
+    const mapped = this.namedType(
+      element.dataType === "USER-DEFINED" || !element.udtName ? written : element.udtName,
+      contextSchema,
+      uses
+    );
+    return resolveColumnType(declaredType).dataType === "ARRAY" ? this.arrayType(mapped) : mapped;
+  }
+
+  private arrayType(element: MappedType): MappedType {
+    const ts = /^[\w.]+$/.test(element.ts) ? `${element.ts}[]` : `(${element.ts})[]`;
+    return {ts, zod: `z.array(${element.zod})`};
+  }
+
+  private nullable(type: MappedType): MappedType {
+    return {ts: `${type.ts} | null`, zod: `${type.zod}.nullable()`};
+  }
+
+  private enumType(enumType: Enum): MappedType {
+    if (enumType.values.length === 0) return {ts: "never", zod: "z.never()"};
+    return {
+      ts: enumType.values.map(quote).join(" | "),
+      zod: `z.enum([${enumType.values.map(quote).join(", ")}])`,
+    };
+  }
+
+  private objectType(fields: {name: string; type: MappedType; optional: boolean; nullable: boolean}[]): MappedType {
+    if (fields.length === 0) return {ts: "Record<string, never>", zod: "z.object({})"};
+    const typed = fields.map(f => ({...f, type: f.nullable ? this.nullable(f.type) : f.type}));
+    return {
+      ts: `{ ${typed.map(f => `${propertyKey(f.name)}${f.optional ? "?" : ""}: ${f.type.ts}`).join("; ")} }`,
+      zod: `z.object({ ${typed.map(f => `${propertyKey(f.name)}: ${f.type.zod}${f.optional ? ".optional()" : ""}`).join(", ")} })`,
+    };
+  }
+
+  private enumDeclaration(enumType: Enum): Declaration {
+    const name = this.typeName(enumType.schema, enumType.name);
+    const zodName = this.schemaName(enumType.schema, enumType.name);
+    const mapped = this.enumType(enumType);
+    return {
+      schema: enumType.schema,
+      ts: `export type ${name} = ${mapped.ts};`,
+      zod: `export const ${zodName} = ${mapped.zod};`,
+      defines: [name, zodName],
+      uses: new Set(),
+    };
+  }
+
+  private domainDeclaration(domain: Domain): Declaration {
+    const name = this.typeName(domain.schema, domain.name);
+    const zodName = this.schemaName(domain.schema, domain.name);
+    const uses = new Set<string>();
+    const mapped = this.declaredType(domain.baseType, domain.schema, uses);
+    return {
+      schema: domain.schema,
+      ts: `${this.docComment(domain.comment)}export type ${name} = ${mapped.ts};`,
+      zod: `export const ${zodName} = ${mapped.zod};`,
+      defines: [name, zodName],
+      uses,
+    };
+  }
+
+  private compositeDeclaration(compositeType: CompositeType): Declaration {
+    const name = this.typeName(compositeType.schema, compositeType.name);
+    const zodName = this.schemaName(compositeType.schema, compositeType.name);
+    const uses = new Set<string>();
+    // Attributes of a composite value can always be null
+    const fields = [...compositeType.attributes]
+      .sort((a, b) => a.ordinalPosition - b.ordinalPosition)
+      .map(a => ({name: a.name, type: this.nullable(this.declaredType(a.dataType, compositeType.schema, uses))}));
+    return {
+      schema: compositeType.schema,
+      ts: [
+        `${this.docComment(compositeType.comment)}export interface ${name} {`,
+        ...fields.map(f => `  ${propertyKey(f.name)}: ${f.type.ts};`),
+        "}",
+      ].join("\n"),
+      zod: [
+        `export const ${zodName} = z.object({`,
+        ...fields.map(f => `  ${propertyKey(f.name)}: ${f.type.zod},`),
+        "});",
+      ].join("\n"),
+      defines: [name, zodName],
+      uses,
+    };
+  }
+
+  private tableDeclaration(table: Table): Declaration {
+    const uses = new Set<string>();
+    const columns = [...table.columns].sort((a, b) => a.ordinalPosition - b.ordinalPosition);
+    const domainOf = (column: Column) =>
+      column.domainName ? this.findByName(this.schema.domains, column.domainName, table.schema) : undefined;
+
+    const row = columns.map(column => {
+      const domain = domainOf(column);
+      return {
+        column,
+        type: this.columnType(column, table.schema, uses),
+        nullable: column.isNullable && !domain?.notNull,
+        hasDefault: column.defaultValue != null || !!domain?.defaultValue || !!column.isIdentity,
+      };
+    });
+    // Generated columns are computed by the database and cannot be written
+    const insert = row.filter(field => !field.column.isGenerated);
+
+    return this.rowDeclaration(table.schema, table.name, table.comment, uses, row, insert);
+  }
+
+  private viewDeclaration(view: View): Declaration {
+    return this.relationDeclaration(view.schema, view.name, view.columns || [], view.isUpdatable, view.comment);
+  }
+
+  // Views report every column as nullable and have no defaults of their own
+  private relationDeclaration(
+    schemaName: string,
+    name: string,
+    columns: ViewColumn[],
+    isUpdatable: boolean,
+    comment?: string
+  ): Declaration {
+    const uses = new Set<string>();
+    const row = [...columns]
+      .sort((a, b) => a.ordinalPosition - b.ordinalPosition)
+      .map(column => ({
+        column,
+        type: this.columnType(column, schemaName, uses),
+        nullable: column.isNullable,
+        hasDefault: true,
+      }));
+    return this.rowDeclaration(schemaName, name, comment, uses, row, isUpdatable ? row : undefined);
+  }
+
+  private rowDeclaration(
+    schemaName: string,
+    name: string,
+    comment: string | undefined,
+    uses: Set<string>,
+    row: {column: Column | ViewColumn; type: MappedType; nullable: boolean; hasDefault: boolean}[],
+    insert?: typeof row
+  ): Declaration {
+    const rowName = this.typeName(schemaName, `${name}_row`);
+    const insertName = this.typeName(schemaName, `${name}_insert`);
+    const updateName = this.typeName(schemaName, `${name}_update`);
+    const rowSchema = this.schemaName(schemaName, `${name}_row`);
+    const insertSchema = this.schemaName(schemaName, `${name}_insert`);
+    const updateSchema = this.schemaName(schemaName, `${name}_update`);
+
+    const property = (field: typeof row[number], optional: boolean) => {
+      const type = field.nullable ? this.nullable(field.type) : field.type;
+      const doc = "comment" in field.column ? this.docComment(field.column.comment, "  ") : "";
+      return {
+        ts: `${doc}  ${propertyKey(field.column.name)}${optional ? "?" : ""}: ${type.ts};`,
+        zod: `  ${propertyKey(field.column.name)}: ${type.zod}${optional ? ".optional()" : ""},`,
+      };
+    };
+
+    const ts = [
+      `${this.docComment(comment)}export interface ${rowName} {`,
+      ...row.map(field => property(field, false).ts),
+      "}",
+    ];
+    const zod = [`export const ${rowSchema} = z.object({`, ...row.map(field => property(field, false).zod), "});"];
+    const defines = [rowName, rowSchema];
+
+    if (insert) {
+      // Columns the database can fill in may be left out
+      const optional = (field: typeof row[number]) => field.nullable || field.hasDefault;
+      ts.push(
+        "",
+        `export interface ${insertName} {`,
+        ...insert.map(field => property(field, optional(field)).ts),
+        "}",
+        "",
+        `export type ${updateName} = Partial<${insertName}>;`
+      );
+      zod.push(
+        "",
+        `export const ${insertSchema} = z.object({`,
+        ...insert.map(field => property(field, optional(field)).zod),
+        "});",
+        "",
+        `export const ${updateSchema} = ${insertSchema}.partial();`
+      );
+      defines.push(insertName, updateName, insertSchema, updateSchema);
+    }
+
+    return {schema: schemaName, ts: ts.join("\n"), zod: zod.join("\n"), defines, uses};
+  }
+
+  private functionDeclarations(): Declaration[] {
+    // Trigger functions, procedures and aggregates cannot be called like functions
+    const callable = (this.schema.functions || []).filter(fn =>
+      this.included(fn.schema) &&
+      !fn.extension &&
+      (fn.kind ?? "function") === "function" &&
+      !["trigger", "event_trigger"].includes(fn.returnType)
+    );
+
+    const overloads = new Map<string, DBFunction[]>();
+    for (const fn of callable) {
+      const key = `${fn.schema}.${fn.name}`;
+      if (!overloads.has(key)) overloads.set(key, []);
+      overloads.get(key)!.push(fn);
+    }
+
+    return [...overloads.values()].map(fns => {
+      const {schema: schemaName, name} = fns[0];
+      const uses = new Set<string>();
+      const argsName = this.typeName(schemaName, `${name}_args`);
+      const returnsName = this.typeName(schemaName, `${name}_returns`);
+      const argsSchema = this.schemaName(schemaName, `${name}_args`);
+      const returnsSchema = this.schemaName(schemaName, `${name}_returns`);
+
+      const signatures = fns.map(fn => {
+        const parsed = parseArguments(fn.arguments ?? "");
+        const args = parsed.filter(arg => arg.mode !== "OUT");
+        const outputs = parsed.filter(arg => arg.mode === "OUT" || arg.mode === "INOUT");
+        return {
+          args: this.objectType(args.map(arg => ({
+            name: arg.name,
+            type: this.declaredType(arg.type, schemaName, uses),
+            optional: arg.hasDefault,
+            nullable: false,
+          }))),
+          returns: this.returnType(fn.returnType, schemaName, uses, outputs),
+        };
+      });
+
+      const union = (types: MappedType[]): MappedType => {
+        const unique = types.filter((type, index) => types.findIndex(other => other.ts === type.ts) === index);
+        return unique.length === 1
+          ? unique[0]
+          : {ts: unique.map(type => type.ts).join(" | "), zod: `z.union([${unique.map(type => type.zod).join(", ")}])`};
+      };
+      const args = union(signatures.map(signature => signature.args));
+      const returns = union(signatures.map(signature => signature.returns));
+
+      return {
+        schema: schemaName,
+        ts: [
+          `${this.docComment(fns[0].comment)}export type ${argsName} = ${args.ts};`,
+          `export type ${returnsName} = ${returns.ts};`,
+        ].join("\n"),
+        zod: [
+          `export const ${argsSchema} = ${args.zod};`,
+          `export const ${returnsSchema} = ${returns.zod};`,
+        ].join("\n"),
+        defines: [argsName, returnsName, argsSchema, returnsSchema],
+        uses,
+      };
+    });
+  }
+
+  // pg_get_function_result output: a type, "SETOF type" or "TABLE(name type, ...)"
+  private returnType(
+    returnType: string,
+    contextSchema: string,
+    uses: Set<string>,
+    outputs: ParsedArgument[] = []
+  ): MappedType {
+    const columns = (parsed: ParsedArgument[]) => this.objectType(parsed.map(column => ({
+      name: column.name,
+      type: this.declaredType(column.type, contextSchema, uses),
+      optional: false,
+      nullable: true,
+    })));
+
+    const table = /^TABLE\((.*)\)$/s.exec(returnType.trim());
+    if (table) return this.arrayType(columns(parseArguments(table[1])));
+
+    // Several OUT parameters make the result a record with one field per parameter
+    if (outputs.length > 1 && /^(SETOF\s+)?record$/i.test(returnType.trim())) {
+      const row = columns(outputs);
+      return /^SETOF\s/i.test(returnType.trim()) ? this.arrayType(row) : this.nullable(row);
+    }
+    const mapped = this.declaredType(returnType, contextSchema, uses);
+    return /^SETOF\s/i.test(returnType.trim()) || mapped.ts === "void" ? mapped : this.nullable(mapped);
+  }
+
+  private docComment(comment?: string, indent = ""): string {
+    if (!comment) return "";
+    const lines = comment.replace(/\*\//g, "*\\/").split(/\r?\n/);
+    if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+    return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+  }
+
+  private renderFile(
+    declarations: Declaration[],
+    schemaName: string,
+    owners: Map<string, string>,
+    includeZod: boolean
+  ): string {
+    const uses = new Set(declarations.flatMap(d => [...d.uses]));
+    const all = uses.has("Json") ? [JSON_DECLARATION, ...declarations] : declarations;
+
+    // Each file declares Json itself; everything else comes from the file of the schema that owns it
+    const imports = new Map<string, Set<string>>();
+    if (schemaName) {
+      for (const name of uses) {
+        const owner = owners.get(name);
+        if (!owner || owner === schemaName || name === "Json" || name === "jsonSchema") continue;
+        if (!includeZod && name.endsWith("Schema")) continue;
+        if (!imports.has(owner)) imports.set(owner, new Set());
+        imports.get(owner)!.add(name);
+      }
+    }
+
+    const lines = [
+      "// Generated by pg-schema-sage from the database schema. Do not edit by hand.",
+      "",
+    ];
+    if (includeZod) lines.push("import { z } from 'zod';");
+    for (const [owner, names] of [...imports.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`import { ${[...names].sort().join(", ")} } from './${owner}.js';`);
+    }
+    if (includeZod || imports.size > 0) lines.push("");
+
+    lines.push(...all.map(d => `${d.ts}\n`));
+
+    if (includeZod) {
+      // Unlike types, consts have to be declared before they are used
+      lines.push(...this.inDependencyOrder(all).map(d => `${d.zod}\n`));
+    }
+
+    return lines.join("\n").trimEnd() + "\n";
+  }
+
+  private inDependencyOrder(declarations: Declaration[]): Declaration[] {
+    const byName = new Map<string, Declaration>();
+    declarations.forEach(d => d.defines.forEach(name => byName.set(name, d)));
+
+    const ordered: Declaration[] = [];
+    const visiting = new Set<Declaration>();
+    const done = new Set<Declaration>();
+    const visit = (declaration: Declaration) => {
+      if (done.has(declaration) || visiting.has(declaration)) return;
+      visiting.add(declaration);
+      for (const name of declaration.uses) {
+        const dependency = byName.get(name);
+        if (dependency && dependency !== declaration) visit(dependency);
+      }
+      visiting.delete(declaration);
+      done.add(declaration);
+      ordered.push(declaration);
+    };
+    declarations.forEach(visit);
+    return ordered;
+  }
+}
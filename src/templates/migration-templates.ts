@@ -516,9 +516,9 @@ export function renderTemplate(template: MigrationTemplate, variables: Record<st
   
   // Simple template variable replacement
   for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`{{${key}}}`, 'g');
-    upSql = upSql.replace(regex, value);
-    downSql = downSql.replace(regex, value);
+    const placeholder = `{{${key}}}`;
+    upSql = upSql.split(placeholder).join(value);
+    downSql = downSql.split(placeholder).join(value);
   }
   
   // Handle simple conditionals {{#if variable}}...{{/if}}
@@ -543,4 +543,70 @@ function processConditionals(template: string, variables: Record<string, string>
   });
   
   return result;
-}
\ No newline at end of file
+}
+
+export function validateTemplateVariables(
+  template: MigrationTemplate,
+  variables: Record<string, string | number | boolean>
+): { values: Record<string, string>; errors: string[]; warnings: string[] } {
+  const values: Record<string, string> = {};
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const declared = new Set(template.variables.map(v => v.name));
+
+  for (const name of Object.keys(variables)) {
+    if (!declared.has(name)) {
+      warnings.push(`Variable '${name}' is not declared by template '${template.name}'`);
+    }
+  }
+
+  for (const variable of template.variables) {
+    const raw = variables[variable.name];
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (variable.required) {
+        errors.push(`Missing required variable '${variable.name}': ${variable.description}`);
+      } else {
+        // Optional placeholders without a value must render as empty text
+        values[variable.name] = variable.defaultValue ?? '';
+      }
+      continue;
+    }
+
+    switch (variable.type) {
+      case 'number': {
+        const num = typeof raw === 'number' ? raw : Number(String(raw).trim());
+        if (typeof raw === 'boolean' || !Number.isFinite(num)) {
+          errors.push(`Variable '${variable.name}' must be a number, got '${raw}'`);
+        } else {
+          values[variable.name] = String(num);
+        }
+        break;
+      }
+      case 'boolean': {
+        const normalized = String(raw).trim().toLowerCase();
+        if (normalized !== 'true' && normalized !== 'false') {
+          errors.push(`Variable '${variable.name}' must be a boolean, got '${raw}'`);
+        } else {
+          values[variable.name] = normalized;
+        }
+        break;
+      }
+      default:
+        values[variable.name] = String(raw);
+    }
+  }
+
+  for (const name of Object.keys(variables)) {
+    if (!declared.has(name) && values[name] === undefined) {
+      values[name] = String(variables[name]);
+    }
+  }
+
+  return { values, errors, warnings };
+}
+
+export function findUnresolvedPlaceholders(sql: string): string[] {
+  const matches = sql.match(/{{[^}]*}}/g) || [];
+  return [...new Set(matches)];
+}
@@ -27,7 +27,7 @@ export async function analyzeMigrations(
       history: migrationHistory,
       appliedMigrations: appliedMigrations.map(m => ({
         version: m.version,
-        appliedAt: m.appliedAt.toISOString(),
+        appliedAt: m.appliedAt?.toISOString(),
       })),
     };
     
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { DatabaseService } from '../services/database.js';
+import { ImpactAnalyzer } from '../services/impact-analyzer.js';
+
+export const analyzeObjectImpactSchema = z.object({
+  objectType: z.enum(['table', 'column', 'view', 'materialized_view', 'type', 'function']),
+  objectName: z.string().min(1).describe('Name of the object; for a column, the table it belongs to'),
+  columnName: z.string().optional().describe('Column to analyze when objectType is column'),
+  schemaName: z.string().default('public'),
+  maxDepth: z.number().int().min(1).max(50).default(10).describe(
+    'How many levels of dependents to follow'
+  ),
+});
+
+export type AnalyzeObjectImpactInput = z.infer<typeof analyzeObjectImpactSchema>;
+
+export async function analyzeObjectImpact(
+  input: AnalyzeObjectImpactInput,
+  databaseService: DatabaseService
+) {
+  try {
+    const impact = await new ImpactAnalyzer(databaseService).analyze(
+      input.objectType,
+      input.objectName,
+      input.schemaName,
+      { columnName: input.columnName, maxDepth: input.maxDepth }
+    );
+
+    return {
+      success: true,
+      data: impact,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
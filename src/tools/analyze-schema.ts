@@ -1,6 +1,7 @@
 import {z} from "zod";
 import {DatabaseService} from "../services/database.js";
 import {GeminiService} from "../services/gemini-service.js";
+import {SnapshotSchemaSource} from "../services/schema-snapshot.js";
 import {SchemaFilter, FilteredSchema, SchemaFilterOptions} from "../utils/schema-filter.js";
 import {log} from "../utils/logger.js";
 
@@ -16,13 +17,14 @@ export const analyzeSchemaSchema = z.object({
   maxViews: z.number().min(1).max(20).default(10),
   returnFullSchema: z.boolean().default(false),
   maxResponseSizeKB: z.number().min(10).max(500).default(100),
+  snapshotPath: z.string().optional().describe('Analyze a schema snapshot file instead of the live database'),
 });
 
 export type AnalyzeSchemaInput = z.infer<typeof analyzeSchemaSchema>;
 
 export async function analyzeSchema(
   input: AnalyzeSchemaInput,
-  databaseService: DatabaseService,
+  databaseService: DatabaseService | undefined,
   geminiService?: GeminiService | null
 ) {
   const schemaLogger = log.schema("analyze", undefined, input.schemaFilter);
@@ -40,9 +42,15 @@ export async function analyzeSchema(
       geminiAvailable: !!geminiService,
     });
 
-    const rawSchema = await databaseService.getSchema();
+    const schemaSource = input.snapshotPath
+      ? new SnapshotSchemaSource(input.snapshotPath)
+      : databaseService;
+    if (!schemaSource) {
+      throw new Error("Database service not available. Please check your database configuration.");
+    }
+    const rawSchema = await schemaSource.getSchema();
     
-    schemaLogger.info("Raw schema fetched from database", {
+    schemaLogger.info(input.snapshotPath ? "Raw schema read from snapshot" : "Raw schema fetched from database", {
       totalTables: rawSchema.tables?.length || 0,
       totalViews: rawSchema.views?.length || 0,
       totalFunctions: rawSchema.functions?.length || 0,
@@ -237,6 +245,9 @@ function reconstructSchemaFromGeminiResults(geminiResults: any, originalSchema:
     triggers: originalSchema.triggers || [],
     rlsPolicies: originalSchema.rlsPolicies || [],
     sequences: originalSchema.sequences || [],
+    partitions: originalSchema.partitions || [],
+    domains: originalSchema.domains || [],
+    compositeTypes: originalSchema.compositeTypes || [],
     temporaryTables: originalSchema.temporaryTables || []
   };
 
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { SchemaAnalyzer } from '../services/schema-analyzer.js';
+import { DriftMigrationGenerator } from '../services/drift-migration-generator.js';
+import { ProfileServices } from '../services/profile-registry.js';
+import { SchemaFilter } from '../utils/schema-filter.js';
+
+export const compareDatabasesSchema = z.object({
+  source: z.string().describe('Profile of the database treated as the reference, e.g. staging'),
+  target: z.string().describe('Profile of the database checked against it, e.g. prod'),
+  generateMigration: z.boolean().default(false).describe(
+    'Also generate a migration that brings the target in line with the source'
+  ),
+  name: z.string().default('sync_schema'),
+  saveToFile: z.boolean().default(false).describe(
+    "Save the generated migration into the target profile's migrations directory"
+  ),
+});
+
+export type CompareDatabasesInput = z.infer<typeof compareDatabasesSchema>;
+
+export async function compareDatabases(
+  input: CompareDatabasesInput,
+  source: ProfileServices,
+  target: ProfileServices,
+  schemaAnalyzer: SchemaAnalyzer
+) {
+  try {
+    if (source.profile.name === target.profile.name) {
+      throw new Error('Source and target must be different profiles');
+    }
+
+    const [sourceSchema, targetSchema] = await Promise.all([
+      source.databaseService.getSchema(),
+      target.databaseService.getSchema(),
+    ]);
+
+    // Each database keeps its own migration bookkeeping, which is not schema
+    const withoutBookkeeping = (schema: typeof sourceSchema) => SchemaFilter.withoutTable(
+      SchemaFilter.withoutTable(schema, source.profile.migrations.table),
+      target.profile.migrations.table
+    );
+    const expected = withoutBookkeeping(sourceSchema);
+    const actual = withoutBookkeeping(targetSchema);
+
+    // "missing" objects exist only in the source, "extra" objects only in the target
+    const drift = schemaAnalyzer.compareSchemas(expected, actual);
+
+    const result: Record<string, unknown> = {
+      source: source.profile.name,
+      target: target.profile.name,
+      drift,
+    };
+
+    if (input.generateMigration) {
+      const generator = new DriftMigrationGenerator();
+      const notes: string[] = [];
+      const operations = generator.generateOperations(drift, actual, expected, notes);
+
+      if (operations.length === 0) {
+        result.migration = {
+          message: 'No schema differences to turn into a migration',
+          operations: [],
+          notes,
+        };
+      } else {
+        const migrationParser = target.migrationParser;
+        const { upSql, downSql } = generator.buildMigrationSql(operations);
+        const timestamp = migrationParser.generateMigrationTimestamp();
+        const filename = migrationParser.generateMigrationFilename(input.name, timestamp);
+        const content = migrationParser.formatMigrationContent(upSql, downSql);
+
+        if (input.saveToFile) {
+          await migrationParser.ensureMigrationsDirectory();
+          await migrationParser.writeMigrationFile(filename, content);
+        }
+
+        if (operations.some(op => op.type === 'DROP_TABLE' || op.type === 'DROP_COLUMN')) {
+          notes.push(
+            `The migration drops tables or columns that only exist in ${target.profile.name}; ` +
+            'check whether they are hand-applied changes that belong in the migration history instead.'
+          );
+        }
+
+        result.migration = {
+          version: timestamp,
+          filename,
+          operations,
+          upSql,
+          downSql,
+          content,
+          saved: input.saveToFile,
+          notes,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { DatabaseService } from '../services/database.js';
+import { SchemaAnalyzer } from '../services/schema-analyzer.js';
+import { SchemaSnapshotStore } from '../services/schema-snapshot.js';
+
+export const compareSchemaSnapshotsSchema = z.object({
+  from: z.string().describe('Snapshot file treated as the baseline'),
+  to: z.string().optional().describe('Snapshot file to compare against it; omit to compare against the live database'),
+});
+
+export type CompareSchemaSnapshotsInput = z.infer<typeof compareSchemaSnapshotsSchema>;
+
+export async function compareSchemaSnapshots(
+  input: CompareSchemaSnapshotsInput,
+  schemaAnalyzer: SchemaAnalyzer,
+  databaseService?: DatabaseService
+) {
+  try {
+    const store = new SchemaSnapshotStore();
+    const from = await store.read(input.from);
+
+    let to;
+    if (input.to) {
+      to = await store.read(input.to);
+    } else {
+      if (!databaseService) {
+        throw new Error('Database service not available. Please check your database configuration.');
+      }
+      to = store.create(await databaseService.getSchema());
+    }
+
+    // "missing" objects were removed since `from`, "extra" objects were added
+    const drift = schemaAnalyzer.compareSchemas(from.schema, to.schema);
+
+    return {
+      success: true,
+      data: {
+        from: { path: input.from, hash: from.hash, generatedAt: from.generatedAt, source: from.source },
+        to: input.to
+          ? { path: input.to, hash: to.hash, generatedAt: to.generatedAt, source: to.source }
+          : { live: true, hash: to.hash },
+        identical: from.hash === to.hash,
+        drift,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
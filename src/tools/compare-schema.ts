@@ -1,26 +1,31 @@
 import { z } from 'zod';
-import { DatabaseService } from '../services/database.js';
-import { MigrationParser } from '../services/migration-parser.js';
 import { SchemaAnalyzer } from '../services/schema-analyzer.js';
-import { Migration } from '../types/migration.js';
+import { ProfileServices } from '../services/profile-registry.js';
+import { Migration, SchemaDrift } from '../types/migration.js';
+import { SchemaFilter } from '../utils/schema-filter.js';
 
 export const compareSchemaMigrationsSchema = z.object({
-  migrationsTable: z.string().default('schema_migrations'),
+  migrationsTable: z.string().optional().describe('Defaults to the migrations table of the profile'),
   includeDetails: z.boolean().default(true),
+  mode: z.enum(['replay', 'shadow']).default('replay').describe(
+    'replay: rebuild the expected schema by interpreting the migration SQL. ' +
+    'shadow: apply the applied migrations to a temporary database on the same server and introspect it.'
+  ),
 });
 
 export type CompareSchemaMigrationsInput = z.infer<typeof compareSchemaMigrationsSchema>;
 
 export async function compareSchemaMigrations(
   input: CompareSchemaMigrationsInput,
-  databaseService: DatabaseService,
-  migrationParser: MigrationParser,
+  services: ProfileServices,
   schemaAnalyzer: SchemaAnalyzer
 ) {
   try {
+    const { databaseService, migrationParser, shadowDatabase } = services;
+    const migrationsTable = input.migrationsTable ?? services.profile.migrations.table;
     const [currentSchema, appliedMigrations] = await Promise.all([
       databaseService.getSchema(),
-      databaseService.getAppliedMigrations(input.migrationsTable),
+      databaseService.getAppliedMigrations(migrationsTable),
     ]);
     
     const migrationHistory = await migrationParser.getMigrationHistory(appliedMigrations);
@@ -29,12 +34,43 @@ export async function compareSchemaMigrations(
       .filter((m: Migration) => appliedMigrations.some(am => am.version === m.version))
       .sort((a: Migration, b: Migration) => a.version.localeCompare(b.version));
     
-    const schemaDrift = schemaAnalyzer.compareSchemasWithMigrations(
-      currentSchema,
-      appliedMigrationList
-    );
+    // The migrations table itself is created by the runner, not by any migration
+    const liveSchema = SchemaFilter.withoutTable(currentSchema, migrationsTable);
+    let schemaDrift: SchemaDrift;
+
+    if (input.mode === 'shadow') {
+      if (!shadowDatabase) {
+        throw new Error('Shadow database verification is not available. Please check your configuration.');
+      }
+
+      const shadowResult = await shadowDatabase.run(async (shadow) => {
+        const run = await shadow.migrationRunner.migrateUp({
+          versions: appliedMigrationList.map((m: Migration) => m.version),
+        });
+        if (!run.success) {
+          return { failed: run.failed, schema: undefined };
+        }
+        return { failed: undefined, schema: await shadow.databaseService.getSchema() };
+      });
+
+      if (!shadowResult.schema) {
+        return {
+          success: false,
+          error: `Migration ${shadowResult.failed?.filename} failed in the shadow database: ${shadowResult.failed?.error}`,
+          data: { mode: input.mode, failed: shadowResult.failed },
+        };
+      }
+
+      schemaDrift = schemaAnalyzer.compareSchemas(
+        SchemaFilter.withoutTable(shadowResult.schema, migrationsTable),
+        liveSchema
+      );
+    } else {
+      schemaDrift = schemaAnalyzer.compareSchemasWithMigrations(liveSchema, appliedMigrationList);
+    }
     
     const result = {
+      mode: input.mode,
       drift: schemaDrift,
       appliedMigrations: appliedMigrations.length,
       pendingMigrations: migrationHistory.pendingMigrations.length,
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DdlGenerator } from '../services/ddl-generator.js';
+import { ProfileServices } from '../services/profile-registry.js';
+
+export const dumpSchemaDdlSchema = z.object({
+  schemas: z.array(z.string()).optional().describe(
+    'Schemas to dump; defaults to every non-system schema'
+  ),
+  outputPath: z.string().optional().describe('File to write the script to'),
+  asMigration: z.boolean().default(false).describe(
+    'Also save the script as a dbmate baseline migration in the migrations directory'
+  ),
+  name: z.string().default('baseline'),
+});
+
+export type DumpSchemaDdlInput = z.infer<typeof dumpSchemaDdlSchema>;
+
+export async function dumpSchemaDdl(
+  input: DumpSchemaDdlInput,
+  services: ProfileServices
+) {
+  try {
+    // dbmate creates and maintains its own table
+    const migrationsTable = services.profile.migrations.table;
+    const dump = await new DdlGenerator(services.databaseService).dumpSchemas({
+      schemas: input.schemas,
+      excludeTables: [migrationsTable],
+    });
+
+    const counts: Record<string, number> = {};
+    for (const statement of dump.statements) {
+      counts[statement.kind] = (counts[statement.kind] ?? 0) + 1;
+    }
+
+    if (input.outputPath) {
+      await fs.mkdir(path.dirname(input.outputPath), { recursive: true });
+      await fs.writeFile(input.outputPath, dump.ddl, 'utf8');
+    }
+
+    let migration;
+    if (input.asMigration) {
+      const migrationParser = services.migrationParser;
+      const version = migrationParser.generateMigrationTimestamp();
+      const filename = migrationParser.generateMigrationFilename(input.name, version);
+      const content = migrationParser.formatMigrationContent(
+        dump.ddl.trimEnd(),
+        '-- A baseline captures a database that predates its migrations and is not rolled back.'
+      );
+      await migrationParser.ensureMigrationsDirectory();
+      await migrationParser.writeMigrationFile(filename, content);
+
+      migration = {
+        version,
+        filename,
+        // The objects already exist where the dump came from, so the baseline is recorded there instead of run
+        recordAppliedSql: `INSERT INTO ${migrationsTable} (version) VALUES ('${version}');`,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        schemas: dump.schemas,
+        counts,
+        requires: dump.requires,
+        ...(input.outputPath ? { outputPath: input.outputPath } : {}),
+        ...(migration ? { migration } : {}),
+        ddl: dump.ddl,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatabaseService } from '../services/database.js';
+import { SnapshotSchemaSource } from '../services/schema-snapshot.js';
+import { SchemaModelExporter } from '../services/schema-model-exporter.js';
+
+export const exportSchemaModelsSchema = z.object({
+  format: z.enum(['prisma', 'drizzle', 'dbml']).describe(
+    'prisma writes a schema.prisma, drizzle a TypeScript module of pgTable definitions, dbml a dbdiagram.io document'
+  ),
+  schemas: z.array(z.string()).optional().describe(
+    'Schemas to export; defaults to every non-system schema'
+  ),
+  outputPath: z.string().optional().describe('File to write the model to'),
+  snapshotPath: z.string().optional().describe('Export a schema snapshot file instead of the live database'),
+});
+
+export type ExportSchemaModelsInput = z.infer<typeof exportSchemaModelsSchema>;
+
+export async function exportSchemaModels(
+  input: ExportSchemaModelsInput,
+  databaseService: DatabaseService | undefined
+) {
+  try {
+    const schemaSource = input.snapshotPath
+      ? new SnapshotSchemaSource(input.snapshotPath)
+      : databaseService;
+    if (!schemaSource) {
+      throw new Error('Database service not available. Please check your database configuration.');
+    }
+    const result = await new SchemaModelExporter(schemaSource).export(input.format, {
+      schemas: input.schemas,
+    });
+
+    if (input.outputPath) {
+      await fs.mkdir(path.dirname(input.outputPath), { recursive: true });
+      await fs.writeFile(input.outputPath, result.content, 'utf8');
+    }
+
+    return {
+      success: true,
+      data: {
+        ...result,
+        ...(input.outputPath ? { path: input.outputPath } : {}),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
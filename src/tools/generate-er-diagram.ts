@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatabaseService } from '../services/database.js';
+import { SnapshotSchemaSource } from '../services/schema-snapshot.js';
+import { buildErModel, renderErDiagram } from '../utils/er-diagram.js';
+
+export const generateErDiagramSchema = z.object({
+  format: z.enum(['mermaid', 'dot', 'plantuml']).default('mermaid'),
+  schemaFilter: z.string().optional(),
+  tableFilter: z.string().optional(),
+  focusTable: z.string().optional().describe(
+    'Only draw the tables within `hops` foreign keys of this table (may be schema-qualified)'
+  ),
+  hops: z.number().int().min(0).max(10).default(1),
+  columns: z.enum(['keys', 'all', 'none']).default('keys').describe(
+    'Which columns to list: primary, foreign and unique key columns, every column, or none'
+  ),
+  outputPath: z.string().optional().describe('File to write the diagram to'),
+  snapshotPath: z.string().optional().describe('Draw a schema snapshot file instead of the live database'),
+});
+
+export type GenerateErDiagramInput = z.infer<typeof generateErDiagramSchema>;
+
+export async function generateErDiagram(
+  input: GenerateErDiagramInput,
+  databaseService: DatabaseService | undefined
+) {
+  try {
+    const schemaSource = input.snapshotPath
+      ? new SnapshotSchemaSource(input.snapshotPath)
+      : databaseService;
+    if (!schemaSource) {
+      throw new Error('Database service not available. Please check your database configuration.');
+    }
+    const schema = await schemaSource.getSchema();
+
+    const model = buildErModel(schema, {
+      schemaFilter: input.schemaFilter,
+      tableFilter: input.tableFilter,
+      focusTable: input.focusTable,
+      hops: input.hops,
+      columns: input.columns,
+    });
+    const diagram = renderErDiagram(model, input.format);
+
+    if (input.outputPath) {
+      await fs.mkdir(path.dirname(input.outputPath), { recursive: true });
+      await fs.writeFile(input.outputPath, diagram, 'utf8');
+    }
+
+    return {
+      success: true,
+      data: {
+        format: input.format,
+        tables: model.entities.length,
+        relationships: model.relationships.length,
+        ...(input.outputPath ? { outputPath: input.outputPath } : {}),
+        diagram,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
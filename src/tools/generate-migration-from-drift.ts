@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { SchemaAnalyzer } from '../services/schema-analyzer.js';
+import { ProfileServices } from '../services/profile-registry.js';
+import { DriftMigrationGenerator } from '../services/drift-migration-generator.js';
+import { SchemaFilter } from '../utils/schema-filter.js';
+import { Migration } from '../types/migration.js';
+
+export const generateMigrationFromDriftSchema = z.object({
+  direction: z.enum(['match_database', 'match_migrations']).describe(
+    'match_database: write a migration that brings the migration history in line with the live database. ' +
+    'match_migrations: write a migration that brings the live database back in line with the migration history.'
+  ),
+  name: z.string().default('schema_drift'),
+  saveToFile: z.boolean().default(false),
+  migrationsTable: z.string().optional().describe('Defaults to the migrations table of the profile'),
+});
+
+export type GenerateMigrationFromDriftInput = z.infer<typeof generateMigrationFromDriftSchema>;
+
+export async function generateMigrationFromDrift(
+  input: GenerateMigrationFromDriftInput,
+  services: ProfileServices,
+  schemaAnalyzer: SchemaAnalyzer
+) {
+  try {
+    const { databaseService, migrationParser } = services;
+    const migrationsTable = input.migrationsTable ?? services.profile.migrations.table;
+    const [currentSchema, appliedMigrations] = await Promise.all([
+      databaseService.getSchema(),
+      databaseService.getAppliedMigrations(migrationsTable),
+    ]);
+
+    const migrationHistory = await migrationParser.getMigrationHistory(appliedMigrations);
+    const appliedMigrationList = migrationHistory.migrationChain
+      .filter((m: Migration) => appliedMigrations.some(am => am.version === m.version))
+      .sort((a: Migration, b: Migration) => a.version.localeCompare(b.version));
+
+    // The migrations table is bookkeeping, never something to create or drop
+    const liveSchema = SchemaFilter.withoutTable(currentSchema, migrationsTable);
+    const expectedSchema = SchemaFilter.withoutTable(
+      schemaAnalyzer.buildExpectedSchemaFromMigrations(appliedMigrationList),
+      migrationsTable
+    );
+
+    const [source, target] = input.direction === 'match_database'
+      ? [expectedSchema, liveSchema]
+      : [liveSchema, expectedSchema];
+
+    const drift = schemaAnalyzer.compareSchemas(target, source);
+    const generator = new DriftMigrationGenerator();
+    const notes: string[] = [];
+    const operations = generator.generateOperations(drift, source, target, notes);
+
+    if (operations.length === 0) {
+      return {
+        success: true,
+        data: {
+          hasChanges: drift.hasChanges,
+          message: 'No schema drift to turn into a migration',
+          operations: [],
+          notes,
+        },
+      };
+    }
+
+    const { upSql, downSql } = generator.buildMigrationSql(operations);
+    const timestamp = migrationParser.generateMigrationTimestamp();
+    const filename = migrationParser.generateMigrationFilename(input.name, timestamp);
+    const content = migrationParser.formatMigrationContent(upSql, downSql);
+
+    if (input.saveToFile) {
+      await migrationParser.ensureMigrationsDirectory();
+      await migrationParser.writeMigrationFile(filename, content);
+    }
+
+    if (input.direction === 'match_database') {
+      notes.push(
+        `The live database already has these changes. Record the migration instead of applying it: ` +
+        `INSERT INTO ${migrationsTable} (version) VALUES ('${timestamp}');`
+      );
+    }
+    if (operations.some(op => op.type === 'DROP_TABLE' || op.type === 'DROP_COLUMN')) {
+      notes.push('The migration drops tables or columns; the down migration restores their structure but not their data.');
+    }
+
+    return {
+      success: true,
+      data: {
+        direction: input.direction,
+        version: timestamp,
+        filename,
+        operations,
+        upSql,
+        downSql,
+        content,
+        saved: input.saveToFile,
+        notes,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import { SchemaAnalyzer } from '../services/schema-analyzer.js';
+import { ProfileServices } from '../services/profile-registry.js';
+import { DriftMigrationGenerator } from '../services/drift-migration-generator.js';
+import { SnapshotSchemaSource } from '../services/schema-snapshot.js';
+import { SchemaModelImporter, SchemaModelImportFormat } from '../services/schema-model-importer.js';
+import { SchemaFilter } from '../utils/schema-filter.js';
+
+export const generateMigrationFromModelSchema = z.object({
+  modelPath: z.string().optional().describe('Path to a .dbml file or a schema.prisma'),
+  model: z.string().optional().describe('The DBML or Prisma model itself, instead of modelPath'),
+  format: z.enum(['dbml', 'prisma']).optional().describe(
+    'Defaults to prisma for .prisma files and to dbml for other files; inline models are detected from their content'
+  ),
+  schemas: z.array(z.string()).optional().describe(
+    'Schemas the model describes completely; their tables and enums missing from the model are dropped. ' +
+    'Defaults to the schemas the model uses'
+  ),
+  snapshotPath: z.string().optional().describe('Diff against a schema snapshot file instead of the live database'),
+  name: z.string().default('import_model'),
+  saveToFile: z.boolean().default(false),
+  migrationsTable: z.string().optional().describe('Defaults to the migrations table of the profile'),
+});
+
+export type GenerateMigrationFromModelInput = z.infer<typeof generateMigrationFromModelSchema>;
+
+function detectFormat(input: GenerateMigrationFromModelInput, content: string): SchemaModelImportFormat {
+  if (input.format) return input.format;
+  if (input.modelPath) return input.modelPath.endsWith('.prisma') ? 'prisma' : 'dbml';
+  return /^\s*(model|datasource|generator)\s+\w+\s*\{/m.test(content) ? 'prisma' : 'dbml';
+}
+
+export async function generateMigrationFromModel(
+  input: GenerateMigrationFromModelInput,
+  services: ProfileServices,
+  schemaAnalyzer: SchemaAnalyzer
+) {
+  try {
+    const { databaseService, migrationParser } = services;
+    if (!input.model && !input.modelPath) {
+      throw new Error('Either model or modelPath is required');
+    }
+    const content = input.model ?? await fs.readFile(input.modelPath!, 'utf8');
+    const importer = new SchemaModelImporter();
+    const imported = importer.import(detectFormat(input, content), content);
+
+    const currentSchema = input.snapshotPath
+      ? await new SnapshotSchemaSource(input.snapshotPath).getSchema()
+      : await databaseService.getSchema();
+    const modelSchemas = [
+      ...imported.schema.tables.map(t => t.schema),
+      ...imported.schema.enums.map(e => e.schema),
+    ];
+    const schemas = input.schemas ?? (modelSchemas.length > 0 ? [...new Set(modelSchemas)] : ['public']);
+
+    // The migrations table is bookkeeping, never something to create or drop
+    const migrationsTable = input.migrationsTable ?? services.profile.migrations.table;
+    const source = SchemaFilter.withoutTable(currentSchema, migrationsTable);
+    const target = SchemaFilter.withoutTable(
+      importer.desiredSchema(source, imported.schema, schemas),
+      migrationsTable
+    );
+
+    const drift = schemaAnalyzer.compareSchemas(target, source);
+    const generator = new DriftMigrationGenerator();
+    const notes: string[] = [];
+    const operations = generator.generateOperations(drift, source, target, notes);
+
+    if (operations.length === 0) {
+      return {
+        success: true,
+        data: {
+          format: imported.format,
+          hasChanges: drift.hasChanges,
+          message: 'The database already matches the model',
+          operations: [],
+          warnings: imported.warnings,
+          notes,
+        },
+      };
+    }
+
+    const { upSql, downSql } = generator.buildMigrationSql(operations);
+    const version = migrationParser.generateMigrationTimestamp();
+    const filename = migrationParser.generateMigrationFilename(input.name, version);
+    const migrationContent = migrationParser.formatMigrationContent(upSql, downSql);
+
+    if (input.saveToFile) {
+      await migrationParser.ensureMigrationsDirectory();
+      await migrationParser.writeMigrationFile(filename, migrationContent);
+    }
+
+    if (operations.some(op => op.type === 'DROP_TABLE' || op.type === 'DROP_COLUMN')) {
+      notes.push(
+        'The migration drops tables or columns the model does not have; the down migration restores their structure but not their data. ' +
+        'Check for renames, which show up as a drop and an add.'
+      );
+    }
+
+    return {
+      success: true,
+      data: {
+        format: imported.format,
+        schemas,
+        version,
+        filename,
+        operations,
+        upSql,
+        downSql,
+        content: migrationContent,
+        saved: input.saveToFile,
+        modelDdl: imported.ddl,
+        warnings: imported.warnings,
+        notes,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
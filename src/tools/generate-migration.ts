@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { MigrationParser } from '../services/migration-parser.js';
+import { MigrationLinter } from '../services/migration-linter.js';
+import { MigrationOperationAnalyzer } from '../services/migration-operation-analyzer.js';
 import { GeneratedMigration } from '../types/migration.js';
 
 export const generateMigrationSchema = z.object({
@@ -17,9 +19,13 @@ export async function generateMigration(
 ) {
   try {
     const timestamp = migrationParser.generateMigrationTimestamp();
-    const filename = migrationParser.generateMigrationFilename(input.name);
+    const filename = migrationParser.generateMigrationFilename(input.name, timestamp);
     const content = migrationParser.formatMigrationContent(input.upSql, input.downSql);
     
+    const operationAnalyzer = new MigrationOperationAnalyzer();
+    const operations = operationAnalyzer.extractOperations(input.upSql);
+    const reversal = operationAnalyzer.checkReversal(operations, operationAnalyzer.extractOperations(input.downSql));
+    
     const migration: GeneratedMigration = {
       version: timestamp,
       name: input.name,
@@ -27,9 +33,12 @@ export async function generateMigration(
       upSql: input.upSql,
       downSql: input.downSql,
       timestamp: new Date(),
-      operations: [], // TODO: Parse operations from SQL
+      operations,
     };
     
+    // Generated files have no transaction:false marker, so lint them as transactional
+    const lint = new MigrationLinter().lintMigration({ upSql: input.upSql, downSql: input.downSql });
+    
     if (input.saveToFile) {
       await migrationParser.ensureMigrationsDirectory();
       await migrationParser.writeMigrationFile(filename, content);
@@ -41,6 +50,13 @@ export async function generateMigration(
         migration,
         content,
         saved: input.saveToFile,
+        lint,
+        reversal: {
+          complete: reversal.unreversed.length === 0 && reversal.irreversible.length === 0,
+          unreversed: reversal.unreversed,
+          irreversible: reversal.irreversible,
+        },
+        warnings: reversal.warnings,
       },
     };
   } catch (error) {
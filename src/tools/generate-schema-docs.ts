@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatabaseService } from '../services/database.js';
+import { SnapshotSchemaSource } from '../services/schema-snapshot.js';
+import { SchemaDocsGenerator } from '../services/schema-docs-generator.js';
+
+export const generateSchemaDocsSchema = z.object({
+  format: z.enum(['markdown', 'html']).default('markdown').describe(
+    'markdown writes GitHub-flavoured pages with Mermaid diagrams, html standalone pages that load Mermaid from a CDN'
+  ),
+  schemas: z.array(z.string()).optional().describe('Schemas to document; defaults to every non-system schema'),
+  diagrams: z.boolean().default(true).describe('Embed ER diagrams on the index, schema and table pages'),
+  outputDir: z.string().optional().describe('Directory to write the pages to; without it the pages are returned'),
+  minCoverage: z.number().min(0).max(100).optional().describe(
+    'Percentage of tables, columns, views, functions and types that must have a COMMENT ON; sets coverage.passed'
+  ),
+  snapshotPath: z.string().optional().describe('Document a schema snapshot file instead of the live database'),
+});
+
+export type GenerateSchemaDocsInput = z.infer<typeof generateSchemaDocsSchema>;
+
+export async function generateSchemaDocs(
+  input: GenerateSchemaDocsInput,
+  databaseService: DatabaseService | undefined
+) {
+  try {
+    const schemaSource = input.snapshotPath
+      ? new SnapshotSchemaSource(input.snapshotPath)
+      : databaseService;
+    if (!schemaSource) {
+      throw new Error('Database service not available. Please check your database configuration.');
+    }
+    const docs = await new SchemaDocsGenerator(schemaSource).generate(input.format, {
+      schemas: input.schemas,
+      diagrams: input.diagrams,
+    });
+
+    if (input.outputDir) {
+      for (const file of docs.files) {
+        const target = path.join(input.outputDir, file.path);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, file.content, 'utf8');
+      }
+    }
+
+    const coverage = {
+      ...docs.coverage,
+      ...(input.minCoverage !== undefined
+        ? { minCoverage: input.minCoverage, passed: docs.coverage.percent >= input.minCoverage }
+        : {}),
+    };
+
+    return {
+      success: true,
+      data: {
+        format: docs.format,
+        coverage,
+        ...(input.outputDir
+          ? { outputDir: input.outputDir, files: docs.files.map(file => file.path) }
+          : { files: docs.files }),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
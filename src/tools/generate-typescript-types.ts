@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatabaseService } from '../services/database.js';
+import { SnapshotSchemaSource } from '../services/schema-snapshot.js';
+import { TypeScriptGenerator } from '../services/typescript-generator.js';
+
+export const generateTypeScriptTypesSchema = z.object({
+  schemas: z.array(z.string()).optional().describe(
+    'Schemas to generate types for; defaults to every non-system schema'
+  ),
+  includeZod: z.boolean().default(true).describe('Also emit zod schemas matching each type'),
+  splitBySchema: z.boolean().default(false).describe('Write one file per schema instead of a single file'),
+  outputPath: z.string().optional().describe(
+    'File to write to, or the directory for the per-schema files when splitBySchema is set'
+  ),
+  snapshotPath: z.string().optional().describe('Generate from a schema snapshot file instead of the live database'),
+});
+
+export type GenerateTypeScriptTypesInput = z.infer<typeof generateTypeScriptTypesSchema>;
+
+export async function generateTypeScriptTypes(
+  input: GenerateTypeScriptTypesInput,
+  databaseService: DatabaseService | undefined
+) {
+  try {
+    const schemaSource = input.snapshotPath
+      ? new SnapshotSchemaSource(input.snapshotPath)
+      : databaseService;
+    if (!schemaSource) {
+      throw new Error('Database service not available. Please check your database configuration.');
+    }
+    const files = await new TypeScriptGenerator(schemaSource).generate({
+      schemas: input.schemas,
+      includeZod: input.includeZod,
+      splitBySchema: input.splitBySchema,
+    });
+
+    const written = [];
+    for (const file of files) {
+      let filePath: string | undefined;
+      if (input.outputPath) {
+        filePath = input.splitBySchema ? path.join(input.outputPath, file.fileName) : input.outputPath;
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.content, 'utf8');
+      }
+      written.push({ ...file, ...(filePath ? { path: filePath } : {}) });
+    }
+
+    return {
+      success: true,
+      data: {
+        files: written,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -1,11 +1,15 @@
 import {z} from "zod";
 import {DatabaseService} from "../services/database.js";
+import {DdlGenerator} from "../services/ddl-generator.js";
 import {log} from "../utils/logger.js";
 
 export const getDatabaseObjectDefinitionSchema = z.object({
   objectName: z.string().min(1),
   objectType: z.enum(['view', 'materialized_view', 'matview', 'function', 'procedure', 'table', 'trigger', 'policy', 'rls', 'table_policies', 'table_rls', 'enum', 'index']),
   schemaName: z.string().default('public'),
+  asDdl: z.boolean().default(false).describe(
+    'Return executable, dependency-ordered CREATE DDL instead of catalog rows'
+  ),
 });
 
 export type GetDatabaseObjectDefinitionInput = z.infer<typeof getDatabaseObjectDefinitionSchema>;
@@ -22,8 +26,35 @@ export async function getDatabaseObjectDefinition(
       objectName: input.objectName,
       objectType: input.objectType,
       schemaName: input.schemaName,
+      asDdl: input.asDdl,
     });
 
+    if (input.asDdl) {
+      const ddl = await new DdlGenerator(databaseService).generate(
+        input.objectName,
+        input.objectType,
+        input.schemaName
+      );
+      const processingTimeMs = Date.now() - startTime;
+
+      objectLogger.info("Database object DDL generated successfully", {
+        objectName: ddl.name,
+        objectType: ddl.objectType,
+        statements: ddl.statements.length,
+        processingTimeMs,
+      });
+
+      return {
+        success: true,
+        data: ddl,
+        metadata: {
+          processingTimeMs,
+          objectType: ddl.objectType,
+          schemaName: ddl.schema,
+        },
+      };
+    }
+
     const result = await databaseService.getDatabaseObjectDefinition(
       input.objectName, 
       input.objectType, 
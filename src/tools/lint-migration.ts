@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { MigrationParser } from '../services/migration-parser.js';
+import { MigrationLinter, MIGRATION_LINT_RULES } from '../services/migration-linter.js';
+import { MigrationSectionOptions } from '../types/migration.js';
+
+export const lintMigrationSchema = z.object({
+  migration: z.string().optional().describe('Filename or version of an existing migration file to lint'),
+  upSql: z.string().optional(),
+  downSql: z.string().optional(),
+  transaction: z.boolean().default(true).describe(
+    'Whether upSql/downSql run inside a transaction; ignored for migration files, which declare it themselves'
+  ),
+  ignoreRules: z.array(z.string()).default([]),
+});
+
+export type LintMigrationInput = z.infer<typeof lintMigrationSchema>;
+
+export async function lintMigration(
+  input: LintMigrationInput,
+  migrationParser: MigrationParser
+) {
+  try {
+    const unknownRules = input.ignoreRules.filter(rule => !MIGRATION_LINT_RULES[rule]);
+    if (unknownRules.length > 0) {
+      throw new Error(
+        `Unknown rule id(s): ${unknownRules.join(', ')}. Known rules: ${Object.keys(MIGRATION_LINT_RULES).join(', ')}`
+      );
+    }
+
+    const linter = new MigrationLinter();
+    let target: {
+      filename?: string;
+      upSql: string;
+      downSql: string;
+      upOptions: MigrationSectionOptions;
+      downOptions: MigrationSectionOptions;
+    };
+
+    if (input.migration) {
+      const files = await migrationParser.parseMigrationFiles();
+      const file = files.find(f => f.filename === input.migration || f.parsed.version === input.migration);
+      if (!file) {
+        throw new Error(`Migration ${input.migration} not found`);
+      }
+      target = {
+        filename: file.filename,
+        upSql: file.parsed.upSql,
+        downSql: file.parsed.downSql,
+        upOptions: file.parsed.upOptions,
+        downOptions: file.parsed.downOptions,
+      };
+    } else if (input.upSql || input.downSql) {
+      const options = { transaction: input.transaction };
+      target = {
+        upSql: input.upSql ?? '',
+        downSql: input.downSql ?? '',
+        upOptions: options,
+        downOptions: options,
+      };
+    } else {
+      throw new Error('Provide either a migration filename/version or upSql/downSql to lint');
+    }
+
+    const report = linter.lintMigration(target, input.ignoreRules);
+
+    return {
+      success: true,
+      data: {
+        ...(target.filename ? { filename: target.filename } : {}),
+        ...report,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ProfileServices } from '../services/profile-registry.js';
+import { SnapshotSchemaSource } from '../services/schema-snapshot.js';
+import { SchemaLinter } from '../services/schema-linter.js';
+import { SchemaLintConfig, SchemaLintConfigSchema, SchemaLintRuleSettingSchema } from '../types/lint.js';
+import { SchemaFilter } from '../utils/schema-filter.js';
+
+export const lintSchemaSchema = z.object({
+  configPath: z.string().optional().describe(
+    'JSON config file with "rules" (rule id to a severity, "off", or { severity, options }) and "ignore" globs'
+  ),
+  rules: z.record(SchemaLintRuleSettingSchema).optional().describe('Rule settings applied on top of the config file'),
+  ignore: z.array(z.string()).optional().describe('Objects to skip, e.g. "public.legacy_*" or "audit.*"'),
+  schemas: z.array(z.string()).optional().describe('Schemas to lint; defaults to every non-system schema'),
+  format: z.enum(['json', 'sarif']).default('json'),
+  outputPath: z.string().optional().describe('File to write the report to, e.g. schema-lint.sarif'),
+  schemaDumpPath: z.string().optional().describe(
+    'Schema dump (dbmate writes db/schema.sql) that SARIF results point at, on the line creating each object'
+  ),
+  snapshotPath: z.string().optional().describe('Lint a schema snapshot file instead of the live database'),
+  migrationsTable: z.string().optional().describe(
+    'Defaults to the migrations table of the profile, or schema_migrations when linting a snapshot'
+  ),
+});
+
+export type LintSchemaInput = z.infer<typeof lintSchemaSchema>;
+
+async function loadConfig(input: LintSchemaInput): Promise<SchemaLintConfig> {
+  let fileConfig: unknown = {};
+  if (input.configPath) {
+    try {
+      fileConfig = JSON.parse(await fs.readFile(input.configPath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Could not read lint config from ${input.configPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const config = SchemaLintConfigSchema.parse(fileConfig);
+  return {
+    rules: { ...config.rules, ...input.rules },
+    ignore: [...config.ignore, ...(input.ignore ?? [])],
+  };
+}
+
+export async function lintSchema(
+  input: LintSchemaInput,
+  services: ProfileServices | undefined
+) {
+  try {
+    const config = await loadConfig(input);
+    const schemaSource = input.snapshotPath
+      ? new SnapshotSchemaSource(input.snapshotPath)
+      : services?.databaseService;
+    if (!schemaSource) {
+      throw new Error('Database service not available. Please check your database configuration.');
+    }
+
+    const migrationsTable = input.migrationsTable ?? services?.profile.migrations.table ?? 'schema_migrations';
+    let schema = SchemaFilter.withoutTable(await schemaSource.getSchema(), migrationsTable);
+    if (input.schemas) {
+      const included = (schemaName: string) => input.schemas!.includes(schemaName);
+      schema = {
+        ...schema,
+        tables: schema.tables.filter(t => included(t.schema)),
+        enums: schema.enums.filter(e => included(e.schema)),
+      };
+    }
+
+    const linter = new SchemaLinter();
+    const report = linter.lint(schema, config);
+
+    const sarif = input.format === 'sarif'
+      ? linter.toSarif(report, {
+          uri: input.schemaDumpPath,
+          content: input.schemaDumpPath ? await fs.readFile(input.schemaDumpPath, 'utf8') : undefined,
+        })
+      : undefined;
+
+    if (input.outputPath) {
+      await fs.mkdir(path.dirname(input.outputPath), { recursive: true });
+      await fs.writeFile(input.outputPath, JSON.stringify(sarif ?? report, null, 2), 'utf8');
+    }
+
+    return {
+      success: true,
+      data: {
+        ...(sarif ? { summary: report.summary, counts: report.counts, sarif } : report),
+        ...(input.outputPath ? { outputPath: input.outputPath } : {}),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { listTemplates } from '../templates/migration-templates.js';
+
+export const listMigrationTemplatesSchema = z.object({
+  nameFilter: z.string().optional(),
+  includeTemplateSql: z.boolean().default(false),
+});
+
+export type ListMigrationTemplatesInput = z.infer<typeof listMigrationTemplatesSchema>;
+
+export async function listMigrationTemplates(input: ListMigrationTemplatesInput) {
+  try {
+    const templates = listTemplates().filter(template =>
+      !input.nameFilter || template.name.includes(input.nameFilter)
+    );
+
+    return {
+      success: true,
+      data: {
+        totalTemplates: templates.length,
+        templates: templates.map(template => ({
+          name: template.name,
+          description: template.description,
+          variables: template.variables,
+          requiredVariables: template.variables
+            .filter(variable => variable.required)
+            .map(variable => variable.name),
+          ...(input.includeTemplateSql
+            ? { upTemplate: template.upTemplate, downTemplate: template.downTemplate }
+            : {}),
+        })),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { MigrationRunner } from '../services/migration-runner.js';
+
+export const migrateDownSchema = z.object({
+  steps: z.number().int().min(1).default(1),
+  dryRun: z.boolean().default(false),
+});
+
+export type MigrateDownInput = z.infer<typeof migrateDownSchema>;
+
+export async function migrateDown(
+  input: MigrateDownInput,
+  migrationRunner: MigrationRunner
+) {
+  try {
+    const result = await migrationRunner.migrateDown({
+      steps: input.steps,
+      dryRun: input.dryRun,
+    });
+    
+    return {
+      success: result.success,
+      data: result,
+      ...(result.failed ? { error: `Rollback of ${result.failed.filename} failed: ${result.failed.error}` } : {}),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
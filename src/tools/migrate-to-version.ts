@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { MigrationRunner } from '../services/migration-runner.js';
+
+export const migrateToVersionSchema = z.object({
+  version: z.string().regex(/^\d+$/, 'Version must be a numeric migration version (use "0" to roll back everything)'),
+  dryRun: z.boolean().default(false),
+});
+
+export type MigrateToVersionInput = z.infer<typeof migrateToVersionSchema>;
+
+export async function migrateToVersion(
+  input: MigrateToVersionInput,
+  migrationRunner: MigrationRunner
+) {
+  try {
+    const result = await migrationRunner.migrateToVersion(input.version, {
+      dryRun: input.dryRun,
+    });
+    
+    return {
+      success: result.success,
+      data: result,
+      ...(result.failed ? { error: `Migration ${result.failed.filename} (${result.failed.direction}) failed: ${result.failed.error}` } : {}),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { MigrationRunner } from '../services/migration-runner.js';
+
+export const migrateUpSchema = z.object({
+  limit: z.number().int().min(1).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+export type MigrateUpInput = z.infer<typeof migrateUpSchema>;
+
+export async function migrateUp(
+  input: MigrateUpInput,
+  migrationRunner: MigrationRunner
+) {
+  try {
+    const result = await migrationRunner.migrateUp({
+      limit: input.limit,
+      dryRun: input.dryRun,
+    });
+    
+    return {
+      success: result.success,
+      data: result,
+      ...(result.failed ? { error: `Migration ${result.failed.filename} failed: ${result.failed.error}` } : {}),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
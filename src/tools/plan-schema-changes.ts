@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SchemaAnalyzer } from '../services/schema-analyzer.js';
+import { SchemaPlanner } from '../services/schema-planner.js';
+import { MigrationLinter } from '../services/migration-linter.js';
+import { ProfileServices } from '../services/profile-registry.js';
+import { SchemaFilter } from '../utils/schema-filter.js';
+import { DatabaseSchema } from '../types/schema.js';
+
+export const planSchemaChangesSchema = z.object({
+  directory: z.string().default('./schema').describe(
+    'Directory of desired-state SQL files, applied in filename order'
+  ),
+  name: z.string().default('schema_changes'),
+  saveToFile: z.boolean().default(false),
+});
+
+export type PlanSchemaChangesInput = z.infer<typeof planSchemaChangesSchema>;
+
+interface SchemaFileFailure {
+  file: string;
+  error: string;
+  line?: number;
+}
+
+export async function planSchemaChanges(
+  input: PlanSchemaChangesInput,
+  services: ProfileServices,
+  schemaAnalyzer: SchemaAnalyzer
+) {
+  try {
+    const files = (await fs.readdir(input.directory))
+      .filter(file => file.endsWith('.sql'))
+      .sort();
+    if (files.length === 0) {
+      throw new Error(`No .sql files found in ${input.directory}`);
+    }
+
+    // Load the desired state into a scratch database and introspect it like the live one
+    const loaded = await services.shadowDatabase.run(async (shadow) => {
+      const failure = await shadow.databaseService.withClient(async (client) => {
+        for (const file of files) {
+          const sql = await fs.readFile(path.join(input.directory, file), 'utf8');
+          try {
+            await client.query(sql);
+          } catch (error) {
+            const position = (error as { position?: string }).position;
+            return {
+              file,
+              error: error instanceof Error ? error.message : String(error),
+              ...(position ? { line: sql.slice(0, parseInt(position, 10) - 1).split('\n').length } : {}),
+            } as SchemaFileFailure;
+          }
+        }
+        return undefined;
+      });
+      if (failure) {
+        return { failure, schema: undefined };
+      }
+      return { failure: undefined, schema: (await shadow.databaseService.getSchema()) as DatabaseSchema };
+    });
+
+    if (!loaded.schema) {
+      const failure = loaded.failure!;
+      return {
+        success: false,
+        error: `${failure.file}${failure.line ? `:${failure.line}` : ''}: ${failure.error}`,
+        data: { failed: failure },
+      };
+    }
+
+    // The migrations table is bookkeeping, not part of the desired state
+    const migrationsTable = services.profile.migrations.table;
+    const current = SchemaFilter.withoutTable(await services.databaseService.getSchema(), migrationsTable);
+    const desired = SchemaFilter.withoutTable(loaded.schema, migrationsTable);
+
+    const planner = new SchemaPlanner(schemaAnalyzer);
+    const plan = planner.plan(current, desired);
+
+    if (plan.operations.length === 0) {
+      return {
+        success: true,
+        data: {
+          files,
+          message: 'The live database already matches the desired state',
+          operations: [],
+          warnings: plan.warnings,
+        },
+      };
+    }
+
+    const migrationParser = services.migrationParser;
+    const { upSql, downSql } = planner.buildMigrationSql(plan.operations);
+    const timestamp = migrationParser.generateMigrationTimestamp();
+    const filename = migrationParser.generateMigrationFilename(input.name, timestamp);
+    const content = migrationParser.formatMigrationContent(upSql, downSql);
+    const lint = new MigrationLinter().lintMigration({ upSql, downSql });
+
+    if (input.saveToFile) {
+      await migrationParser.ensureMigrationsDirectory();
+      await migrationParser.writeMigrationFile(filename, content);
+    }
+
+    const warnings = [...plan.warnings];
+    if (plan.operations.some(op => op.type === 'DROP_TABLE' || op.type === 'DROP_COLUMN')) {
+      warnings.push('The migration drops tables or columns; the down migration restores their structure but not their data.');
+    }
+
+    return {
+      success: true,
+      data: {
+        files,
+        version: timestamp,
+        filename,
+        drift: plan.drift,
+        operations: plan.operations,
+        upSql,
+        downSql,
+        content,
+        lint,
+        saved: input.saveToFile,
+        warnings,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
@@ -2,12 +2,14 @@ import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { PostgRESTSchemaGenerator } from '../services/postgrest-schema-generator.js';
 import { DatabaseService } from '../services/database.js';
+import { SnapshotSchemaSource } from '../services/schema-snapshot.js';
 
 export const PostgRESTSchemaInfoSchema = z.object({
   tableFilter: z.string().optional().describe('Filter tables by name pattern'),
   includeOpenAPI: z.boolean().optional().describe('Include OpenAPI specification'),
   includePermissions: z.boolean().optional().describe('Include permission information'),
   format: z.enum(['json', 'summary', 'openapi']).optional().describe('Output format'),
+  snapshotPath: z.string().optional().describe('Read the schema from a snapshot file instead of the database (no permission information)'),
 });
 
 export class PostgRESTSchemaInfoTool {
@@ -21,10 +23,13 @@ export class PostgRESTSchemaInfoTool {
 
   async execute(params: z.infer<typeof PostgRESTSchemaInfoSchema>): Promise<string> {
     try {
-      const schemaDefinitions = await this.schemaGenerator.generatePostgRESTSchema(params.tableFilter);
+      const schemaGenerator = params.snapshotPath
+        ? new PostgRESTSchemaGenerator(new SnapshotSchemaSource(params.snapshotPath))
+        : this.schemaGenerator;
+      const schemaDefinitions = await schemaGenerator.generatePostgRESTSchema(params.tableFilter);
       
       if (params.format === 'openapi' || params.includeOpenAPI) {
-        const openapi = await this.schemaGenerator.generateOpenAPISpec(schemaDefinitions);
+        const openapi = await schemaGenerator.generateOpenAPISpec(schemaDefinitions);
         
         if (params.format === 'openapi') {
           return JSON.stringify(openapi, null, 2);
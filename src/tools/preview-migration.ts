@@ -1,22 +1,30 @@
 import { z } from 'zod';
 import { MigrationParser } from '../services/migration-parser.js';
+import { MigrationLinter } from '../services/migration-linter.js';
+import { MigrationDryRunner } from '../services/migration-dry-runner.js';
+import { DatabaseService } from '../services/database.js';
 
 export const previewMigrationSchema = z.object({
   name: z.string().min(1, 'Migration name is required'),
   upSql: z.string().min(1, 'Up SQL is required'),
   downSql: z.string().min(1, 'Down SQL is required'),
   format: z.enum(['formatted', 'raw']).default('formatted'),
+  dryRun: z.boolean().default(false).describe(
+    'Execute upSql on the live database inside a transaction that is always rolled back'
+  ),
+  dryRunDown: z.boolean().default(false).describe('Also execute downSql after upSql in the same rolled-back transaction'),
 });
 
 export type PreviewMigrationInput = z.infer<typeof previewMigrationSchema>;
 
 export async function previewMigration(
   input: PreviewMigrationInput,
-  migrationParser: MigrationParser
+  migrationParser: MigrationParser,
+  databaseService?: DatabaseService
 ) {
   try {
     const timestamp = migrationParser.generateMigrationTimestamp();
-    const filename = migrationParser.generateMigrationFilename(input.name);
+    const filename = migrationParser.generateMigrationFilename(input.name, timestamp);
     const content = migrationParser.formatMigrationContent(input.upSql, input.downSql);
     
     const result = {
@@ -32,8 +40,19 @@ export async function previewMigration(
         size: content.length,
         timestamp: new Date().toISOString(),
       },
+      lint: new MigrationLinter().lintMigration({ upSql: input.upSql, downSql: input.downSql }),
     };
     
+    if (input.dryRun || input.dryRunDown) {
+      if (!databaseService) {
+        throw new Error('Dry run needs a database connection. Please check your configuration.');
+      }
+      const dryRun = await new MigrationDryRunner(databaseService).dryRun(input.upSql, input.downSql, {
+        includeDown: input.dryRunDown,
+      });
+      (result as any).dryRun = dryRun;
+    }
+    
     return {
       success: true,
       data: result,
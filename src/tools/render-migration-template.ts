@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { MigrationParser } from '../services/migration-parser.js';
+import {
+  getTemplate,
+  listTemplates,
+  renderTemplate,
+  validateTemplateVariables,
+  findUnresolvedPlaceholders,
+} from '../templates/migration-templates.js';
+
+export const renderMigrationTemplateSchema = z.object({
+  templateName: z.string().min(1, 'Template name is required'),
+  variables: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}),
+  migrationName: z.string().optional(),
+  saveToFile: z.boolean().default(false),
+});
+
+export type RenderMigrationTemplateInput = z.infer<typeof renderMigrationTemplateSchema>;
+
+export async function renderMigrationTemplate(
+  input: RenderMigrationTemplateInput,
+  migrationParser: MigrationParser
+) {
+  try {
+    const template = getTemplate(input.templateName);
+    if (!template) {
+      const available = listTemplates().map(t => t.name).join(', ');
+      throw new Error(`Unknown migration template '${input.templateName}'. Available templates: ${available}`);
+    }
+
+    const { values, errors, warnings } = validateTemplateVariables(template, input.variables);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Invalid variables for template '${template.name}'`,
+        validationErrors: errors,
+        warnings,
+      };
+    }
+
+    const { upSql, downSql } = renderTemplate(template, values);
+    const unresolved = findUnresolvedPlaceholders(`${upSql}\n${downSql}`);
+    if (unresolved.length > 0) {
+      return {
+        success: false,
+        error: `Template '${template.name}' rendered with unresolved placeholders: ${unresolved.join(', ')}`,
+        warnings,
+      };
+    }
+
+    const migrationName = input.migrationName || template.name;
+    const timestamp = migrationParser.generateMigrationTimestamp();
+    const filename = migrationParser.generateMigrationFilename(migrationName, timestamp);
+    const content = migrationParser.formatMigrationContent(upSql, downSql);
+
+    if (input.saveToFile) {
+      await migrationParser.ensureMigrationsDirectory();
+      await migrationParser.writeMigrationFile(filename, content);
+    }
+
+    return {
+      success: true,
+      data: {
+        template: template.name,
+        version: timestamp,
+        filename,
+        upSql,
+        downSql,
+        content,
+        saved: input.saveToFile,
+        warnings,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
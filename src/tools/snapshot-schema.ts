@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { ProfileServices } from '../services/profile-registry.js';
+import { SchemaSnapshotStore } from '../services/schema-snapshot.js';
+
+export const snapshotSchemaSchema = z.object({
+  path: z.string().describe('File to write the snapshot to, e.g. db/schema.snapshot.json'),
+});
+
+export type SnapshotSchemaInput = z.infer<typeof snapshotSchemaSchema>;
+
+export async function snapshotSchema(
+  input: SnapshotSchemaInput,
+  services: ProfileServices
+) {
+  try {
+    const store = new SchemaSnapshotStore();
+    const schema = await services.databaseService.getSchema();
+    const snapshot = store.create(schema, {
+      profile: services.profile.name,
+      database: services.profile.database.database,
+    });
+    const { written } = await store.write(input.path, snapshot);
+
+    return {
+      success: true,
+      data: {
+        path: input.path,
+        formatVersion: snapshot.formatVersion,
+        hash: snapshot.hash,
+        written,
+        ...(written ? {} : { message: 'The snapshot file already matches the database; left unchanged' }),
+        counts: {
+          tables: snapshot.schema.tables.length,
+          views: snapshot.schema.views.length,
+          enums: snapshot.schema.enums.length,
+          functions: snapshot.schema.functions.length,
+          indexes: snapshot.schema.indexes.length,
+          triggers: snapshot.schema.triggers.length,
+          rlsPolicies: snapshot.schema.rlsPolicies.length,
+        },
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
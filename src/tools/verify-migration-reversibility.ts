@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { MigrationParser } from '../services/migration-parser.js';
+import { SchemaAnalyzer } from '../services/schema-analyzer.js';
+import { ShadowContext, ShadowDatabase } from '../services/shadow-database.js';
+import { SchemaFilter } from '../utils/schema-filter.js';
+import { MigrationReversibilityResult } from '../types/migration.js';
+import { DatabaseSchema } from '../types/schema.js';
+
+export const verifyMigrationReversibilitySchema = z.object({
+  version: z.string().optional().describe(
+    'Only verify this migration; earlier migrations are applied first. Verifies every migration when omitted.'
+  ),
+});
+
+export type VerifyMigrationReversibilityInput = z.infer<typeof verifyMigrationReversibilitySchema>;
+
+export async function verifyMigrationReversibility(
+  input: VerifyMigrationReversibilityInput,
+  migrationParser: MigrationParser,
+  schemaAnalyzer: SchemaAnalyzer,
+  shadowDatabase: ShadowDatabase
+) {
+  try {
+    const files = await migrationParser.parseMigrationFiles();
+    const versions = files
+      .filter(file => file.parsed.version)
+      .map(file => ({ version: file.parsed.version, filename: file.filename }));
+
+    let toVerify = versions;
+    let prerequisites: string[] = [];
+    if (input.version) {
+      const index = versions.findIndex(v => v.version === input.version);
+      if (index === -1) {
+        throw new Error(`Migration version ${input.version} not found among the migration files`);
+      }
+      toVerify = [versions[index]];
+      prerequisites = versions.slice(0, index).map(v => v.version);
+    }
+
+    const results = await shadowDatabase.run(async (shadow) => {
+      if (prerequisites.length > 0) {
+        const setup = await shadow.migrationRunner.migrateUp({ versions: prerequisites });
+        if (!setup.success) {
+          throw new Error(
+            `Could not apply earlier migration ${setup.failed?.filename} in the shadow database: ${setup.failed?.error}`
+          );
+        }
+      }
+
+      const checked: MigrationReversibilityResult[] = [];
+      for (const migration of toVerify) {
+        const result = await verifyOne(shadow, schemaAnalyzer, migration.version, migration.filename);
+        checked.push(result);
+        // Past a failed or irreversible migration the shadow schema no longer matches
+        // what later migrations expect, so their results would be noise
+        if (result.status === 'failed' || result.status === 'irreversible') {
+          break;
+        }
+      }
+      return checked;
+    });
+
+    const problems = results.filter(r => r.status !== 'reversible');
+
+    return {
+      success: true,
+      data: {
+        allReversible: problems.length === 0 && results.length === toVerify.length,
+        verified: results.length,
+        skipped: toVerify.length - results.length,
+        results,
+        summary: problems.length === 0
+          ? `${results.length} migration(s) round-trip cleanly`
+          : `${problems.length} of ${results.length} migration(s) did not round-trip: ` +
+            problems.map(p => `${p.filename} (${p.status})`).join(', '),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+/**
+ * Runs up, down and up again for one migration, comparing the schema after
+ * down with the one before up, and the schema after the second up with the first.
+ */
+async function verifyOne(
+  shadow: ShadowContext,
+  schemaAnalyzer: SchemaAnalyzer,
+  version: string,
+  filename: string
+): Promise<MigrationReversibilityResult> {
+  const snapshot = async (): Promise<DatabaseSchema> =>
+    SchemaFilter.withoutTable(await shadow.databaseService.getSchema(), shadow.migrationsTable);
+
+  const before = await snapshot();
+
+  const up = await shadow.migrationRunner.migrateUp({ versions: [version] });
+  if (!up.success) {
+    return { version, filename, status: 'failed', failedStep: 'up', error: up.failed?.error };
+  }
+  const afterUp = await snapshot();
+
+  const down = await shadow.migrationRunner.migrateDown({ steps: 1 });
+  if (!down.success) {
+    return { version, filename, status: 'failed', failedStep: 'down', error: down.failed?.error };
+  }
+  const afterDown = await snapshot();
+  const residualDrift = schemaAnalyzer.compareSchemas(before, afterDown);
+  if (residualDrift.hasChanges) {
+    return { version, filename, status: 'irreversible', residualDrift };
+  }
+
+  const reapply = await shadow.migrationRunner.migrateUp({ versions: [version] });
+  if (!reapply.success) {
+    return { version, filename, status: 'failed', failedStep: 'reapply', error: reapply.failed?.error };
+  }
+  const reapplyDrift = schemaAnalyzer.compareSchemas(afterUp, await snapshot());
+  if (reapplyDrift.hasChanges) {
+    return { version, filename, status: 'not_idempotent', reapplyDrift };
+  }
+
+  return { version, filename, status: 'reversible' };
+}
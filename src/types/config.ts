@@ -1,34 +1,57 @@
 import { z } from 'zod';
 
-export const ConfigSchema = z.object({
-  database: z.object({
-    host: z.string().default('localhost'),
-    port: z.number().default(5432),
-    database: z.string(),
-    user: z.string(),
-    password: z.string(),
-    ssl: z.boolean().default(false),
-  }),
-  migrations: z.object({
-    directory: z.string().default('./db/migrations'),
-    table: z.string().default('schema_migrations'),
-  }),
-  postgrest: z.object({
-    endpoint: z.string().optional(),
-    keycloak: z.object({
-      url: z.string().optional(),
-      clientId: z.string().optional(),
-      username: z.string().optional(),
-      password: z.string().optional(),
-      realm: z.string().default('master'),
-    }).optional(),
+const DatabaseSchema = z.object({
+  host: z.string().default('localhost'),
+  port: z.number().default(5432),
+  database: z.string(),
+  user: z.string(),
+  password: z.string(),
+  ssl: z.boolean().default(false),
+  pool: z.object({
+    max: z.number().int().min(1).default(10),
+    idleTimeoutMillis: z.number().int().min(0).default(30000),
+    connectionTimeoutMillis: z.number().int().min(0).default(10000),
+    healthCheckIntervalMillis: z.number().int().min(0).default(30000),
+  }).default({}),
+});
+
+const MigrationsSchema = z.object({
+  directory: z.string().default('./db/migrations'),
+  table: z.string().default('schema_migrations'),
+});
+
+const PostgRESTSchema = z.object({
+  endpoint: z.string().optional(),
+  keycloak: z.object({
+    url: z.string().optional(),
+    clientId: z.string().optional(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    realm: z.string().default('master'),
   }).optional(),
+});
+
+export const ProfileSchema = z.object({
+  database: DatabaseSchema,
+  migrations: MigrationsSchema.default({}),
+  postgrest: PostgRESTSchema.optional(),
+  readOnly: z.boolean().default(false),
+});
+
+export const ConfigSchema = z.object({
+  database: DatabaseSchema,
+  migrations: MigrationsSchema,
+  postgrest: PostgRESTSchema.optional(),
+  // Applies to the default profile built from the DB_* variables
+  readOnly: z.boolean().default(false),
+  profiles: z.record(ProfileSchema).default({}),
   gemini: z.object({
     apiKey: z.string().optional(),
   }).optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type ProfileSettings = z.infer<typeof ProfileSchema>;
 
 export interface DatabaseConfig {
   host: string;
@@ -37,6 +60,17 @@ export interface DatabaseConfig {
   user: string;
   password: string;
   ssl: boolean;
+  pool?: DatabasePoolConfig;
+  // Opens every session with default_transaction_read_only
+  readOnly?: boolean;
+}
+
+export interface DatabasePoolConfig {
+  max: number;
+  idleTimeoutMillis: number;
+  connectionTimeoutMillis: number;
+  // 0 disables the periodic health check
+  healthCheckIntervalMillis: number;
 }
 
 export interface MigrationsConfig {
@@ -57,6 +91,14 @@ export interface KeycloakConfig {
   realm: string;
 }
 
+export interface ProfileConfig {
+  name: string;
+  database: DatabaseConfig;
+  migrations: MigrationsConfig;
+  postgrest: PostgRESTConfig | null;
+  readOnly: boolean;
+}
+
 export interface GeminiConfig {
   apiKey: string;
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { LintSeverity } from './migration.js';
+
+export type SchemaLintObjectType = 'table' | 'column' | 'index' | 'constraint' | 'trigger' | 'enum';
+
+export interface SchemaLintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  objectType: SchemaLintObjectType;
+  // Schema-qualified, e.g. public.users or public.users.email
+  object: string;
+  schema: string;
+  table?: string;
+  suggestion: string;
+}
+
+export interface SchemaLintReport {
+  findings: SchemaLintFinding[];
+  counts: Record<LintSeverity, number>;
+  summary: string;
+  // Severity each rule ran with; disabled rules are left out
+  rules: Record<string, LintSeverity>;
+}
+
+export const SchemaLintRuleSettingSchema = z.union([
+  z.enum(['error', 'warning', 'info', 'off']),
+  z.object({
+    severity: z.enum(['error', 'warning', 'info', 'off']).optional(),
+    options: z.record(z.unknown()).optional(),
+  }),
+]);
+
+// Contents of a schema lint config file
+export const SchemaLintConfigSchema = z.object({
+  rules: z.record(SchemaLintRuleSettingSchema).default({}),
+  // Objects to skip, as schema.table or schema.table.column globs where * matches any characters
+  ignore: z.array(z.string()).default([]),
+});
+
+export type SchemaLintConfig = z.infer<typeof SchemaLintConfigSchema>;
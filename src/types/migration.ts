@@ -6,6 +6,15 @@ export interface Migration {
   downSql: string;
   appliedAt?: Date;
   checksum?: string;
+  upOptions?: MigrationSectionOptions;
+  downOptions?: MigrationSectionOptions;
+}
+
+/**
+ * Options declared on a dbmate section marker, e.g. `-- migrate:up transaction:false`.
+ */
+export interface MigrationSectionOptions {
+  transaction: boolean;
 }
 
 export interface MigrationFile {
@@ -19,6 +28,8 @@ export interface ParsedMigration {
   name: string;
   upSql: string;
   downSql: string;
+  upOptions: MigrationSectionOptions;
+  downOptions: MigrationSectionOptions;
   hasValidStructure: boolean;
   errors: string[];
 }
@@ -33,7 +44,127 @@ export interface MigrationHistory {
 
 export interface AppliedMigration {
   version: string;
-  appliedAt: Date;
+  // dbmate's own table only stores versions, so this is not always known
+  appliedAt?: Date;
+}
+
+export type MigrationDirection = 'up' | 'down';
+
+export interface MigrationStepResult {
+  version: string;
+  filename: string;
+  direction: MigrationDirection;
+  transactional: boolean;
+  durationMs: number;
+}
+
+export interface MigrationRunFailure {
+  version: string;
+  filename: string;
+  direction: MigrationDirection;
+  error: string;
+}
+
+export interface MigrationRunResult {
+  success: boolean;
+  dryRun: boolean;
+  planned: Array<{ version: string; filename: string; direction: MigrationDirection }>;
+  executed: MigrationStepResult[];
+  failed?: MigrationRunFailure;
+  appliedVersions: string[];
+}
+
+export type ReversibilityStatus = 'reversible' | 'irreversible' | 'not_idempotent' | 'failed';
+
+export interface MigrationReversibilityResult {
+  version: string;
+  filename: string;
+  status: ReversibilityStatus;
+  failedStep?: 'up' | 'down' | 'reapply';
+  error?: string;
+  // What the down migration left behind compared to the schema before up
+  residualDrift?: SchemaDrift;
+  // How the schema after re-applying up differs from the first up
+  reapplyDrift?: SchemaDrift;
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface MigrationLintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  // Table-level lock the statement holds while it runs, e.g. ACCESS EXCLUSIVE
+  lock?: string;
+  rewritesTable: boolean;
+  table?: string;
+  statement: string;
+  line: number;
+  suggestion: string;
+}
+
+export interface MigrationLintResult {
+  findings: MigrationLintFinding[];
+  risk: 'LOW' | 'MEDIUM' | 'HIGH';
+  summary: string;
+}
+
+export interface MigrationLintReport {
+  risk: 'LOW' | 'MEDIUM' | 'HIGH';
+  summary: string;
+  up: MigrationLintResult;
+  down: MigrationLintResult;
+}
+
+export interface DryRunStatementResult {
+  index: number;
+  command: string;
+  rowCount: number | null;
+  skipped?: boolean;
+  note?: string;
+}
+
+export interface DryRunError {
+  statementIndex: number;
+  statement: string;
+  message: string;
+  code?: string;
+  // Position of the error within the whole section, when PostgreSQL reports one
+  line?: number;
+  column?: number;
+  detail?: string;
+  hint?: string;
+}
+
+export interface DryRunObject {
+  kind: string;
+  schema: string;
+  name: string;
+}
+
+export interface DryRunLock {
+  schema: string;
+  relation: string;
+  mode: string;
+  granted: boolean;
+}
+
+export interface DryRunSectionResult {
+  success: boolean;
+  statements: DryRunStatementResult[];
+  error?: DryRunError;
+  newObjects: DryRunObject[];
+  droppedObjects: DryRunObject[];
+  locks: DryRunLock[];
+}
+
+export interface MigrationDryRunResult {
+  success: boolean;
+  up: DryRunSectionResult;
+  down?: DryRunSectionResult;
+  // Objects still present (or missing) after up followed by down, compared to before up
+  downLeftovers?: { newObjects: DryRunObject[]; droppedObjects: DryRunObject[] };
+  rolledBack: boolean;
 }
 
 export interface MigrationAnalysis {
@@ -67,9 +198,38 @@ export interface SchemaDrift {
   extraTriggers: string[];
   missingRLSPolicies: string[];
   extraRLSPolicies: string[];
+  // The collections below are only compared when both schemas include them
+  missingMaterializedViews: string[];
+  extraMaterializedViews: string[];
+  modifiedMaterializedViews: ViewDrift[];
+  missingSequences: string[];
+  extraSequences: string[];
+  modifiedSequences: ObjectDrift[];
+  missingPartitions: string[];
+  extraPartitions: string[];
+  modifiedPartitions: ObjectDrift[];
+  missingEnums: string[];
+  extraEnums: string[];
+  modifiedEnums: ObjectDrift[];
+  missingDomains: string[];
+  extraDomains: string[];
+  modifiedDomains: ObjectDrift[];
+  missingCompositeTypes: string[];
+  extraCompositeTypes: string[];
+  modifiedCompositeTypes: ObjectDrift[];
+  missingGrants: string[];
+  extraGrants: string[];
+  missingRoles: string[];
+  extraRoles: string[];
+  modifiedRoles: ObjectDrift[];
   summary: string;
 }
 
+export interface ObjectDrift {
+  name: string;
+  changes: ColumnChange[];
+}
+
 export interface ViewDrift {
   viewName: string;
   definitionChanged: boolean;
@@ -108,6 +268,7 @@ export interface TableDrift {
   modifiedColumns: ColumnDrift[];
   missingConstraints: string[];
   extraConstraints: string[];
+  partitionKey?: ColumnChange;
 }
 
 export interface ColumnDrift {
@@ -134,13 +295,22 @@ export interface GeneratedMigration {
 export interface MigrationOperation {
   type: 'CREATE_TABLE' | 'DROP_TABLE' | 'ADD_COLUMN' | 'DROP_COLUMN' | 'MODIFY_COLUMN' | 
         'CREATE_INDEX' | 'DROP_INDEX' | 'ADD_CONSTRAINT' | 'DROP_CONSTRAINT' | 'CREATE_ENUM' | 
-        'DROP_ENUM' | 'CREATE_EXTENSION' | 'DROP_EXTENSION';
+        'DROP_ENUM' | 'ALTER_ENUM' | 'CREATE_EXTENSION' | 'DROP_EXTENSION' | 'CREATE_VIEW' | 'DROP_VIEW' |
+        'REPLACE_VIEW' | 'CREATE_TRIGGER' | 'DROP_TRIGGER' | 'CREATE_POLICY' | 'DROP_POLICY' |
+        'CREATE_FUNCTION' | 'REPLACE_FUNCTION' | 'DROP_FUNCTION' | 'RENAME_TABLE' | 'RENAME_COLUMN' |
+        'RENAME_INDEX' | 'RENAME_CONSTRAINT' | 'RENAME_VIEW' | 'ENABLE_RLS' | 'DISABLE_RLS' | 'EXECUTE_SQL';
   table?: string;
   column?: string;
   index?: string;
   constraint?: string;
   enum?: string;
   extension?: string;
+  view?: string;
+  trigger?: string;
+  policy?: string;
+  function?: string;
+  // Target name of RENAME_* operations; the matching field above holds the old name
+  newName?: string;
   sql: string;
   reverseSql?: string;
 }
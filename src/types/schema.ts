@@ -7,6 +7,14 @@ export interface DatabaseSchema {
   indexes: Index[];
   triggers: Trigger[];
   rlsPolicies: RLSPolicy[];
+  // Introspected from the catalog; absent from schemas replayed from migrations and older snapshots
+  materializedViews?: MaterializedView[];
+  sequences?: Sequence[];
+  partitions?: Partition[];
+  domains?: Domain[];
+  compositeTypes?: CompositeType[];
+  grants?: Grant[];
+  roles?: Role[];
 }
 
 export interface Table {
@@ -16,6 +24,8 @@ export interface Table {
   constraints: Constraint[];
   indexes: Index[];
   comment?: string;
+  // Set on partitioned tables, e.g. "RANGE (created_at)"
+  partitionKey?: string;
 }
 
 export interface Column {
@@ -31,6 +41,11 @@ export interface Column {
   numericPrecision?: number;
   numericScale?: number;
   isIdentity?: boolean;
+  // Set on identity columns
+  identityGeneration?: 'ALWAYS' | 'BY DEFAULT';
+  udtName?: string;
+  // Set when the column is declared with a domain; dataType and udtName describe its base type
+  domainName?: string;
 }
 
 export interface Constraint {
@@ -47,6 +62,7 @@ export interface Constraint {
   isDeferred: boolean;
   foreignKeyTable?: string;
   foreignKeyColumns?: string[];
+  definition?: string;
 }
 
 export enum ConstraintType {
@@ -67,6 +83,7 @@ export interface Index {
   method: string;
   condition?: string;
   isConcurrent: boolean;
+  definition?: string;
 }
 
 export interface IndexColumn {
@@ -88,6 +105,16 @@ export interface Function {
   parameters: FunctionParameter[];
   language: string;
   definition: string;
+  // As pg_get_function_arguments prints them, with names, modes and defaults
+  arguments?: string;
+  // Argument types only, as accepted by DROP FUNCTION
+  identityArguments?: string;
+  // CREATE OR REPLACE statement; absent for aggregates and window functions
+  fullDefinition?: string;
+  kind?: 'function' | 'procedure' | 'aggregate' | 'window';
+  // Set when the function belongs to an extension
+  extension?: string;
+  comment?: string;
 }
 
 export interface FunctionParameter {
@@ -114,9 +141,104 @@ export interface View {
   hasInsteadOfTriggers: boolean;
 }
 
+export interface MaterializedView {
+  schema: string;
+  name: string;
+  definition: string;
+  owner: string;
+  hasData: boolean;
+  comment?: string;
+  columns?: ViewColumn[];
+}
+
+export interface Sequence {
+  schema: string;
+  name: string;
+  dataType: string;
+  // int8 values are kept as text so they survive JSON without losing precision
+  startValue: string;
+  minValue: string;
+  maxValue: string;
+  increment: string;
+  cacheSize: string;
+  cycled: boolean;
+  owner: string;
+  // "schema.table.column" for serial and identity sequences
+  ownedBy?: string;
+}
+
+export interface Partition {
+  schema: string;
+  name: string;
+  parentSchema: string;
+  parentName: string;
+  // e.g. "FOR VALUES FROM ('2024-01-01') TO ('2025-01-01')" or "DEFAULT"
+  bound: string;
+  isDefault: boolean;
+}
+
+export interface Domain {
+  schema: string;
+  name: string;
+  baseType: string;
+  notNull: boolean;
+  defaultValue?: string;
+  collation?: string;
+  constraints: DomainConstraint[];
+  comment?: string;
+}
+
+export interface DomainConstraint {
+  name: string;
+  definition: string;
+}
+
+export interface CompositeType {
+  schema: string;
+  name: string;
+  attributes: CompositeTypeAttribute[];
+  comment?: string;
+}
+
+export interface CompositeTypeAttribute {
+  name: string;
+  dataType: string;
+  ordinalPosition: number;
+}
+
+export type GrantObjectType = 'table' | 'view' | 'materialized_view' | 'sequence' | 'function' | 'schema';
+
+// Privileges held by the object's owner are implicit and not listed
+export interface Grant {
+  objectType: GrantObjectType;
+  schema: string;
+  // Function names include their identity arguments; empty for schema grants
+  name: string;
+  column?: string;
+  grantee: string;
+  privilege: string;
+  isGrantable: boolean;
+}
+
+export interface Role {
+  name: string;
+  canLogin: boolean;
+  isSuperuser: boolean;
+  canCreateDb: boolean;
+  canCreateRole: boolean;
+  inherit: boolean;
+  bypassRls: boolean;
+  replication: boolean;
+  connectionLimit: number;
+  validUntil?: string;
+  memberOf: string[];
+}
+
 export interface ViewColumn {
   name: string;
   dataType: string;
+  udtName?: string;
+  domainName?: string;
   isNullable: boolean;
   ordinalPosition: number;
   characterMaximumLength?: number;
@@ -180,4 +302,91 @@ export enum RLSCommand {
   INSERT = 'INSERT',
   UPDATE = 'UPDATE',
   DELETE = 'DELETE',
-}
\ No newline at end of file
+}
+export interface SchemaSnapshot {
+  formatVersion: number;
+  generatedAt: string;
+  source: {
+    profile?: string;
+    database?: string;
+  };
+  // sha256 of the canonical JSON of `schema`; unaffected by generatedAt
+  hash: string;
+  schema: DatabaseSchema;
+}
+
+export type DdlStatementKind =
+  | 'schema'
+  | 'extension'
+  | 'type'
+  | 'sequence'
+  | 'table'
+  | 'sequence_ownership'
+  | 'foreign_key'
+  | 'index'
+  | 'view'
+  | 'materialized_view'
+  | 'function'
+  | 'trigger'
+  | 'rls'
+  | 'policy'
+  | 'grant'
+  | 'comment';
+
+export interface DdlStatement {
+  kind: DdlStatementKind;
+  // Qualified name of the object the statement creates or alters
+  object: string;
+  sql: string;
+}
+
+export interface ObjectDdl {
+  objectType: string;
+  schema: string;
+  name: string;
+  // Statements in the order they have to run
+  statements: DdlStatement[];
+  // Objects outside this DDL that must exist first (types, referenced tables, trigger functions)
+  requires: string[];
+  ddl: string;
+}
+
+export interface SchemaDdlDump {
+  schemas: string[];
+  statements: DdlStatement[];
+  // Objects the script references but does not create, e.g. types in schemas left out of the dump
+  requires: string[];
+  ddl: string;
+}
+
+export type ImpactTargetType = 'table' | 'view' | 'materialized_view' | 'column' | 'type' | 'function';
+
+export interface ImpactNode {
+  // Object type as named by pg_identify_object, e.g. "view", "table constraint", "trigger";
+  // columns computed from the target are "generated column"
+  kind: string;
+  identity: string;
+  schema?: string;
+  // pg_depend records normal and automatic dependencies; function bodies are matched by name
+  dependency: 'normal' | 'automatic' | 'function_body';
+  onDrop: 'requires_cascade' | 'dropped_automatically' | 'breaks_at_runtime';
+  children: ImpactNode[];
+}
+
+export interface ObjectImpact {
+  target: {
+    kind: ImpactTargetType;
+    identity: string;
+  };
+  dependents: ImpactNode[];
+  cascade: {
+    // DROP ... RESTRICT fails while anything in the tree depends normally on what is dropped
+    restrictWouldFail: boolean;
+    blockedBy: string[];
+    droppedWithCascade: string[];
+    // Functions whose bodies mention the object; PostgreSQL does not track these, so DROP leaves them broken
+    breaksAtRuntime: string[];
+  };
+  truncated: boolean;
+  summary: string;
+}
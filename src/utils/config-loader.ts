@@ -1,12 +1,16 @@
+import {readFileSync} from "fs";
 import {
   ConfigSchema,
   Config,
   DatabaseConfig,
   MigrationsConfig,
   PostgRESTConfig,
+  ProfileConfig,
   GeminiConfig,
 } from "../types/config.js";
 
+export const DEFAULT_PROFILE = "default";
+
 export class ConfigLoader {
   private static instance: ConfigLoader;
   private config: Config | null = null;
@@ -25,6 +29,11 @@ export class ConfigLoader {
       return this.config;
     }
 
+    const migrations = {
+      directory: process.env.MIGRATIONS_DIR || "./db/migrations",
+      table: process.env.MIGRATIONS_TABLE || "schema_migrations",
+    };
+
     const config = {
       database: {
         host: process.env.DB_HOST || "localhost",
@@ -33,11 +42,14 @@ export class ConfigLoader {
         user: process.env.DB_USER || "",
         password: process.env.DB_PASSWORD || "",
         ssl: process.env.DB_SSL === "true",
+        pool: {
+          max: parseInt(process.env.DB_POOL_MAX || "10"),
+          idleTimeoutMillis: parseInt(process.env.DB_POOL_IDLE_TIMEOUT_MS || "30000"),
+          connectionTimeoutMillis: parseInt(process.env.DB_CONNECTION_TIMEOUT_MS || "10000"),
+          healthCheckIntervalMillis: parseInt(process.env.DB_HEALTH_CHECK_INTERVAL_MS || "30000"),
+        },
       },
-      migrations: {
-        directory: process.env.MIGRATIONS_DIR || "./db/migrations",
-        table: process.env.MIGRATIONS_TABLE || "schema_migrations",
-      },
+      migrations,
       postgrest: process.env.POSTGREST_ENDPOINT
         ? {
             endpoint: process.env.POSTGREST_ENDPOINT,
@@ -50,6 +62,8 @@ export class ConfigLoader {
             },
           }
         : undefined,
+      readOnly: process.env.DB_READ_ONLY === "true",
+      profiles: this.loadProfiles(migrations),
       gemini: process.env.GENAI_TOKEN
         ? {
             apiKey: process.env.GENAI_TOKEN,
@@ -61,11 +75,117 @@ export class ConfigLoader {
     return this.config;
   }
 
+  /**
+   * Reads named profiles from the JSON file in DB_PROFILES_FILE, keyed by
+   * profile name. String values may reference environment variables as
+   * ${NAME} so passwords can stay out of the file. A profile without a
+   * migrations block shares the default migrations directory and table.
+   */
+  private loadProfiles(defaultMigrations: MigrationsConfig): Record<string, unknown> {
+    const file = process.env.DB_PROFILES_FILE;
+    if (!file) {
+      return {};
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(file, "utf8"));
+    } catch (error) {
+      throw new Error(
+        `Could not read profiles from ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`${file} must contain an object keyed by profile name`);
+    }
+
+    const profiles: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(this.expandEnvironment(raw) as Record<string, any>)) {
+      if (name === DEFAULT_PROFILE) {
+        throw new Error(`Profile name "${DEFAULT_PROFILE}" is reserved for the DB_* configuration`);
+      }
+      profiles[name] = {
+        ...value,
+        migrations: {...defaultMigrations, ...value?.migrations},
+      };
+    }
+    return profiles;
+  }
+
+  private expandEnvironment(value: unknown): unknown {
+    if (typeof value === "string") {
+      return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? "");
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.expandEnvironment(item));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.expandEnvironment(item)])
+      );
+    }
+    return value;
+  }
+
   getDatabaseConfig(): DatabaseConfig {
     const config = this.loadConfig();
     return config.database;
   }
 
+  getProfileNames(): string[] {
+    const config = this.loadConfig();
+    return [DEFAULT_PROFILE, ...Object.keys(config.profiles)];
+  }
+
+  getProfileConfig(name: string = DEFAULT_PROFILE): ProfileConfig {
+    const config = this.loadConfig();
+
+    if (name === DEFAULT_PROFILE) {
+      return {
+        name,
+        database: {...config.database, readOnly: config.readOnly},
+        migrations: config.migrations,
+        postgrest: this.isPostgRESTEnabled() ? this.getPostgRESTConfig() : null,
+        readOnly: config.readOnly,
+      };
+    }
+
+    const profile = config.profiles[name];
+    if (!profile) {
+      throw new Error(
+        `Unknown profile "${name}". Available profiles: ${this.getProfileNames().join(", ")}`
+      );
+    }
+
+    const keycloak = profile.postgrest?.keycloak;
+    const postgrestEnabled = !!(
+      profile.postgrest?.endpoint &&
+      keycloak?.url &&
+      keycloak.clientId &&
+      keycloak.username &&
+      keycloak.password
+    );
+
+    return {
+      name,
+      database: {...profile.database, readOnly: profile.readOnly},
+      migrations: profile.migrations,
+      postgrest: postgrestEnabled
+        ? {
+            endpoint: profile.postgrest!.endpoint!,
+            keycloak: {
+              url: keycloak!.url!,
+              clientId: keycloak!.clientId!,
+              username: keycloak!.username!,
+              password: keycloak!.password!,
+              realm: keycloak!.realm,
+            },
+          }
+        : null,
+      readOnly: profile.readOnly,
+    };
+  }
+
   getMigrationsConfig(): MigrationsConfig {
     const config = this.loadConfig();
     return config.migrations;
@@ -154,6 +274,15 @@ export class ConfigLoader {
       }
     }
 
+    // Surfaces an unreadable or invalid DB_PROFILES_FILE at startup
+    if (process.env.DB_PROFILES_FILE) {
+      try {
+        this.loadConfig();
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -173,6 +302,8 @@ export class ConfigLoader {
       "DB_SSL - Enable SSL (default: false)",
       "MIGRATIONS_DIR - Migrations directory (default: ./db/migrations)",
       "MIGRATIONS_TABLE - Migrations table name (default: schema_migrations)",
+      "DB_READ_ONLY - Refuse destructive tools against the default profile (default: false)",
+      "DB_PROFILES_FILE - JSON file with additional named database profiles",
     ];
 
     const postgrestOptional = [
@@ -211,6 +342,10 @@ DB_NAME=your_database
 DB_USER=your_username
 DB_PASSWORD=your_password
 DB_SSL=false
+DB_READ_ONLY=false
+
+# Additional named profiles as JSON (optional)
+# DB_PROFILES_FILE=./profiles.json
 
 # Migration Configuration
 MIGRATIONS_DIR=./db/migrations
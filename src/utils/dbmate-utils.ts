@@ -1,4 +1,5 @@
 import { Migration } from '../types/migration.js';
+import { parseSql } from './sql-parser.js';
 
 export function isValidDbmateTimestamp(timestamp: string): boolean {
   const regex = /^\d{14}$/;
@@ -84,76 +85,37 @@ export function detectMigrationConflicts(migrations: Migration[]): string[] {
   return conflicts;
 }
 
+const TRACKED_OBJECT_OPERATIONS = [
+  'CREATE TABLE', 'DROP TABLE', 'CREATE INDEX', 'DROP INDEX', 'CREATE TYPE', 'DROP TYPE',
+  'CREATE EXTENSION', 'DROP EXTENSION', 'CREATE VIEW', 'DROP VIEW', 'CREATE TRIGGER', 'DROP TRIGGER',
+  'CREATE FUNCTION', 'DROP FUNCTION', 'CREATE POLICY', 'DROP POLICY',
+];
+
+const TRACKED_ALTER_TABLE_ACTIONS = [
+  'ADD COLUMN', 'DROP COLUMN', 'ALTER COLUMN', 'ADD CONSTRAINT', 'DROP CONSTRAINT',
+  'RENAME TABLE', 'ENABLE RLS', 'DISABLE RLS',
+];
+
 export function extractMigrationOperations(sql: string): string[] {
   const operations: string[] = [];
-  const statements = sql.split(';').map(s => s.trim()).filter(s => s.length > 0);
-  
-  for (const statement of statements) {
-    const upperStatement = statement.toUpperCase();
-    
-    if (upperStatement.startsWith('CREATE TABLE')) {
-      operations.push('CREATE TABLE');
-    } else if (upperStatement.startsWith('DROP TABLE')) {
-      operations.push('DROP TABLE');
-    } else if (upperStatement.startsWith('ALTER TABLE')) {
-      if (upperStatement.includes('ADD COLUMN')) {
-        operations.push('ADD COLUMN');
-      } else if (upperStatement.includes('DROP COLUMN')) {
-        operations.push('DROP COLUMN');
-      } else if (upperStatement.includes('ALTER COLUMN')) {
-        operations.push('ALTER COLUMN');
-      } else if (upperStatement.includes('ADD CONSTRAINT')) {
-        operations.push('ADD CONSTRAINT');
-      } else if (upperStatement.includes('DROP CONSTRAINT')) {
-        operations.push('DROP CONSTRAINT');
-      } else if (upperStatement.includes('RENAME TO')) {
-        operations.push('RENAME TABLE');
-      } else if (upperStatement.includes('ENABLE ROW LEVEL SECURITY')) {
-        operations.push('ENABLE RLS');
-      } else if (upperStatement.includes('DISABLE ROW LEVEL SECURITY')) {
-        operations.push('DISABLE RLS');
-      } else {
-        operations.push('ALTER TABLE');
+
+  for (const statement of parseSql(sql)) {
+    const objectOperation = `${statement.command} ${statement.objectType ?? ''}`.trim();
+
+    if (statement.command === 'ALTER' && statement.objectType === 'TABLE') {
+      // Every comma-separated action of an ALTER TABLE counts as its own operation
+      for (const { action } of statement.alterActions) {
+        operations.push(TRACKED_ALTER_TABLE_ACTIONS.includes(action) ? action : 'ALTER TABLE');
       }
-    } else if (upperStatement.startsWith('CREATE INDEX') || upperStatement.startsWith('CREATE UNIQUE INDEX')) {
-      operations.push('CREATE INDEX');
-    } else if (upperStatement.startsWith('DROP INDEX')) {
-      operations.push('DROP INDEX');
-    } else if (upperStatement.startsWith('CREATE TYPE')) {
-      operations.push('CREATE TYPE');
-    } else if (upperStatement.startsWith('DROP TYPE')) {
-      operations.push('DROP TYPE');
-    } else if (upperStatement.startsWith('CREATE EXTENSION')) {
-      operations.push('CREATE EXTENSION');
-    } else if (upperStatement.startsWith('DROP EXTENSION')) {
-      operations.push('DROP EXTENSION');
-    } else if (upperStatement.startsWith('CREATE VIEW') || upperStatement.startsWith('CREATE OR REPLACE VIEW')) {
-      operations.push('CREATE VIEW');
-    } else if (upperStatement.startsWith('DROP VIEW')) {
-      operations.push('DROP VIEW');
-    } else if (upperStatement.startsWith('CREATE TRIGGER')) {
-      operations.push('CREATE TRIGGER');
-    } else if (upperStatement.startsWith('DROP TRIGGER')) {
-      operations.push('DROP TRIGGER');
-    } else if (upperStatement.startsWith('CREATE FUNCTION') || upperStatement.startsWith('CREATE OR REPLACE FUNCTION')) {
-      operations.push('CREATE FUNCTION');
-    } else if (upperStatement.startsWith('DROP FUNCTION')) {
-      operations.push('DROP FUNCTION');
-    } else if (upperStatement.startsWith('CREATE POLICY')) {
-      operations.push('CREATE POLICY');
-    } else if (upperStatement.startsWith('DROP POLICY')) {
-      operations.push('DROP POLICY');
-    } else if (upperStatement.startsWith('INSERT')) {
-      operations.push('INSERT');
-    } else if (upperStatement.startsWith('UPDATE')) {
-      operations.push('UPDATE');
-    } else if (upperStatement.startsWith('DELETE')) {
-      operations.push('DELETE');
+    } else if (TRACKED_OBJECT_OPERATIONS.includes(objectOperation)) {
+      operations.push(objectOperation);
+    } else if (['INSERT', 'UPDATE', 'DELETE'].includes(statement.command)) {
+      operations.push(statement.command);
     } else {
       operations.push('OTHER');
     }
   }
-  
+
   return operations;
 }
 
@@ -173,35 +135,3 @@ export function generateMigrationSummary(upSql: string, downSql: string): string
   
   return summary.join(' | ');
 }
-
-export function estimateMigrationRisk(upSql: string, downSql: string): 'LOW' | 'MEDIUM' | 'HIGH' {
-  const upOperations = extractMigrationOperations(upSql);
-  const downOperations = extractMigrationOperations(downSql);
-  
-  const highRiskOperations = [
-    'DROP TABLE', 'DROP COLUMN', 'ALTER COLUMN', 'DROP TYPE', 'DROP EXTENSION',
-    'DROP VIEW', 'DROP TRIGGER', 'DROP FUNCTION', 'DROP POLICY', 'DISABLE RLS'
-  ];
-  const mediumRiskOperations = [
-    'CREATE INDEX', 'DROP INDEX', 'ADD CONSTRAINT', 'DROP CONSTRAINT',
-    'CREATE VIEW', 'CREATE TRIGGER', 'CREATE POLICY', 'ENABLE RLS'
-  ];
-  
-  const hasHighRisk = [...upOperations, ...downOperations].some(op => 
-    highRiskOperations.includes(op)
-  );
-  
-  if (hasHighRisk) {
-    return 'HIGH';
-  }
-  
-  const hasMediumRisk = [...upOperations, ...downOperations].some(op => 
-    mediumRiskOperations.includes(op)
-  );
-  
-  if (hasMediumRisk) {
-    return 'MEDIUM';
-  }
-  
-  return 'LOW';
-}
\ No newline at end of file
@@ -0,0 +1,265 @@
+import { ConstraintType, DatabaseSchema, Table } from '../types/schema.js';
+
+export type ErDiagramFormat = 'mermaid' | 'dot' | 'plantuml';
+
+export interface ErDiagramOptions {
+  schemaFilter?: string;
+  tableFilter?: string;
+  // Limits the diagram to tables within `hops` foreign keys of this one; may be schema-qualified
+  focusTable?: string;
+  hops?: number;
+  columns?: 'keys' | 'all' | 'none';
+}
+
+export interface ErEntity {
+  id: string;
+  schema: string;
+  name: string;
+  columns: {
+    name: string;
+    dataType: string;
+    isNullable: boolean;
+    keys: ('PK' | 'FK' | 'UK')[];
+  }[];
+}
+
+// Each end's cardinality as Information Engineering notation reads it
+export type ErCardinality = 'exactly_one' | 'zero_or_one' | 'zero_or_many';
+
+export interface ErRelationship {
+  name: string;
+  // The referenced table
+  parent: string;
+  // The referencing table, holding the foreign key
+  child: string;
+  columns: string[];
+  referencedColumns: string[];
+  parentCardinality: ErCardinality;
+  childCardinality: ErCardinality;
+}
+
+export interface ErModel {
+  entities: ErEntity[];
+  relationships: ErRelationship[];
+}
+
+const tableKey = (schema: string, name: string) => `${schema}.${name}`;
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(column => b.includes(column));
+}
+
+function foreignKeys(table: Table) {
+  return (table.constraints || []).filter(c => c.type === ConstraintType.FOREIGN_KEY && c.referencedTable);
+}
+
+/**
+ * Collects the tables and foreign keys to draw. Filters match substrings like
+ * analyze_schema's; the focus neighbourhood follows foreign keys in both
+ * directions, so it includes the tables referencing the focus table as well as
+ * the ones it references.
+ */
+export function buildErModel(schema: DatabaseSchema, options: ErDiagramOptions = {}): ErModel {
+  const { schemaFilter, tableFilter, focusTable, hops = 1, columns = 'keys' } = options;
+
+  // Partitions are drawn as their parent
+  const partitionKeys = new Set((schema.partitions || []).map(p => tableKey(p.schema, p.name)));
+  let tables = (schema.tables || []).filter(t => !partitionKeys.has(tableKey(t.schema, t.name)));
+  if (schemaFilter) tables = tables.filter(t => t.schema.includes(schemaFilter));
+  if (tableFilter) tables = tables.filter(t => t.name.includes(tableFilter));
+
+  const byKey = new Map(tables.map(t => [tableKey(t.schema, t.name), t]));
+  const referencedKey = (table: Table, constraint: Table['constraints'][number]) =>
+    tableKey(constraint.referencedSchema || table.schema, constraint.referencedTable!);
+
+  if (focusTable) {
+    const focus = tables.find(t =>
+      focusTable.includes('.') ? tableKey(t.schema, t.name) === focusTable : t.name === focusTable
+    );
+    if (!focus) {
+      throw new Error(`Focus table ${focusTable} not found`);
+    }
+
+    const neighbours = new Map<string, Set<string>>();
+    const link = (a: string, b: string) => {
+      if (!neighbours.has(a)) neighbours.set(a, new Set());
+      neighbours.get(a)!.add(b);
+    };
+    for (const table of tables) {
+      for (const fk of foreignKeys(table)) {
+        const from = tableKey(table.schema, table.name);
+        const to = referencedKey(table, fk);
+        link(from, to);
+        link(to, from);
+      }
+    }
+
+    const reached = new Set([tableKey(focus.schema, focus.name)]);
+    let frontier = [...reached];
+    for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+      frontier = frontier.flatMap(key => [...(neighbours.get(key) || [])]).filter(key => !reached.has(key));
+      frontier.forEach(key => reached.add(key));
+    }
+    tables = tables.filter(t => reached.has(tableKey(t.schema, t.name)));
+  }
+
+  // Bare table names are used as identifiers unless two schemas share one
+  const nameCounts = new Map<string, number>();
+  tables.forEach(t => nameCounts.set(t.name, (nameCounts.get(t.name) || 0) + 1));
+  const entityId = (schemaName: string, name: string) =>
+    (nameCounts.get(name) || 0) > 1 ? `${schemaName}__${name}` : name;
+
+  const included = new Set(tables.map(t => tableKey(t.schema, t.name)));
+  const relationships: ErRelationship[] = [];
+  const entities: ErEntity[] = tables.map(table => {
+    const constraints = table.constraints || [];
+    const primaryKey = constraints.find(c => c.type === ConstraintType.PRIMARY_KEY);
+    const uniqueSets = constraints
+      .filter(c => c.type === ConstraintType.PRIMARY_KEY || c.type === ConstraintType.UNIQUE)
+      .map(c => c.columns);
+    const fkColumns = new Set(foreignKeys(table).flatMap(fk => fk.columns));
+    const uniqueColumns = new Set(
+      constraints.filter(c => c.type === ConstraintType.UNIQUE && c.columns.length === 1).map(c => c.columns[0])
+    );
+
+    for (const fk of foreignKeys(table)) {
+      const parentKey = referencedKey(table, fk);
+      if (!included.has(parentKey)) continue;
+      const [parentSchema, parentName] = [fk.referencedSchema || table.schema, fk.referencedTable!];
+      const nullable = fk.columns.some(name => table.columns.find(c => c.name === name)?.isNullable ?? true);
+      relationships.push({
+        name: fk.name,
+        parent: entityId(parentSchema, parentName),
+        child: entityId(table.schema, table.name),
+        columns: fk.columns,
+        referencedColumns: fk.referencedColumns || [],
+        parentCardinality: nullable ? 'zero_or_one' : 'exactly_one',
+        // A foreign key that is also unique makes a one-to-one relationship
+        childCardinality: uniqueSets.some(set => sameColumns(set, fk.columns)) ? 'zero_or_one' : 'zero_or_many',
+      });
+    }
+
+    const shown = [...(table.columns || [])]
+      .sort((a, b) => a.ordinalPosition - b.ordinalPosition)
+      .map(column => {
+        const keys: ErEntity['columns'][number]['keys'] = [];
+        if (primaryKey?.columns.includes(column.name)) keys.push('PK');
+        if (fkColumns.has(column.name)) keys.push('FK');
+        if (uniqueColumns.has(column.name)) keys.push('UK');
+        return { name: column.name, dataType: column.dataType, isNullable: column.isNullable, keys };
+      })
+      .filter(column => columns === 'all' || (columns === 'keys' && column.keys.length > 0));
+
+    return {
+      id: entityId(table.schema, table.name),
+      schema: table.schema,
+      name: table.name,
+      columns: shown,
+    };
+  });
+
+  return { entities, relationships };
+}
+
+// Crow's foot markers for the left (parent) and right (child) ends of a line
+const CROWS_FOOT: Record<ErCardinality, { left: string; right: string }> = {
+  exactly_one: { left: '||', right: '||' },
+  zero_or_one: { left: '|o', right: 'o|' },
+  zero_or_many: { left: '}o', right: 'o{' },
+};
+
+const DOT_ARROWS: Record<ErCardinality, string> = {
+  exactly_one: 'teetee',
+  zero_or_one: 'teeodot',
+  zero_or_many: 'crowodot',
+};
+
+// Mermaid attribute types are a single word
+const mermaidType = (dataType: string) => dataType.replace(/\s+/g, '_').replace(/[^\w()[\]-]/g, '');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function renderMermaid(model: ErModel): string {
+  const lines = ['erDiagram'];
+  for (const entity of model.entities) {
+    if (entity.columns.length === 0) {
+      lines.push(`  ${entity.id}`);
+      continue;
+    }
+    lines.push(`  ${entity.id} {`);
+    for (const column of entity.columns) {
+      const keys = column.keys.length > 0 ? ` ${column.keys.join(',')}` : '';
+      lines.push(`    ${mermaidType(column.dataType)} ${column.name}${keys}`);
+    }
+    lines.push('  }');
+  }
+  for (const rel of model.relationships) {
+    const marker = `${CROWS_FOOT[rel.parentCardinality].left}--${CROWS_FOOT[rel.childCardinality].right}`;
+    lines.push(`  ${rel.parent} ${marker} ${rel.child} : "${rel.columns.join(', ')}"`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function renderDot(model: ErModel): string {
+  const lines = [
+    'digraph er {',
+    '  graph [rankdir=LR];',
+    '  node [shape=plaintext, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10, dir=both];',
+  ];
+  for (const entity of model.entities) {
+    const rows = entity.columns.map(column => {
+      const keys = column.keys.length > 0 ? ` [${column.keys.join(', ')}]` : '';
+      return `<tr><td align="left">${escapeHtml(column.name)}${keys}</td><td align="left">${escapeHtml(column.dataType)}</td></tr>`;
+    });
+    lines.push(
+      `  "${entity.id}" [label=<<table border="0" cellborder="1" cellspacing="0">` +
+      `<tr><td colspan="2" bgcolor="lightgrey"><b>${escapeHtml(`${entity.schema}.${entity.name}`)}</b></td></tr>` +
+      `${rows.join('')}</table>>];`
+    );
+  }
+  for (const rel of model.relationships) {
+    lines.push(
+      `  "${rel.child}" -> "${rel.parent}" [label="${rel.columns.join(', ')}", ` +
+      `arrowtail=${DOT_ARROWS[rel.childCardinality]}, arrowhead=${DOT_ARROWS[rel.parentCardinality]}];`
+    );
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function renderPlantUml(model: ErModel): string {
+  const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+  for (const entity of model.entities) {
+    lines.push(`entity "${entity.schema}.${entity.name}" as ${entity.id} {`);
+    const keyColumns = entity.columns.filter(column => column.keys.includes('PK'));
+    const otherColumns = entity.columns.filter(column => !column.keys.includes('PK'));
+    // "*" marks mandatory columns; primary key columns go above the separator
+    const format = (column: ErEntity['columns'][number]) => {
+      const keys = column.keys.map(key => ` <<${key}>>`).join('');
+      return `  ${column.isNullable ? '' : '* '}${column.name} : ${column.dataType}${keys}`;
+    };
+    keyColumns.forEach(column => lines.push(format(column)));
+    if (keyColumns.length > 0) lines.push('  --');
+    otherColumns.forEach(column => lines.push(format(column)));
+    lines.push('}', '');
+  }
+  for (const rel of model.relationships) {
+    const marker = `${CROWS_FOOT[rel.parentCardinality].left}--${CROWS_FOOT[rel.childCardinality].right}`;
+    lines.push(`${rel.parent} ${marker} ${rel.child} : ${rel.columns.join(', ')}`);
+  }
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+export function renderErDiagram(model: ErModel, format: ErDiagramFormat): string {
+  switch (format) {
+    case 'dot':
+      return renderDot(model);
+    case 'plantuml':
+      return renderPlantUml(model);
+    default:
+      return renderMermaid(model);
+  }
+}
@@ -0,0 +1,166 @@
+import { Column } from '../types/schema.js';
+
+export type ResolvedColumnType = Pick<
+  Column,
+  'dataType' | 'udtName' | 'characterMaximumLength' | 'numericPrecision' | 'numericScale'
+> & {
+  // Set for serial pseudo-types, which become an integer column with a sequence default
+  serial?: boolean;
+};
+
+interface BuiltinType {
+  dataType: string;
+  udtName: string;
+  numericPrecision?: number;
+  numericScale?: number;
+}
+
+const BUILTIN_TYPES: Record<string, BuiltinType> = {
+  integer: { dataType: 'integer', udtName: 'int4', numericPrecision: 32, numericScale: 0 },
+  bigint: { dataType: 'bigint', udtName: 'int8', numericPrecision: 64, numericScale: 0 },
+  smallint: { dataType: 'smallint', udtName: 'int2', numericPrecision: 16, numericScale: 0 },
+  real: { dataType: 'real', udtName: 'float4', numericPrecision: 24 },
+  'double precision': { dataType: 'double precision', udtName: 'float8', numericPrecision: 53 },
+  numeric: { dataType: 'numeric', udtName: 'numeric' },
+  'character varying': { dataType: 'character varying', udtName: 'varchar' },
+  character: { dataType: 'character', udtName: 'bpchar' },
+  text: { dataType: 'text', udtName: 'text' },
+  boolean: { dataType: 'boolean', udtName: 'bool' },
+  'timestamp without time zone': { dataType: 'timestamp without time zone', udtName: 'timestamp' },
+  'timestamp with time zone': { dataType: 'timestamp with time zone', udtName: 'timestamptz' },
+  'time without time zone': { dataType: 'time without time zone', udtName: 'time' },
+  'time with time zone': { dataType: 'time with time zone', udtName: 'timetz' },
+  date: { dataType: 'date', udtName: 'date' },
+  interval: { dataType: 'interval', udtName: 'interval' },
+  uuid: { dataType: 'uuid', udtName: 'uuid' },
+  json: { dataType: 'json', udtName: 'json' },
+  jsonb: { dataType: 'jsonb', udtName: 'jsonb' },
+  bytea: { dataType: 'bytea', udtName: 'bytea' },
+  inet: { dataType: 'inet', udtName: 'inet' },
+  cidr: { dataType: 'cidr', udtName: 'cidr' },
+  macaddr: { dataType: 'macaddr', udtName: 'macaddr' },
+  money: { dataType: 'money', udtName: 'money' },
+  xml: { dataType: 'xml', udtName: 'xml' },
+  tsvector: { dataType: 'tsvector', udtName: 'tsvector' },
+  tsquery: { dataType: 'tsquery', udtName: 'tsquery' },
+  point: { dataType: 'point', udtName: 'point' },
+  oid: { dataType: 'oid', udtName: 'oid' },
+  bit: { dataType: 'bit', udtName: 'bit' },
+  'bit varying': { dataType: 'bit varying', udtName: 'varbit' },
+};
+
+const TYPE_ALIASES: Record<string, string> = {
+  int: 'integer',
+  int4: 'integer',
+  int8: 'bigint',
+  int2: 'smallint',
+  float4: 'real',
+  float8: 'double precision',
+  decimal: 'numeric',
+  varchar: 'character varying',
+  char: 'character',
+  bpchar: 'character',
+  bool: 'boolean',
+  timestamp: 'timestamp without time zone',
+  timestamptz: 'timestamp with time zone',
+  time: 'time without time zone',
+  timetz: 'time with time zone',
+  varbit: 'bit varying',
+};
+
+const SERIAL_TYPES: Record<string, string> = {
+  serial: 'integer',
+  serial4: 'integer',
+  bigserial: 'bigint',
+  serial8: 'bigint',
+  smallserial: 'smallint',
+  serial2: 'smallint',
+};
+
+/**
+ * Maps a type as written in DDL (`varchar(255)`, `int[]`, `timestamptz`,
+ * `public.mood`) to the shape information_schema.columns reports for it.
+ */
+export function resolveColumnType(declaredType: string): ResolvedColumnType {
+  let type = declaredType.trim().replace(/\s+/g, ' ').toLowerCase();
+
+  let isArray = false;
+  if (/(\[\d*\])+$/.test(type) || / array(\[\d*\])?$/.test(type)) {
+    isArray = true;
+    type = type.replace(/(\s*\[\d*\])+$/, '').replace(/ array(\[\d*\])?$/, '').trim();
+  }
+
+  const modifierMatch = /\(([^)]*)\)/.exec(type);
+  const modifiers = modifierMatch
+    ? modifierMatch[1].split(',').map(m => parseInt(m.trim(), 10)).filter(m => !isNaN(m))
+    : [];
+  type = type.replace(/\s*\([^)]*\)/, '').trim().replace(/"/g, '');
+
+  if (SERIAL_TYPES[type]) {
+    return { ...toColumnType(BUILTIN_TYPES[SERIAL_TYPES[type]]), serial: true };
+  }
+
+  if (type === 'float') {
+    type = modifiers.length > 0 && modifiers[0] <= 24 ? 'real' : 'double precision';
+  }
+  type = TYPE_ALIASES[type] ?? type;
+  if (type.startsWith('pg_catalog.')) {
+    const unqualified = type.slice('pg_catalog.'.length);
+    type = TYPE_ALIASES[unqualified] ?? unqualified;
+  }
+
+  const builtin = BUILTIN_TYPES[type];
+  const elementUdt = builtin ? builtin.udtName : type.split('.').pop()!;
+
+  if (isArray) {
+    return { dataType: 'ARRAY', udtName: `_${elementUdt}` };
+  }
+
+  if (!builtin) {
+    return { dataType: 'USER-DEFINED', udtName: elementUdt };
+  }
+
+  const resolved = toColumnType(builtin);
+  if (type === 'character varying' || type === 'bit varying') {
+    resolved.characterMaximumLength = modifiers[0];
+  } else if (type === 'character' || type === 'bit') {
+    resolved.characterMaximumLength = modifiers[0] ?? 1;
+  } else if (type === 'numeric' && modifiers.length > 0) {
+    resolved.numericPrecision = modifiers[0];
+    resolved.numericScale = modifiers[1] ?? 0;
+  }
+
+  return resolved;
+}
+
+function toColumnType(builtin: BuiltinType): ResolvedColumnType {
+  return {
+    dataType: builtin.dataType,
+    udtName: builtin.udtName,
+    numericPrecision: builtin.numericPrecision,
+    numericScale: builtin.numericScale,
+  };
+}
+
+/**
+ * Builds an identifier the way PostgreSQL names implicit objects
+ * (`users_pkey`, `users_email_key`, `users_id_seq`): joined with underscores
+ * and truncated to 63 bytes by shortening the longer part first.
+ */
+export function makeObjectName(name1: string, name2: string | undefined, label: string): string {
+  const maxLength = 63;
+  let part1 = name1;
+  let part2 = name2 ?? '';
+  const overhead = label.length + 1 + (name2 ? 1 : 0);
+  const available = maxLength - overhead;
+
+  while (part1.length + part2.length > available) {
+    if (part1.length > part2.length) {
+      part1 = part1.slice(0, -1);
+    } else {
+      part2 = part2.slice(0, -1);
+    }
+  }
+
+  return [part1, part2, label].filter(Boolean).join('_');
+}
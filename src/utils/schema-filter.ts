@@ -8,6 +8,11 @@ export interface FilteredSchema {
     totalFunctions: number;
     totalEnums: number;
     totalExtensions: number;
+    totalMaterializedViews: number;
+    totalSequences: number;
+    totalPartitions: number;
+    totalDomains: number;
+    totalCompositeTypes: number;
     keyBusinessTables: string[];
     systemTables: string[];
     relationships: string[];
@@ -113,15 +118,18 @@ export class SchemaFilter {
     switch (intent) {
       case 'query_generation':
         return {
-          tables: schema.tables?.filter(this.isBusinessTable).slice(0, 20),
+          tables: schema.tables?.filter(table => this.isBusinessTable(table)).slice(0, 20),
           views: schema.views?.slice(0, 10),
           enums: schema.enums,
+          // Column types may refer to these
+          domains: schema.domains,
+          compositeTypes: schema.compositeTypes,
           functions: schema.functions?.filter(f => f.name.includes('get') || f.name.includes('find')).slice(0, 5)
         };
       
       case 'relationships':
         return {
-          tables: schema.tables?.filter(this.isBusinessTable).map(table => ({
+          tables: schema.tables?.filter(table => this.isBusinessTable(table)).map(table => ({
             ...table,
             columns: table.columns?.filter(col => 
               table.constraints?.some(c => 
@@ -136,12 +144,15 @@ export class SchemaFilter {
         return {
           tables: schema.tables?.slice(0, 30),
           indexes: schema.indexes,
-          triggers: schema.triggers
+          triggers: schema.triggers,
+          sequences: schema.sequences,
+          partitions: schema.partitions,
+          domains: schema.domains
         };
       
       default:
         return {
-          tables: schema.tables?.filter(this.isBusinessTable).slice(0, 15),
+          tables: schema.tables?.filter(table => this.isBusinessTable(table)).slice(0, 15),
           views: schema.views?.slice(0, 5),
           functions: schema.functions?.slice(0, 3),
           enums: schema.enums
@@ -173,11 +184,12 @@ export class SchemaFilter {
         options
       });
 
-      // Filter tables based on business relevance
-      const allTables = schema.tables || [];
+      // Filter tables based on business relevance; partitions are represented by their parent
+      const partitionNames = new Set((schema.partitions || []).map(p => `${p.schema}.${p.name}`));
+      const allTables = (schema.tables || []).filter(t => !partitionNames.has(`${t.schema}.${t.name}`));
       const businessTables = includeSystemSchemas ? 
         allTables : 
-        allTables.filter(this.isBusinessTable);
+        allTables.filter(table => this.isBusinessTable(table));
       
       const systemTables = allTables.filter(t => !this.isBusinessTable(t));
 
@@ -222,6 +234,11 @@ export class SchemaFilter {
           totalFunctions: schema.functions?.length || 0,
           totalEnums: schema.enums?.length || 0,
           totalExtensions: schema.extensions?.length || 0,
+          totalMaterializedViews: schema.materializedViews?.length || 0,
+          totalSequences: schema.sequences?.length || 0,
+          totalPartitions: schema.partitions?.length || 0,
+          totalDomains: schema.domains?.length || 0,
+          totalCompositeTypes: schema.compositeTypes?.length || 0,
           keyBusinessTables: businessTables.slice(0, 10).map(t => t.name),
           systemTables: systemTables.slice(0, 5).map(t => t.name),
           relationships: relationships.slice(0, 20)
@@ -267,7 +284,7 @@ export class SchemaFilter {
     tableCount: number;
     hasComplexRelationships: boolean;
   } {
-    const businessTables = (schema.tables || []).filter(this.isBusinessTable);
+    const businessTables = (schema.tables || []).filter(table => this.isBusinessTable(table));
     const keyTables = businessTables.slice(0, 5).map(t => t.name);
     
     const totalRelationships = businessTables.reduce((count, table) => {
@@ -281,4 +298,36 @@ export class SchemaFilter {
       hasComplexRelationships: totalRelationships > 10
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Removes a table along with its indexes, partitions, grants and owned
+   * sequences, e.g. the migrations bookkeeping table before comparing a live
+   * schema against one replayed from migrations. `tableName` may be
+   * schema-qualified.
+   */
+  static withoutTable(schema: DatabaseSchema, tableName: string): DatabaseSchema {
+    const [tableSchema, name] = tableName.includes('.') ? tableName.split('.', 2) : [undefined, tableName];
+    const matches = (schemaName: string, table: string) =>
+      table === name && (tableSchema === undefined || schemaName === tableSchema);
+    const ownedByTable = (ownedBy?: string) => {
+      if (!ownedBy) return false;
+      const [ownerSchema, ownerTable] = ownedBy.split('.');
+      return matches(ownerSchema, ownerTable);
+    };
+
+    return {
+      ...schema,
+      tables: schema.tables.filter(t => !matches(t.schema, t.name)),
+      indexes: (schema.indexes || []).filter(i => !matches(i.schemaName, i.tableName)),
+      ...(schema.partitions && {
+        partitions: schema.partitions.filter(p => !matches(p.schema, p.name) && !matches(p.parentSchema, p.parentName)),
+      }),
+      ...(schema.grants && {
+        grants: schema.grants.filter(g => g.objectType !== 'table' || !matches(g.schema, g.name)),
+      }),
+      ...(schema.sequences && {
+        sequences: schema.sequences.filter(s => !ownedByTable(s.ownedBy)),
+      }),
+    };
+  }
+}
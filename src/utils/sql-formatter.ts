@@ -1,3 +1,6 @@
+import { Column, Constraint, ConstraintType } from '../types/schema.js';
+import { SqlTokenType, tokenizeSql, splitSqlStatements, isKeyword, isPunctuation } from './sql-parser.js';
+
 export function formatSql(sql: string): string {
   if (!sql.trim()) return '';
   
@@ -162,27 +165,40 @@ export function extractIndexName(sql: string): string | null {
 
 export function validateSqlSyntax(sql: string): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
-  
-  // Basic syntax checks
-  const openParens = (sql.match(/\(/g) || []).length;
-  const closeParens = (sql.match(/\)/g) || []).length;
-  
-  if (openParens !== closeParens) {
+  const tokens = tokenizeSql(sql);
+
+  // Basic syntax checks, ignoring anything inside strings, comments and quoted identifiers
+  const unterminatedLabels: Partial<Record<SqlTokenType, string>> = {
+    string: 'Unterminated string literal',
+    quoted_identifier: 'Unterminated quoted identifier',
+    dollar_string: 'Unterminated dollar-quoted string',
+    comment: 'Unterminated block comment',
+  };
+  for (const token of tokens.filter(t => t.unterminated)) {
+    errors.push(`${unterminatedLabels[token.type]} at position ${token.start + 1}`);
+  }
+
+  let depth = 0;
+  for (const token of tokens) {
+    if (isPunctuation(token, '(')) depth++;
+    if (isPunctuation(token, ')')) depth--;
+    if (depth < 0) break;
+  }
+  if (depth !== 0) {
     errors.push('Mismatched parentheses');
   }
   
   // Check for common SQL injection patterns (basic)
-  const suspiciousPatterns = [
-    /;\s*DROP\s+/i,
-    /;\s*DELETE\s+/i,
-    /;\s*UPDATE\s+/i,
-    /UNION.*SELECT/i,
-  ];
-  
-  for (const pattern of suspiciousPatterns) {
-    if (pattern.test(sql)) {
-      errors.push('Potentially unsafe SQL pattern detected');
-    }
+  const statements = splitSqlStatements(sql);
+  const chainedDestructive = statements
+    .slice(1)
+    .some(statement => isKeyword(statement.tokens[0], 'DROP', 'DELETE', 'UPDATE'));
+  const words = tokens.filter(t => t.type === 'word');
+  const unionIndex = words.findIndex(t => isKeyword(t, 'UNION'));
+  const unionSelect = unionIndex !== -1 && words.slice(unionIndex + 1).some(t => isKeyword(t, 'SELECT'));
+
+  if (chainedDestructive || unionSelect) {
+    errors.push('Potentially unsafe SQL pattern detected');
   }
   
   return {
@@ -343,4 +359,106 @@ export function formatTriggerFunctionBody(functionBody: string): string {
   });
   
   return indentedLines.join('\n');
-}
\ No newline at end of file
+}
+// Identifier and column definition helpers
+const SIMPLE_IDENTIFIER = /^[a-z_][a-z0-9_$]*$/;
+const RESERVED_WORDS = new Set([
+  'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'both', 'case', 'cast',
+  'check', 'collate', 'column', 'constraint', 'create', 'current_catalog', 'current_date', 'current_role',
+  'current_time', 'current_timestamp', 'current_user', 'default', 'deferrable', 'desc', 'distinct', 'do',
+  'else', 'end', 'except', 'false', 'fetch', 'for', 'foreign', 'from', 'grant', 'group', 'having', 'in',
+  'initially', 'intersect', 'into', 'lateral', 'leading', 'limit', 'localtime', 'localtimestamp', 'not',
+  'null', 'offset', 'on', 'only', 'or', 'order', 'placing', 'primary', 'references', 'returning', 'select',
+  'session_user', 'some', 'symmetric', 'table', 'then', 'to', 'trailing', 'true', 'union', 'unique', 'user',
+  'using', 'variadic', 'when', 'where', 'window', 'with',
+]);
+
+export function quoteIdentifier(name: string): string {
+  if (SIMPLE_IDENTIFIER.test(name) && !RESERVED_WORDS.has(name)) {
+    return name;
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export function qualifiedName(schema: string | undefined, name: string): string {
+  return schema ? `${quoteIdentifier(schema)}.${quoteIdentifier(name)}` : quoteIdentifier(name);
+}
+
+export function formatColumnType(column: Pick<Column, 'dataType' | 'udtName' | 'characterMaximumLength' | 'numericPrecision' | 'numericScale'>): string {
+  const dataType = column.dataType;
+
+  if (dataType === 'USER-DEFINED') {
+    return column.udtName || 'text';
+  }
+
+  if (dataType === 'ARRAY') {
+    const elementType = column.udtName?.replace(/^_/, '') || 'text';
+    return `${elementType}[]`;
+  }
+
+  if ((dataType === 'character varying' || dataType === 'character') && column.characterMaximumLength) {
+    return `${dataType === 'character' ? 'char' : 'varchar'}(${column.characterMaximumLength})`;
+  }
+
+  if (dataType === 'numeric' && column.numericPrecision) {
+    return column.numericScale !== undefined && column.numericScale !== null
+      ? `numeric(${column.numericPrecision}, ${column.numericScale})`
+      : `numeric(${column.numericPrecision})`;
+  }
+
+  return dataType;
+}
+
+export function formatColumnDefinition(column: Column): string {
+  let type = formatColumnType(column);
+  let defaultValue = column.defaultValue;
+
+  // nextval() defaults point at sequences owned by the column, serial recreates them
+  const serialTypes: Record<string, string> = { integer: 'serial', bigint: 'bigserial', smallint: 'smallserial' };
+  if (defaultValue && /^nextval\('.+'::regclass\)$/.test(defaultValue) && serialTypes[type]) {
+    type = serialTypes[type];
+    defaultValue = undefined;
+  }
+
+  const parts = [quoteIdentifier(column.name), type];
+
+  if (column.isGenerated && column.generationExpression) {
+    parts.push(`GENERATED ALWAYS AS (${column.generationExpression}) STORED`);
+  } else if (column.isIdentity) {
+    parts.push(`GENERATED ${column.identityGeneration ?? 'BY DEFAULT'} AS IDENTITY`);
+  } else if (defaultValue) {
+    parts.push(`DEFAULT ${defaultValue}`);
+  }
+
+  if (!column.isNullable) {
+    parts.push('NOT NULL');
+  }
+
+  return parts.join(' ');
+}
+
+export function formatConstraintDefinition(constraint: Constraint): string {
+  if (constraint.definition) {
+    return constraint.definition;
+  }
+
+  const columns = constraint.columns.map(quoteIdentifier).join(', ');
+
+  switch (constraint.type) {
+    case ConstraintType.PRIMARY_KEY:
+      return `PRIMARY KEY (${columns})`;
+    case ConstraintType.UNIQUE:
+      return `UNIQUE (${columns})`;
+    case ConstraintType.CHECK:
+      return `CHECK (${constraint.checkClause})`;
+    case ConstraintType.FOREIGN_KEY: {
+      const referenced = qualifiedName(constraint.referencedSchema, constraint.referencedTable || '');
+      const referencedColumns = (constraint.referencedColumns || []).map(quoteIdentifier).join(', ');
+      const onDelete = constraint.onDelete && constraint.onDelete !== 'NO ACTION' ? ` ON DELETE ${constraint.onDelete}` : '';
+      const onUpdate = constraint.onUpdate && constraint.onUpdate !== 'NO ACTION' ? ` ON UPDATE ${constraint.onUpdate}` : '';
+      return `FOREIGN KEY (${columns}) REFERENCES ${referenced} (${referencedColumns})${onDelete}${onUpdate}`;
+    }
+    default:
+      return `${constraint.type} (${columns})`;
+  }
+}
@@ -0,0 +1,567 @@
+export type SqlTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'word'
+  | 'quoted_identifier'
+  | 'string'
+  | 'dollar_string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  value: string;
+  start: number;
+  end: number;
+  unterminated?: boolean;
+}
+
+export interface SqlStatement {
+  text: string;
+  start: number;
+  end: number;
+  // Significant tokens only (no whitespace or comments), offsets relative to `text`
+  tokens: SqlToken[];
+}
+
+export interface QualifiedName {
+  schema?: string;
+  name: string;
+}
+
+export interface AlterTableAction {
+  action: string;
+  tokens: SqlToken[];
+}
+
+export interface ParsedStatement extends SqlStatement {
+  command: string;
+  objectType?: string;
+  name?: QualifiedName;
+  names: QualifiedName[];
+  table?: QualifiedName;
+  orReplace: boolean;
+  ifExists: boolean;
+  ifNotExists: boolean;
+  unique: boolean;
+  concurrently: boolean;
+  alterActions: AlterTableAction[];
+}
+
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?:';
+const PUNCTUATION_CHARS = '(),;.[]';
+
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let pos = 0;
+
+  const push = (type: SqlTokenType, end: number, unterminated = false) => {
+    const token: SqlToken = { type, value: sql.slice(pos, end), start: pos, end };
+    if (unterminated) {
+      token.unterminated = true;
+    }
+    tokens.push(token);
+    pos = end;
+  };
+
+  while (pos < sql.length) {
+    const char = sql[pos];
+    const next = sql[pos + 1];
+
+    if (/\s/.test(char)) {
+      let end = pos + 1;
+      while (end < sql.length && /\s/.test(sql[end])) end++;
+      push('whitespace', end);
+      continue;
+    }
+
+    if (char === '-' && next === '-') {
+      const newline = sql.indexOf('\n', pos);
+      push('comment', newline === -1 ? sql.length : newline);
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      // Block comments nest in PostgreSQL
+      let depth = 1;
+      let end = pos + 2;
+      while (end < sql.length && depth > 0) {
+        if (sql[end] === '/' && sql[end + 1] === '*') {
+          depth++;
+          end += 2;
+        } else if (sql[end] === '*' && sql[end + 1] === '/') {
+          depth--;
+          end += 2;
+        } else {
+          end++;
+        }
+      }
+      push('comment', end, depth > 0);
+      continue;
+    }
+
+    if (char === "'" || (/[eEbBxXnN]/.test(char) && next === "'")) {
+      const quoteStart = char === "'" ? pos : pos + 1;
+      const backslashEscapes = char === 'e' || char === 'E';
+      const { end, terminated } = scanQuoted(sql, quoteStart, "'", backslashEscapes);
+      push('string', end, !terminated);
+      continue;
+    }
+
+    if (char === '"') {
+      const { end, terminated } = scanQuoted(sql, pos, '"', false);
+      push('quoted_identifier', end, !terminated);
+      continue;
+    }
+
+    if (char === '$') {
+      if (next !== undefined && /[0-9]/.test(next)) {
+        let end = pos + 1;
+        while (end < sql.length && /[0-9]/.test(sql[end])) end++;
+        push('parameter', end);
+        continue;
+      }
+      const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(pos));
+      if (tagMatch) {
+        const tag = tagMatch[0];
+        const close = sql.indexOf(tag, pos + tag.length);
+        push('dollar_string', close === -1 ? sql.length : close + tag.length, close === -1);
+        continue;
+      }
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && next !== undefined && /[0-9]/.test(next))) {
+      const match = /^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/.exec(sql.slice(pos));
+      push('number', pos + match![0].length);
+      continue;
+    }
+
+    if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+      let end = pos + 1;
+      while (end < sql.length && /[A-Za-z0-9_$\u0080-\uffff]/.test(sql[end])) end++;
+      push('word', end);
+      continue;
+    }
+
+    if (PUNCTUATION_CHARS.includes(char)) {
+      push('punctuation', pos + 1);
+      continue;
+    }
+
+    if (OPERATOR_CHARS.includes(char)) {
+      let end = pos + 1;
+      while (
+        end < sql.length &&
+        OPERATOR_CHARS.includes(sql[end]) &&
+        !(sql[end] === '-' && sql[end + 1] === '-') &&
+        !(sql[end] === '/' && sql[end + 1] === '*')
+      ) {
+        end++;
+      }
+      push('operator', end);
+      continue;
+    }
+
+    push('operator', pos + 1);
+  }
+
+  return tokens;
+}
+
+function scanQuoted(
+  sql: string,
+  quoteStart: number,
+  quote: string,
+  backslashEscapes: boolean
+): { end: number; terminated: boolean } {
+  let end = quoteStart + 1;
+  while (end < sql.length) {
+    const char = sql[end];
+    if (backslashEscapes && char === '\\') {
+      end += 2;
+      continue;
+    }
+    if (char === quote) {
+      if (sql[end + 1] === quote) {
+        end += 2;
+        continue;
+      }
+      return { end: end + 1, terminated: true };
+    }
+    end++;
+  }
+  return { end: sql.length, terminated: false };
+}
+
+export function isSignificant(token: SqlToken): boolean {
+  return token.type !== 'whitespace' && token.type !== 'comment';
+}
+
+export function isKeyword(token: SqlToken | undefined, ...keywords: string[]): boolean {
+  return !!token && token.type === 'word' && keywords.includes(token.value.toUpperCase());
+}
+
+export function isPunctuation(token: SqlToken | undefined, value: string): boolean {
+  return !!token && token.type === 'punctuation' && token.value === value;
+}
+
+/**
+ * Splits SQL into statements on top-level semicolons. Semicolons inside
+ * strings, dollar-quoted bodies, comments, quoted identifiers, parentheses
+ * and SQL-standard `BEGIN ATOMIC ... END` function bodies are ignored.
+ */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+  let parenDepth = 0;
+  let atomicDepth = 0;
+  let caseDepth = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      const start = current[0].start;
+      const end = current[current.length - 1].end;
+      statements.push({
+        text: sql.slice(start, end),
+        start,
+        end,
+        tokens: current.map(token => ({ ...token, start: token.start - start, end: token.end - start })),
+      });
+    }
+    current = [];
+    parenDepth = 0;
+    atomicDepth = 0;
+    caseDepth = 0;
+  };
+
+  for (const token of tokenizeSql(sql)) {
+    if (!isSignificant(token)) {
+      continue;
+    }
+
+    if (isPunctuation(token, ';') && parenDepth === 0 && atomicDepth === 0) {
+      flush();
+      continue;
+    }
+
+    if (isPunctuation(token, '(')) {
+      parenDepth++;
+    } else if (isPunctuation(token, ')')) {
+      parenDepth = Math.max(0, parenDepth - 1);
+    } else if (isKeyword(token, 'ATOMIC') && isKeyword(current[current.length - 1], 'BEGIN')) {
+      atomicDepth++;
+    } else if (atomicDepth > 0 && isKeyword(token, 'CASE')) {
+      caseDepth++;
+    } else if (atomicDepth > 0 && isKeyword(token, 'END')) {
+      if (caseDepth > 0) {
+        caseDepth--;
+      } else {
+        atomicDepth--;
+      }
+    }
+
+    current.push(token);
+  }
+
+  flush();
+  return statements;
+}
+
+/**
+ * Splits a token list on a separator at parenthesis depth zero, e.g. the
+ * column and constraint definitions of a CREATE TABLE.
+ */
+export function splitTopLevel(tokens: SqlToken[], separator: string = ','): SqlToken[][] {
+  const parts: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (isPunctuation(token, '(') || isPunctuation(token, '[')) {
+      depth++;
+    } else if (isPunctuation(token, ')') || isPunctuation(token, ']')) {
+      depth--;
+    } else if (depth === 0 && token.type === 'punctuation' && token.value === separator) {
+      parts.push(current);
+      current = [];
+      continue;
+    }
+    current.push(token);
+  }
+
+  if (current.length > 0) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Returns the index just past the parenthesised group opening at `index`.
+ */
+export function skipParenthesized(tokens: SqlToken[], index: number): number {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (isPunctuation(tokens[i], '(')) {
+      depth++;
+    } else if (isPunctuation(tokens[i], ')')) {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Returns the tokens between the parenthesis opening at `index` and its match.
+ */
+export function parenthesizedTokens(tokens: SqlToken[], index: number): SqlToken[] {
+  return tokens.slice(index + 1, skipParenthesized(tokens, index) - 1);
+}
+
+/**
+ * Recovers the original source text spanned by a run of tokens.
+ */
+export function tokensToSql(statementText: string, tokens: SqlToken[]): string {
+  if (tokens.length === 0) {
+    return '';
+  }
+  return statementText.slice(tokens[0].start, tokens[tokens.length - 1].end);
+}
+
+export function identifierValue(token: SqlToken): string {
+  if (token.type === 'quoted_identifier') {
+    return token.value.slice(1, -1).replace(/""/g, '"');
+  }
+  // Unquoted identifiers are folded to lower case
+  return token.value.toLowerCase();
+}
+
+export function isIdentifier(token: SqlToken | undefined): boolean {
+  return !!token && (token.type === 'word' || token.type === 'quoted_identifier');
+}
+
+export function readQualifiedName(
+  tokens: SqlToken[],
+  index: number
+): { name: QualifiedName; next: number } | null {
+  if (!isIdentifier(tokens[index])) {
+    return null;
+  }
+
+  const parts = [identifierValue(tokens[index])];
+  let next = index + 1;
+  while (isPunctuation(tokens[next], '.') && isIdentifier(tokens[next + 1])) {
+    parts.push(identifierValue(tokens[next + 1]));
+    next += 2;
+  }
+
+  const name = parts[parts.length - 1];
+  const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  return { name: schema ? { schema, name } : { name }, next };
+}
+
+export function formatQualifiedName(name: QualifiedName, defaultSchema?: string): string {
+  const schema = name.schema ?? defaultSchema;
+  return schema ? `${schema}.${name.name}` : name.name;
+}
+
+const OBJECT_TYPES = [
+  'MATERIALIZED VIEW',
+  'FOREIGN TABLE',
+  'EVENT TRIGGER',
+  'TABLE',
+  'INDEX',
+  'VIEW',
+  'FUNCTION',
+  'PROCEDURE',
+  'TRIGGER',
+  'POLICY',
+  'TYPE',
+  'DOMAIN',
+  'EXTENSION',
+  'SEQUENCE',
+  'SCHEMA',
+  'RULE',
+  'ROLE',
+  'AGGREGATE',
+];
+
+const CREATE_MODIFIERS = ['TEMP', 'TEMPORARY', 'UNLOGGED', 'GLOBAL', 'LOCAL', 'RECURSIVE', 'CONSTRAINT', 'TRUSTED'];
+
+export function parseSqlStatement(statement: SqlStatement): ParsedStatement {
+  const tokens = statement.tokens;
+  const parsed: ParsedStatement = {
+    ...statement,
+    command: tokens[0]?.type === 'word' ? tokens[0].value.toUpperCase() : '',
+    names: [],
+    orReplace: false,
+    ifExists: false,
+    ifNotExists: false,
+    unique: false,
+    concurrently: false,
+    alterActions: [],
+  };
+
+  if (!['CREATE', 'ALTER', 'DROP'].includes(parsed.command)) {
+    return parsed;
+  }
+
+  let i = 1;
+  if (parsed.command === 'CREATE' && isKeyword(tokens[i], 'OR') && isKeyword(tokens[i + 1], 'REPLACE')) {
+    parsed.orReplace = true;
+    i += 2;
+  }
+  while (parsed.command === 'CREATE' && (isKeyword(tokens[i], ...CREATE_MODIFIERS) || isKeyword(tokens[i], 'UNIQUE'))) {
+    if (isKeyword(tokens[i], 'UNIQUE')) {
+      parsed.unique = true;
+    }
+    i++;
+  }
+
+  const objectType = OBJECT_TYPES.find(type => {
+    const words = type.split(' ');
+    return words.every((word, offset) => isKeyword(tokens[i + offset], word));
+  });
+  if (!objectType) {
+    return parsed;
+  }
+  parsed.objectType = objectType;
+  i += objectType.split(' ').length;
+
+  if (isKeyword(tokens[i], 'CONCURRENTLY')) {
+    parsed.concurrently = true;
+    i++;
+  }
+  if (isKeyword(tokens[i], 'IF') && isKeyword(tokens[i + 1], 'NOT') && isKeyword(tokens[i + 2], 'EXISTS')) {
+    parsed.ifNotExists = true;
+    i += 3;
+  } else if (isKeyword(tokens[i], 'IF') && isKeyword(tokens[i + 1], 'EXISTS')) {
+    parsed.ifExists = true;
+    i += 2;
+  }
+  if (parsed.command === 'ALTER' && isKeyword(tokens[i], 'ONLY')) {
+    i++;
+  }
+
+  // CREATE INDEX may omit the index name
+  if (!(objectType === 'INDEX' && isKeyword(tokens[i], 'ON'))) {
+    while (i < tokens.length) {
+      const qualified = readQualifiedName(tokens, i);
+      if (!qualified) break;
+      parsed.names.push(qualified.name);
+      i = qualified.next;
+      if (isPunctuation(tokens[i], '(') && parsed.command === 'DROP') {
+        i = skipParenthesized(tokens, i);
+      }
+      if (parsed.command !== 'DROP' || !isPunctuation(tokens[i], ',')) break;
+      i++;
+    }
+    parsed.name = parsed.names[0];
+  }
+
+  if (['INDEX', 'TRIGGER', 'POLICY', 'RULE'].includes(objectType)) {
+    const onIndex = tokens.findIndex((token, index) => index >= i && isKeyword(token, 'ON'));
+    if (onIndex !== -1) {
+      const tableStart = isKeyword(tokens[onIndex + 1], 'ONLY') ? onIndex + 2 : onIndex + 1;
+      parsed.table = readQualifiedName(tokens, tableStart)?.name;
+    }
+  }
+
+  if (parsed.command === 'ALTER' && objectType === 'TABLE') {
+    parsed.alterActions = splitTopLevel(tokens.slice(i)).map(actionTokens => ({
+      action: classifyAlterTableAction(actionTokens),
+      tokens: actionTokens,
+    }));
+  }
+
+  return parsed;
+}
+
+function classifyAlterTableAction(tokens: SqlToken[]): string {
+  const [first, second, third] = tokens;
+  const constraintWords = ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'CHECK', 'FOREIGN', 'EXCLUDE'];
+
+  if (isKeyword(first, 'ADD')) {
+    return isKeyword(second, ...constraintWords) ? 'ADD CONSTRAINT' : 'ADD COLUMN';
+  }
+  if (isKeyword(first, 'DROP')) {
+    return isKeyword(second, 'CONSTRAINT') ? 'DROP CONSTRAINT' : 'DROP COLUMN';
+  }
+  if (isKeyword(first, 'ALTER')) {
+    return isKeyword(second, 'CONSTRAINT') ? 'ALTER CONSTRAINT' : 'ALTER COLUMN';
+  }
+  if (isKeyword(first, 'RENAME')) {
+    if (isKeyword(second, 'TO')) return 'RENAME TABLE';
+    if (isKeyword(second, 'CONSTRAINT')) return 'RENAME CONSTRAINT';
+    return 'RENAME COLUMN';
+  }
+  if (isKeyword(first, 'ENABLE', 'DISABLE') && isKeyword(second, 'ROW') && isKeyword(third, 'LEVEL')) {
+    return isKeyword(first, 'ENABLE') ? 'ENABLE RLS' : 'DISABLE RLS';
+  }
+  if (isKeyword(first, 'FORCE', 'NO') && tokens.some(token => isKeyword(token, 'SECURITY'))) {
+    return isKeyword(first, 'FORCE') ? 'FORCE RLS' : 'NO FORCE RLS';
+  }
+  if (isKeyword(first, 'SET') && isKeyword(second, 'SCHEMA')) {
+    return 'SET SCHEMA';
+  }
+  return 'OTHER';
+}
+
+export function parseSql(sql: string): ParsedStatement[] {
+  return splitSqlStatements(sql).map(parseSqlStatement);
+}
+
+const CAST_TYPE_CONTINUATIONS = ['VARYING', 'PRECISION', 'WITH', 'WITHOUT', 'TIME', 'ZONE'];
+
+/**
+ * Reduces an expression or query to a canonical form so text written in a
+ * migration can be compared with what PostgreSQL reports back from its
+ * catalogs: whitespace, comments, letter case, parentheses, qualifiers,
+ * `::type` casts and quotes around numeric literals are ignored.
+ */
+export function normalizeSqlForComparison(sql: string): string {
+  const tokens = tokenizeSql(sql).filter(isSignificant);
+  const parts: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'operator' && token.value === '::') {
+      i++;
+      while (isPunctuation(tokens[i + 1], '.') && tokens[i + 2]) i += 2;
+      while (isKeyword(tokens[i + 1], ...CAST_TYPE_CONTINUATIONS)) i++;
+      if (isPunctuation(tokens[i + 1], '(')) i = skipParenthesized(tokens, i + 1) - 1;
+      while (isPunctuation(tokens[i + 1], '[') && isPunctuation(tokens[i + 2], ']')) i += 2;
+      continue;
+    }
+    if (isIdentifier(token) && isPunctuation(tokens[i + 1], '.') && isIdentifier(tokens[i + 2])) {
+      i++;
+      continue;
+    }
+    if (token.type === 'punctuation' && (token.value === '(' || token.value === ')' || token.value === ';')) {
+      continue;
+    }
+
+    const previous = tokens[i - 1];
+    if (
+      token.type === 'operator' && token.value === '-' && tokens[i + 1]?.type === 'number' &&
+      (!previous || previous.type === 'operator' || previous.type === 'punctuation' || previous.type === 'word')
+    ) {
+      // Unary minus: PostgreSQL reports negative defaults as '-1'::integer
+      parts.push(`-${tokens[i + 1].value}`);
+      i++;
+    } else if (token.type === 'word') {
+      parts.push(token.value.toLowerCase());
+    } else if (token.type === 'string' && /^'-?\d+(\.\d+)?'$/.test(token.value)) {
+      parts.push(token.value.slice(1, -1));
+    } else {
+      parts.push(token.value);
+    }
+  }
+
+  return parts.join(' ');
+}